@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import minimist from 'minimist';
+import { sortBy } from 'lodash';
+
+import SqlDatabase from '../src/database/database';
+import DataStorage from '../src/storage';
+import Memoizer from '../src/utils/cache';
+import ScoringEngine, { loadRuleSet } from '../src/analyzer/scoring/scoring';
+import Evaluator, {
+  EvaluationSample,
+  formatReport,
+  Label,
+  validateDataset,
+} from '../src/analyzer/evaluation';
+import { JsonStorage } from '../src/utils/storage';
+import { TokenContract } from '../src/types';
+import { TOKEN_OBSERVATION_TIME } from '../src/analyzer/modules/observation-time';
+import { RULES_PATH } from '../src/contants';
+import {
+  createSnapshotProvider,
+  createTokenAnalyzer,
+  loadTokenData,
+  openDatabaseCopy,
+} from './utils';
+
+// Runs the analyzer over a labeled dataset of tokens and prints the confusion matrix,
+// precision/recall/F1 overall, per module and per rule, and the list of misclassified tokens.
+//
+// Usage:
+//   npx ts-node scripts/evaluate.ts --dataset ./labels.json --db ./tests/data/database.db --snapshot ./snapshot.json [--rpc <url>] [--chain 1] [--out ./report.json]
+//
+// The dataset is a JSON file with token addresses by label: { "spam": [...], "phishing": [...], "legit": [...] }.
+// The database must contain the tokens and their transactions, e.g. filled by tests/scripts/fill-database.ts.
+// Each token is analyzed at the end of its observation time, with the data recorded up to that time only.
+
+const argv = minimist(process.argv.slice(2), {
+  string: ['dataset', 'db', 'snapshot', 'rpc', 'out'],
+  default: { chain: 1 },
+});
+
+async function main() {
+  if (!argv.dataset || !argv.db || !argv.snapshot) {
+    throw new Error(
+      'Usage: evaluate --dataset <labels.json> --db <database.db> --snapshot <snapshot.json> [--rpc <url>]',
+    );
+  }
+
+  const chainId = Number(argv.chain);
+  const datasetPath = path.resolve(argv.dataset);
+
+  const dataset = validateDataset(
+    await new JsonStorage<any>(path.dirname(datasetPath), path.basename(datasetPath)).read(),
+  );
+
+  const provider = await createSnapshotProvider(argv.snapshot, chainId, argv.rpc);
+  const { database, close } = await openDatabaseCopy(argv.db);
+  // Data is copied from the database as of the time of the analysis
+  const storage = new DataStorage(new SqlDatabase());
+  const analyzer = await createTokenAnalyzer(provider, storage, new Memoizer(), chainId);
+
+  try {
+    await storage.initialize();
+
+    const tokens = new Map((await database.getTokens()).map((t) => [t.address, t]));
+    const labeledTokens: { token: TokenContract; label: Label }[] = [];
+
+    for (const [label, addresses] of Object.entries(dataset)) {
+      for (const address of addresses!) {
+        const token = tokens.get(address.toLowerCase());
+
+        if (!token) {
+          console.warn(`Skipped token that is not in the database: ${address}`);
+          continue;
+        }
+
+        labeledTokens.push({ token, label: label as Label });
+      }
+    }
+
+    const samples: EvaluationSample[] = [];
+
+    // The storage only grows, so the tokens are analyzed in chronological order
+    for (const { token, label } of sortBy(labeledTokens, (t) => t.token.timestamp)) {
+      const timestamp = token.timestamp + TOKEN_OBSERVATION_TIME;
+      const blockNumber = await loadTokenData(database, storage, token, timestamp);
+
+      const result = await analyzer.createTask(token, timestamp, blockNumber).run();
+      samples.push({ token, label, analysis: result.analysis });
+    }
+
+    const report = new Evaluator(
+      new ScoringEngine(await loadRuleSet(RULES_PATH, chainId)),
+    ).evaluate(samples);
+
+    console.log(formatReport(report));
+
+    if (argv.out) {
+      await fs.promises.writeFile(path.resolve(argv.out), JSON.stringify(report, null, 2));
+    }
+  } finally {
+    await provider.save();
+    await storage.db.close();
+    await close();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,75 @@
+import minimist from 'minimist';
+
+import SqlDatabase from '../src/database/database';
+import DataStorage from '../src/storage';
+import Memoizer from '../src/utils/cache';
+import { formatExplanation } from '../src/analyzer/scoring/explanation';
+import { TOKEN_OBSERVATION_TIME } from '../src/analyzer/modules/observation-time';
+import {
+  createSnapshotProvider,
+  createTokenAnalyzer,
+  loadTokenData,
+  openDatabaseCopy,
+} from './utils';
+
+// Analyzes a single token and explains the verdict: which rule made it spam,
+// how the confidence was calculated, and the evidence collected by each module.
+//
+// Usage:
+//   npx ts-node scripts/explain.ts --db ./storage.db --token 0x... --snapshot ./snapshot.json [--rpc <url>] [--chain 1] [--timestamp <unix>] [--json]
+//
+// By default, the token is analyzed at the end of its observation time, with the data recorded up to that time only.
+
+const argv = minimist(process.argv.slice(2), {
+  string: ['db', 'token', 'snapshot', 'rpc'],
+  boolean: ['json'],
+  default: { chain: 1 },
+});
+
+async function main() {
+  if (!argv.db || !argv.token || !argv.snapshot) {
+    throw new Error(
+      'Usage: explain --db <storage.db> --token <address> --snapshot <snapshot.json> [--rpc <url>]',
+    );
+  }
+
+  const chainId = Number(argv.chain);
+  const provider = await createSnapshotProvider(argv.snapshot, chainId, argv.rpc);
+  const { database, close } = await openDatabaseCopy(argv.db);
+  // Data is copied from the database as of the time of the analysis
+  const storage = new DataStorage(new SqlDatabase());
+  const analyzer = await createTokenAnalyzer(provider, storage, new Memoizer(), chainId);
+
+  try {
+    await storage.initialize();
+
+    const address = argv.token.toLowerCase();
+    const token = (await database.getTokens()).find((t) => t.address === address);
+
+    if (!token) throw new Error(`Cannot find token: ${argv.token}`);
+
+    const timestamp = argv.timestamp
+      ? Number(argv.timestamp)
+      : token.timestamp + TOKEN_OBSERVATION_TIME;
+    const blockNumber = await loadTokenData(database, storage, token, timestamp);
+
+    const result = await analyzer.createTask(token, timestamp, blockNumber).run();
+    const explanation = result.explain();
+
+    if (argv.json) {
+      console.log(JSON.stringify(explanation, null, 2));
+    } else {
+      console.log(`Token: ${token.address} (ERC-${token.type}), block: ${blockNumber}`);
+      console.log(formatExplanation(explanation));
+    }
+  } finally {
+    await provider.save();
+    await storage.db.close();
+    await close();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import minimist from 'minimist';
+
+import SqlDatabase from '../src/database/database';
+import DataStorage from '../src/storage';
+import Memoizer from '../src/utils/cache';
+import { SpamDetector } from '../src/detector';
+import { Replayer } from '../src/replay';
+import { TICK_INTERVAL } from '../src/contants';
+import { createSnapshotProvider, createTokenAnalyzer } from './utils';
+
+// Re-runs the analyzer over a recorded database and prints the findings the bot would have emitted, in JSONL.
+//
+// Usage:
+//   npx ts-node scripts/replay.ts --db ./storage.db --snapshot ./snapshot.json [--chain 1] [--out ./findings.jsonl]
+//
+// The snapshot contains responses of the JSON-RPC node. If --rpc is specified,
+// all requests are sent to the node and their responses are saved to the snapshot, so that the next run can be done offline.
+
+const argv = minimist(process.argv.slice(2), {
+  string: ['db', 'snapshot', 'rpc', 'out'],
+  default: { chain: 1, interval: TICK_INTERVAL },
+});
+
+async function main() {
+  if (!argv.db || !argv.snapshot) {
+    throw new Error('Usage: replay --db <storage.db> --snapshot <snapshot.json> [--rpc <url>]');
+  }
+
+  const interval = Number(argv.interval);
+  if (!(interval > 0)) {
+    throw new Error(
+      `Invalid tick interval: ${argv.interval}. It must be a positive number of seconds`,
+    );
+  }
+
+  const chainId = Number(argv.chain);
+  const provider = await createSnapshotProvider(argv.snapshot, chainId, argv.rpc);
+
+  const source = new SqlDatabase(path.resolve(argv.db));
+  const storage = new DataStorage(new SqlDatabase());
+  const memoizer = new Memoizer();
+  const analyzer = await createTokenAnalyzer(provider, storage, memoizer, chainId);
+  // Simulated time is moved by the replayer, so the detector re-analyzes tokens on every step
+  const detector = new SpamDetector(provider, analyzer, storage, memoizer, 0);
+  const replayer = new Replayer(source, storage, detector, interval);
+
+  const output: NodeJS.WritableStream = argv.out
+    ? fs.createWriteStream(path.resolve(argv.out))
+    : process.stdout;
+
+  try {
+    for await (const { timestamp, blockNumber, findings } of replayer.run()) {
+      for (const finding of findings) {
+        output.write(JSON.stringify({ timestamp, blockNumber, finding }) + '\n');
+      }
+    }
+  } finally {
+    await provider.save();
+    await source.close();
+    if (output !== process.stdout) output.end();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
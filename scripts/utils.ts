@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+
+import DataStorage from '../src/storage';
+import SqlDatabase from '../src/database/database';
+import { ISqlDatabase } from '../src/database/types';
+import { TokenContract } from '../src/types';
+import Memoizer from '../src/utils/cache';
+import TokenProvider from '../src/utils/tokens';
+import TokenAnalyzer from '../src/analyzer/analyzer';
+import HoneyPotChecker, { EnsLeaderBoard } from '../src/utils/honeypot';
+import { PriceOracle, PriceSnapshot } from '../src/utils/prices';
+import { JsonStorage } from '../src/utils/storage';
+import { RpcSnapshot, SnapshotProvider } from '../src/utils/snapshot-provider';
+import { loadRuleSet } from '../src/analyzer/scoring/scoring';
+import { loadModulesConfig } from '../src/analyzer/config';
+import { loadPlugins } from '../src/analyzer/registry';
+import { getRecordedItems } from '../src/replay';
+import { DATA_PATH, RULES_PATH } from '../src/contants';
+
+// If the RPC url is specified, responses of the node are recorded to the snapshot, otherwise they are replayed from it
+export async function createSnapshotProvider(
+  snapshotPath: string,
+  chainId: number,
+  rpcUrl?: string,
+) {
+  const filePath = path.resolve(snapshotPath);
+
+  const provider = new SnapshotProvider(
+    new JsonStorage<RpcSnapshot>(path.dirname(filePath), path.basename(filePath)),
+    chainId,
+    rpcUrl ? 'record' : 'replay',
+    rpcUrl ? new ethers.providers.StaticJsonRpcProvider(rpcUrl, chainId) : undefined,
+  );
+  await provider.load();
+
+  return provider;
+}
+
+// Lists of the data folder are used as is, without updating them from the network
+export async function createTokenAnalyzer(
+  provider: ethers.providers.JsonRpcProvider,
+  storage: DataStorage,
+  memoizer: Memoizer,
+  chainId: number,
+) {
+  await loadPlugins(DATA_PATH);
+
+  const tokenProvider = new TokenProvider(
+    new JsonStorage<any>(DATA_PATH, 'tokens.json'),
+    Number.MAX_VALUE,
+  );
+  const honeyPotChecker = new HoneyPotChecker(
+    new EnsLeaderBoard(new JsonStorage<any>(DATA_PATH, 'leaders.json'), Number.MAX_VALUE),
+    new Set(await new JsonStorage<string[]>(DATA_PATH, 'honeypots.json').read()),
+    new PriceOracle(new JsonStorage<PriceSnapshot>(DATA_PATH, 'prices.json')),
+  );
+
+  return new TokenAnalyzer(
+    provider,
+    honeyPotChecker,
+    tokenProvider,
+    storage,
+    memoizer,
+    await loadRuleSet(RULES_PATH, chainId),
+    await loadModulesConfig(DATA_PATH, chainId),
+  );
+}
+
+// Opens a temporary copy of the database, since initialization applies the pending migrations
+// and the input file must be left untouched. Closing the database removes the copy.
+export async function openDatabaseCopy(dbPath: string) {
+  const folderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'database-'));
+  const filePath = path.join(folderPath, path.basename(dbPath));
+
+  await fs.promises.copyFile(path.resolve(dbPath), filePath);
+
+  const database = new SqlDatabase(filePath);
+  await database.initialize();
+
+  const close = async () => {
+    await database.close();
+    await fs.promises.rm(folderPath, { recursive: true, force: true });
+  };
+
+  return { database, close };
+}
+
+// Copies the tokens deployed by the given time and the transactions and events of the token up to that time
+// to the storage, so that the analyzer doesn't see the data recorded later. Returns the last block at that time.
+export async function loadTokenData(
+  source: ISqlDatabase,
+  storage: DataStorage,
+  token: TokenContract,
+  timestamp: number,
+) {
+  for (const t of await source.getTokens()) {
+    if (t.timestamp <= timestamp) storage.addToken(t);
+  }
+
+  let blockNumber = token.blockNumber;
+
+  for (const item of await getRecordedItems(source, token)) {
+    if (item.transaction.timestamp > timestamp) break;
+
+    await item.insert(storage.db);
+    blockNumber = Math.max(blockNumber, item.transaction.blockNumber);
+  }
+
+  return blockNumber;
+}
@@ -0,0 +1,132 @@
+import { isEqual } from 'lodash';
+import { BlockEvent, Finding } from 'forta-agent';
+
+import { provideHandleBlock } from './agent';
+import { SpamDetector } from './detector';
+import DataStorage from './storage';
+import SqlDatabase from './database/database';
+import Memoizer from './utils/cache';
+import TokenAnalyzer from './analyzer/analyzer';
+import { AnalysisContext, AnalyzerTask } from './analyzer/types';
+import { DataContainer, TokenContract, TokenStandard } from './types';
+
+describe('handleBlock', () => {
+  const deployer = '0x0000000000000000000000000000000000000002';
+
+  const token: TokenContract = {
+    type: TokenStandard.Erc20,
+    address: '0x0000000000000000000000000000000000000001',
+    deployer,
+    blockNumber: 10,
+    timestamp: 1000,
+  };
+
+  // Deployed in the abandoned block
+  const droppedToken: TokenContract = {
+    ...token,
+    address: '0x0000000000000000000000000000000000000005',
+    blockNumber: 15,
+    timestamp: 1500,
+  };
+
+  const reportedAnalysis: AnalysisContext = {
+    Airdrop: { detected: true },
+    HighActivity: { detected: true },
+  };
+
+  let storage: DataStorage;
+
+  const createDetector = async (analysis: AnalysisContext) => {
+    const analyzer = {
+      createTask: (token: TokenContract, timestamp: number, blockNumber: number) => {
+        const task = { token, timestamp, blockNumber } as AnalyzerTask;
+        task.run = async () =>
+          ({
+            analysis,
+            interpret: () => ({
+              isSpam: true,
+              isPhishing: false,
+              isFinalized: false,
+              confidence: 0.5,
+            }),
+            explain: () => undefined,
+            compare: (prevAnalysis?: AnalysisContext) => ({
+              isUpdated: !isEqual(analysis, prevAnalysis),
+              isChanged: !isEqual(analysis, prevAnalysis),
+            }),
+          } as any);
+        return task;
+      },
+    } as unknown as TokenAnalyzer;
+
+    const detector = new SpamDetector({} as any, analyzer, storage, new Memoizer(), 0);
+    await detector.initialize();
+
+    return detector;
+  };
+
+  const createBlockEvent = (number: number) =>
+    ({
+      blockNumber: number,
+      block: {
+        number,
+        timestamp: number * 100,
+        hash: `0x${number}`,
+        parentHash: `0x${number - 1}`,
+      },
+    } as unknown as BlockEvent);
+
+  beforeEach(async () => {
+    storage = new DataStorage(new SqlDatabase());
+  });
+
+  afterEach(async () => {
+    await storage.db.close();
+  });
+
+  it('should update and remove the verdicts of the tokens affected by a reorg', async () => {
+    // The indicator found in the abandoned blocks is gone after the re-analysis
+    const detector = await createDetector({ Airdrop: { detected: true } });
+    const handleReorg = jest.fn();
+
+    detector.addTokenToWatchList(token.type, token);
+    detector.addTokenToWatchList(droppedToken.type, droppedToken);
+
+    for (const [{ address }, isPhishing] of [
+      [token, false],
+      [droppedToken, true],
+    ] as const) {
+      await storage.db.addAnalysis({
+        token: address,
+        blockNumber: 16,
+        timestamp: 1600,
+        analysis: reportedAnalysis,
+        interpretation: { isSpam: true, isPhishing, isFinalized: false, confidence: 0.7 },
+      });
+    }
+
+    const handleBlock = provideHandleBlock({
+      provider: { updateBlockNumber: jest.fn(), logStats: jest.fn() },
+      reorgDetector: { handleBlock: handleReorg },
+      retention: { run: jest.fn() },
+      detector,
+      storage,
+      previousBlock: createBlockEvent(16).block,
+    } as unknown as DataContainer);
+
+    const findings: Finding[] = [];
+
+    handleReorg.mockResolvedValueOnce(15);
+    findings.push(...(await handleBlock(createBlockEvent(17))));
+    await detector.wait();
+    handleReorg.mockResolvedValueOnce(null);
+    findings.push(...(await handleBlock(createBlockEvent(18))));
+
+    expect(findings.map((f) => [f.alertId, f.metadata.tokenAddress]).sort()).toStrictEqual([
+      ['PHISHING-TOKEN-REMOVE', droppedToken.address],
+      ['SPAM-TOKEN-REMOVE', droppedToken.address],
+      ['SPAM-TOKEN-UPDATE', token.address],
+    ]);
+    expect(storage.getTokens()).toStrictEqual([token]);
+  });
+});
@@ -17,30 +17,49 @@ import duration from 'dayjs/plugin/duration';
 import Logger from './utils/logger';
 import { combine, findCreatedContracts, identifyTokenInterface } from './utils/helpers';
 import {
-  createPhishingNewFinding,
+  createAnalysisFindings,
+  createDroppedTokenFindings,
   createPhishingRemoveFinding,
-  createPhishingUpdateFinding,
-  createSpamNewFinding,
   createSpamRemoveFinding,
-  createSpamUpdateFinding,
 } from './findings';
-import { SpamDetector } from './detector';
+import { DetectorCheckpoint, SpamDetector } from './detector';
 import SqlDatabase from './database/database';
+import PostgresDatabase from './database/postgres';
+import { ISqlDatabase } from './database/types';
 import HoneyPotChecker, { EnsLeaderBoard } from './utils/honeypot';
+import { CoinGeckoPriceSource, PriceOracle, PriceSnapshot } from './utils/prices';
+import { PortfolioChecker } from './utils/portfolio';
 import TokenAnalyzer from './analyzer/analyzer';
+import { loadRuleSet } from './analyzer/scoring/scoring';
+import { loadModulesConfig } from './analyzer/config';
+import { loadPlugins } from './analyzer/registry';
 import TokenProvider from './utils/tokens';
 import Memoizer from './utils/cache';
+import { SqliteCacheBackend } from './utils/sqlite-cache';
+import { createRpcPool } from './utils/rpc-pool';
 import PhishingMetadataModule from './analyzer/modules/phishing-metadata';
 import DataStorage from './storage';
+import { DataRetention } from './retention';
+import { ReorgDetector } from './utils/reorg';
 import { AlertRemoveItem, DataContainer } from './types';
 import {
   IS_DEVELOPMENT,
   IS_DEBUG,
   DEBUG_TARGET_TOKEN,
   DATA_PATH,
+  RULES_PATH,
   DB_FOLDER_PATH,
   DB_FILE_PATH,
+  CACHE_FILE_PATH,
+  POSTGRES_URL,
   FALSE_FINDINGS_URL,
+  TICK_INTERVAL,
+  CHECKPOINT_FILE_NAME,
+  CHECKPOINT_INTERVAL,
+  RETENTION_INTERVAL,
+  REORG_DEPTH,
+  SHUTDOWN_TIMEOUT,
+  PORTFOLIO_CHECK_ENABLED,
 } from './contants';
 import { JsonStorage, mkdir, rmFile } from './utils/storage';
 import { AlertMitigation } from './utils/mitigation';
@@ -49,39 +68,66 @@ import { random } from 'lodash';
 dayjs.extend(duration);
 Logger.level = 'info';
 
-let TICK_INTERVAL = 4 * 60 * 60; // 4h
+let tickInterval = TICK_INTERVAL;
 
 if (IS_DEBUG) {
   Logger.level = 'trace';
   Logger.debug(`Debug mode enabled. Target contract: ${DEBUG_TARGET_TOKEN}`);
-  TICK_INTERVAL = 0;
+  tickInterval = 0;
 }
 
 const data = {} as DataContainer;
+const checkpointStorage = new JsonStorage<DetectorCheckpoint>(DB_FOLDER_PATH, CHECKPOINT_FILE_NAME);
+
+async function saveCheckpoint(data: DataContainer) {
+  // The checkpoint must not be ahead of the database
+  await data.storage.db.wait();
+  await checkpointStorage.write(data.detector.createCheckpoint());
+}
+
+function createDatabase(chainId: number): ISqlDatabase {
+  // Each chain has its own schema, so that bots of all chains can share one database
+  if (POSTGRES_URL) return new PostgresDatabase(POSTGRES_URL, `chain_${chainId}`);
+
+  return new SqlDatabase(DB_FILE_PATH);
+}
 
 const provideInitialize = (data: DataContainer, isDevelopment: boolean): Initialize => {
   return async function initialize() {
-    const provider = getEthersBatchProvider();
-    const network = await provider.getNetwork();
+    const fortaProvider = getEthersBatchProvider();
+    const network = await fortaProvider.getNetwork();
+    const provider = createRpcPool(network.chainId, fortaProvider);
 
     let storage: DataStorage;
     if (isDevelopment) {
       await mkdir(DB_FOLDER_PATH);
       await rmFile(DB_FILE_PATH);
-      storage = new DataStorage(new SqlDatabase(DB_FILE_PATH));
+      await rmFile(CACHE_FILE_PATH);
+      await checkpointStorage.delete();
+      storage = new DataStorage(createDatabase(network.chainId), provider);
     } else {
       await mkdir(DB_FOLDER_PATH);
-      storage = new DataStorage(new SqlDatabase(DB_FILE_PATH));
+      storage = new DataStorage(createDatabase(network.chainId), provider);
     }
 
-    const memoizer = new Memoizer();
+    // Plugins must be loaded before the config, so that their modules can be configured
+    await loadPlugins(DATA_PATH);
+
+    const cacheBackend = new SqliteCacheBackend(CACHE_FILE_PATH);
+    await cacheBackend.initialize();
+
+    const memoizer = new Memoizer(cacheBackend);
     const leaderStorage = new JsonStorage<any>(DATA_PATH, 'leaders.json');
     const honeypotStorage = new JsonStorage<string[]>(DATA_PATH, 'honeypots.json');
     const tokenStorage = new JsonStorage<any>(DATA_PATH, 'tokens.json');
+    const priceStorage = new JsonStorage<PriceSnapshot>(DATA_PATH, 'prices.json');
     const tokenProvider = new TokenProvider(tokenStorage);
+    const priceOracle = new PriceOracle(priceStorage, new CoinGeckoPriceSource());
     const honeyPotChecker = new HoneyPotChecker(
       new EnsLeaderBoard(leaderStorage),
       new Set(await honeypotStorage.read()),
+      priceOracle,
+      PORTFOLIO_CHECK_ENABLED ? new PortfolioChecker(priceOracle, tokenProvider) : null,
     );
     const tokenAnalyzer = new TokenAnalyzer(
       provider,
@@ -89,8 +135,10 @@ const provideInitialize = (data: DataContainer, isDevelopment: boolean): Initial
       tokenProvider,
       storage,
       memoizer,
+      await loadRuleSet(RULES_PATH, network.chainId),
+      await loadModulesConfig(DATA_PATH, network.chainId),
     );
-    const detector = new SpamDetector(provider, tokenAnalyzer, storage, memoizer, TICK_INTERVAL);
+    const detector = new SpamDetector(provider, tokenAnalyzer, storage, memoizer, tickInterval);
     const sharding = new BotSharding({
       redundancy: 3,
       isDevelopment: IS_DEVELOPMENT,
@@ -108,23 +156,61 @@ const provideInitialize = (data: DataContainer, isDevelopment: boolean): Initial
     data.provider = provider;
     data.isDevelopment = isDevelopment;
     data.detector = detector;
-    data.analysisByToken = new Map();
+    data.storage = storage;
+    data.cacheBackend = cacheBackend;
+    data.retention = new DataRetention(detector, storage);
+    data.reorgDetector = new ReorgDetector(provider);
 
     await data.detector.initialize();
+    data.reorgDetector.restore(await storage.db.getBlockHashes({ limit: REORG_DEPTH }));
     await data.sharding.sync(network.chainId);
 
+    try {
+      const checkpoint = await checkpointStorage.read();
+      if (checkpoint) data.detector.restoreCheckpoint(checkpoint);
+    } catch (e) {
+      Logger.error(e, 'Failed to restore the checkpoint');
+    }
+
+    process.once('SIGTERM', provideShutdown(data));
+    process.once('SIGINT', provideShutdown(data));
+
     Logger.warn(`Bot has been successfully initialized.`);
 
     data.isInitialized = true;
   };
 };
 
-const provideHandleBlock = (data: DataContainer): HandleBlock => {
+export const provideHandleBlock = (data: DataContainer): HandleBlock => {
   const isTimeToLog = createTicker(12 * 60 * 60 * 1000); // 12h
+  const isTimeToCheckpoint = createTicker(CHECKPOINT_INTERVAL, Date.now());
+  const isTimeToPrune = createTicker(RETENTION_INTERVAL, Date.now());
+  let isIndexBackfillDone = false;
 
   return async function handleBlock(blockEvent) {
     const findings: Finding[] = [];
 
+    // Lets the pool tell the requests for old blocks, which are sent only to archive endpoints
+    data.provider.updateBlockNumber(blockEvent.blockNumber);
+
+    // The data of the abandoned blocks must be removed before the transactions of the new branch are collected
+    try {
+      const forkBlock = await data.reorgDetector.handleBlock(blockEvent.block);
+
+      if (forkBlock !== null) {
+        const { tokens, droppedTokens } = await data.detector.rollback(forkBlock);
+        Logger.warn(
+          `Chain reorganization: rolled back blocks from ${forkBlock}, ${tokens.length} tokens will be re-analyzed, ` +
+            `${droppedTokens.length} tokens have been dropped`,
+        );
+
+        // The verdicts of the dropped tokens no longer hold
+        findings.push(...createDroppedTokenFindings(droppedTokens));
+      }
+    } catch (e) {
+      Logger.error(e, 'Failed to handle the chain reorganization');
+    }
+
     // handleBlock() is executed before handleTransaction()
     if (data.previousBlock) {
       // We pass to the tick information about the block in which there were previous transactions collected in the storage
@@ -137,65 +223,44 @@ const provideHandleBlock = (data: DataContainer): HandleBlock => {
         await data.detector.wait();
       }
 
-      if (isTimeToLog(blockEvent.block.timestamp)) data.detector.logStats();
+      if (isTimeToLog(blockEvent.block.timestamp)) {
+        data.detector.logStats();
+        data.provider.logStats();
+      }
     }
 
-    const analyses = data.detector.releaseAnalyses();
-    for (const { token, result: currentResult } of analyses) {
-      const previousResult = data.analysisByToken.get(token);
-
-      const { isSpam, isPhishing, isFinalized, confidence } = currentResult.interpret();
-      const { isUpdated } = currentResult.compare(previousResult?.analysis);
-
-      const previousInterpretation = previousResult?.interpret();
-      const previousConfidence = previousInterpretation?.confidence || confidence;
-      const wasSpam = previousInterpretation?.isSpam || false;
-      const wasPhishing = previousInterpretation?.isPhishing || false;
-
-      if (isSpam && !wasSpam) {
-        findings.push(createSpamNewFinding(token, currentResult.analysis, confidence));
+    // Indexes of the transactions stored by the older versions are replaced with the real ones, a batch per block
+    if (!isIndexBackfillDone) {
+      try {
+        isIndexBackfillDone = (await data.storage.backfillTransactionIndexes()) === 0;
+      } catch (e) {
+        Logger.error(e, 'Failed to backfill the transaction indexes');
+      }
+    }
 
-        if (isPhishing) {
-          findings.push(createPhishingNewFinding(token, currentResult.analysis, confidence));
-        }
-      } else if (isSpam && isUpdated) {
-        findings.push(
-          createSpamUpdateFinding(
-            token,
-            currentResult.analysis,
-            previousResult!.analysis,
-            confidence,
-            previousConfidence,
-          ),
-        );
+    findings.push(
+      ...(await createAnalysisFindings(data.detector.releaseAnalyses(), data.storage.db)),
+    );
 
-        if (isPhishing) {
-          findings.push(
-            createPhishingUpdateFinding(
-              token,
-              currentResult.analysis,
-              confidence,
-              previousConfidence,
-            ),
-          );
-        }
-      } else if (!isSpam && wasSpam) {
-        findings.push(createSpamRemoveFinding(token, currentResult.analysis));
+    data.previousBlock = blockEvent.block;
 
-        if (wasPhishing) {
-          findings.push(createPhishingRemoveFinding(token, currentResult.analysis));
-        }
+    // Wall-clock time, so that a crash loses at most one interval of work
+    if (isTimeToCheckpoint(Date.now())) {
+      try {
+        await saveCheckpoint(data);
+      } catch (e) {
+        Logger.error(e, 'Failed to save the checkpoint');
       }
+    }
 
-      if (isFinalized) {
-        data.analysisByToken.delete(token);
-      } else {
-        data.analysisByToken.set(token, currentResult);
+    if (isTimeToPrune(Date.now())) {
+      try {
+        await data.retention.run(blockEvent.block.timestamp);
+      } catch (e) {
+        Logger.error(e, 'Failed to prune the database');
       }
     }
 
-    data.previousBlock = blockEvent.block;
-
     return findings;
   };
 };
@@ -205,7 +270,6 @@ const provideHandleTransaction = (data: DataContainer): HandleTransaction => {
   const isTimeToLogSharding = createTicker(2 * 60 * 60 * 1000); // 2h
 
   return async function handleTransaction(txEvent: TransactionEvent) {
-    // TODO filter db by current block number
     // TODO add indicator for a well-known token from a centralized db
     // TODO monitor "removed liquidity with no further activity"
     // TODO check for a partial match in the name then checking the metadata with the images
@@ -305,6 +369,32 @@ const provideAlertMitigation = (data: DataContainer): HandleBlock => {
   };
 };
 
+const provideShutdown = (data: DataContainer) => {
+  let isShuttingDown = false;
+
+  return async function shutdown(signal: NodeJS.Signals) {
+    if (isShuttingDown) return;
+    isShuttingDown = true;
+
+    Logger.warn(`Received ${signal}. Shutting down...`);
+
+    try {
+      await data.detector.stop(SHUTDOWN_TIMEOUT);
+      await saveCheckpoint(data);
+      await data.storage.db.close();
+      // Let the pending writes of the cache finish, since the process exits right after
+      await data.cacheBackend.wait();
+      await data.cacheBackend.close();
+      Logger.warn('Checkpoint has been saved');
+    } catch (e) {
+      Logger.error(e, 'Failed to shut down gracefully');
+      process.exitCode = 1;
+    }
+
+    process.exit();
+  };
+};
+
 process.on('uncaughtException', (e) => {
   console.error(e);
 });
@@ -1,36 +1,47 @@
 import { ethers } from 'ethers';
-import { isEqual, maxBy } from 'lodash';
+import { isEqual } from 'lodash';
 
 import DataStorage from '../storage';
 import DataTransformer from './transformer';
 import HoneyPotChecker from '../utils/honeypot';
 import Memoizer from '../utils/cache';
+import { AddressCache } from '../utils/address-cache';
+import { AccountClassifier } from '../utils/account-classifier';
+import { MulticallBatcher } from '../utils/multicall';
 import TokenProvider from '../utils/tokens';
 import Logger from '../utils/logger';
 import { AnalysisContext, AnalyzerModule, AnalyzerTask } from './types';
 import { TokenContract } from '../types';
-
-import HighActivityModule, { HighActivityModuleShortMetadata } from './modules/high-activity';
-import AirdropModule, { AirdropModuleShortMetadata } from './modules/airdrop';
-import Erc721MultipleOwnersModule from './modules/multiple-owners';
-import MultipleOwnersModule from './modules/multiple-owners';
-import Erc721NonUniqueTokensModule from './modules/non-unique-tokens';
-import NonUniqueTokens from './modules/non-unique-tokens';
+import ScoringEngine from './scoring/scoring';
+import { DEFAULT_RULE_SET } from './scoring/rules';
+import { RuleSet } from './scoring/types';
+import { ModulesConfig } from './config';
+import { runModules, sortModules } from './dependencies';
+import { ModuleRegistry, moduleRegistry } from './registry';
+
+import HighActivityModule, { HIGH_ACTIVITY_MODULE_KEY } from './modules/high-activity';
+import AirdropModule, { AIRDROP_MODULE_KEY } from './modules/airdrop';
+import Erc721MultipleOwnersModule, { MULTIPLE_OWNERS_MODULE_KEY } from './modules/multiple-owners';
+import Erc721NonUniqueTokensModule, {
+  NON_UNIQUE_TOKENS_MODULE_KEY,
+} from './modules/non-unique-tokens';
 import Erc721FalseTotalSupplyModule from './modules/total-supply';
-import TooManyCreationsModule from './modules/many-creations';
-import TooManyHoneyPotOwnersModule from './modules/honeypot-owners';
-import PhishingMetadataModule, { PhishingModuleMetadata } from './modules/phishing-metadata';
+import TooManyCreationsModule, { TOO_MANY_CREATIONS_MODULE_KEY } from './modules/many-creations';
+import TooManyHoneyPotOwnersModule, {
+  TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY,
+} from './modules/honeypot-owners';
+import PhishingMetadataModule, { PHISHING_METADATA_MODULE_KEY } from './modules/phishing-metadata';
 import SilentMintModule from './modules/silent-mint';
-import HoneypotsDominanceModule from './modules/honeypot-dominance';
+import HoneypotsDominanceModule, { HONEY_POT_SHARE_MODULE_KEY } from './modules/honeypot-dominance';
 import TokenImpersonationModule from './modules/token-impersonation';
-import LowActivityAfterAirdropModule from './modules/low-activity';
-import ObservationTimeModule from './modules/observation-time';
-import TooMuchAirdropActivityModule from './modules/airdrop-activity';
-import SleepMintModule from './modules/sleep-mint';
-import TokenImpersonation from './modules/token-impersonation';
-import PhishingMetadata from './modules/phishing-metadata';
-import SilentMint from './modules/silent-mint';
-import { getIndicators, parseLocation } from '../utils/helpers';
+import LowActivityAfterAirdropModule, { LOW_ACTIVITY_MODULE_KEY } from './modules/low-activity';
+import ObservationTimeModule, {
+  OBSERVATION_TIME_IS_OVER_MODULE_KEY,
+} from './modules/observation-time';
+import TooMuchAirdropActivityModule, {
+  TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY,
+} from './modules/airdrop-activity';
+import SleepMintModule, { SLEEP_MINT_MODULE_KEY } from './modules/sleep-mint';
 
 class TokenAnalyzer {
   private modules: AnalyzerModule[];
@@ -38,6 +49,11 @@ class TokenAnalyzer {
   private transformer: DataTransformer;
   private provider: ethers.providers.JsonRpcProvider;
   private memoizer: Memoizer;
+  private addressCache: AddressCache;
+  private accountClassifier: AccountClassifier;
+  private multicall: MulticallBatcher;
+  private scoring: ScoringEngine;
+  private registry: ModuleRegistry;
 
   constructor(
     provider: ethers.providers.JsonRpcProvider,
@@ -45,28 +61,43 @@ class TokenAnalyzer {
     tokenProvider: TokenProvider,
     storage: DataStorage,
     memoizer: Memoizer,
+    ruleSet: RuleSet = DEFAULT_RULE_SET,
+    config: ModulesConfig = {},
+    registry: ModuleRegistry = moduleRegistry,
   ) {
     this.storage = storage;
     this.provider = provider;
     this.memoizer = memoizer;
+    this.addressCache = new AddressCache(memoizer, provider);
+    this.accountClassifier = new AccountClassifier(this.addressCache, provider);
+    this.multicall = new MulticallBatcher(provider);
     this.transformer = new DataTransformer(storage);
-    this.modules = [
+    this.registry = registry;
+    this.scoring = new ScoringEngine(registry.extendRuleSet(ruleSet));
+    this.modules = sortModules([
       new TokenImpersonationModule(tokenProvider),
-      new AirdropModule(),
-      new TooMuchAirdropActivityModule(),
-      new LowActivityAfterAirdropModule(),
-      new Erc721MultipleOwnersModule(),
-      new Erc721NonUniqueTokensModule(),
+      new AirdropModule(config[AIRDROP_MODULE_KEY]),
+      new TooMuchAirdropActivityModule(config[TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY]),
+      new LowActivityAfterAirdropModule(config[LOW_ACTIVITY_MODULE_KEY]),
+      new Erc721MultipleOwnersModule(config[MULTIPLE_OWNERS_MODULE_KEY]),
+      new Erc721NonUniqueTokensModule(config[NON_UNIQUE_TOKENS_MODULE_KEY]),
       new Erc721FalseTotalSupplyModule(),
       new SilentMintModule(),
-      new SleepMintModule(),
-      new TooManyCreationsModule(),
-      new TooManyHoneyPotOwnersModule(honeyPotChecker),
-      new HoneypotsDominanceModule(honeyPotChecker),
-      new PhishingMetadataModule(),
-      new HighActivityModule(),
-      new ObservationTimeModule(),
-    ];
+      new SleepMintModule(config[SLEEP_MINT_MODULE_KEY]),
+      new TooManyCreationsModule(config[TOO_MANY_CREATIONS_MODULE_KEY]),
+      new TooManyHoneyPotOwnersModule(
+        honeyPotChecker,
+        config[TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY],
+      ),
+      new HoneypotsDominanceModule(honeyPotChecker, config[HONEY_POT_SHARE_MODULE_KEY]),
+      new PhishingMetadataModule(config[PHISHING_METADATA_MODULE_KEY]),
+      new HighActivityModule(config[HIGH_ACTIVITY_MODULE_KEY]),
+      new ObservationTimeModule(config[OBSERVATION_TIME_IS_OVER_MODULE_KEY]),
+      ...registry.createModules(
+        { honeyPotChecker, tokenProvider },
+        config as { [moduleKey: string]: object | undefined },
+      ),
+    ]);
   }
 
   private async scan(token: TokenContract, timestamp: number, blockNumber: number) {
@@ -76,7 +107,7 @@ class TokenAnalyzer {
 
     const privateContext: AnalysisContext = {};
     const publicContext: AnalysisContext = {};
-    for (const module of this.modules) {
+    const scannedModules = await runModules(this.modules, async (module) => {
       const moduleStartTime = performance.now();
       const result = await module.scan({
         token,
@@ -84,20 +115,30 @@ class TokenAnalyzer {
         blockNumber,
         context: privateContext,
         memoizer: this.memoizer,
+        addressCache: this.addressCache,
+        accountClassifier: this.accountClassifier,
+        multicall: this.multicall,
         storage: this.storage,
         transformer: this.transformer,
         provider: this.provider,
       });
       Logger.debug(`Module ${module.key} executed in ${performance.now() - moduleStartTime}ms`);
 
+      return result;
+    });
+
+    for (const module of this.modules) {
+      if (!scannedModules.has(module)) continue;
+
+      const simplifyMetadata =
+        this.registry.getSimplifier(module.key) || module.simplifyMetadata.bind(module);
+
       publicContext[module.key] = {
         detected: privateContext[module.key].detected,
         metadata: privateContext[module.key].metadata
-          ? module.simplifyMetadata(privateContext[module.key].metadata!)
+          ? simplifyMetadata(privateContext[module.key].metadata!)
           : undefined,
       };
-
-      if (result?.interrupt) break;
     }
 
     Logger.debug(`Token ${token.address} scanned in ${performance.now() - scanStartTime}ms`);
@@ -128,56 +169,17 @@ class TokenAnalyzer {
     return {
       analysis: analysis,
       interpret: () => this.interpret(analysis),
+      explain: () => this.explain(analysis),
       compare: (prevAnalysis?: AnalysisContext) => this.compare(analysis, prevAnalysis),
     };
   }
 
   private interpret(analysis: AnalysisContext) {
-    let isSpam = false;
-    let isFinalized = false; // no longer need to monitor this token
-    let isPhishing = analysis[PhishingMetadata.Key]?.detected || false;
-    let confidence = this.calcConfidence(analysis);
-
-    // The evaluation does not use SilentMint module because of FPs,
-    // but it is displayed in the presence of other indicators
-    if (
-      analysis[PhishingMetadataModule.Key]?.detected ||
-      analysis[TokenImpersonation.Key]?.detected ||
-      (analysis[AirdropModule.Key]?.detected &&
-        [
-          MultipleOwnersModule,
-          Erc721FalseTotalSupplyModule,
-          NonUniqueTokens,
-          TooMuchAirdropActivityModule,
-          TooManyCreationsModule,
-          TooManyHoneyPotOwnersModule,
-          HoneypotsDominanceModule,
-          PhishingMetadataModule,
-          SleepMintModule,
-          LowActivityAfterAirdropModule,
-        ].find((Module) => analysis[Module.Key]?.detected))
-    ) {
-      isSpam = true;
-    }
-
-    if (
-      [ObservationTimeModule, HighActivityModule, TooMuchAirdropActivityModule].find(
-        (Module) => analysis[Module.Key]?.detected,
-      )
-    ) {
-      isFinalized = true;
-
-      if (analysis[HighActivityModule.Key].detected) {
-        isSpam = false;
-      }
-    }
+    return this.scoring.interpret(analysis);
+  }
 
-    return {
-      isSpam,
-      isFinalized,
-      isPhishing,
-      confidence,
-    };
+  private explain(analysis: AnalysisContext) {
+    return this.scoring.explain(analysis);
   }
 
   private compare(currAnalysis: AnalysisContext, prevAnalysis?: AnalysisContext) {
@@ -186,26 +188,10 @@ class TokenAnalyzer {
     const currInterpretation = this.interpret(currAnalysis);
     const prevInterpretation = this.interpret(prevAnalysis);
 
-    const modules = [
-      ObservationTimeModule,
-      HighActivityModule,
-      AirdropModule,
-      MultipleOwnersModule,
-      Erc721FalseTotalSupplyModule,
-      TooMuchAirdropActivityModule,
-      SilentMintModule,
-      SleepMintModule,
-      NonUniqueTokens,
-      TooManyCreationsModule,
-      TooManyHoneyPotOwnersModule,
-      HoneypotsDominanceModule,
-      PhishingMetadataModule,
-      TokenImpersonationModule,
-      LowActivityAfterAirdropModule,
-    ];
+    const keys = this.modules.map((module) => module.key);
 
-    const currResults = modules.map((Module) => currAnalysis[Module.Key]?.detected);
-    const prevResults = modules.map((Module) => prevAnalysis[Module.Key]?.detected);
+    const currResults = keys.map((key) => currAnalysis[key]?.detected);
+    const prevResults = keys.map((key) => prevAnalysis[key]?.detected);
 
     return {
       isUpdated:
@@ -216,95 +202,7 @@ class TokenAnalyzer {
   }
 
   public calcConfidence(analysis: AnalysisContext): number {
-    const indicators = getIndicators(analysis);
-
-    const isTokenImpersonation = indicators.includes(TokenImpersonationModule.Key);
-    const isAirdrop = indicators.includes(AirdropModule.Key);
-
-    let confidence = 0.6;
-
-    if (isTokenImpersonation) {
-      confidence = 0.75;
-
-      if (isAirdrop) confidence = 0.8;
-    }
-
-    const nonValuableIndicators = [
-      SilentMint,
-      AirdropModule,
-      ObservationTimeModule,
-      HighActivityModule,
-    ].map((m) => m.Key);
-    const valuableIndicators = indicators.filter((m) => !nonValuableIndicators.includes(m));
-    if (valuableIndicators.length > 1) {
-      confidence *= 1 + valuableIndicators.length / 10;
-    }
-
-    const phishingMetadata = analysis[PhishingMetadataModule.Key]?.metadata as
-      | PhishingModuleMetadata
-      | undefined;
-
-    const description: string =
-      maxBy(Object.values(phishingMetadata?.descriptionByTokenId || {}), (e) => e.length) || '';
-
-    // Too much for phishing?
-    if (description.length >= 2000) {
-      confidence *= 0.8;
-    }
-
-    const urls = phishingMetadata?.urls || [];
-    // Get unique hostnames
-    const hosts = new Set(urls.map((url) => parseLocation(url)?.host).filter((v) => v));
-    if (hosts.size > 1) {
-      // The more unique domains there are, the less likely it is to be phishing
-      const multiplier = Math.max(0.15, 0.8 / ((hosts.size || urls.length) - 1));
-
-      confidence *= multiplier;
-    }
-
-    const receivers =
-      (analysis[AirdropModule.Key]?.metadata as AirdropModuleShortMetadata)?.receiverCount ?? 0;
-    const activeReceivers =
-      (analysis[HighActivityModule.Key]?.metadata as HighActivityModuleShortMetadata)
-        ?.activeReceiverCount ?? 0;
-
-    if (activeReceivers >= 10) {
-      if (activeReceivers >= 100) {
-        confidence *= 0.25;
-      } else if (activeReceivers >= 50) {
-        confidence *= 0.5;
-      } else if (activeReceivers >= 25) {
-        confidence *= 0.75;
-      } else {
-        confidence *= 0.8;
-      }
-    } else {
-      if (receivers >= 1000) {
-        confidence *= 1.2;
-      } else if (receivers >= 100) {
-        confidence *= 1.1;
-      }
-    }
-
-    const activeReceiverRatio =
-      (analysis[HighActivityModule.Key]?.metadata as HighActivityModuleShortMetadata)
-        ?.activeReceiverRatio ?? 0;
-
-    if (activeReceiverRatio >= 0.1) {
-      confidence *= 0.9;
-    }
-
-    const senders: number =
-      (analysis[HighActivityModule.Key]?.metadata as HighActivityModuleShortMetadata)
-        ?.senderCount || 0;
-
-    if (senders >= 300) {
-      confidence *= 0.75;
-    } else if (senders >= 200) {
-      confidence *= 0.85;
-    }
-
-    return Number(Math.min(0.99, confidence).toFixed(3));
+    return this.scoring.calcConfidence(analysis);
   }
 }
 
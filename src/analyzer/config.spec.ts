@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { loadModulesConfig, validateModulesConfig } from './config';
+import ObservationTimeModule, { TOKEN_OBSERVATION_TIME } from './modules/observation-time';
+import HighActivityModule, { SUSPICIOUS_MULTIPLIERS } from './modules/high-activity';
+import { AnalysisContext, ScanParams } from './types';
+import { TokenContract, TokenStandard } from '../types';
+
+describe('modules config', () => {
+  it('should accept valid overrides', () => {
+    const config = {
+      Airdrop: { minReceiversPerTx: 12, airdropWindow: 3 * 24 * 60 * 60 },
+      HighActivity: { suspiciousMultipliers: { Erc721MultipleOwners: 2 } },
+    };
+
+    expect(validateModulesConfig(config, 56)).toBe(config);
+    expect(validateModulesConfig({}, 56)).toEqual({});
+  });
+
+  it('should reject unknown modules and params', () => {
+    expect(() => validateModulesConfig({ Unknown: {} }, 56)).toThrow(
+      'Invalid config for chain 56: Unknown is not a configurable module',
+    );
+    expect(() => validateModulesConfig({ Airdrop: { minReceivers: 1 } }, 56)).toThrow(
+      'Invalid config for chain 56: Airdrop.minReceivers is unknown',
+    );
+    expect(() =>
+      validateModulesConfig({ HighActivity: { suspiciousMultipliers: { Airdrops: 2 } } }, 56),
+    ).toThrow(
+      'Invalid config for chain 56: HighActivity.suspiciousMultipliers.Airdrops is unknown',
+    );
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => validateModulesConfig({ Airdrop: 10 }, 1)).toThrow(
+      'Invalid config for chain 1: Airdrop must be an object',
+    );
+    expect(() => validateModulesConfig({ Airdrop: { minReceiversPerTx: '10' } }, 1)).toThrow(
+      'Invalid config for chain 1: Airdrop.minReceiversPerTx must be a non-negative number',
+    );
+    expect(() => validateModulesConfig({ Airdrop: { minReceiversPerTx: -1 } }, 1)).toThrow(
+      'Invalid config for chain 1: Airdrop.minReceiversPerTx must be a non-negative number',
+    );
+    expect(() =>
+      validateModulesConfig(
+        { HighActivity: { suspiciousMultipliers: { Erc721MultipleOwners: null } } },
+        1,
+      ),
+    ).toThrow(
+      'Invalid config for chain 1: HighActivity.suspiciousMultipliers.Erc721MultipleOwners must be a non-negative number',
+    );
+  });
+
+  describe('loadModulesConfig()', () => {
+    let folderPath: string;
+
+    beforeEach(async () => {
+      folderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'config-'));
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(folderPath, { recursive: true, force: true });
+    });
+
+    const writeConfig = (config: object) =>
+      fs.promises.writeFile(path.join(folderPath, 'config.json'), JSON.stringify(config));
+
+    it('should return empty config if there is no file', async () => {
+      expect(await loadModulesConfig(folderPath, 1)).toEqual({});
+    });
+
+    it('should return overrides of the chain', async () => {
+      await writeConfig({ 56: { Airdrop: { minReceiversPerTx: 12 } } });
+
+      expect(await loadModulesConfig(folderPath, 56)).toEqual({
+        Airdrop: { minReceiversPerTx: 12 },
+      });
+      expect(await loadModulesConfig(folderPath, 137)).toEqual({});
+    });
+
+    it('should validate overrides of all chains', async () => {
+      await writeConfig({ 1: {}, 137: { Airdrop: { window: 1 } } });
+
+      await expect(loadModulesConfig(folderPath, 1)).rejects.toThrow(
+        'Invalid config for chain 137: Airdrop.window is unknown',
+      );
+    });
+  });
+
+  it('should inject overrides into the module', async () => {
+    const token = {
+      address: '0x01',
+      type: TokenStandard.Erc20,
+      timestamp: 0,
+    } as TokenContract;
+
+    const scan = async (module: ObservationTimeModule, timestamp: number) => {
+      const context: AnalysisContext = {};
+      await module.scan({ token, timestamp, context } as ScanParams);
+      return context[ObservationTimeModule.Key].detected;
+    };
+
+    expect(await scan(new ObservationTimeModule(), 1000)).toStrictEqual(false);
+    expect(await scan(new ObservationTimeModule(), TOKEN_OBSERVATION_TIME + 1)).toStrictEqual(true);
+    expect(
+      await scan(new ObservationTimeModule({ tokenObservationTime: 999 }), 1000),
+    ).toStrictEqual(true);
+  });
+
+  it('should merge nested overrides with the defaults', () => {
+    const module = new HighActivityModule({ suspiciousMultipliers: { Erc721MultipleOwners: 2 } });
+
+    expect(module['config'].suspiciousMultipliers).toStrictEqual({
+      ...SUSPICIOUS_MULTIPLIERS,
+      Erc721MultipleOwners: 2,
+    });
+    expect(SUSPICIOUS_MULTIPLIERS.Erc721MultipleOwners).toStrictEqual(4);
+  });
+});
@@ -0,0 +1,148 @@
+import { JsonStorage } from '../utils/storage';
+import Logger from '../utils/logger';
+import { moduleRegistry } from './registry';
+import { AIRDROP_MODULE_KEY, DEFAULT_AIRDROP_CONFIG } from './modules/airdrop';
+import {
+  DEFAULT_TOO_MUCH_AIRDROP_ACTIVITY_CONFIG,
+  TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY,
+} from './modules/airdrop-activity';
+import { DEFAULT_HIGH_ACTIVITY_CONFIG, HIGH_ACTIVITY_MODULE_KEY } from './modules/high-activity';
+import {
+  DEFAULT_HONEY_POT_SHARE_CONFIG,
+  HONEY_POT_SHARE_MODULE_KEY,
+} from './modules/honeypot-dominance';
+import {
+  DEFAULT_TOO_MANY_HONEY_POT_OWNERS_CONFIG,
+  TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY,
+} from './modules/honeypot-owners';
+import { DEFAULT_LOW_ACTIVITY_CONFIG, LOW_ACTIVITY_MODULE_KEY } from './modules/low-activity';
+import {
+  DEFAULT_TOO_MANY_CREATIONS_CONFIG,
+  TOO_MANY_CREATIONS_MODULE_KEY,
+} from './modules/many-creations';
+import {
+  DEFAULT_MULTIPLE_OWNERS_CONFIG,
+  MULTIPLE_OWNERS_MODULE_KEY,
+} from './modules/multiple-owners';
+import {
+  DEFAULT_NON_UNIQUE_TOKENS_CONFIG,
+  NON_UNIQUE_TOKENS_MODULE_KEY,
+} from './modules/non-unique-tokens';
+import {
+  DEFAULT_OBSERVATION_TIME_CONFIG,
+  OBSERVATION_TIME_IS_OVER_MODULE_KEY,
+} from './modules/observation-time';
+import {
+  DEFAULT_PHISHING_METADATA_CONFIG,
+  PHISHING_METADATA_MODULE_KEY,
+} from './modules/phishing-metadata';
+import { DEFAULT_SLEEP_MINT_CONFIG, SLEEP_MINT_MODULE_KEY } from './modules/sleep-mint';
+
+export const DEFAULT_MODULES_CONFIG = {
+  [AIRDROP_MODULE_KEY]: DEFAULT_AIRDROP_CONFIG,
+  [TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY]: DEFAULT_TOO_MUCH_AIRDROP_ACTIVITY_CONFIG,
+  [LOW_ACTIVITY_MODULE_KEY]: DEFAULT_LOW_ACTIVITY_CONFIG,
+  [MULTIPLE_OWNERS_MODULE_KEY]: DEFAULT_MULTIPLE_OWNERS_CONFIG,
+  [NON_UNIQUE_TOKENS_MODULE_KEY]: DEFAULT_NON_UNIQUE_TOKENS_CONFIG,
+  [SLEEP_MINT_MODULE_KEY]: DEFAULT_SLEEP_MINT_CONFIG,
+  [TOO_MANY_CREATIONS_MODULE_KEY]: DEFAULT_TOO_MANY_CREATIONS_CONFIG,
+  [TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY]: DEFAULT_TOO_MANY_HONEY_POT_OWNERS_CONFIG,
+  [HONEY_POT_SHARE_MODULE_KEY]: DEFAULT_HONEY_POT_SHARE_CONFIG,
+  [PHISHING_METADATA_MODULE_KEY]: DEFAULT_PHISHING_METADATA_CONFIG,
+  [HIGH_ACTIVITY_MODULE_KEY]: DEFAULT_HIGH_ACTIVITY_CONFIG,
+  [OBSERVATION_TIME_IS_OVER_MODULE_KEY]: DEFAULT_OBSERVATION_TIME_CONFIG,
+};
+
+type DefaultModulesConfig = typeof DEFAULT_MODULES_CONFIG;
+
+// Overrides of the module thresholds, e.g. { "Airdrop": { "minReceiversPerTx": 12 } }
+export type ModulesConfig = {
+  [K in keyof DefaultModulesConfig]?: Partial<DefaultModulesConfig[K]>;
+};
+
+// The config file contains overrides keyed by chainId, e.g. { "56": { "Airdrop": { ... } } }
+export type ModulesConfigFile = { [chainId: string]: ModulesConfig };
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  v != null && typeof v === 'object' && !Array.isArray(v);
+
+const isThreshold = (v: unknown) => typeof v === 'number' && isFinite(v) && v >= 0;
+
+export function validateModulesConfig(config: unknown, chainId: number | string): ModulesConfig {
+  const fail = (path: string, message: string): never => {
+    throw new Error(`Invalid config for chain ${chainId}: ${path} ${message}`);
+  };
+
+  if (!isObject(config)) return fail('config', 'must be an object');
+
+  // Registered modules can be configured the same way as the built-in ones
+  const defaultConfig: Record<string, Record<string, unknown>> = {
+    ...DEFAULT_MODULES_CONFIG,
+    ...(moduleRegistry.getDefaultConfigs() as Record<string, Record<string, unknown>>),
+  };
+
+  for (const [moduleKey, moduleConfig] of Object.entries(config)) {
+    const defaults = defaultConfig[moduleKey];
+
+    if (!defaults) {
+      fail(
+        moduleKey,
+        `is not a configurable module. Known: ${Object.keys(defaultConfig).join(', ')}`,
+      );
+    }
+    if (!isObject(moduleConfig)) fail(moduleKey, 'must be an object');
+
+    validateParams(moduleKey, moduleConfig as Record<string, unknown>, defaults, fail);
+  }
+
+  return config as ModulesConfig;
+}
+
+// Nested params, e.g. HighActivity.suspiciousMultipliers, are checked against the keys of the defaults the same way
+function validateParams(
+  path: string,
+  config: Record<string, unknown>,
+  defaults: Record<string, unknown>,
+  fail: (path: string, message: string) => never,
+) {
+  for (const [param, value] of Object.entries(config)) {
+    const paramPath = `${path}.${param}`;
+    const defaultValue = defaults[param];
+
+    if (!(param in defaults)) {
+      fail(paramPath, `is unknown. Known: ${Object.keys(defaults).join(', ')}`);
+    }
+
+    if (isObject(defaultValue)) {
+      if (!isObject(value)) fail(paramPath, 'must be an object');
+      validateParams(paramPath, value as Record<string, unknown>, defaultValue, fail);
+    } else if (!isThreshold(value)) {
+      fail(paramPath, 'must be a non-negative number');
+    }
+  }
+}
+
+// Overrides can be placed in the data folder, i.e. ./data/config.json
+export async function loadModulesConfig(
+  folderPath: string,
+  chainId: number,
+): Promise<ModulesConfig> {
+  const fileName = 'config.json';
+  const storage = new JsonStorage<ModulesConfigFile>(folderPath, fileName);
+  const file = await storage.read();
+
+  if (!file) return {};
+  if (!isObject(file)) throw new Error(`Invalid config file ${fileName}: must be an object`);
+
+  // Every chain is validated, so that a mistake is noticed regardless of the chain the bot runs on
+  for (const [key, config] of Object.entries(file)) {
+    validateModulesConfig(config, key);
+  }
+
+  const config = file[chainId] || {};
+  if (Object.keys(config).length > 0) {
+    Logger.info(`Using module config overrides for chain ${chainId}: ${JSON.stringify(config)}`);
+  }
+
+  return config;
+}
@@ -0,0 +1,105 @@
+import { runModules, sortModules } from './dependencies';
+import { AnalyzerModule, ModuleScanReturn } from './types';
+import TokenAnalyzer from './analyzer';
+import { AIRDROP_MODULE_KEY } from './modules/airdrop';
+import { TOKEN_IMPERSONATION_MODULE_KEY } from './modules/token-impersonation';
+import { HIGH_ACTIVITY_MODULE_KEY } from './modules/high-activity';
+import { PHISHING_METADATA_MODULE_KEY } from './modules/phishing-metadata';
+import { OBSERVATION_TIME_IS_OVER_MODULE_KEY } from './modules/observation-time';
+import { TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY } from './modules/honeypot-owners';
+
+describe('module dependencies', () => {
+  const createModule = (key: string, dependsOn: string[] = []): AnalyzerModule => {
+    class TestModule extends AnalyzerModule {
+      static Key = key;
+      static dependsOn = dependsOn;
+
+      async scan() {
+        return undefined;
+      }
+    }
+
+    return new TestModule();
+  };
+
+  const keys = (modules: Iterable<AnalyzerModule>) => [...modules].map((m) => m.key);
+
+  it('should put modules after their dependencies', () => {
+    const modules = [
+      createModule('C', ['B']),
+      createModule('A'),
+      createModule('B', ['A']),
+      createModule('D'),
+    ];
+
+    expect(keys(sortModules(modules))).toStrictEqual(['A', 'B', 'C', 'D']);
+  });
+
+  it('should keep the original order if dependencies are satisfied', () => {
+    const modules = [createModule('A'), createModule('C'), createModule('B', ['A'])];
+
+    expect(keys(sortModules(modules))).toStrictEqual(['A', 'C', 'B']);
+  });
+
+  it('should reject invalid dependencies', () => {
+    expect(() => sortModules([createModule('A', ['B'])])).toThrow(
+      'Invalid module dependencies: A depends on unknown B',
+    );
+    expect(() => sortModules([createModule('A'), createModule('A')])).toThrow(
+      'Invalid module dependencies: A is duplicated',
+    );
+    expect(() =>
+      sortModules([createModule('A', ['C']), createModule('B', ['A']), createModule('C', ['B'])]),
+    ).toThrow('Invalid module dependencies: circular dependency A -> C -> B -> A');
+  });
+
+  it('should validate dependencies of the analyzer modules', () => {
+    const analyzer = new TokenAnalyzer({} as any, {} as any, {} as any, {} as any, {} as any);
+    const sortedKeys = keys((analyzer as any).modules as AnalyzerModule[]);
+
+    const indexOf = (key: string) => sortedKeys.indexOf(key);
+
+    expect(indexOf(AIRDROP_MODULE_KEY)).toBeLessThan(indexOf(TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY));
+    expect(indexOf(TOKEN_IMPERSONATION_MODULE_KEY)).toBeLessThan(
+      indexOf(PHISHING_METADATA_MODULE_KEY),
+    );
+    expect(indexOf(PHISHING_METADATA_MODULE_KEY)).toBeLessThan(indexOf(HIGH_ACTIVITY_MODULE_KEY));
+    expect(indexOf(HIGH_ACTIVITY_MODULE_KEY)).toBeLessThan(
+      indexOf(OBSERVATION_TIME_IS_OVER_MODULE_KEY),
+    );
+  });
+
+  it('should run independent modules concurrently', async () => {
+    const modules = sortModules([
+      createModule('A'),
+      createModule('B'),
+      createModule('C', ['A', 'B']),
+    ]);
+
+    const events: string[] = [];
+    const executedModules = await runModules(modules, async (module) => {
+      events.push(`start ${module.key}`);
+      await new Promise((resolve) => setTimeout(resolve, module.key === 'A' ? 20 : 0));
+      events.push(`end ${module.key}`);
+    });
+
+    expect(events).toStrictEqual(['start A', 'start B', 'end B', 'end A', 'start C', 'end C']);
+    expect(keys(executedModules).sort()).toStrictEqual(['A', 'B', 'C']);
+  });
+
+  it('should skip modules depending on an interrupted module', async () => {
+    const modules = sortModules([
+      createModule('A'),
+      createModule('B', ['A']),
+      createModule('C', ['B']),
+      createModule('D'),
+    ]);
+
+    const executedModules = await runModules(
+      modules,
+      async (module): Promise<ModuleScanReturn> => ({ interrupt: module.key === 'A' }),
+    );
+
+    expect(keys(executedModules).sort()).toStrictEqual(['A', 'D']);
+  });
+});
@@ -0,0 +1,76 @@
+import { AnalyzerModule, ModuleScanReturn } from './types';
+
+// Orders the modules so that each of them goes after its dependencies, keeping the original order where possible.
+// Throws if a dependency is unknown or the dependencies are circular.
+export function sortModules(modules: AnalyzerModule[]): AnalyzerModule[] {
+  const moduleByKey = new Map<string, AnalyzerModule>();
+
+  for (const module of modules) {
+    if (moduleByKey.has(module.key)) {
+      throw new Error(`Invalid module dependencies: ${module.key} is duplicated`);
+    }
+    moduleByKey.set(module.key, module);
+  }
+
+  for (const module of modules) {
+    for (const key of module.dependsOn) {
+      if (!moduleByKey.has(key)) {
+        throw new Error(`Invalid module dependencies: ${module.key} depends on unknown ${key}`);
+      }
+    }
+  }
+
+  const sortedModules: AnalyzerModule[] = [];
+  const visitedKeys = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (module: AnalyzerModule) => {
+    if (visitedKeys.has(module.key)) return;
+
+    if (path.includes(module.key)) {
+      const cycle = [...path.slice(path.indexOf(module.key)), module.key];
+      throw new Error(`Invalid module dependencies: circular dependency ${cycle.join(' -> ')}`);
+    }
+
+    path.push(module.key);
+    for (const key of module.dependsOn) visit(moduleByKey.get(key)!);
+    path.pop();
+
+    visitedKeys.add(module.key);
+    sortedModules.push(module);
+  };
+
+  modules.forEach(visit);
+
+  return sortedModules;
+}
+
+// Runs each module as soon as its dependencies are finished, so that independent modules run concurrently.
+// A module is skipped if one of its dependencies has been skipped or has interrupted the scan.
+// The modules must be sorted. Returns the executed modules.
+export async function runModules(
+  modules: AnalyzerModule[],
+  run: (module: AnalyzerModule) => Promise<ModuleScanReturn>,
+): Promise<Set<AnalyzerModule>> {
+  const executedModules = new Set<AnalyzerModule>();
+  const isCompletedByKey = new Map<string, Promise<boolean>>();
+
+  for (const module of modules) {
+    const dependencies = module.dependsOn.map((key) => isCompletedByKey.get(key)!);
+
+    const execute = async () => {
+      if ((await Promise.all(dependencies)).some((isCompleted) => !isCompleted)) return false;
+
+      const result = await run(module);
+      executedModules.add(module);
+
+      return !result?.interrupt;
+    };
+
+    isCompletedByKey.set(module.key, execute());
+  }
+
+  await Promise.all(isCompletedByKey.values());
+
+  return executedModules;
+}
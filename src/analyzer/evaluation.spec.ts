@@ -0,0 +1,116 @@
+import Evaluator, { EvaluationSample, formatReport, Label, validateDataset } from './evaluation';
+import ScoringEngine from './scoring/scoring';
+import { DEFAULT_RULE_SET } from './scoring/rules';
+import { AnalysisContext } from './types';
+import { TokenStandard } from '../types';
+import { PHISHING_METADATA_MODULE_KEY } from './modules/phishing-metadata';
+import { TOKEN_IMPERSONATION_MODULE_KEY } from './modules/token-impersonation';
+import { HIGH_ACTIVITY_MODULE_KEY } from './modules/high-activity';
+
+describe('evaluator', () => {
+  const evaluator = new Evaluator(new ScoringEngine(DEFAULT_RULE_SET));
+
+  let counter = 0;
+  const sample = (label: Label, ...detectedKeys: string[]): EvaluationSample => {
+    const address = '0x' + (++counter).toString(16).padStart(40, '0');
+    const analysis: AnalysisContext = Object.fromEntries(
+      detectedKeys.map((key) => [key, { detected: true }]),
+    );
+
+    return {
+      token: {
+        type: TokenStandard.Erc20,
+        address,
+        deployer: address,
+        blockNumber: 1,
+        timestamp: 1,
+      },
+      label,
+      analysis,
+    };
+  };
+
+  const samples = [
+    sample('phishing', PHISHING_METADATA_MODULE_KEY),
+    sample('spam', TOKEN_IMPERSONATION_MODULE_KEY),
+    // False negative: high activity excludes the token
+    sample('spam', TOKEN_IMPERSONATION_MODULE_KEY, HIGH_ACTIVITY_MODULE_KEY),
+    // False positive
+    sample('legit', TOKEN_IMPERSONATION_MODULE_KEY),
+    sample('legit', HIGH_ACTIVITY_MODULE_KEY),
+    sample('legit'),
+  ];
+
+  it('should build confusion matrix', () => {
+    const report = evaluator.evaluate(samples);
+
+    expect(report.total).toStrictEqual(6);
+    expect(report.confusionMatrix).toStrictEqual({
+      spam: { spam: 1, phishing: 0, legit: 1 },
+      phishing: { spam: 0, phishing: 1, legit: 0 },
+      legit: { spam: 1, phishing: 0, legit: 2 },
+    });
+  });
+
+  it('should calculate overall metrics', () => {
+    const { overall, byLabel } = evaluator.evaluate(samples);
+
+    expect(overall).toMatchObject({ tp: 2, fp: 1, fn: 1, tn: 2 });
+    expect(overall.precision).toBeCloseTo(2 / 3);
+    expect(overall.recall).toBeCloseTo(2 / 3);
+    expect(overall.f1).toBeCloseTo(2 / 3);
+    expect(byLabel.phishing).toMatchObject({ tp: 1, fp: 0, fn: 0, precision: 1, recall: 1, f1: 1 });
+  });
+
+  it('should calculate metrics per module and per rule', () => {
+    const { byModule, byRule } = evaluator.evaluate(samples);
+
+    expect(Object.keys(byModule)).toStrictEqual(
+      [
+        HIGH_ACTIVITY_MODULE_KEY,
+        PHISHING_METADATA_MODULE_KEY,
+        TOKEN_IMPERSONATION_MODULE_KEY,
+      ].sort(),
+    );
+    expect(byModule[TOKEN_IMPERSONATION_MODULE_KEY]).toMatchObject({ tp: 2, fp: 1, fn: 1, tn: 2 });
+    expect(byModule[HIGH_ACTIVITY_MODULE_KEY]).toMatchObject({ tp: 1, fp: 1, fn: 2, tn: 2 });
+
+    expect(byRule['spam.TokenImpersonation']).toMatchObject({ tp: 2, fp: 1, fn: 1, tn: 2 });
+    expect(byRule['phishing.PhishingMetadata']).toMatchObject({ tp: 1, fp: 0, fn: 0, tn: 5 });
+    // Exclusions are evaluated against legit tokens
+    expect(byRule['exclusions.HighActivity']).toMatchObject({ tp: 1, fp: 1, fn: 2, tn: 2 });
+  });
+
+  it('should list misclassified tokens with their analysis', () => {
+    const report = evaluator.evaluate(samples);
+
+    expect(report.misclassified).toStrictEqual([
+      {
+        address: samples[2].token.address,
+        label: 'spam',
+        predicted: 'legit',
+        confidence: expect.any(Number),
+        analysis: samples[2].analysis,
+      },
+      {
+        address: samples[3].token.address,
+        label: 'legit',
+        predicted: 'spam',
+        confidence: expect.any(Number),
+        analysis: samples[3].analysis,
+      },
+    ]);
+    expect(formatReport(report)).toContain(`${samples[3].token.address} (legit -> spam`);
+  });
+
+  it('should validate dataset', () => {
+    const dataset = { spam: ['0x1'], legit: [] };
+
+    expect(validateDataset(dataset)).toBe(dataset);
+    expect(() => validateDataset([])).toThrow('Invalid dataset: must be an object');
+    expect(() => validateDataset({ scam: [] })).toThrow('Invalid dataset: scam is not a label');
+    expect(() => validateDataset({ spam: '0x1' })).toThrow(
+      'Invalid dataset: spam must be an array of addresses',
+    );
+  });
+});
@@ -0,0 +1,232 @@
+import ScoringEngine from './scoring/scoring';
+import { AnalysisContext } from './types';
+import { Interpretation, Rule } from './scoring/types';
+import { TokenContract } from '../types';
+
+export type Label = 'spam' | 'phishing' | 'legit';
+
+export const LABELS: Label[] = ['spam', 'phishing', 'legit'];
+
+// e.g. { "spam": ["0x..."], "legit": ["0x..."] }
+export type LabeledDataset = { [label in Label]?: string[] };
+
+export type EvaluationSample = {
+  token: TokenContract;
+  label: Label;
+  analysis: AnalysisContext;
+};
+
+export type Metrics = {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+export type ConfusionMatrix = { [actual in Label]: { [predicted in Label]: number } };
+
+export type Misclassification = {
+  address: string;
+  label: Label;
+  predicted: Label;
+  confidence: number;
+  analysis: AnalysisContext;
+};
+
+export type EvaluationReport = {
+  total: number;
+  confusionMatrix: ConfusionMatrix;
+  // Spam and phishing tokens are positives, legit tokens are negatives
+  overall: Metrics;
+  byLabel: { [label in Label]: Metrics };
+  // A module or a rule predicts a positive when it is detected or matched
+  byModule: { [moduleKey: string]: Metrics };
+  byRule: { [ruleName: string]: Metrics };
+  misclassified: Misclassification[];
+};
+
+function calcMetrics(predictions: boolean[], actuals: boolean[]): Metrics {
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  let tn = 0;
+
+  for (let i = 0; i < predictions.length; i++) {
+    if (predictions[i] && actuals[i]) tp++;
+    else if (predictions[i]) fp++;
+    else if (actuals[i]) fn++;
+    else tn++;
+  }
+
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return { tp, fp, fn, tn, precision, recall, f1 };
+}
+
+export function predictLabel(interpretation: Interpretation): Label {
+  if (interpretation.isPhishing) return 'phishing';
+  if (interpretation.isSpam) return 'spam';
+  return 'legit';
+}
+
+// This evaluator measures the detector against a labeled dataset of tokens,
+// so that the impact of changed thresholds and rules can be seen before they are deployed.
+
+class Evaluator {
+  constructor(private scoring: ScoringEngine) {}
+
+  evaluate(samples: EvaluationSample[]): EvaluationReport {
+    const interpretations = samples.map((s) => this.scoring.interpret(s.analysis));
+    const predicted = interpretations.map(predictLabel);
+    const positives = samples.map((s) => s.label !== 'legit');
+
+    const confusionMatrix = {} as ConfusionMatrix;
+    for (const actual of LABELS) {
+      confusionMatrix[actual] = { spam: 0, phishing: 0, legit: 0 };
+    }
+    samples.forEach((s, i) => confusionMatrix[s.label][predicted[i]]++);
+
+    const byLabel = {} as EvaluationReport['byLabel'];
+    for (const label of LABELS) {
+      byLabel[label] = calcMetrics(
+        predicted.map((p) => p === label),
+        samples.map((s) => s.label === label),
+      );
+    }
+
+    const moduleKeys = new Set(samples.flatMap((s) => Object.keys(s.analysis)));
+    const byModule: EvaluationReport['byModule'] = {};
+    for (const key of [...moduleKeys].sort()) {
+      byModule[key] = calcMetrics(
+        samples.map((s) => !!s.analysis[key]?.detected),
+        positives,
+      );
+    }
+
+    // Exclusion rules indicate legit tokens, so they are evaluated against the opposite label
+    const { spam, phishing, exclusions } = this.scoring.ruleSet;
+    const byRule: EvaluationReport['byRule'] = {};
+    const evaluateRules = (section: string, rules: Rule[], actuals: boolean[]) => {
+      for (const rule of rules) {
+        byRule[`${section}.${rule.name}`] = calcMetrics(
+          samples.map((s) => this.scoring.test(rule.when, s.analysis)),
+          actuals,
+        );
+      }
+    };
+    evaluateRules('spam', spam, positives);
+    evaluateRules(
+      'phishing',
+      phishing,
+      samples.map((s) => s.label === 'phishing'),
+    );
+    evaluateRules(
+      'exclusions',
+      exclusions,
+      samples.map((s) => s.label === 'legit'),
+    );
+
+    const misclassified: Misclassification[] = [];
+    samples.forEach((s, i) => {
+      if (s.label === predicted[i]) return;
+      misclassified.push({
+        address: s.token.address,
+        label: s.label,
+        predicted: predicted[i],
+        confidence: interpretations[i].confidence,
+        analysis: s.analysis,
+      });
+    });
+
+    return {
+      total: samples.length,
+      confusionMatrix,
+      overall: calcMetrics(
+        predicted.map((p) => p !== 'legit'),
+        positives,
+      ),
+      byLabel,
+      byModule,
+      byRule,
+      misclassified,
+    };
+  }
+}
+
+export function validateDataset(dataset: any): LabeledDataset {
+  if (!dataset || typeof dataset !== 'object' || Array.isArray(dataset)) {
+    throw new Error('Invalid dataset: must be an object');
+  }
+
+  for (const [label, addresses] of Object.entries(dataset)) {
+    if (!LABELS.includes(label as Label)) {
+      throw new Error(`Invalid dataset: ${label} is not a label, expected one of: ${LABELS}`);
+    }
+    if (!Array.isArray(addresses) || addresses.some((a) => typeof a !== 'string')) {
+      throw new Error(`Invalid dataset: ${label} must be an array of addresses`);
+    }
+  }
+
+  return dataset as LabeledDataset;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function formatMetricsTable(title: string, metricsByName: { [name: string]: Metrics }) {
+  const names = Object.keys(metricsByName);
+  const width = Math.max(title.length, ...names.map((n) => n.length));
+
+  const lines = [
+    [title.padEnd(width), 'TP', 'FP', 'FN', 'TN', 'Precision', 'Recall', 'F1'].join('\t'),
+  ];
+  for (const name of names) {
+    const m = metricsByName[name];
+    lines.push(
+      [
+        name.padEnd(width),
+        m.tp,
+        m.fp,
+        m.fn,
+        m.tn,
+        percent(m.precision),
+        percent(m.recall),
+        percent(m.f1),
+      ].join('\t'),
+    );
+  }
+
+  return lines.join('\n');
+}
+
+export function formatReport(report: EvaluationReport): string {
+  const sections: string[] = [];
+
+  const matrix = [['actual \\ predicted', ...LABELS].join('\t')];
+  for (const actual of LABELS) {
+    matrix.push(
+      [actual.padEnd(19), ...LABELS.map((p) => report.confusionMatrix[actual][p])].join('\t'),
+    );
+  }
+
+  sections.push(`Tokens: ${report.total}`);
+  sections.push(`Confusion matrix:\n${matrix.join('\n')}`);
+  sections.push(formatMetricsTable('Overall', { overall: report.overall, ...report.byLabel }));
+  sections.push(formatMetricsTable('Module', report.byModule));
+  sections.push(formatMetricsTable('Rule', report.byRule));
+
+  const misclassified = report.misclassified.map(
+    (m) =>
+      `${m.address} (${m.label} -> ${m.predicted}, confidence: ${m.confidence})\n` +
+      JSON.stringify(m.analysis),
+  );
+  sections.push(`Misclassified: ${report.misclassified.length}\n${misclassified.join('\n')}`);
+
+  return sections.join('\n\n');
+}
+
+export default Evaluator;
@@ -1,4 +1,5 @@
 import { MockEthersProvider } from 'forta-agent-tools/lib/test';
+import { EventType, Network, Transaction, TransactionEvent } from 'forta-agent';
 import { ethers } from 'ethers';
 
 import { autoAddress } from './__utils__/helpers';
@@ -10,8 +11,10 @@ import { ModuleAnalysisResult } from '../../types';
 import { erc721Iface } from '../../../contants';
 import { SimplifiedTransaction, TokenContract, TokenStandard } from '../../../types';
 import DataStorage from '../../../storage';
+import SqlDatabase from '../../../database/database';
 import { createAddress } from 'forta-agent-tools';
 import { AIRDROP_MODULE_KEY } from '../airdrop';
+import { MulticallBatcher } from '../../../utils/multicall';
 
 describe('Erc721MultipleOwners', () => {
   const indicator = new Erc721MultipleOwnersModule({
@@ -23,6 +26,9 @@ describe('Erc721MultipleOwners', () => {
     getErc721TransferEvents: jest.fn(),
   } as jest.MockedObject<DataStorage>;
   const mockEthersProvider = new MockEthersProvider();
+  const multicall = new MulticallBatcher(
+    mockEthersProvider as unknown as ethers.providers.JsonRpcProvider,
+  );
 
   const token: TokenContract = {
     address: autoAddress(),
@@ -69,6 +75,9 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(mockStorage.getErc721TransferEvents).not.toBeCalled();
@@ -134,6 +143,9 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(context[MULTIPLE_OWNERS_MODULE_KEY].detected).toStrictEqual(false);
@@ -184,6 +196,9 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(context[MULTIPLE_OWNERS_MODULE_KEY].detected).toStrictEqual(false);
@@ -234,6 +249,9 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(context[MULTIPLE_OWNERS_MODULE_KEY].detected).toStrictEqual(true);
@@ -283,6 +301,9 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(context[MULTIPLE_OWNERS_MODULE_KEY].detected).toStrictEqual(true);
@@ -331,6 +352,9 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(context[MULTIPLE_OWNERS_MODULE_KEY].detected).toStrictEqual(true);
@@ -406,6 +430,9 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(context[MULTIPLE_OWNERS_MODULE_KEY].detected).toStrictEqual(false);
@@ -480,6 +507,9 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(context[MULTIPLE_OWNERS_MODULE_KEY].detected).toStrictEqual(true);
@@ -577,8 +607,86 @@ describe('Erc721MultipleOwners', () => {
       timestamp: 0,
       transformer: null!,
       memoizer: null!,
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall,
     });
 
     expect(context[MULTIPLE_OWNERS_MODULE_KEY].detected).toStrictEqual(true);
   });
+
+  it('should give the same result if the transactions of a block are delivered out of order', async () => {
+    const blockNumber = 300;
+    const blockHash = ethers.utils.hexZeroPad('0x300', 32);
+    const sender = autoAddress();
+    const [owner1, owner2, owner3] = [autoAddress(), autoAddress(), autoAddress()];
+
+    // The token is minted and transferred twice within the block, the transactions in between are not related
+    const transfers = [
+      { index: 0, from: ethers.constants.AddressZero, to: owner1 },
+      { index: 3, from: owner1, to: owner2 },
+      { index: 7, from: owner2, to: owner3 },
+    ];
+
+    const txEvents = transfers.map(({ index, from, to }) => {
+      const hash = ethers.utils.hexZeroPad(`0x${blockNumber}${index}`, 32);
+      const log = erc721Iface.encodeEventLog(erc721Iface.getEvent('Transfer'), [from, to, 5]);
+
+      return new TransactionEvent(
+        EventType.BLOCK,
+        Network.MAINNET,
+        { hash, from: sender, to: token.address, data: '0x23b872dd' } as unknown as Transaction,
+        [],
+        {},
+        { hash: blockHash, number: blockNumber, timestamp: 0 },
+        [
+          {
+            ...log,
+            address: token.address,
+            logIndex: index * 2,
+            blockNumber,
+            blockHash,
+            transactionIndex: index,
+            transactionHash: hash,
+            removed: false,
+          },
+        ],
+        null,
+      );
+    });
+
+    const scan = async (txEvents: TransactionEvent[]) => {
+      const storage = new DataStorage(new SqlDatabase());
+      await storage.initialize();
+      storage.addToken(token);
+
+      for (const txEvent of txEvents) {
+        await storage.handleTx(txEvent);
+      }
+
+      await indicator.scan({
+        provider: mockEthersProvider as unknown as ethers.providers.JsonRpcProvider,
+        storage,
+        blockNumber,
+        context,
+        token,
+        timestamp: 0,
+        transformer: null!,
+        memoizer: null!,
+        addressCache: null!,
+        accountClassifier: null!,
+        multicall,
+      });
+      await storage.db.close();
+
+      return { ...context[MULTIPLE_OWNERS_MODULE_KEY] };
+    };
+
+    const result = await scan(txEvents);
+    // E.g. the transactions are handled by different shards
+    const outOfOrderResult = await scan([txEvents[2], txEvents[0], txEvents[1]]);
+
+    expect(result.detected).toStrictEqual(false);
+    expect(outOfOrderResult).toStrictEqual(result);
+  });
 });
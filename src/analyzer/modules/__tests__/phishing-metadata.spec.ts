@@ -52,6 +52,9 @@ describe('PhishingMetadata', () => {
         transformer: null as any,
         storage: null as any,
         memoizer: new Memoizer(),
+        addressCache: null!,
+        accountClassifier: null!,
+        multicall: null!,
         provider: mockEthersProvider as unknown as any,
         context: context,
       });
@@ -208,6 +211,9 @@ describe('PhishingMetadata', () => {
         transformer: null as any,
         storage: mockDataStorage,
         memoizer: new Memoizer(),
+        addressCache: null!,
+        accountClassifier: null!,
+        multicall: null!,
         provider: mockEthersProvider as unknown as any,
         context: context,
       });
@@ -61,6 +61,9 @@ describe('TokenImpersonation', () => {
       transformer: null as any,
       storage: null as any,
       memoizer: new Memoizer(),
+      addressCache: null!,
+      accountClassifier: null!,
+      multicall: null!,
       provider: mockEthersProvider as unknown as any,
       context: context,
     });
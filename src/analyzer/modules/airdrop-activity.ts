@@ -1,3 +1,5 @@
+import { merge } from 'lodash';
+
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
 import { AIRDROP_MODULE_KEY, AirdropModuleMetadata } from './airdrop';
 import { TOKEN_IMPERSONATION_MODULE_KEY } from './token-impersonation';
@@ -6,6 +8,16 @@ export const TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY = 'TooMuchAirdropActivity';
 export const AIRDROP_DURATION_THRESHOLD = 1 * 30 * 24 * 60 * 60; // 1 month
 export const RECEIVERS_THRESHOLD = 15_000;
 
+export type TooMuchAirdropActivityModuleConfig = {
+  airdropDurationThreshold: number;
+  receiversThreshold: number;
+};
+
+export const DEFAULT_TOO_MUCH_AIRDROP_ACTIVITY_CONFIG: TooMuchAirdropActivityModuleConfig = {
+  airdropDurationThreshold: AIRDROP_DURATION_THRESHOLD,
+  receiversThreshold: RECEIVERS_THRESHOLD,
+};
+
 export type TooMuchAirdropActivityModuleMetadata = {
   receiverCount: number;
   duration: number;
@@ -13,6 +25,14 @@ export type TooMuchAirdropActivityModuleMetadata = {
 
 class TooMuchAirdropActivityModule extends AnalyzerModule {
   static Key = TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY, TOKEN_IMPERSONATION_MODULE_KEY];
+
+  private config: TooMuchAirdropActivityModuleConfig;
+
+  constructor(config?: Partial<TooMuchAirdropActivityModuleConfig>) {
+    super();
+    this.config = merge({}, DEFAULT_TOO_MUCH_AIRDROP_ACTIVITY_CONFIG, config);
+  }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
     const { context } = params;
@@ -33,7 +53,10 @@ class TooMuchAirdropActivityModule extends AnalyzerModule {
 
     const duration = endTime - startTime;
 
-    if (duration > AIRDROP_DURATION_THRESHOLD && receivers.length > RECEIVERS_THRESHOLD) {
+    if (
+      duration > this.config.airdropDurationThreshold &&
+      receivers.length > this.config.receiversThreshold
+    ) {
       detected = true;
       metadata = {
         receiverCount: receivers.length,
@@ -1,14 +1,8 @@
-import { chunk } from 'lodash';
+import { chunk, merge } from 'lodash';
 
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
-import {
-  DetailedErc1155TransferBatchEvent,
-  DetailedErc1155TransferSingleEvent,
-  DetailedErc20TransferEvent,
-  DetailedErc721TransferEvent,
-  SimplifiedTransaction,
-  TokenStandard,
-} from '../../types';
+import { DetailedErc20TransferEvent, SimplifiedTransaction, TokenStandard } from '../../types';
+import { EventKind } from '../../database/events';
 import { PROVIDER_CONCURRENCY } from '../../contants';
 import Logger from '../../utils/logger';
 
@@ -16,7 +10,7 @@ import Logger from '../../utils/logger';
 // 1. The person receiving the mint didn't initiate (no claim action)
 // 2. One sender with at least 50 unique receivers in a short interval of time (5 days)
 // 3. Or, one tx with a sender to at least 15 unique receivers
-// 4. Receivers are EOAs
+// 4. Receivers are EOAs or smart wallets
 // ----------
 // Random airdrop:
 // https://etherscan.io/tx/0xd9c8cad2c21c7f0e4d1745a68052cb92990ae9f63cd9b6b1cf9c9153c4d936c3
@@ -58,65 +52,99 @@ export const MIN_RECEIVERS_PER_SENDER = 20;
 export const AIRDROP_WINDOW = 5 * 24 * 60 * 60; // 5d
 export const MAX_RECEIVERS_PER_AIRDROP = 10_000; // break loop if more
 
+export type AirdropModuleConfig = {
+  minReceiversPerTx: number;
+  minReceiversPerSender: number;
+  airdropWindow: number;
+  maxReceiversPerAirdrop: number;
+};
+
+export const DEFAULT_AIRDROP_CONFIG: AirdropModuleConfig = {
+  minReceiversPerTx: MIN_RECEIVERS_PER_TX,
+  minReceiversPerSender: MIN_RECEIVERS_PER_SENDER,
+  airdropWindow: AIRDROP_WINDOW,
+  maxReceiversPerAirdrop: MAX_RECEIVERS_PER_AIRDROP,
+};
+
 class AirdropModule extends AnalyzerModule {
   static Key = AIRDROP_MODULE_KEY;
 
+  private config: AirdropModuleConfig;
+
+  constructor(config?: Partial<AirdropModuleConfig>) {
+    super();
+    this.config = merge({}, DEFAULT_AIRDROP_CONFIG, config);
+  }
+
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
-    const { token, storage, provider, memoizer, context } = params;
+    const { token, storage, memoizer, context, accountClassifier } = params;
 
     let detected = false;
     let metadata: AirdropModuleMetadata | undefined = undefined;
 
     const memo = memoizer.getScope(token.address);
 
-    let transferEvents: Set<
-      | DetailedErc20TransferEvent
-      | DetailedErc721TransferEvent
-      | (DetailedErc1155TransferSingleEvent | DetailedErc1155TransferBatchEvent)
-    > = new Set();
-
-    const setify = <T>(arr: T[]): Set<T> => (arr == null ? new Set() : new Set(arr));
+    const query = { contract: token.address };
+    const transferEventKinds: (
+      | EventKind.Erc20Transfer
+      | EventKind.Erc721Transfer
+      | EventKind.Erc1155TransferSingle
+      | EventKind.Erc1155TransferBatch
+    )[] = [];
 
     if (token.type === TokenStandard.Erc20) {
-      transferEvents = setify(await storage.getErc20TransferEvents(token.address));
+      transferEventKinds.push(EventKind.Erc20Transfer);
     } else if (token.type === TokenStandard.Erc721) {
-      transferEvents = setify(await storage.getErc721TransferEvents(token.address));
+      transferEventKinds.push(EventKind.Erc721Transfer);
     } else if (token.type === TokenStandard.Erc1155) {
-      transferEvents = setify(await storage.getErc1155TransferSingleEvents(token.address));
-      (await storage.getErc1155TransferBatchEvents(token.address)).forEach((e) =>
-        transferEvents.add(e),
-      );
+      transferEventKinds.push(EventKind.Erc1155TransferSingle, EventKind.Erc1155TransferBatch);
+    }
+
+    let transferEventCount = 0;
+    for (const kind of transferEventKinds) {
+      transferEventCount += await storage.countEvents(kind, query);
     }
 
     // If we have exactly the same number of events, then we don't need to perform this again
-    const result = await memo(AIRDROP_MODULE_KEY, [transferEvents.size], async () => {
+    const result = await memo(AIRDROP_MODULE_KEY, [transferEventCount], async () => {
       const transfersBySender = new Map<
         string,
         Set<{ receiver: string; tx: SimplifiedTransaction }>
       >();
+      // Transfers of the same transaction share one object, so that it's kept in memory once
+      const txByHash = new Map<string, SimplifiedTransaction>();
 
       let p0 = performance.now();
 
-      for (const transferEvent of transferEvents) {
-        const sender = transferEvent.transaction.from;
+      // The events are read page by page, since airdrops may have tens of thousands of receivers
+      for (const kind of transferEventKinds) {
+        for await (const transferEvent of storage.iterateEvents(kind, query)) {
+          const sender = transferEvent.transaction.from;
 
-        if (token.type === TokenStandard.Erc20) {
-          // Zero transfer phishing?
-          if ((transferEvent as DetailedErc20TransferEvent).value.toString() === '0') continue;
-        }
+          if (token.type === TokenStandard.Erc20) {
+            // Zero transfer phishing?
+            if ((transferEvent as DetailedErc20TransferEvent).value.toString() === '0') continue;
+          }
 
-        // Claim or exchange action?
-        if (sender == transferEvent.to) continue;
+          // Claim or exchange action?
+          if (sender == transferEvent.to) continue;
 
-        let transferSet = transfersBySender.get(sender);
-        if (!transferSet) {
-          transferSet = new Set();
-          transfersBySender.set(sender, transferSet);
+          let tx = txByHash.get(transferEvent.transaction.hash);
+          if (!tx) {
+            tx = transferEvent.transaction;
+            txByHash.set(tx.hash, tx);
+          }
+
+          let transferSet = transfersBySender.get(sender);
+          if (!transferSet) {
+            transferSet = new Set();
+            transfersBySender.set(sender, transferSet);
+          }
+          transferSet.add({
+            receiver: transferEvent.to,
+            tx: tx,
+          });
         }
-        transferSet.add({
-          receiver: transferEvent.to,
-          tx: transferEvent.transaction,
-        });
       }
 
       type AirdropData = {
@@ -149,7 +177,7 @@ class AirdropModule extends AnalyzerModule {
         }
 
         for (const [tx, receivers] of receiversByTx) {
-          if (receivers.size >= MIN_RECEIVERS_PER_TX) {
+          if (receivers.size >= this.config.minReceiversPerTx) {
             isAirdropDetected = true;
             airdropStartTime = Math.min(airdropStartTime ?? tx.timestamp, tx.timestamp);
             airdropEndTime = Math.max(airdropEndTime ?? tx.timestamp, tx.timestamp);
@@ -183,19 +211,19 @@ class AirdropModule extends AnalyzerModule {
               // but continue if airdrop is already detected
               if (
                 !isAirdropDetected &&
-                endTransfer.tx.timestamp - startTransfer.tx.timestamp > AIRDROP_WINDOW
+                endTransfer.tx.timestamp - startTransfer.tx.timestamp > this.config.airdropWindow
               ) {
                 break;
               }
 
-              isAirdropDetected = receiverSet.size > MIN_RECEIVERS_PER_SENDER;
+              isAirdropDetected = receiverSet.size > this.config.minReceiversPerSender;
 
               receiverSet.add(endTransfer.receiver);
               txHashSet.add(endTransfer.tx.hash);
 
               endIndex = t;
 
-              if (receiverSet.size > MAX_RECEIVERS_PER_AIRDROP) {
+              if (receiverSet.size > this.config.maxReceiversPerAirdrop) {
                 // enough to confirm airdrop
                 break;
               }
@@ -225,29 +253,29 @@ class AirdropModule extends AnalyzerModule {
         }
       }
 
-      // Check if receivers are EOAs
+      // Check if receivers are EOAs or smart wallets
       for (const [sender, airdrop] of airdropBySender) {
         const { receivers } = airdrop;
-        const EOAs = [];
+        const userAccounts = [];
 
         for (const batch of chunk(receivers, PROVIDER_CONCURRENCY)) {
-          if (EOAs.length > MIN_RECEIVERS_PER_SENDER) {
+          if (userAccounts.length > this.config.minReceiversPerSender) {
             // This is enough to confirm the airdrop
             break;
           }
 
           // Execute queries in parallel.
           // If we use JsonRpcBatchProvider, this will help us complete the task faster
-          const codes = await Promise.all(
-            batch.map((receiver) => memo('getCode', [receiver], () => provider.getCode(receiver))),
+          const isUserAccount = await Promise.all(
+            batch.map((receiver) => accountClassifier.isUserAccount(receiver)),
           );
 
           for (let i = 0; i < batch.length; i++) {
-            if (codes[i] === '0x') EOAs.push(batch[i]);
+            if (isUserAccount[i]) userAccounts.push(batch[i]);
           }
         }
 
-        if (EOAs.length <= MIN_RECEIVERS_PER_SENDER) {
+        if (userAccounts.length <= this.config.minReceiversPerSender) {
           airdropBySender.delete(sender);
         }
       }
@@ -1,3 +1,5 @@
+import { merge } from 'lodash';
+
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
 import { TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY } from './airdrop-activity';
 import { LOW_ACTIVITY_MODULE_KEY } from './low-activity';
@@ -11,7 +13,8 @@ import { TOO_MANY_CREATIONS_MODULE_KEY } from './many-creations';
 import { PHISHING_METADATA_MODULE_KEY } from './phishing-metadata';
 import { HONEY_POT_SHARE_MODULE_KEY } from './honeypot-dominance';
 import { TOKEN_IMPERSONATION_MODULE_KEY } from './token-impersonation';
-import AirdropModule, { AirdropModuleMetadata } from './airdrop';
+import AirdropModule, { AIRDROP_MODULE_KEY, AirdropModuleMetadata } from './airdrop';
+import { getInitiator } from '../../utils/helpers';
 
 export const HIGH_ACTIVITY_MODULE_KEY = 'HighActivity';
 export const MIN_UNIQUE_SENDERS_TOTAL = 250;
@@ -57,14 +60,34 @@ export const SUSPICIOUS_MULTIPLIERS: { [moduleKey: string]: number } = {
   [TOKEN_IMPERSONATION_MODULE_KEY]: 3,
 };
 
+export type HighActivityModuleConfig = {
+  minUniqueSendersTotal: number;
+  minUniqueSendersInWindow: number;
+  windowPeriod: number;
+  minActiveReceiverCount: number;
+  minActiveReceiverRate: number;
+  suspiciousMultipliers: { [moduleKey: string]: number };
+};
+
+export const DEFAULT_HIGH_ACTIVITY_CONFIG: HighActivityModuleConfig = {
+  minUniqueSendersTotal: MIN_UNIQUE_SENDERS_TOTAL,
+  minUniqueSendersInWindow: MIN_UNIQUE_SENDERS_IN_WINDOW,
+  windowPeriod: WINDOW_PERIOD,
+  minActiveReceiverCount: MIN_ACTIVE_RECEIVER_COUNT,
+  minActiveReceiverRate: MIN_ACTIVE_RECEIVER_RATE,
+  suspiciousMultipliers: SUSPICIOUS_MULTIPLIERS,
+};
+
 class HighActivityModule extends AnalyzerModule {
   static Key = HIGH_ACTIVITY_MODULE_KEY;
+  // Indicators of the other modules increase the thresholds, so they must be executed first
+  static dependsOn = [AIRDROP_MODULE_KEY, ...Object.keys(SUSPICIOUS_MULTIPLIERS)];
 
-  private multipliers: typeof SUSPICIOUS_MULTIPLIERS;
+  private config: HighActivityModuleConfig;
 
-  constructor(moduleMultipliers = SUSPICIOUS_MULTIPLIERS) {
+  constructor(config?: Partial<HighActivityModuleConfig>) {
     super();
-    this.multipliers = moduleMultipliers;
+    this.config = merge({}, DEFAULT_HIGH_ACTIVITY_CONFIG, config);
   }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
@@ -76,9 +99,10 @@ class HighActivityModule extends AnalyzerModule {
     const airdropMetadata = context[AirdropModule.Key].metadata as AirdropModuleMetadata;
 
     let suspiciousMultiplier = 1;
+    const { suspiciousMultipliers } = this.config;
     for (const moduleKey of Object.keys(context)) {
-      if (context[moduleKey]?.detected && this.multipliers[moduleKey] != null) {
-        suspiciousMultiplier *= this.multipliers[moduleKey];
+      if (context[moduleKey]?.detected && suspiciousMultipliers[moduleKey] != null) {
+        suspiciousMultiplier *= suspiciousMultipliers[moduleKey];
       }
     }
 
@@ -88,7 +112,7 @@ class HighActivityModule extends AnalyzerModule {
     const receiverSet = new Set<string>(airdropMetadata.receivers);
 
     for (const transaction of transactionSet) {
-      senderSet.add(transaction.from);
+      senderSet.add(getInitiator(transaction));
     }
 
     const activeReceivers: string[] = [];
@@ -100,12 +124,13 @@ class HighActivityModule extends AnalyzerModule {
     // Check active receivers
 
     detected =
-      activeReceivers.length >= MIN_ACTIVE_RECEIVER_COUNT &&
-      activeReceivers.length / receiverSet.size >= MIN_ACTIVE_RECEIVER_RATE;
+      activeReceivers.length >= this.config.minActiveReceiverCount &&
+      activeReceivers.length / receiverSet.size >= this.config.minActiveReceiverRate;
 
     // Check total active accounts
 
-    detected = detected || senderSet.size > MIN_UNIQUE_SENDERS_TOTAL * suspiciousMultiplier;
+    detected =
+      detected || senderSet.size > this.config.minUniqueSendersTotal * suspiciousMultiplier;
 
     let maxSenderCountInWindow = -1;
     if (!detected) {
@@ -126,15 +151,17 @@ class HighActivityModule extends AnalyzerModule {
         for (let y = i; y < transactions.length; y++) {
           const endTransaction = transactions[y];
 
-          if (endTransaction.timestamp - startTransaction.timestamp > WINDOW_PERIOD) break;
+          if (endTransaction.timestamp - startTransaction.timestamp > this.config.windowPeriod)
+            break;
 
-          senderSet.add(endTransaction.from);
+          senderSet.add(getInitiator(endTransaction));
         }
 
         maxSenderCountInWindow = Math.max(maxSenderCountInWindow, senderSet.size);
       }
 
-      detected = maxSenderCountInWindow >= MIN_UNIQUE_SENDERS_IN_WINDOW * suspiciousMultiplier;
+      detected =
+        maxSenderCountInWindow >= this.config.minUniqueSendersInWindow * suspiciousMultiplier;
     }
 
     metadata = {
@@ -143,7 +170,7 @@ class HighActivityModule extends AnalyzerModule {
       activeReceiverRatio: activeReceivers.length / receiverSet.size,
       startTime: token.timestamp,
       endTime: params.timestamp,
-      windowPeriod: WINDOW_PERIOD,
+      windowPeriod: this.config.windowPeriod,
       maxSenderCountInWindow: maxSenderCountInWindow,
     };
 
@@ -161,7 +188,7 @@ class HighActivityModule extends AnalyzerModule {
       activeReceiverRatio: metadata.activeReceiverRatio,
       startTime: metadata.startTime,
       endTime: metadata.endTime,
-      windowPeriod: WINDOW_PERIOD,
+      windowPeriod: metadata.windowPeriod,
       maxSenderCountInWindow: metadata.maxSenderCountInWindow,
     };
   }
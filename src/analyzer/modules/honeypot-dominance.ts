@@ -1,11 +1,12 @@
 import BigNumber from 'bignumber.js';
 import { queue } from 'async';
+import { merge } from 'lodash';
 
 import Logger from '../../utils/logger';
 import HoneyPotChecker from '../../utils/honeypot';
 import AirdropModule, { AIRDROP_MODULE_KEY, AirdropModuleMetadata } from './airdrop';
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
-import { isBurnAddress } from '../../utils/helpers';
+import { getInitiator, isBurnAddress } from '../../utils/helpers';
 import { PROVIDER_CONCURRENCY } from '../../contants';
 
 // This module checks whether the share of honeypot accounts is unfairly large.
@@ -18,6 +19,14 @@ import { PROVIDER_CONCURRENCY } from '../../contants';
 export const HONEY_POT_SHARE_MODULE_KEY = 'HoneypotShareDominance';
 export const HONEYPOT_SHARE_THRESHOLD = 0.5;
 
+export type HoneyPotShareDominanceModuleConfig = {
+  honeypotShareThreshold: number;
+};
+
+export const DEFAULT_HONEY_POT_SHARE_CONFIG: HoneyPotShareDominanceModuleConfig = {
+  honeypotShareThreshold: HONEYPOT_SHARE_THRESHOLD,
+};
+
 type HoneypotShare = {
   address: string;
   share: number;
@@ -36,13 +45,21 @@ export type HoneyPotShareModuleShortMetadata = {
 
 class HoneyPotShareDominanceModule extends AnalyzerModule {
   static Key = HONEY_POT_SHARE_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY];
+
+  private config: HoneyPotShareDominanceModuleConfig;
 
-  constructor(private honeypotChecker: HoneyPotChecker) {
+  constructor(
+    private honeypotChecker: HoneyPotChecker,
+    config?: Partial<HoneyPotShareDominanceModuleConfig>,
+  ) {
     super();
+    this.config = merge({}, DEFAULT_HONEY_POT_SHARE_CONFIG, config);
   }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
-    const { token, memoizer, provider, transformer, blockNumber, context } = params;
+    const { token, provider, storage, transformer, blockNumber, context, addressCache, multicall } =
+      params;
 
     let detected = false;
     let metadata: HoneyPotShareModuleMetadata | undefined = undefined;
@@ -51,18 +68,17 @@ class HoneyPotShareDominanceModule extends AnalyzerModule {
 
     if (!context[AIRDROP_MODULE_KEY]?.detected) return;
 
-    const memo = memoizer.getScope(token.address);
-    const balanceByAccount = await transformer.balanceByAccount(token);
-
     // Check if there are artifacts in the balances
-    if ([...balanceByAccount.values()].find((e) => e.isNegative())) {
+    if ((await storage.getNegativeBalances(token.address)).length > 0) {
       return;
     }
 
+    const balanceByAccount = await transformer.balanceByAccount(token);
+
     const airdropMetadata = context[AirdropModule.Key].metadata as AirdropModuleMetadata;
     const receiverSet = new Set(airdropMetadata.receivers);
     const transactionSet = await transformer.transactions(token);
-    const senderSet = new Set([...transactionSet].map((t) => t.from));
+    const senderSet = new Set([...transactionSet].map((t) => getInitiator(t)));
 
     for (const receiver of receiverSet) {
       if (isBurnAddress(receiver) || senderSet.has(receiver)) receiverSet.delete(receiver);
@@ -87,9 +103,9 @@ class HoneyPotShareDominanceModule extends AnalyzerModule {
       const { address } = account;
 
       try {
-        const { isHoneypot } = await memo('honeypot', [address], () => {
+        const { isHoneypot } = await addressCache.query('honeypot', address, () => {
           Logger.trace(`HoneyPot scanning: ${address}`);
-          return this.honeypotChecker.testAddress(address, provider, blockNumber);
+          return this.honeypotChecker.testAddress(address, provider, blockNumber, multicall);
         });
 
         if (isHoneypot) {
@@ -124,7 +140,7 @@ class HoneyPotShareDominanceModule extends AnalyzerModule {
       .div(totalBalance)
       .toNumber();
 
-    detected = honeypotTotalShare > HONEYPOT_SHARE_THRESHOLD;
+    detected = honeypotTotalShare > this.config.honeypotShareThreshold;
     if (detected) {
       metadata = {
         honeypots: honeypotReceivers.map((account) => ({
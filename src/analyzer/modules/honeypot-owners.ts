@@ -1,4 +1,5 @@
 import { queue } from 'async';
+import { merge } from 'lodash';
 
 import Logger from '../../utils/logger';
 import HoneyPotChecker, { HoneypotAnalysisMetadata } from '../../utils/honeypot';
@@ -15,6 +16,18 @@ export const HONEYPOT_THRESHOLD_RATIO = 0.5;
 export const MAX_HOLDERS = 1500;
 export const MAX_CEX_HOLDERS = 6;
 
+export type TooManyHoneyPotOwnersModuleConfig = {
+  honeypotThresholdRatio: number;
+  maxHolders: number;
+  maxCexHolders: number;
+};
+
+export const DEFAULT_TOO_MANY_HONEY_POT_OWNERS_CONFIG: TooManyHoneyPotOwnersModuleConfig = {
+  honeypotThresholdRatio: HONEYPOT_THRESHOLD_RATIO,
+  maxHolders: MAX_HOLDERS,
+  maxCexHolders: MAX_CEX_HOLDERS,
+};
+
 type HoneypotInfo = { address: string; metadata: HoneypotAnalysisMetadata };
 
 type CEXInfo = { address: string; nonce: number };
@@ -39,13 +52,20 @@ export type TooManyHoneyPotOwnersModuleShortMetadata = {
 
 class TooManyHoneyPotOwnersModule extends AnalyzerModule {
   static Key = TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY];
+
+  private config: TooManyHoneyPotOwnersModuleConfig;
 
-  constructor(private honeypotChecker: HoneyPotChecker) {
+  constructor(
+    private honeypotChecker: HoneyPotChecker,
+    config?: Partial<TooManyHoneyPotOwnersModuleConfig>,
+  ) {
     super();
+    this.config = merge({}, DEFAULT_TOO_MANY_HONEY_POT_OWNERS_CONFIG, config);
   }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
-    const { token, context, provider, memoizer, blockNumber } = params;
+    const { token, context, provider, blockNumber, addressCache, multicall } = params;
 
     let detected = false;
     let metadata: TooManyHoneyPotOwnersModuleMetadata | undefined = undefined;
@@ -54,8 +74,6 @@ class TooManyHoneyPotOwnersModule extends AnalyzerModule {
 
     if (!context[AIRDROP_MODULE_KEY]?.detected) return;
 
-    const memo = memoizer.getScope(token.address);
-
     const airdropMetadata = context[AirdropModule.Key].metadata as AirdropModuleMetadata;
     const receiverSet = new Set(airdropMetadata.receivers);
 
@@ -70,7 +88,7 @@ class TooManyHoneyPotOwnersModule extends AnalyzerModule {
       }
     }
 
-    if (receiverSet.size > MAX_HOLDERS) {
+    if (receiverSet.size > this.config.maxHolders) {
       Logger.debug(`Too many token holders to check the number of honeypots: ${receiverSet.size}`);
       return;
     }
@@ -80,9 +98,9 @@ class TooManyHoneyPotOwnersModule extends AnalyzerModule {
     const holderQueue = queue<string>(async (receiver, callback) => {
       try {
         await provider.ready;
-        const { isHoneypot, metadata } = await memo('honeypot', [receiver], () => {
+        const { isHoneypot, metadata } = await addressCache.query('honeypot', receiver, () => {
           Logger.debug(`HoneyPot scanning: ${receiver}`);
-          return this.honeypotChecker.testAddress(receiver, provider, blockNumber);
+          return this.honeypotChecker.testAddress(receiver, provider, blockNumber, multicall);
         });
 
         const isCEX = metadata.CEX?.detected || false;
@@ -114,7 +132,9 @@ class TooManyHoneyPotOwnersModule extends AnalyzerModule {
 
     const honeypotRatio = honeypots.length / receiverSet.size;
 
-    detected = cexs.length > MAX_CEX_HOLDERS || honeypotRatio >= HONEYPOT_THRESHOLD_RATIO;
+    detected =
+      cexs.length > this.config.maxCexHolders ||
+      honeypotRatio >= this.config.honeypotThresholdRatio;
     metadata = {
       cexs,
       honeypots,
@@ -1,11 +1,26 @@
+import { merge } from 'lodash';
+
 import { AIRDROP_MODULE_KEY, AirdropModuleMetadata } from './airdrop';
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
+import { getInitiator } from '../../utils/helpers';
 
 export const LOW_ACTIVITY_MODULE_KEY = 'LowActivityAfterAirdrop';
 export const MIN_AIRDROP_RECEIVERS = 200;
 export const MIN_ACTIVE_RECEIVERS_RATE = 0.0025; // 0.25%
 export const DELAY_AFTER_AIRDROP = 20 * 24 * 60 * 60; // 20d
 
+export type LowActivityModuleConfig = {
+  minAirdropReceivers: number;
+  minActiveReceiversRate: number;
+  delayAfterAirdrop: number;
+};
+
+export const DEFAULT_LOW_ACTIVITY_CONFIG: LowActivityModuleConfig = {
+  minAirdropReceivers: MIN_AIRDROP_RECEIVERS,
+  minActiveReceiversRate: MIN_ACTIVE_RECEIVERS_RATE,
+  delayAfterAirdrop: DELAY_AFTER_AIRDROP,
+};
+
 export type LowActivityModuleMetadata = {
   activeReceivers: string[];
 };
@@ -17,6 +32,14 @@ export type LowActivityModuleShortMetadata = {
 
 class LowActivityAfterAirdropModule extends AnalyzerModule {
   static Key = LOW_ACTIVITY_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY];
+
+  private config: LowActivityModuleConfig;
+
+  constructor(config?: Partial<LowActivityModuleConfig>) {
+    super();
+    this.config = merge({}, DEFAULT_LOW_ACTIVITY_CONFIG, config);
+  }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
     const { token, timestamp, transformer, context } = params;
@@ -34,25 +57,25 @@ class LowActivityAfterAirdropModule extends AnalyzerModule {
     let minReceiversFulfilledAt: number = -1;
     for (const transfer of airdropMetadata.transfers) {
       receiverSet.add(transfer.receiver);
-      if (receiverSet.size >= MIN_AIRDROP_RECEIVERS) {
+      if (receiverSet.size >= this.config.minAirdropReceivers) {
         minReceiversFulfilledAt = transfer.timestamp;
         break;
       }
     }
 
     if (minReceiversFulfilledAt === -1) return;
-    if (timestamp - minReceiversFulfilledAt <= DELAY_AFTER_AIRDROP) return;
+    if (timestamp - minReceiversFulfilledAt <= this.config.delayAfterAirdrop) return;
 
     const transactionSet = await transformer.transactions(token);
     const senderSet = new Set<string>();
 
-    transactionSet.forEach((t) => senderSet.add(t.from));
+    transactionSet.forEach((t) => senderSet.add(getInitiator(t)));
 
     const activeReceivers = airdropMetadata.receivers.filter((r) => senderSet.has(r));
 
     if (
       activeReceivers.length >=
-      Math.round(airdropMetadata.receivers.length * MIN_ACTIVE_RECEIVERS_RATE)
+      Math.round(airdropMetadata.receivers.length * this.config.minActiveReceiversRate)
     ) {
       return;
     }
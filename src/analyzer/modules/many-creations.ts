@@ -1,4 +1,5 @@
 import { ethers } from 'ethers';
+import { merge } from 'lodash';
 
 import { TokenContract, TokenStandard } from '../../types';
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
@@ -14,6 +15,16 @@ export const TOO_MANY_CREATIONS_MODULE_KEY = 'TooManyTokenCreations';
 export const CREATION_WINDOW_PERIOD = 3 * 31 * 24 * 60 * 60; // 3 months
 export const TOKEN_CREATIONS_THRESHOLD = 5;
 
+export type TooManyCreationsModuleConfig = {
+  creationWindowPeriod: number;
+  tokenCreationsThreshold: number;
+};
+
+export const DEFAULT_TOO_MANY_CREATIONS_CONFIG: TooManyCreationsModuleConfig = {
+  creationWindowPeriod: CREATION_WINDOW_PERIOD,
+  tokenCreationsThreshold: TOKEN_CREATIONS_THRESHOLD,
+};
+
 export type TooManyCreationsModuleMetadata = {
   startTime: number;
   endTime: number;
@@ -22,6 +33,14 @@ export type TooManyCreationsModuleMetadata = {
 
 class TooManyCreationsModule extends AnalyzerModule {
   static Key = TOO_MANY_CREATIONS_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY, TOKEN_IMPERSONATION_MODULE_KEY];
+
+  private config: TooManyCreationsModuleConfig;
+
+  constructor(config?: Partial<TooManyCreationsModuleConfig>) {
+    super();
+    this.config = merge({}, DEFAULT_TOO_MANY_CREATIONS_CONFIG, config);
+  }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
     const { token, context, provider, memoizer, storage } = params;
@@ -47,7 +66,8 @@ class TooManyCreationsModule extends AnalyzerModule {
       for (let t = startIndex; t < tokens.length; t++) {
         const token = tokens[t];
 
-        if (token.timestamp - tokens[startIndex].timestamp > CREATION_WINDOW_PERIOD) break;
+        if (token.timestamp - tokens[startIndex].timestamp > this.config.creationWindowPeriod)
+          break;
 
         createdTokens.push(token);
       }
@@ -59,7 +79,7 @@ class TooManyCreationsModule extends AnalyzerModule {
       }
     }
 
-    if (longestTokenArray.length > TOKEN_CREATIONS_THRESHOLD) {
+    if (longestTokenArray.length > this.config.tokenCreationsThreshold) {
       const getHash = (type: TokenStandard, symbol: string, name: string) =>
         [String(type), symbol, name].join(',');
 
@@ -92,7 +112,7 @@ class TooManyCreationsModule extends AnalyzerModule {
         }
       }
 
-      detected = tokensByHash.size > TOKEN_CREATIONS_THRESHOLD;
+      detected = tokensByHash.size > this.config.tokenCreationsThreshold;
       metadata = {
         startTime: longestTokenArray[0].timestamp,
         endTime: longestTokenArray[longestTokenArray.length - 1].timestamp,
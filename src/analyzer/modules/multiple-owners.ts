@@ -1,5 +1,4 @@
-import { ethers } from 'ethers';
-import { max, sortBy } from 'lodash';
+import { max, merge, sortBy } from 'lodash';
 import { DetailedErc721TransferEvent, TokenStandard } from '../../types';
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
 import { erc721Iface } from '../../contants';
@@ -17,6 +16,18 @@ export const MIN_DUPLICATED_TOKENS = 10;
 export const MIN_DUPLICATED_TOKENS_FROM_SAME_SENDER = 5;
 export const DUPLICATION_LIMIT = 200; // optimization
 
+export type Erc721MultipleOwnersModuleConfig = {
+  minDuplicatedTokens: number;
+  minDuplicatedTokensFromSameSender: number;
+  duplicationLimit: number;
+};
+
+export const DEFAULT_MULTIPLE_OWNERS_CONFIG: Erc721MultipleOwnersModuleConfig = {
+  minDuplicatedTokens: MIN_DUPLICATED_TOKENS,
+  minDuplicatedTokensFromSameSender: MIN_DUPLICATED_TOKENS_FROM_SAME_SENDER,
+  duplicationLimit: DUPLICATION_LIMIT,
+};
+
 export type DuplicatedTransferEvent = {
   from: string;
   to: string;
@@ -37,23 +48,17 @@ export type Erc721MultipleOwnersModuleShortMetadata = {
 
 class Erc721MultipleOwnersModule extends AnalyzerModule {
   static Key = MULTIPLE_OWNERS_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY, TOKEN_IMPERSONATION_MODULE_KEY];
 
-  private minDuplicatedTokens: number;
-  private minDuplicatedTokensFromSameSender: number;
+  private config: Erc721MultipleOwnersModuleConfig;
 
-  constructor(config?: {
-    minDuplicatedTokens?: number;
-    minDuplicatedTokensFromSameSender?: number;
-  }) {
+  constructor(config?: Partial<Erc721MultipleOwnersModuleConfig>) {
     super();
-
-    this.minDuplicatedTokens = config?.minDuplicatedTokens || MIN_DUPLICATED_TOKENS;
-    this.minDuplicatedTokensFromSameSender =
-      config?.minDuplicatedTokensFromSameSender || MIN_DUPLICATED_TOKENS_FROM_SAME_SENDER;
+    this.config = merge({}, DEFAULT_MULTIPLE_OWNERS_CONFIG, config);
   }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
-    const { token, context, blockNumber, storage, provider } = params;
+    const { token, context, blockNumber, storage, multicall } = params;
 
     let detected = false;
     let metadata: Erc721MultipleOwnersModuleMetadata | undefined = undefined;
@@ -120,27 +125,23 @@ class Erc721MultipleOwnersModule extends AnalyzerModule {
               const isFirstTransferInBlock = i === 0;
               if (isFirstTransferInBlock) {
                 try {
-                  // Check with blockchain data
-                  const contract = new ethers.Contract(token.address, erc721Iface, provider);
-                  const prevBlockchainOwner = (
-                    await retry<string>(
+                  // Check with blockchain data, the calls are aggregated with the calls of other modules
+                  const getOwner = (blockTag: number) =>
+                    retry<string>(
                       () =>
-                        contract.ownerOf(tokenId, {
-                          blockTag: blockNumber - 1,
-                        }),
+                        multicall.call<string>(
+                          token.address,
+                          erc721Iface,
+                          'ownerOf',
+                          [tokenId],
+                          blockTag,
+                        ),
                       { wait: 3 * 1000, attempts: 3 },
-                    )
-                  ).toLowerCase();
+                    );
 
-                  const currentBlockchainOwner = (
-                    await retry<string>(
-                      () =>
-                        contract.ownerOf(tokenId, {
-                          blockTag: blockNumber,
-                        }),
-                      { wait: 3 * 1000, attempts: 3 },
-                    )
-                  ).toLowerCase();
+                  const [prevBlockchainOwner, currentBlockchainOwner] = (
+                    await Promise.all([getOwner(blockNumber - 1), getOwner(blockNumber)])
+                  ).map((owner) => owner.toLowerCase());
 
                   if (
                     prevBlockchainOwner !== currTokenTransfer.from ||
@@ -178,7 +179,7 @@ class Erc721MultipleOwnersModule extends AnalyzerModule {
       }
 
       // Too many duplications
-      if (duplicationsByTokenId.size >= DUPLICATION_LIMIT) {
+      if (duplicationsByTokenId.size >= this.config.duplicationLimit) {
         break;
       }
 
@@ -199,8 +200,8 @@ class Erc721MultipleOwnersModule extends AnalyzerModule {
     const maxDuplicationPerSender: number = max([...duplicatedTokenIdsBySender.values()]) ?? 0;
 
     if (
-      maxDuplicationPerSender >= this.minDuplicatedTokensFromSameSender ||
-      duplicationsByTokenId.size >= this.minDuplicatedTokens
+      maxDuplicationPerSender >= this.config.minDuplicatedTokensFromSameSender ||
+      duplicationsByTokenId.size >= this.config.minDuplicatedTokens
     ) {
       detected = true;
 
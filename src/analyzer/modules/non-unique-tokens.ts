@@ -1,13 +1,13 @@
 import axios from 'axios';
 import { queue } from 'async';
-import { ethers } from 'ethers';
-import { chunk, random, shuffle } from 'lodash';
+import { chunk, merge, random, shuffle } from 'lodash';
 
 import Logger from '../../utils/logger';
 import { isBase64, normalizeMetadataUri, parseBase64, retry } from '../../utils/helpers';
+import { MulticallBatcher } from '../../utils/multicall';
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
 import { TokenStandard } from '../../types';
-import { erc721Iface, FETCH_CONCURRENCY, PROVIDER_CONCURRENCY } from '../../contants';
+import { erc721Iface, FETCH_CONCURRENCY } from '../../contants';
 import { AIRDROP_MODULE_KEY } from './airdrop';
 import { TOKEN_IMPERSONATION_MODULE_KEY } from './token-impersonation';
 
@@ -16,6 +16,18 @@ export const MIN_NUMBER_OF_TOKENS = 5;
 export const MIN_NUMBER_OF_DUPLICATE_TOKENS = 4;
 export const MAX_NUMBER_OF_TOKENS = 700;
 
+export type Erc721NonUniqueTokensModuleConfig = {
+  minNumberOfTokens: number;
+  minNumberOfDuplicateTokens: number;
+  maxNumberOfTokens: number;
+};
+
+export const DEFAULT_NON_UNIQUE_TOKENS_CONFIG: Erc721NonUniqueTokensModuleConfig = {
+  minNumberOfTokens: MIN_NUMBER_OF_TOKENS,
+  minNumberOfDuplicateTokens: MIN_NUMBER_OF_DUPLICATE_TOKENS,
+  maxNumberOfTokens: MAX_NUMBER_OF_TOKENS,
+};
+
 type DuplicatedItem = { tokenIds: string[]; uri?: string; metadata?: string };
 
 export type NonUniqueTokensModuleMetadata = {
@@ -30,9 +42,17 @@ export type NonUniqueTokensModuleShortMetadata = {
 
 class Erc721NonUniqueTokensModule extends AnalyzerModule {
   static Key = NON_UNIQUE_TOKENS_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY, TOKEN_IMPERSONATION_MODULE_KEY];
+
+  private config: Erc721NonUniqueTokensModuleConfig;
+
+  constructor(config?: Partial<Erc721NonUniqueTokensModuleConfig>) {
+    super();
+    this.config = merge({}, DEFAULT_NON_UNIQUE_TOKENS_CONFIG, config);
+  }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
-    const { token, context, storage, memoizer, provider } = params;
+    const { token, context, storage, memoizer, multicall } = params;
 
     let detected = false;
     let metadata: NonUniqueTokensModuleMetadata | undefined = undefined;
@@ -54,22 +74,23 @@ class Erc721NonUniqueTokensModule extends AnalyzerModule {
       tokenIdSet.add(event.tokenId.toString());
     }
 
-    if (tokenIdSet.size < MIN_NUMBER_OF_TOKENS) return;
-    if (tokenIdSet.size > MAX_NUMBER_OF_TOKENS) {
+    if (tokenIdSet.size < this.config.minNumberOfTokens) return;
+    if (tokenIdSet.size > this.config.maxNumberOfTokens) {
       tokenIdSet = memo('tokenIdSet', () => {
         Logger.debug(
-          `Too many tokens to check: ${tokenIdSet.size}. Limiting to ${MAX_NUMBER_OF_TOKENS}.`,
+          `Too many tokens to check: ${tokenIdSet.size}. Limiting to ${this.config.maxNumberOfTokens}.`,
         );
-        return new Set(shuffle([...tokenIdSet]).slice(0, MAX_NUMBER_OF_TOKENS));
+        return new Set(shuffle([...tokenIdSet]).slice(0, this.config.maxNumberOfTokens));
       });
     }
 
-    const contract = new ethers.Contract(token.address, erc721Iface, provider);
+    const getTokenURI = (tokenId: string) =>
+      multicall.call<string>(token.address, erc721Iface, 'tokenURI', [tokenId]);
 
     // Test if the token implements tokenURI() with the first tokenId
     try {
       const tokenId = tokenIdSet.values().next().value;
-      await memo('tokenURI', [tokenId], () => contract.tokenURI(tokenId));
+      await memo('tokenURI', [tokenId], () => getTokenURI(tokenId));
     } catch (e) {
       Logger.info('ERC721 tokenURI() is not supported:', token.address);
       // tokenURI() not supported
@@ -82,14 +103,12 @@ class Erc721NonUniqueTokensModule extends AnalyzerModule {
     Logger.debug(`Fetching token URIs: ${tokenIdSet.size} items`);
 
     const tokenUriByTokenId = new Map<string, string>();
-    // The token works well, so let's parallelize the requests
-    for (const batch of chunk([...tokenIdSet], PROVIDER_CONCURRENCY)) {
+    // The token works well, so let's parallelize the requests, they are aggregated into multicalls
+    for (const batch of chunk([...tokenIdSet], MulticallBatcher.MAX_BATCH_SIZE)) {
       try {
         const uris = await Promise.all(
           batch.map((tokenId) =>
-            memo('tokenURI', [tokenId], () =>
-              retry(() => contract.tokenURI(tokenId) as Promise<string>),
-            ),
+            memo('tokenURI', [tokenId], () => retry(() => getTokenURI(tokenId))),
           ),
         );
         uris.forEach((url, i) => tokenUriByTokenId.set(batch[i], url));
@@ -112,7 +131,7 @@ class Erc721NonUniqueTokensModule extends AnalyzerModule {
       duplicatedTokenIdsByUri = new Map(
         [...duplicatedTokenIdsByUri].filter((entry) => entry[1].length > 1),
       );
-      if (duplicatedTokenIdsByUri.size >= MIN_NUMBER_OF_DUPLICATE_TOKENS) {
+      if (duplicatedTokenIdsByUri.size >= this.config.minNumberOfDuplicateTokens) {
         detected = true;
         metadata = {
           duplicationType: 'uri',
@@ -192,7 +211,7 @@ class Erc721NonUniqueTokensModule extends AnalyzerModule {
         [...duplicatedTokenIdsByMetadata].filter((entry) => entry[1].length > 1),
       );
 
-      if (duplicatedTokenIdsByMetadata.size >= MIN_NUMBER_OF_DUPLICATE_TOKENS) {
+      if (duplicatedTokenIdsByMetadata.size >= this.config.minNumberOfDuplicateTokens) {
         detected = true;
         metadata = {
           duplicationType: 'metadata',
@@ -1,8 +1,19 @@
+import { merge } from 'lodash';
+
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
+import { HIGH_ACTIVITY_MODULE_KEY } from './high-activity';
 
 export const TOKEN_OBSERVATION_TIME = 4 * 31 * 24 * 60 * 60;
 export const OBSERVATION_TIME_IS_OVER_MODULE_KEY = 'ObservationTimeIsOver';
 
+export type ObservationTimeModuleConfig = {
+  tokenObservationTime: number;
+};
+
+export const DEFAULT_OBSERVATION_TIME_CONFIG: ObservationTimeModuleConfig = {
+  tokenObservationTime: TOKEN_OBSERVATION_TIME,
+};
+
 export type ObservationTimeModuleMetadata = {
   startTime: number;
   endTime: number;
@@ -10,6 +21,15 @@ export type ObservationTimeModuleMetadata = {
 
 class ObservationTimeModule extends AnalyzerModule {
   static Key = OBSERVATION_TIME_IS_OVER_MODULE_KEY;
+  // The observation is not needed if the token has high activity
+  static dependsOn = [HIGH_ACTIVITY_MODULE_KEY];
+
+  private config: ObservationTimeModuleConfig;
+
+  constructor(config?: Partial<ObservationTimeModuleConfig>) {
+    super();
+    this.config = merge({}, DEFAULT_OBSERVATION_TIME_CONFIG, config);
+  }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
     const { token, timestamp, context } = params;
@@ -17,7 +37,7 @@ class ObservationTimeModule extends AnalyzerModule {
     let detected = false;
     let metadata: ObservationTimeModuleMetadata | undefined = undefined;
 
-    if (timestamp - token.timestamp > TOKEN_OBSERVATION_TIME) {
+    if (timestamp - token.timestamp > this.config.tokenObservationTime) {
       detected = true;
       metadata = {
         startTime: token.timestamp,
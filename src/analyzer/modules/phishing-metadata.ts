@@ -1,5 +1,5 @@
 import { ethers } from 'ethers';
-import { random } from 'lodash';
+import { merge, random } from 'lodash';
 import axios from 'axios';
 
 import { erc1155Iface, erc20Iface, erc721Iface } from '../../contants';
@@ -15,10 +15,18 @@ import { AnalyzerModule, ModuleAnalysisResult, ModuleScanReturn, ScanParams } fr
 import { normalizeText } from '../../utils/normalizer';
 import { TokenStandard } from '../../types';
 import Logger from '../../utils/logger';
-import AirdropModule, { AirdropModuleMetadata } from './airdrop';
+import AirdropModule, { AIRDROP_MODULE_KEY, AirdropModuleMetadata } from './airdrop';
 import SilentMintModule from './silent-mint';
-import ObservationTimeModule from './observation-time';
-import TokenImpersonation from './token-impersonation';
+import TokenImpersonation, { TOKEN_IMPERSONATION_MODULE_KEY } from './token-impersonation';
+import { TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY } from './airdrop-activity';
+import { LOW_ACTIVITY_MODULE_KEY } from './low-activity';
+import { MULTIPLE_OWNERS_MODULE_KEY } from './multiple-owners';
+import { NON_UNIQUE_TOKENS_MODULE_KEY } from './non-unique-tokens';
+import { FALSE_TOTAL_SUPPLY_MODULE_KEY } from './total-supply';
+import { SLEEP_MINT_MODULE_KEY } from './sleep-mint';
+import { TOO_MANY_CREATIONS_MODULE_KEY } from './many-creations';
+import { TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY } from './honeypot-owners';
+import { HONEY_POT_SHARE_MODULE_KEY } from './honeypot-dominance';
 
 // This module analyzes the metadata of tokens for the presence of a link to a website.
 // If such a link is found, it may suggest a phishing attack, particularly in the case of a large airdrop.
@@ -71,6 +79,16 @@ export const PHISHING_DESCRIPTION_PATTERNS = [
 export const ERC20_RECEIVERS_THRESHOLD = 499;
 export const MAX_METADATA_ERROR = 5;
 
+export type PhishingMetadataModuleConfig = {
+  erc20ReceiversThreshold: number;
+  maxMetadataError: number;
+};
+
+export const DEFAULT_PHISHING_METADATA_CONFIG: PhishingMetadataModuleConfig = {
+  erc20ReceiversThreshold: ERC20_RECEIVERS_THRESHOLD,
+  maxMetadataError: MAX_METADATA_ERROR,
+};
+
 export type PhishingModuleMetadata = {
   name?: string;
   symbol?: string;
@@ -82,6 +100,27 @@ export type PhishingModuleMetadata = {
 
 class PhishingMetadataModule extends AnalyzerModule {
   static Key = PHISHING_METADATA_MODULE_KEY;
+  // Other triggered indicators are considered when the token has a link
+  static dependsOn = [
+    TOKEN_IMPERSONATION_MODULE_KEY,
+    AIRDROP_MODULE_KEY,
+    TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY,
+    LOW_ACTIVITY_MODULE_KEY,
+    MULTIPLE_OWNERS_MODULE_KEY,
+    NON_UNIQUE_TOKENS_MODULE_KEY,
+    FALSE_TOTAL_SUPPLY_MODULE_KEY,
+    SLEEP_MINT_MODULE_KEY,
+    TOO_MANY_CREATIONS_MODULE_KEY,
+    TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY,
+    HONEY_POT_SHARE_MODULE_KEY,
+  ];
+
+  private config: PhishingMetadataModuleConfig;
+
+  constructor(config?: Partial<PhishingMetadataModuleConfig>) {
+    super();
+    this.config = merge({}, DEFAULT_PHISHING_METADATA_CONFIG, config);
+  }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
     const { context } = params;
@@ -161,7 +200,7 @@ class PhishingMetadataModule extends AnalyzerModule {
     if (urls.length === 0) return { detected, metadata };
 
     // Some spam tokens only contain a link
-    if (receivers >= ERC20_RECEIVERS_THRESHOLD) {
+    if (receivers >= this.config.erc20ReceiversThreshold) {
       return { detected: true, metadata };
     }
 
@@ -181,14 +220,9 @@ class PhishingMetadataModule extends AnalyzerModule {
 
     // If the token has another triggered indicator, and it has a link, then we assume this is a phishing
     if (!detected && urls.length >= 1) {
+      // ObservationTimeIsOver is not in the context yet, since it depends on this module
       const suspiciousIndicators = getIndicators(context).filter(
-        (i) =>
-          ![
-            AirdropModule.Key,
-            ObservationTimeModule.Key,
-            PhishingMetadataModule.Key,
-            SilentMintModule.Key,
-          ].includes(i),
+        (i) => ![AirdropModule.Key, PhishingMetadataModule.Key, SilentMintModule.Key].includes(i),
       );
 
       if (suspiciousIndicators.length >= 1) {
@@ -242,7 +276,7 @@ class PhishingMetadataModule extends AnalyzerModule {
         if (!tokenMetadata) {
           errorCount++;
 
-          if (errorCount < MAX_METADATA_ERROR) continue;
+          if (errorCount < this.config.maxMetadataError) continue;
 
           memo.set('isMetadataProviderBroken', true);
           break;
@@ -322,7 +356,7 @@ class PhishingMetadataModule extends AnalyzerModule {
         if (!tokenMetadata) {
           errorCount++;
 
-          if (errorCount < MAX_METADATA_ERROR) continue;
+          if (errorCount < this.config.maxMetadataError) continue;
 
           memo.set('isMetadataProviderBroken', true);
           break;
@@ -24,9 +24,10 @@ export type SilentMintShortMetadata = {
 
 class SilentMintModule extends AnalyzerModule {
   static Key = SILENT_MINT_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY, TOKEN_IMPERSONATION_MODULE_KEY];
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
-    const { token, context, transformer } = params;
+    const { token, context, storage } = params;
 
     let detected = false;
     let metadata: SilentMintMetadata | undefined = undefined;
@@ -38,14 +39,10 @@ class SilentMintModule extends AnalyzerModule {
 
     if (token.type !== TokenStandard.Erc20) return;
 
-    const balanceByAccount = await transformer.balanceByAccount(token);
-
     const negativeBalanceAccounts: Account[] = [];
-    for (const [address, balance] of balanceByAccount) {
-      if (address === token.deployer || address === token.address) continue;
-      if (balance.isNegative()) {
-        negativeBalanceAccounts.push({ address, balance: balance.toString() });
-      }
+    for (const { holder, balance } of await storage.getNegativeBalances(token.address)) {
+      if (holder === token.deployer || holder === token.address) continue;
+      negativeBalanceAccounts.push({ address: holder, balance: balance.toString() });
     }
 
     if (negativeBalanceAccounts.length > 0) {
@@ -1,9 +1,10 @@
 import { ethers } from 'ethers';
-import { groupBy, shuffle } from 'lodash';
+import { groupBy, merge, shuffle } from 'lodash';
 
-import { SimplifiedTransaction, TokenEvent, TokenStandard } from '../../types';
+import { TokenEvent, TokenStandard } from '../../types';
+import { EventKind } from '../../database/events';
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
-import { isAccountAbstraction, isBurnAddress } from '../../utils/helpers';
+import { isBurnAddress } from '../../utils/helpers';
 import AirdropModule, { AIRDROP_MODULE_KEY, AirdropModuleMetadata } from './airdrop';
 import { erc20Iface } from '../../contants';
 import Logger from '../../utils/logger';
@@ -12,6 +13,14 @@ import { TOKEN_IMPERSONATION_MODULE_KEY } from './token-impersonation';
 export const SLEEP_MINT_MODULE_KEY = 'SleepMint';
 export const SLEEP_MINT_RECEIVERS_THRESHOLD = 3;
 
+export type SleepMintModuleConfig = {
+  sleepMintReceiversThreshold: number;
+};
+
+export const DEFAULT_SLEEP_MINT_CONFIG: SleepMintModuleConfig = {
+  sleepMintReceiversThreshold: SLEEP_MINT_RECEIVERS_THRESHOLD,
+};
+
 type SleepMintInfo = {
   from: string;
   to: string;
@@ -39,9 +48,17 @@ const PairIface = new ethers.utils.Interface([
 
 class SleepMintModule extends AnalyzerModule {
   static Key = SLEEP_MINT_MODULE_KEY;
+  static dependsOn = [AIRDROP_MODULE_KEY, TOKEN_IMPERSONATION_MODULE_KEY];
+
+  private config: SleepMintModuleConfig;
+
+  constructor(config?: Partial<SleepMintModuleConfig>) {
+    super();
+    this.config = merge({}, DEFAULT_SLEEP_MINT_CONFIG, config);
+  }
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
-    const { token, storage, context, provider, memoizer } = params;
+    const { token, storage, context, provider, memoizer, accountClassifier } = params;
 
     let detected = false;
     let metadata: SleepMintModuleMetadata | undefined = undefined;
@@ -62,98 +79,103 @@ class SleepMintModule extends AnalyzerModule {
     const directApprovals = new Map<string, Set<string>>();
     const passiveApprovals = new Map<string, Set<string>>();
 
-    // Collect and normalize approval events so that we can apply common handlers for them
-    const allApprovalEvents = new Set<TokenEvent & { owner: string; spender: string }>();
-
-    if (token.type === TokenStandard.Erc20) {
-      for (const event of await storage.getErc20ApprovalEvents(token.address)) {
-        allApprovalEvents.add(event);
-      }
-    } else if (token.type === TokenStandard.Erc721) {
-      const approvalEvents = await storage.getErc721ApprovalEvents(token.address);
-      for (const event of approvalEvents) {
-        allApprovalEvents.add({ ...event, spender: event.approved });
-      }
-
-      const approvalForAllEvents = await storage.getErc721ApprovalForAllEvents(token.address);
-      for (const event of approvalForAllEvents) {
-        allApprovalEvents.add({ ...event, spender: event.operator });
-      }
-    } else if (token.type === TokenStandard.Erc1155) {
-      const approvalForAllEvents = await storage.getErc1155ApprovalForAllEvents(token.address);
-      for (const event of approvalForAllEvents) {
-        allApprovalEvents.add({ ...event, spender: event.operator });
-      }
-    }
+    const query = { contract: token.address };
 
-    // Prepare approval sets (performance optimizations)
-    for (const event of allApprovalEvents) {
+    // Normalize approval events so that we can apply common handlers for them
+    const addApproval = (event: TokenEvent & { owner: string }, spender: string) => {
       if (event.transaction.from !== event.owner) {
         const set = passiveApprovals.get(event.owner) || new Set();
         passiveApprovals.set(event.owner, set);
-        set.add(event.spender);
+        set.add(spender);
       } else if (event.transaction.from === event.owner) {
         const set = directApprovals.get(event.owner) || new Set();
         directApprovals.set(event.owner, set);
-        set.add(event.spender);
+        set.add(spender);
+      }
+    };
+
+    // Prepare approval sets (performance optimizations)
+    if (token.type === TokenStandard.Erc20) {
+      for await (const event of storage.iterateEvents(EventKind.Erc20Approval, query)) {
+        addApproval(event, event.spender);
+      }
+    } else if (token.type === TokenStandard.Erc721) {
+      for await (const event of storage.iterateEvents(EventKind.Erc721Approval, query)) {
+        addApproval(event, event.approved);
+      }
+      for await (const event of storage.iterateEvents(EventKind.Erc721ApprovalForAll, query)) {
+        addApproval(event, event.operator);
+      }
+    } else if (token.type === TokenStandard.Erc1155) {
+      for await (const event of storage.iterateEvents(EventKind.Erc1155ApprovalForAll, query)) {
+        addApproval(event, event.operator);
       }
     }
 
-    // Fill transfer events
+    // Check transfer events
 
     let sleepMints: SleepMintInfo[] = [];
-    let transferEvents: { from: string; to: string; transaction: SimplifiedTransaction }[] = [];
     const airdropTxHashSet = new Set(airdropTxHashes);
+    const transferEventKinds: (
+      | EventKind.Erc20Transfer
+      | EventKind.Erc721Transfer
+      | EventKind.Erc1155TransferSingle
+      | EventKind.Erc1155TransferBatch
+    )[] = [];
 
     if (token.type === TokenStandard.Erc20) {
-      transferEvents = await storage.getErc20TransferEvents(token.address);
+      transferEventKinds.push(EventKind.Erc20Transfer);
     } else if (token.type === TokenStandard.Erc721) {
-      transferEvents = await storage.getErc721TransferEvents(token.address);
+      transferEventKinds.push(EventKind.Erc721Transfer);
     } else if (token.type === TokenStandard.Erc1155) {
-      transferEvents = await storage.getErc1155TransferSingleEvents(token.address);
-      for (const event of await storage.getErc1155TransferBatchEvents(token.address)) {
-        transferEvents.push(event);
-      }
+      transferEventKinds.push(EventKind.Erc1155TransferSingle, EventKind.Erc1155TransferBatch);
     }
 
-    // Check transfer events
-
-    for (const event of transferEvents) {
-      if (
-        event.from === ethers.constants.AddressZero ||
-        event.transaction.from === event.from ||
-        event.transaction.from === event.to ||
-        event.from === token.address ||
-        event.from === token.deployer ||
-        event.to === token.deployer ||
-        isBurnAddress(event.to) ||
-        !airdropTxHashSet.has(event.transaction.hash)
-      ) {
-        continue;
+    // Only the transfers of the receiver are read
+    const hasTransfer = async (from: string, to: string) => {
+      for (const kind of transferEventKinds) {
+        for await (const event of storage.iterateEvents(kind, { ...query, address: to })) {
+          if (event.from === from && event.to === to) return true;
+        }
       }
 
-      // Skip if transaction is legal
-      if (directApprovals.get(event.from)?.has(event.transaction.from)) continue;
+      return false;
+    };
 
-      sleepMints.push({
-        from: event.from,
-        to: event.to,
-        sender: event.transaction.from,
-        txHash: event.transaction.hash,
-      });
+    for (const kind of transferEventKinds) {
+      for await (const event of storage.iterateEvents(kind, query)) {
+        if (
+          event.from === ethers.constants.AddressZero ||
+          event.transaction.from === event.from ||
+          event.transaction.from === event.to ||
+          event.from === token.address ||
+          event.from === token.deployer ||
+          event.to === token.deployer ||
+          isBurnAddress(event.to) ||
+          !airdropTxHashSet.has(event.transaction.hash)
+        ) {
+          continue;
+        }
+
+        // Skip if transaction is legal
+        if (directApprovals.get(event.from)?.has(event.transaction.from)) continue;
+
+        sleepMints.push({
+          from: event.from,
+          to: event.to,
+          sender: event.transaction.from,
+          txHash: event.transaction.hash,
+        });
+      }
     }
 
     const ownerSet = new Set(sleepMints.map((m) => m.from));
 
     // Check if there are too many different owners ('from' accounts)
     if (ownerSet.size < 50) {
-      // Remove sleep mints from an account abstraction (e.g. Gnosis-Safe)
+      // Remove sleep mints from smart accounts (e.g. Safe), their transactions are sent by others
       for (const owner of ownerSet) {
-        const isAbstraction = await memo('isAccountAbstraction', [owner], () =>
-          isAccountAbstraction(owner, provider),
-        );
-
-        if (isAbstraction) {
+        if (await accountClassifier.isSmartAccount(owner)) {
           sleepMints = sleepMints.filter((m) => m.from !== owner);
         }
       }
@@ -161,7 +183,7 @@ class SleepMintModule extends AnalyzerModule {
 
     const receiverSet = new Set(sleepMints.map((m) => m.to));
 
-    if (receiverSet.size > SLEEP_MINT_RECEIVERS_THRESHOLD) {
+    if (receiverSet.size > this.config.sleepMintReceiversThreshold) {
       if (token.type === TokenStandard.Erc20) {
         // This token standard has more complex use cases with various token aggregators,
         // which can lead to possible false positives. An example of a token transfer without approves:
@@ -179,7 +201,7 @@ class SleepMintModule extends AnalyzerModule {
 
           for (const [owner, mints] of Object.entries(mintsByOwner)) {
             const receiverSet = new Set(mints.map((m) => m.to));
-            if (receiverSet.size > SLEEP_MINT_RECEIVERS_THRESHOLD) {
+            if (receiverSet.size > this.config.sleepMintReceiversThreshold) {
               // There can only be one sender in a tx
               const sender = mints[0].sender;
 
@@ -203,7 +225,7 @@ class SleepMintModule extends AnalyzerModule {
               // Example txs:
               // - https://etherscan.io/tx/0xb87f93b0ccd6b7a1db0284e50d4c9affd0ba2de421a420d91d914bef76418033
               // - https://etherscan.io/tx/0x0dbee11ad397b07888706f188e158cdfe0825640b1311c66960effd68e79737a
-              if (transferEvents.find((e) => e.from === sender && e.to === owner)) {
+              if (await hasTransfer(sender, owner)) {
                 continue;
               }
 
@@ -222,9 +244,7 @@ class SleepMintModule extends AnalyzerModule {
                 return false;
               });
 
-              const isAccountContract = await memo('isAccountAbstraction', [owner], () =>
-                isAccountAbstraction(owner, provider),
-              );
+              const isAccountContract = await accountClassifier.isSmartAccount(owner);
 
               if (isOwnerPairContract || isAccountContract) continue;
 
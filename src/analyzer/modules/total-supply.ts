@@ -4,6 +4,7 @@ import { erc721Iface } from '../../contants';
 import { TokenStandard } from '../../types';
 import { retry } from '../../utils/helpers';
 import { AnalyzerModule, ModuleScanReturn, ScanParams } from '../types';
+import { AIRDROP_MODULE_KEY } from './airdrop';
 
 export const FALSE_TOTAL_SUPPLY_MODULE_KEY = 'Erc721FalseTotalSupply';
 
@@ -14,9 +15,11 @@ type Erc721FalseTotalSupplyModuleMetadata = {
 
 class Erc721FalseTotalSupplyModule extends AnalyzerModule {
   static Key = FALSE_TOTAL_SUPPLY_MODULE_KEY;
+  // The module does not use the results of Airdrop, but it only makes sense for airdropped tokens
+  static dependsOn = [AIRDROP_MODULE_KEY];
 
   async scan(params: ScanParams): Promise<ModuleScanReturn> {
-    const { token, context, storage, memoizer, blockNumber, provider } = params;
+    const { token, context, storage, memoizer, blockNumber, multicall } = params;
 
     let detected = false;
     let metadata: Erc721FalseTotalSupplyModuleMetadata | undefined = undefined;
@@ -34,10 +37,14 @@ class Erc721FalseTotalSupplyModule extends AnalyzerModule {
 
     const result = await memo(FALSE_TOTAL_SUPPLY_MODULE_KEY, [transferEvents.length], async () => {
       try {
-        const contract = new ethers.Contract(token.address, erc721Iface, provider);
-
         const declaredTotalSupply = await retry(async () => {
-          const totalSupply = (await contract.totalSupply({ blockTag: blockNumber })) as BigNumber;
+          const totalSupply = await multicall.call<BigNumber>(
+            token.address,
+            erc721Iface,
+            'totalSupply',
+            [],
+            blockNumber,
+          );
           return totalSupply.toNumber();
         });
 
@@ -0,0 +1,127 @@
+import { ModuleRegistry, moduleRegistry } from './registry';
+import { AnalyzerModule } from './types';
+import ScoringEngine from './scoring/scoring';
+import { DEFAULT_RULE_SET } from './scoring/rules';
+import { validateModulesConfig } from './config';
+import TokenAnalyzer from './analyzer';
+
+describe('module registry', () => {
+  const DEFAULT_CUSTOM_CONFIG = { minHolders: 10 };
+
+  class CustomModule extends AnalyzerModule {
+    static Key = 'Custom';
+
+    constructor(public config = DEFAULT_CUSTOM_CONFIG) {
+      super();
+    }
+
+    async scan() {
+      return undefined;
+    }
+  }
+
+  it('should reject a module registered twice', () => {
+    const registry = new ModuleRegistry();
+    registry.register({ Module: CustomModule });
+
+    expect(() => registry.register({ Module: CustomModule })).toThrow(
+      'Module Custom is already registered',
+    );
+  });
+
+  it('should create modules with the merged config', () => {
+    const registry = new ModuleRegistry();
+    const create = jest.fn(({ config }) => new CustomModule(config));
+
+    registry.register({ Module: CustomModule, defaultConfig: DEFAULT_CUSTOM_CONFIG });
+    expect(
+      (registry.createModules({} as any, { Custom: { minHolders: 20 } })[0] as CustomModule).config,
+    ).toStrictEqual({ minHolders: 20 });
+
+    registry.unregister(CustomModule.Key);
+    registry.register({ Module: CustomModule, defaultConfig: DEFAULT_CUSTOM_CONFIG, create });
+    registry.createModules({ honeyPotChecker: {} as any, tokenProvider: {} as any });
+
+    expect(create).toHaveBeenCalledWith({
+      honeyPotChecker: {},
+      tokenProvider: {},
+      config: DEFAULT_CUSTOM_CONFIG,
+    });
+  });
+
+  it('should create modules without a config if there is neither a default nor an override', () => {
+    const registry = new ModuleRegistry();
+    const create = jest.fn(({ config }) => new CustomModule(config));
+
+    registry.register({ Module: CustomModule });
+    expect((registry.createModules({} as any)[0] as CustomModule).config).toStrictEqual(
+      DEFAULT_CUSTOM_CONFIG,
+    );
+
+    registry.unregister(CustomModule.Key);
+    registry.register({ Module: CustomModule, create });
+    registry.createModules({ honeyPotChecker: {} as any, tokenProvider: {} as any });
+
+    expect(create).toHaveBeenCalledWith({
+      honeyPotChecker: {},
+      tokenProvider: {},
+      config: undefined,
+    });
+  });
+
+  it('should interpret registered modules according to their roles', () => {
+    const registry = new ModuleRegistry();
+    registry.register({
+      Module: CustomModule,
+      roles: { spam: true, finalization: true, confidenceFactor: 1.5, weight: 1 },
+    });
+
+    const ruleSet = registry.extendRuleSet(DEFAULT_RULE_SET);
+    const engine = new ScoringEngine(ruleSet);
+
+    expect(DEFAULT_RULE_SET.spam.find((r) => r.name === CustomModule.Key)).toBeUndefined();
+    expect(ruleSet.weights[CustomModule.Key]).toStrictEqual(1);
+    expect(engine.interpret({ Custom: { detected: true } })).toStrictEqual({
+      isSpam: true,
+      isPhishing: false,
+      isFinalized: true,
+      confidence: 0.9,
+    });
+    expect(engine.interpret({ Custom: { detected: false } }).isSpam).toStrictEqual(false);
+  });
+
+  it('should scan and compare registered modules in the analyzer', () => {
+    const registry = new ModuleRegistry();
+    registry.register({ Module: CustomModule, simplifyMetadata: () => ({}) });
+
+    const analyzer = new TokenAnalyzer(
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      DEFAULT_RULE_SET,
+      {},
+      registry,
+    );
+    const compare = (analyzer as any).compare.bind(analyzer);
+
+    expect((analyzer as any).modules.map((m: AnalyzerModule) => m.key)).toContain('Custom');
+    expect(
+      compare({ Custom: { detected: true } }, { Custom: { detected: false } }).isUpdated,
+    ).toStrictEqual(true);
+  });
+
+  it('should allow configuring registered modules', () => {
+    moduleRegistry.register({ Module: CustomModule, defaultConfig: DEFAULT_CUSTOM_CONFIG });
+
+    try {
+      expect(() => validateModulesConfig({ Custom: { minHolders: 5 } }, 1)).not.toThrow();
+      expect(() => validateModulesConfig({ Custom: { maxHolders: 5 } }, 1)).toThrow(
+        'Invalid config for chain 1: Custom.maxHolders is unknown. Known: minHolders',
+      );
+    } finally {
+      moduleRegistry.unregister(CustomModule.Key);
+    }
+  });
+});
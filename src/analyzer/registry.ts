@@ -0,0 +1,149 @@
+import path from 'path';
+import { merge } from 'lodash';
+
+import HoneyPotChecker from '../utils/honeypot';
+import TokenProvider from '../utils/tokens';
+import Logger from '../utils/logger';
+import { JsonStorage } from '../utils/storage';
+import { AnalyzerModule } from './types';
+import { Factor, RuleSet } from './scoring/types';
+
+export type ModuleClass = {
+  new (...args: any[]): AnalyzerModule;
+  Key: string;
+  dependsOn: string[];
+};
+
+export type ModuleFactoryParams<C extends object = object> = {
+  honeyPotChecker: HoneyPotChecker;
+  tokenProvider: TokenProvider;
+  // Overrides from the config file merged with the default config,
+  // undefined if the module has neither, so that it falls back to its own defaults
+  config: C | undefined;
+};
+
+// Defines how the result of the module affects the interpretation of the analysis
+export type ModuleRoles = {
+  // The token is spam if the module is detected, unless one of the exclusion rules matches
+  spam?: boolean;
+  // The token no longer needs to be monitored if the module is detected
+  finalization?: boolean;
+  // The confidence is multiplied by this factor if the module is detected
+  confidenceFactor?: Factor;
+  // Weight of the evidence, the default weight of the rule set is used if omitted
+  weight?: number;
+};
+
+export type ModuleRegistration<C extends object = object> = {
+  Module: ModuleClass;
+  // By default, the module is created with the config as the only argument
+  create?: (params: ModuleFactoryParams<C>) => AnalyzerModule;
+  // Thresholds that can be overridden in the config file
+  defaultConfig?: C;
+  roles?: ModuleRoles;
+  // Overrides simplifyMetadata() of the module
+  simplifyMetadata?: (metadata: any) => object;
+};
+
+// External packages register their modules here, so that they are scanned, compared
+// and interpreted along with the built-in ones without editing the analyzer.
+
+export class ModuleRegistry {
+  private registrationByKey = new Map<string, ModuleRegistration<any>>();
+
+  register<C extends object>(registration: ModuleRegistration<C>) {
+    const key = registration.Module.Key;
+
+    if (!key) throw new Error('Module must have a static Key');
+    if (this.registrationByKey.has(key)) throw new Error(`Module ${key} is already registered`);
+
+    this.registrationByKey.set(key, registration);
+    Logger.info(`Module ${key} has been registered`);
+  }
+
+  unregister(key: string) {
+    this.registrationByKey.delete(key);
+  }
+
+  get registrations(): ModuleRegistration<any>[] {
+    return [...this.registrationByKey.values()];
+  }
+
+  createModules(
+    params: Omit<ModuleFactoryParams, 'config'>,
+    configByKey: { [moduleKey: string]: object | undefined } = {},
+  ): AnalyzerModule[] {
+    return this.registrations.map(({ Module, create, defaultConfig }) => {
+      const overrides = configByKey[Module.Key];
+      const config = defaultConfig || overrides ? merge({}, defaultConfig, overrides) : undefined;
+      return create ? create({ ...params, config }) : new Module(config);
+    });
+  }
+
+  getDefaultConfigs(): { [moduleKey: string]: object } {
+    const defaultConfigByKey: { [moduleKey: string]: object } = {};
+    for (const { Module, defaultConfig } of this.registrations) {
+      if (defaultConfig) defaultConfigByKey[Module.Key] = defaultConfig;
+    }
+    return defaultConfigByKey;
+  }
+
+  getSimplifier(key: string) {
+    return this.registrationByKey.get(key)?.simplifyMetadata;
+  }
+
+  // Returns a copy of the rule set with the rules of the registered modules
+  extendRuleSet(ruleSet: RuleSet): RuleSet {
+    const extended: RuleSet = {
+      ...ruleSet,
+      weights: { ...ruleSet.weights },
+      spam: [...ruleSet.spam],
+      finalization: [...ruleSet.finalization],
+      confidence: { ...ruleSet.confidence, modifiers: [...ruleSet.confidence.modifiers] },
+    };
+
+    for (const { Module, roles = {} } of this.registrations) {
+      const key = Module.Key;
+      const rule = { name: key, when: { module: key } };
+
+      if (roles.spam) extended.spam.push(rule);
+      if (roles.finalization) extended.finalization.push(rule);
+      if (roles.confidenceFactor != null) {
+        extended.confidence.modifiers.push([{ ...rule, factor: roles.confidenceFactor }]);
+      }
+      if (roles.weight != null) extended.weights[key] = roles.weight;
+    }
+
+    return extended;
+  }
+}
+
+export const moduleRegistry = new ModuleRegistry();
+
+export type ModulePlugin = {
+  register: (registry: ModuleRegistry) => void | Promise<void>;
+};
+
+// Plugins are listed in the data folder, i.e. ./data/plugins.json: ["@org/spam-heuristics", "./plugins/custom"].
+// Each of them must export the register() function.
+export async function loadPlugins(folderPath: string, registry: ModuleRegistry = moduleRegistry) {
+  const fileName = 'plugins.json';
+  const plugins = await new JsonStorage<string[]>(folderPath, fileName).read();
+
+  if (!plugins) return;
+  if (!Array.isArray(plugins) || plugins.some((p) => typeof p !== 'string')) {
+    throw new Error(`Invalid plugins file ${fileName}: must be an array of module names`);
+  }
+
+  for (const name of plugins) {
+    const id = name.startsWith('.') ? path.resolve(folderPath, name) : name;
+    const plugin: Partial<ModulePlugin> = await import(id);
+
+    if (typeof plugin.register !== 'function') {
+      throw new Error(`Plugin ${name} must export the register() function`);
+    }
+
+    await plugin.register(registry);
+    Logger.info(`Plugin ${name} has been loaded`);
+  }
+}
@@ -0,0 +1,61 @@
+import { mapValues } from 'lodash';
+
+import { ExplainedModifier, Explanation } from './types';
+
+export type CompactExplanation = {
+  rule: string | null;
+  exclusion: string | null;
+  base: [string | null, number];
+  // [name, factor, inputs]
+  modifiers: [string, number, ExplainedModifier['inputs']][];
+  // Weight of each detected module
+  evidence: { [moduleKey: string]: number };
+};
+
+const round = (value: number) => Number(value.toFixed(3));
+
+// Short version of the explanation to be attached to the finding metadata.
+// Module metadata is omitted since it is already a part of the analysis field.
+export function compactExplanation(explanation: Explanation): CompactExplanation {
+  const { rules, confidence, evidence } = explanation;
+
+  return {
+    rule: rules.spam,
+    exclusion: rules.exclusion,
+    base: [confidence.base.name, confidence.base.value],
+    modifiers: confidence.modifiers.map((m) => [m.name, round(m.factor), m.inputs]),
+    evidence: mapValues(evidence, (e) => e.weight),
+  };
+}
+
+const formatInputs = (inputs: ExplainedModifier['inputs']) =>
+  Object.entries(inputs)
+    .map(([metric, value]) => `${metric}: ${round(value!)}`)
+    .join(', ');
+
+export function formatExplanation(explanation: Explanation): string {
+  const { interpretation, rules, confidence, evidence } = explanation;
+
+  const verdict = interpretation.isPhishing ? 'phishing' : interpretation.isSpam ? 'spam' : 'legit';
+  const lines = [`Verdict: ${verdict}`];
+
+  if (rules.spam) lines.push(`  Spam rule: ${rules.spam}`);
+  if (rules.exclusion) lines.push(`  Excluded by: ${rules.exclusion}`);
+  if (rules.phishing) lines.push(`  Phishing rule: ${rules.phishing}`);
+  lines.push(`  Finalized: ${rules.finalization ? `yes (${rules.finalization})` : 'no'}`);
+
+  lines.push(`Confidence: ${confidence.value}`);
+  lines.push(`  Base: ${confidence.base.value} (${confidence.base.name || 'default'})`);
+  for (const modifier of confidence.modifiers) {
+    const inputs = formatInputs(modifier.inputs);
+    lines.push(`  x${round(modifier.factor)} ${modifier.name}` + (inputs ? ` (${inputs})` : ''));
+  }
+  lines.push(`  Max: ${confidence.max}`);
+
+  lines.push('Evidence:');
+  for (const [key, { weight, metadata }] of Object.entries(evidence)) {
+    lines.push(`  ${key} (weight: ${weight})` + (metadata ? ` ${JSON.stringify(metadata)}` : ''));
+  }
+
+  return lines.join('\n');
+}
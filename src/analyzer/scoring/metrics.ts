@@ -0,0 +1,41 @@
+import { maxBy } from 'lodash';
+
+import { AnalysisContext } from '../types';
+import { MetricKey, RuleSet } from './types';
+import { getIndicators, parseLocation } from '../../utils/helpers';
+import { AIRDROP_MODULE_KEY, AirdropModuleShortMetadata } from '../modules/airdrop';
+import {
+  HIGH_ACTIVITY_MODULE_KEY,
+  HighActivityModuleShortMetadata,
+} from '../modules/high-activity';
+import { PHISHING_METADATA_MODULE_KEY, PhishingModuleMetadata } from '../modules/phishing-metadata';
+
+type MetricFn = (analysis: AnalysisContext, ruleSet: RuleSet) => number;
+
+const getHighActivityMetadata = (analysis: AnalysisContext) =>
+  analysis[HIGH_ACTIVITY_MODULE_KEY]?.metadata as HighActivityModuleShortMetadata | undefined;
+
+const getPhishingMetadata = (analysis: AnalysisContext) =>
+  analysis[PHISHING_METADATA_MODULE_KEY]?.metadata as PhishingModuleMetadata | undefined;
+
+export const METRICS: Record<MetricKey, MetricFn> = {
+  evidence: (analysis, ruleSet) =>
+    getIndicators(analysis).reduce(
+      (sum, key) => sum + (ruleSet.weights[key] ?? ruleSet.defaultWeight),
+      0,
+    ),
+  receivers: (analysis) =>
+    (analysis[AIRDROP_MODULE_KEY]?.metadata as AirdropModuleShortMetadata | undefined)
+      ?.receiverCount ?? 0,
+  activeReceivers: (analysis) => getHighActivityMetadata(analysis)?.activeReceiverCount ?? 0,
+  activeReceiverRatio: (analysis) => getHighActivityMetadata(analysis)?.activeReceiverRatio ?? 0,
+  senders: (analysis) => getHighActivityMetadata(analysis)?.senderCount || 0,
+  uniqueHosts: (analysis) => {
+    const urls = getPhishingMetadata(analysis)?.urls || [];
+    return new Set(urls.map((url) => parseLocation(url)?.host).filter((v) => v)).size;
+  },
+  descriptionLength: (analysis) => {
+    const descriptionByTokenId = getPhishingMetadata(analysis)?.descriptionByTokenId || {};
+    return (maxBy(Object.values(descriptionByTokenId), (e) => e.length) || '').length;
+  },
+};
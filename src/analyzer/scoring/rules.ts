@@ -0,0 +1,118 @@
+import { RuleSet } from './types';
+import { AIRDROP_MODULE_KEY } from '../modules/airdrop';
+import { TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY } from '../modules/airdrop-activity';
+import { HIGH_ACTIVITY_MODULE_KEY } from '../modules/high-activity';
+import { HONEY_POT_SHARE_MODULE_KEY } from '../modules/honeypot-dominance';
+import { TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY } from '../modules/honeypot-owners';
+import { LOW_ACTIVITY_MODULE_KEY } from '../modules/low-activity';
+import { TOO_MANY_CREATIONS_MODULE_KEY } from '../modules/many-creations';
+import { MULTIPLE_OWNERS_MODULE_KEY } from '../modules/multiple-owners';
+import { NON_UNIQUE_TOKENS_MODULE_KEY } from '../modules/non-unique-tokens';
+import { OBSERVATION_TIME_IS_OVER_MODULE_KEY } from '../modules/observation-time';
+import { PHISHING_METADATA_MODULE_KEY } from '../modules/phishing-metadata';
+import { SILENT_MINT_MODULE_KEY } from '../modules/silent-mint';
+import { SLEEP_MINT_MODULE_KEY } from '../modules/sleep-mint';
+import { TOKEN_IMPERSONATION_MODULE_KEY } from '../modules/token-impersonation';
+import { FALSE_TOTAL_SUPPLY_MODULE_KEY } from '../modules/total-supply';
+
+export const DEFAULT_RULE_SET: RuleSet = {
+  name: 'default',
+  weights: {
+    // These indicators are not valuable on their own
+    [SILENT_MINT_MODULE_KEY]: 0,
+    [AIRDROP_MODULE_KEY]: 0,
+    [OBSERVATION_TIME_IS_OVER_MODULE_KEY]: 0,
+    [HIGH_ACTIVITY_MODULE_KEY]: 0,
+  },
+  defaultWeight: 1,
+  spam: [
+    { name: 'PhishingMetadata', when: { module: PHISHING_METADATA_MODULE_KEY } },
+    { name: 'TokenImpersonation', when: { module: TOKEN_IMPERSONATION_MODULE_KEY } },
+    // The evaluation does not use SilentMint module because of FPs,
+    // but it is displayed in the presence of other indicators
+    {
+      name: 'SuspiciousAirdrop',
+      when: {
+        all: [
+          { module: AIRDROP_MODULE_KEY },
+          {
+            any: [
+              MULTIPLE_OWNERS_MODULE_KEY,
+              FALSE_TOTAL_SUPPLY_MODULE_KEY,
+              NON_UNIQUE_TOKENS_MODULE_KEY,
+              TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY,
+              TOO_MANY_CREATIONS_MODULE_KEY,
+              TOO_MANY_HONEY_POT_OWNERS_MODULE_KEY,
+              HONEY_POT_SHARE_MODULE_KEY,
+              PHISHING_METADATA_MODULE_KEY,
+              SLEEP_MINT_MODULE_KEY,
+              LOW_ACTIVITY_MODULE_KEY,
+            ].map((key) => ({ module: key })),
+          },
+        ],
+      },
+    },
+  ],
+  exclusions: [{ name: 'HighActivity', when: { module: HIGH_ACTIVITY_MODULE_KEY } }],
+  phishing: [{ name: 'PhishingMetadata', when: { module: PHISHING_METADATA_MODULE_KEY } }],
+  finalization: [
+    OBSERVATION_TIME_IS_OVER_MODULE_KEY,
+    HIGH_ACTIVITY_MODULE_KEY,
+    TOO_MUCH_AIRDROP_ACTIVITY_MODULE_KEY,
+  ].map((key) => ({ name: key, when: { module: key } })),
+  confidence: {
+    base: [
+      {
+        name: 'ImpersonationAirdrop',
+        when: {
+          all: [{ module: TOKEN_IMPERSONATION_MODULE_KEY }, { module: AIRDROP_MODULE_KEY }],
+        },
+        value: 0.8,
+      },
+      { name: 'Impersonation', when: { module: TOKEN_IMPERSONATION_MODULE_KEY }, value: 0.75 },
+    ],
+    defaultBase: 0.6,
+    modifiers: [
+      [
+        {
+          name: 'MultipleIndicators',
+          when: { metric: 'evidence', gt: 1 },
+          factor: { metric: 'evidence', type: 'linear', offset: 1, scale: 0.1 },
+        },
+      ],
+      [
+        // Too much for phishing?
+        { name: 'LongDescription', when: { metric: 'descriptionLength', gte: 2000 }, factor: 0.8 },
+      ],
+      [
+        // The more unique domains there are, the less likely it is to be phishing
+        {
+          name: 'MultipleHosts',
+          when: { metric: 'uniqueHosts', gt: 1 },
+          factor: { metric: 'uniqueHosts', type: 'inverse', numerator: 0.8, offset: -1, min: 0.15 },
+        },
+      ],
+      [
+        { name: 'ActiveReceivers100', when: { metric: 'activeReceivers', gte: 100 }, factor: 0.25 },
+        { name: 'ActiveReceivers50', when: { metric: 'activeReceivers', gte: 50 }, factor: 0.5 },
+        { name: 'ActiveReceivers25', when: { metric: 'activeReceivers', gte: 25 }, factor: 0.75 },
+        { name: 'ActiveReceivers10', when: { metric: 'activeReceivers', gte: 10 }, factor: 0.8 },
+        { name: 'Receivers1000', when: { metric: 'receivers', gte: 1000 }, factor: 1.2 },
+        { name: 'Receivers100', when: { metric: 'receivers', gte: 100 }, factor: 1.1 },
+      ],
+      [
+        {
+          name: 'ActiveReceiverRatio',
+          when: { metric: 'activeReceiverRatio', gte: 0.1 },
+          factor: 0.9,
+        },
+      ],
+      [
+        { name: 'Senders300', when: { metric: 'senders', gte: 300 }, factor: 0.75 },
+        { name: 'Senders200', when: { metric: 'senders', gte: 200 }, factor: 0.85 },
+      ],
+    ],
+    max: 0.99,
+    precision: 3,
+  },
+};
@@ -0,0 +1,200 @@
+import { cloneDeep } from 'lodash';
+
+import ScoringEngine, { loadRuleSet, validateRuleSet } from './scoring';
+import { DEFAULT_RULE_SET } from './rules';
+import { AnalysisContext } from '../types';
+import { AIRDROP_MODULE_KEY } from '../modules/airdrop';
+import { HIGH_ACTIVITY_MODULE_KEY } from '../modules/high-activity';
+import { PHISHING_METADATA_MODULE_KEY } from '../modules/phishing-metadata';
+import { TOKEN_IMPERSONATION_MODULE_KEY } from '../modules/token-impersonation';
+import { SLEEP_MINT_MODULE_KEY } from '../modules/sleep-mint';
+import { LOW_ACTIVITY_MODULE_KEY } from '../modules/low-activity';
+import { SILENT_MINT_MODULE_KEY } from '../modules/silent-mint';
+import { MULTIPLE_OWNERS_MODULE_KEY } from '../modules/multiple-owners';
+import { NON_UNIQUE_TOKENS_MODULE_KEY } from '../modules/non-unique-tokens';
+import { TOO_MANY_CREATIONS_MODULE_KEY } from '../modules/many-creations';
+
+describe('scoring engine', () => {
+  const engine = new ScoringEngine(DEFAULT_RULE_SET);
+
+  const detected = (...keys: string[]): AnalysisContext =>
+    Object.fromEntries(keys.map((key) => [key, { detected: true }]));
+
+  const airdrop = (receiverCount: number) => ({
+    [AIRDROP_MODULE_KEY]: { detected: true, metadata: { receiverCount } },
+  });
+
+  const highActivity = (detected: boolean, metadata: object) => ({
+    [HIGH_ACTIVITY_MODULE_KEY]: { detected, metadata },
+  });
+
+  it('should not interpret a single airdrop as spam', () => {
+    const result = engine.interpret(airdrop(500));
+
+    expect(result.isSpam).toStrictEqual(false);
+    expect(result.isFinalized).toStrictEqual(false);
+  });
+
+  it('should interpret phishing token as spam', () => {
+    const result = engine.interpret(detected(PHISHING_METADATA_MODULE_KEY));
+
+    expect(result).toStrictEqual({
+      isSpam: true,
+      isPhishing: true,
+      isFinalized: false,
+      confidence: 0.6,
+    });
+  });
+
+  it('should interpret airdrop with another indicator as spam', () => {
+    const result = engine.interpret({
+      ...detected(SLEEP_MINT_MODULE_KEY, LOW_ACTIVITY_MODULE_KEY, SILENT_MINT_MODULE_KEY),
+      ...airdrop(1500),
+    });
+
+    expect(result.isSpam).toStrictEqual(true);
+    expect(result.isPhishing).toStrictEqual(false);
+    // 0.6 * (1 + 2 / 10) * 1.2
+    expect(result.confidence).toStrictEqual(0.864);
+  });
+
+  it('should not interpret a token with high activity as spam', () => {
+    const result = engine.interpret({
+      ...detected(PHISHING_METADATA_MODULE_KEY, TOKEN_IMPERSONATION_MODULE_KEY),
+      ...airdrop(50),
+      ...highActivity(true, { senderCount: 1000 }),
+    });
+
+    expect(result.isSpam).toStrictEqual(false);
+    expect(result.isFinalized).toStrictEqual(true);
+  });
+
+  it('should use token impersonation as a base confidence', () => {
+    expect(engine.calcConfidence(detected(TOKEN_IMPERSONATION_MODULE_KEY))).toStrictEqual(0.75);
+    expect(
+      engine.calcConfidence({ ...detected(TOKEN_IMPERSONATION_MODULE_KEY), ...airdrop(10) }),
+    ).toStrictEqual(0.8);
+  });
+
+  it('should reduce confidence if there are many unique hosts', () => {
+    const confidence = engine.calcConfidence({
+      [PHISHING_METADATA_MODULE_KEY]: {
+        detected: true,
+        metadata: { urls: ['https://a.com', 'https://b.com/claim', 'https://c.com'] },
+      },
+    });
+
+    // 0.6 * max(0.15, 0.8 / (3 - 1))
+    expect(confidence).toStrictEqual(0.24);
+  });
+
+  it('should apply only the first matching modifier of a group', () => {
+    const confidence = engine.calcConfidence({
+      ...detected(PHISHING_METADATA_MODULE_KEY),
+      ...airdrop(5000),
+      ...highActivity(false, { activeReceiverCount: 30, activeReceiverRatio: 0.05 }),
+    });
+
+    // 0.6 * 0.75, the number of receivers is ignored
+    expect(confidence).toStrictEqual(0.45);
+  });
+
+  it('should limit confidence', () => {
+    const confidence = engine.calcConfidence({
+      ...detected(
+        TOKEN_IMPERSONATION_MODULE_KEY,
+        SLEEP_MINT_MODULE_KEY,
+        LOW_ACTIVITY_MODULE_KEY,
+        MULTIPLE_OWNERS_MODULE_KEY,
+        NON_UNIQUE_TOKENS_MODULE_KEY,
+        TOO_MANY_CREATIONS_MODULE_KEY,
+      ),
+      ...airdrop(5000),
+    });
+
+    expect(confidence).toStrictEqual(0.99);
+  });
+
+  it('should explain the verdict', () => {
+    const analysis = {
+      ...detected(SLEEP_MINT_MODULE_KEY, LOW_ACTIVITY_MODULE_KEY, SILENT_MINT_MODULE_KEY),
+      ...airdrop(1500),
+    };
+    const explanation = engine.explain(analysis);
+
+    expect(explanation.interpretation).toStrictEqual(engine.interpret(analysis));
+    expect(explanation.rules).toStrictEqual({
+      spam: 'SuspiciousAirdrop',
+      exclusion: null,
+      phishing: null,
+      finalization: null,
+    });
+    expect(explanation.confidence.base).toStrictEqual({ name: null, value: 0.6 });
+    expect(explanation.confidence.modifiers).toStrictEqual([
+      { name: 'MultipleIndicators', inputs: { evidence: 2 }, factor: 1.2 },
+      { name: 'Receivers1000', inputs: { receivers: 1500 }, factor: 1.2 },
+    ]);
+    expect(explanation.confidence.value).toStrictEqual(0.864);
+    expect(explanation.evidence).toStrictEqual({
+      [SLEEP_MINT_MODULE_KEY]: { weight: 1, metadata: undefined },
+      [LOW_ACTIVITY_MODULE_KEY]: { weight: 1, metadata: undefined },
+      [SILENT_MINT_MODULE_KEY]: { weight: 0, metadata: undefined },
+      [AIRDROP_MODULE_KEY]: { weight: 0, metadata: { receiverCount: 1500 } },
+    });
+  });
+
+  it('should explain the exclusion and the inputs of the modifiers', () => {
+    const explanation = engine.explain({
+      ...detected(TOKEN_IMPERSONATION_MODULE_KEY),
+      ...highActivity(true, { activeReceiverCount: 60, senderCount: 250 }),
+    });
+
+    expect(explanation.interpretation.isSpam).toStrictEqual(false);
+    expect(explanation.rules.spam).toStrictEqual('TokenImpersonation');
+    expect(explanation.rules.exclusion).toStrictEqual('HighActivity');
+    expect(explanation.confidence.base).toStrictEqual({ name: 'Impersonation', value: 0.75 });
+    expect(explanation.confidence.modifiers).toStrictEqual([
+      { name: 'ActiveReceivers50', inputs: { activeReceivers: 60 }, factor: 0.5 },
+      { name: 'Senders200', inputs: { senders: 250 }, factor: 0.85 },
+    ]);
+  });
+
+  it('should evaluate custom rules', () => {
+    const ruleSet = cloneDeep(DEFAULT_RULE_SET);
+    ruleSet.spam = [
+      {
+        name: 'LargeAirdrop',
+        when: {
+          all: [
+            { module: AIRDROP_MODULE_KEY },
+            { metric: 'receivers', gte: 1000 },
+            { not: { module: SILENT_MINT_MODULE_KEY } },
+          ],
+        },
+      },
+    ];
+
+    const customEngine = new ScoringEngine(ruleSet);
+
+    expect(customEngine.interpret(airdrop(999)).isSpam).toStrictEqual(false);
+    expect(customEngine.interpret(airdrop(1000)).isSpam).toStrictEqual(true);
+    expect(
+      customEngine.interpret({ ...airdrop(1000), ...detected(SILENT_MINT_MODULE_KEY) }).isSpam,
+    ).toStrictEqual(false);
+  });
+
+  it('should validate rule sets', () => {
+    expect(validateRuleSet(cloneDeep(DEFAULT_RULE_SET))).toEqual(DEFAULT_RULE_SET);
+
+    const ruleSet: any = cloneDeep(DEFAULT_RULE_SET);
+    ruleSet.spam[2].when.all[1] = { metric: 'unknown', gte: 1 };
+
+    expect(() => validateRuleSet(ruleSet)).toThrow(
+      'Invalid rule set: spam[2].when.all[1].metric is unknown: unknown',
+    );
+  });
+
+  it('should use default rule set if there is no file for the chain', async () => {
+    expect(await loadRuleSet(__dirname, 1)).toBe(DEFAULT_RULE_SET);
+  });
+});
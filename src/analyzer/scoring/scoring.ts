@@ -0,0 +1,267 @@
+import { AnalysisContext } from '../types';
+import { METRICS } from './metrics';
+import { DEFAULT_RULE_SET } from './rules';
+import {
+  ConfidenceExplanation,
+  ConfidenceModifier,
+  ExplainedModifier,
+  Explanation,
+  Factor,
+  Interpretation,
+  MetricKey,
+  Rule,
+  RuleCondition,
+  RuleSet,
+} from './types';
+import { JsonStorage } from '../../utils/storage';
+import { getIndicators } from '../../utils/helpers';
+import Logger from '../../utils/logger';
+
+// This engine evaluates analysis of the modules against a declarative rule set.
+// Each detected module contributes weighted evidence, rules define which combinations of modules
+// and metrics indicate spam, and the confidence modifiers adjust the final score.
+
+class ScoringEngine {
+  constructor(public readonly ruleSet: RuleSet = DEFAULT_RULE_SET) {}
+
+  interpret(analysis: AnalysisContext): Interpretation {
+    const isFinalized = !!this.findRule(this.ruleSet.finalization, analysis);
+    const isPhishing = !!this.findRule(this.ruleSet.phishing, analysis);
+    const isSpam =
+      !!this.findRule(this.ruleSet.spam, analysis) &&
+      !this.findRule(this.ruleSet.exclusions, analysis);
+
+    return {
+      isSpam,
+      isFinalized,
+      isPhishing,
+      confidence: this.calcConfidence(analysis),
+    };
+  }
+
+  calcConfidence(analysis: AnalysisContext): number {
+    return this.explainConfidence(analysis).value;
+  }
+
+  // Unlike interpret(), this method also returns the rules and values the verdict is based on
+  explain(analysis: AnalysisContext): Explanation {
+    const findRuleName = (rules: Rule[]) => this.findRule(rules, analysis)?.name ?? null;
+
+    const evidence: Explanation['evidence'] = {};
+    for (const key of getIndicators(analysis)) {
+      evidence[key] = {
+        weight: this.ruleSet.weights[key] ?? this.ruleSet.defaultWeight,
+        metadata: analysis[key].metadata,
+      };
+    }
+
+    return {
+      interpretation: this.interpret(analysis),
+      rules: {
+        spam: findRuleName(this.ruleSet.spam),
+        exclusion: findRuleName(this.ruleSet.exclusions),
+        phishing: findRuleName(this.ruleSet.phishing),
+        finalization: findRuleName(this.ruleSet.finalization),
+      },
+      confidence: this.explainConfidence(analysis),
+      evidence,
+    };
+  }
+
+  private explainConfidence(analysis: AnalysisContext): ConfidenceExplanation {
+    const { base, defaultBase, modifiers, max, precision } = this.ruleSet.confidence;
+
+    const baseRule = this.findRule(base, analysis);
+    const explanation: ConfidenceExplanation = {
+      base: { name: baseRule?.name ?? null, value: baseRule?.value ?? defaultBase },
+      modifiers: [],
+      max,
+      value: 0,
+    };
+
+    let confidence = explanation.base.value;
+
+    for (const group of modifiers) {
+      const modifier = this.findRule(group, analysis);
+      if (!modifier) continue;
+
+      const factor = this.calcFactor(modifier.factor, analysis);
+      const inputs: ExplainedModifier['inputs'] = {};
+      for (const metric of getMetricKeys(modifier)) {
+        inputs[metric] = this.getMetric(metric, analysis);
+      }
+
+      explanation.modifiers.push({ name: modifier.name, inputs, factor });
+      confidence *= factor;
+    }
+
+    explanation.value = Number(Math.min(max, confidence).toFixed(precision));
+
+    return explanation;
+  }
+
+  findRule<T extends Rule>(rules: T[], analysis: AnalysisContext): T | undefined {
+    return rules.find((rule) => this.test(rule.when, analysis));
+  }
+
+  test(condition: RuleCondition, analysis: AnalysisContext): boolean {
+    if ('module' in condition) return analysis[condition.module]?.detected || false;
+    if ('all' in condition) return condition.all.every((c) => this.test(c, analysis));
+    if ('any' in condition) return condition.any.some((c) => this.test(c, analysis));
+    if ('not' in condition) return !this.test(condition.not, analysis);
+
+    const value = this.getMetric(condition.metric, analysis);
+
+    return (
+      (condition.gt == null || value > condition.gt) &&
+      (condition.gte == null || value >= condition.gte) &&
+      (condition.lt == null || value < condition.lt) &&
+      (condition.lte == null || value <= condition.lte)
+    );
+  }
+
+  getMetric(key: MetricKey, analysis: AnalysisContext): number {
+    return METRICS[key](analysis, this.ruleSet);
+  }
+
+  private calcFactor(factor: Factor, analysis: AnalysisContext): number {
+    if (typeof factor === 'number') return factor;
+
+    const value = this.getMetric(factor.metric, analysis);
+    const offset = factor.offset ?? 0;
+
+    let result =
+      factor.type === 'linear'
+        ? offset + value * factor.scale
+        : factor.numerator / (value + offset);
+
+    if (factor.min != null) result = Math.max(factor.min, result);
+    if (factor.max != null) result = Math.min(factor.max, result);
+
+    return result;
+  }
+}
+
+// Returns metrics the rule depends on, e.g. [activeReceivers] for the ActiveReceivers100 modifier
+function getMetricKeys(modifier: ConfidenceModifier): MetricKey[] {
+  const keys = new Set<MetricKey>();
+
+  const collect = (condition: RuleCondition) => {
+    if ('metric' in condition) keys.add(condition.metric);
+    else if ('all' in condition) condition.all.forEach(collect);
+    else if ('any' in condition) condition.any.forEach(collect);
+    else if ('not' in condition) collect(condition.not);
+  };
+
+  collect(modifier.when);
+  if (typeof modifier.factor === 'object') keys.add(modifier.factor.metric);
+
+  return [...keys];
+}
+
+function assert(condition: unknown, path: string, message: string): asserts condition {
+  if (!condition) throw new Error(`Invalid rule set: ${path} ${message}`);
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+function validateCondition(condition: any, path: string) {
+  assert(condition && typeof condition === 'object', path, 'must be an object');
+
+  if ('module' in condition) {
+    assert(typeof condition.module === 'string', `${path}.module`, 'must be a string');
+  } else if ('all' in condition || 'any' in condition) {
+    const key = 'all' in condition ? 'all' : 'any';
+    assert(Array.isArray(condition[key]), `${path}.${key}`, 'must be an array');
+    condition[key].forEach((c: any, i: number) => validateCondition(c, `${path}.${key}[${i}]`));
+  } else if ('not' in condition) {
+    validateCondition(condition.not, `${path}.not`);
+  } else if ('metric' in condition) {
+    assert(condition.metric in METRICS, `${path}.metric`, `is unknown: ${condition.metric}`);
+    for (const op of ['gt', 'gte', 'lt', 'lte']) {
+      assert(condition[op] == null || isNumber(condition[op]), `${path}.${op}`, 'must be a number');
+    }
+  } else {
+    assert(false, path, 'must contain one of: module, metric, all, any, not');
+  }
+}
+
+function validateRules(rules: any, path: string, fields: string[] = []) {
+  assert(Array.isArray(rules), path, 'must be an array');
+  rules.forEach((rule: any, i: number) => {
+    assert(typeof rule?.name === 'string', `${path}[${i}].name`, 'must be a string');
+    validateCondition(rule.when, `${path}[${i}].when`);
+    for (const field of fields) {
+      assert(rule[field] != null, `${path}[${i}].${field}`, 'is required');
+    }
+  });
+}
+
+function validateFactor(factor: any, path: string) {
+  if (isNumber(factor)) return;
+
+  assert(factor && typeof factor === 'object', path, 'must be a number or an object');
+  assert(factor.metric in METRICS, `${path}.metric`, `is unknown: ${factor.metric}`);
+  assert(['linear', 'inverse'].includes(factor.type), `${path}.type`, 'must be linear or inverse');
+  const coefficient = factor.type === 'linear' ? 'scale' : 'numerator';
+  assert(isNumber(factor[coefficient]), `${path}.${coefficient}`, 'must be a number');
+  for (const field of ['offset', 'min', 'max']) {
+    assert(
+      factor[field] == null || isNumber(factor[field]),
+      `${path}.${field}`,
+      'must be a number',
+    );
+  }
+}
+
+export function validateRuleSet(ruleSet: any): RuleSet {
+  assert(ruleSet && typeof ruleSet === 'object', 'ruleSet', 'must be an object');
+  assert(typeof ruleSet.name === 'string', 'name', 'must be a string');
+  assert(ruleSet.weights && typeof ruleSet.weights === 'object', 'weights', 'must be an object');
+  for (const [key, weight] of Object.entries(ruleSet.weights)) {
+    assert(isNumber(weight), `weights.${key}`, 'must be a number');
+  }
+  assert(isNumber(ruleSet.defaultWeight), 'defaultWeight', 'must be a number');
+
+  validateRules(ruleSet.spam, 'spam');
+  validateRules(ruleSet.exclusions, 'exclusions');
+  validateRules(ruleSet.phishing, 'phishing');
+  validateRules(ruleSet.finalization, 'finalization');
+
+  const { confidence } = ruleSet;
+  assert(confidence && typeof confidence === 'object', 'confidence', 'must be an object');
+  validateRules(confidence.base, 'confidence.base', ['value']);
+  confidence.base.forEach((b: any, i: number) =>
+    assert(isNumber(b.value), `confidence.base[${i}].value`, 'must be a number'),
+  );
+  assert(isNumber(confidence.defaultBase), 'confidence.defaultBase', 'must be a number');
+  assert(Array.isArray(confidence.modifiers), 'confidence.modifiers', 'must be an array');
+  confidence.modifiers.forEach((group: any, i: number) => {
+    const path = `confidence.modifiers[${i}]`;
+    validateRules(group, path, ['factor']);
+    group.forEach((m: any, y: number) => validateFactor(m.factor, `${path}[${y}].factor`));
+  });
+  assert(isNumber(confidence.max), 'confidence.max', 'must be a number');
+  assert(
+    Number.isInteger(confidence.precision) && confidence.precision >= 0,
+    'confidence.precision',
+    'must be a non-negative integer',
+  );
+
+  return ruleSet as RuleSet;
+}
+
+// Alternative rule sets can be placed in the data folder, e.g. ./data/rules/56.json
+export async function loadRuleSet(folderPath: string, chainId: number): Promise<RuleSet> {
+  const storage = new JsonStorage<RuleSet>(folderPath, `${chainId}.json`);
+  const ruleSet = await storage.read();
+
+  if (!ruleSet) return DEFAULT_RULE_SET;
+
+  validateRuleSet(ruleSet);
+  Logger.info(`Using rule set "${ruleSet.name}" for chain ${chainId}`);
+
+  return ruleSet;
+}
+
+export default ScoringEngine;
@@ -0,0 +1,112 @@
+export type MetricKey =
+  | 'evidence'
+  | 'receivers'
+  | 'activeReceivers'
+  | 'activeReceiverRatio'
+  | 'senders'
+  | 'uniqueHosts'
+  | 'descriptionLength';
+
+export type MetricCondition = {
+  metric: MetricKey;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+};
+
+// Conditions are plain objects, so that a rule set can be stored as a JSON file
+export type RuleCondition =
+  | { module: string }
+  | MetricCondition
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export type Rule = {
+  name: string;
+  when: RuleCondition;
+};
+
+export type Factor =
+  | number
+  // offset + value * scale
+  | {
+      metric: MetricKey;
+      type: 'linear';
+      scale: number;
+      offset?: number;
+      min?: number;
+      max?: number;
+    }
+  // numerator / (value + offset)
+  | {
+      metric: MetricKey;
+      type: 'inverse';
+      numerator: number;
+      offset?: number;
+      min?: number;
+      max?: number;
+    };
+
+export type ConfidenceBase = Rule & { value: number };
+
+export type ConfidenceModifier = Rule & { factor: Factor };
+
+export type RuleSet = {
+  name: string;
+  // Weight of the evidence contributed by a detected module
+  weights: { [moduleKey: string]: number };
+  defaultWeight: number;
+  // A token is spam if any of the spam rules matches and none of the exclusion rules match
+  spam: Rule[];
+  exclusions: Rule[];
+  phishing: Rule[];
+  // The token no longer needs to be monitored
+  finalization: Rule[];
+  confidence: {
+    // The first matching base rule defines the initial confidence
+    base: ConfidenceBase[];
+    defaultBase: number;
+    // Only the first matching modifier of each group is applied
+    modifiers: ConfidenceModifier[][];
+    max: number;
+    precision: number;
+  };
+};
+
+export type Interpretation = {
+  isSpam: boolean;
+  isPhishing: boolean;
+  isFinalized: boolean;
+  confidence: number;
+};
+
+export type ExplainedModifier = {
+  name: string;
+  // Values of the metrics used by the modifier, e.g. { activeReceivers: 120 }
+  inputs: { [metric in MetricKey]?: number };
+  factor: number;
+};
+
+export type ConfidenceExplanation = {
+  base: { name: string | null; value: number };
+  // Modifiers in the order they are applied to the base value
+  modifiers: ExplainedModifier[];
+  max: number;
+  value: number;
+};
+
+export type Explanation = {
+  interpretation: Interpretation;
+  // Names of the first matching rules
+  rules: {
+    spam: string | null;
+    exclusion: string | null;
+    phishing: string | null;
+    finalization: string | null;
+  };
+  confidence: ConfidenceExplanation;
+  // Detected modules with their weights and collected metadata
+  evidence: { [moduleKey: string]: { weight: number; metadata?: object } };
+};
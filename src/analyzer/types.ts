@@ -1,9 +1,13 @@
 import { ethers } from 'ethers';
 
 import Memoizer from '../utils/cache';
+import { AddressCache } from '../utils/address-cache';
+import { AccountClassifier } from '../utils/account-classifier';
+import { MulticallBatcher } from '../utils/multicall';
 import DataStorage from '../storage';
 import DataTransformer from './transformer';
 import { TokenContract } from '../types';
+import { Explanation, Interpretation } from './scoring/types';
 
 export type ModuleAnalysisResult<T extends object = object> = {
   detected: boolean;
@@ -20,6 +24,12 @@ export type ScanParams = {
   blockNumber: number;
   context: AnalysisContext;
   memoizer: Memoizer;
+  // Shared by all tokens
+  addressCache: AddressCache;
+  // Labels addresses as EOAs, smart wallets, DEX pairs or other contracts, the labels are cached in the address cache
+  accountClassifier: AccountClassifier;
+  // Aggregates contract calls and balance queries through Multicall3
+  multicall: MulticallBatcher;
   provider: ethers.providers.JsonRpcProvider;
   storage: DataStorage;
   transformer: DataTransformer;
@@ -30,15 +40,19 @@ export type ModuleScanReturn = { interrupt?: boolean; finalized?: boolean } | un
 
 export type AnalysisResult = {
   analysis: AnalysisContext;
-  interpret: () => {
-    isSpam: boolean;
-    isPhishing: boolean;
-    isFinalized: boolean;
-    confidence: number;
-  };
+  interpret: () => Interpretation;
+  explain: () => Explanation;
   compare: (prevAnalysis?: AnalysisContext) => { isUpdated: boolean; isChanged: boolean };
 };
 
+export type ReleasedAnalysis = {
+  token: TokenContract;
+  result: AnalysisResult;
+  // Time and block the token was analyzed at
+  timestamp: number;
+  blockNumber: number;
+};
+
 export interface AnalyzerTask {
   token: TokenContract;
   timestamp: number;
@@ -50,6 +64,9 @@ export interface AnalyzerTask {
 
 export abstract class AnalyzerModule {
   static Key: string;
+  // Keys of the modules whose results are read from the context.
+  // If one of them interrupts the scan, this module is skipped.
+  static dependsOn: string[] = [];
 
   constructor() {}
 
@@ -62,4 +79,8 @@ export abstract class AnalyzerModule {
   get key() {
     return (this.constructor as typeof AnalyzerModule).Key;
   }
+
+  get dependsOn() {
+    return (this.constructor as typeof AnalyzerModule).dependsOn;
+  }
 }
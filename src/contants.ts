@@ -23,11 +23,35 @@ export const IS_DEVELOPMENT = process.env.NODE_ENV !== 'production';
 export const DEBUG_TARGET_TOKEN = (process.env.TARGET_TOKEN || '').toLowerCase();
 export const PROVIDER_CONCURRENCY = IS_DEVELOPMENT ? 5 : 2;
 export const FETCH_CONCURRENCY = IS_DEVELOPMENT ? 50 : 25;
+export const TICK_INTERVAL = 4 * 60 * 60; // 4h
 
 export const DATA_PATH = path.resolve(__dirname, '../data');
+export const RULES_PATH = path.resolve(DATA_PATH, './rules');
 
 export const DB_FOLDER_PATH = path.resolve(__dirname);
 export const DB_FILE_PATH = path.resolve(DB_FOLDER_PATH, './storage.db');
+export const CACHE_FILE_PATH = path.resolve(DB_FOLDER_PATH, './cache.db');
+// If set, the events are stored in PostgreSQL instead of SQLite
+export const POSTGRES_URL = process.env.POSTGRES_URL;
+export const CACHE_CLEANUP_INTERVAL = 30 * 60 * 1000; // 30m
+// Tokens that haven't been finalized within the max age are dropped, as well as the oldest ones if the database is too large
+export const RETENTION_MAX_TOKEN_AGE =
+  Number(process.env.RETENTION_MAX_TOKEN_AGE) || 30 * 24 * 60 * 60; // 30d
+// Analyses of the tokens that are no longer watched are kept as their verdict timeline for this time
+export const RETENTION_MAX_ANALYSIS_AGE =
+  Number(process.env.RETENTION_MAX_ANALYSIS_AGE) || 180 * 24 * 60 * 60; // 180d
+export const RETENTION_MAX_DB_SIZE = Number(process.env.RETENTION_MAX_DB_SIZE) || 2 * 1024 ** 3; // 2Gb
+export const RETENTION_INTERVAL = 6 * 60 * 60 * 1000; // 6h
+// Portfolio of honeypot candidates takes extra calls per address, so it's checked only if enabled
+export const PORTFOLIO_CHECK_ENABLED = process.env.PORTFOLIO_CHECK === '1';
+// Number of recent block hashes kept to detect chain reorganizations, deeper reorgs are not rolled back
+export const REORG_DEPTH = 256;
+// Transactions stored by the older versions whose indexes are fixed with every block
+export const TX_INDEX_BACKFILL_BATCH_SIZE = 50;
+export const CHECKPOINT_FILE_NAME = 'checkpoint.json';
+export const CHECKPOINT_INTERVAL = 10 * 60 * 1000; // 10m
+// Docker sends SIGKILL 10s after SIGTERM
+export const SHUTDOWN_TIMEOUT = 8 * 1000;
 
 export const INTERFACE_ID_BY_TYPE = {
   [TokenStandard.Erc20]: '0x36372b07',
@@ -51,6 +75,157 @@ export const PUBLIC_RPC_URLS_BY_NETWORK = {
   [Network.ARBITRUM]: ['https://rpc.ankr.com/arbitrum'],
 } as Record<Network, string[]>;
 
+export type BlueChipToken = {
+  symbol: string;
+  address: string;
+  decimals: number;
+  asset: string; // CoinGecko id, used to get the price
+};
+
+// ERC-20 tokens whose balances are summed up in the portfolio of a honeypot candidate
+export const BLUE_CHIP_TOKENS_BY_NETWORK = {
+  [Network.MAINNET]: [
+    {
+      symbol: 'USDT',
+      address: '0xdac17f958d2ee523a2206206994597c13d831ec7',
+      decimals: 6,
+      asset: 'tether',
+    },
+    {
+      symbol: 'USDC',
+      address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+      decimals: 6,
+      asset: 'usd-coin',
+    },
+    {
+      symbol: 'DAI',
+      address: '0x6b175474e89094c44da98b954eedeac495271d0f',
+      decimals: 18,
+      asset: 'dai',
+    },
+    {
+      symbol: 'WETH',
+      address: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+      decimals: 18,
+      asset: 'ethereum',
+    },
+    {
+      symbol: 'WBTC',
+      address: '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599',
+      decimals: 8,
+      asset: 'wrapped-bitcoin',
+    },
+  ],
+  [Network.BSC]: [
+    {
+      symbol: 'USDT',
+      address: '0x55d398326f99059ff775485246999027b3197955',
+      decimals: 18,
+      asset: 'tether',
+    },
+    {
+      symbol: 'USDC',
+      address: '0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+      decimals: 18,
+      asset: 'usd-coin',
+    },
+    {
+      symbol: 'BUSD',
+      address: '0xe9e7cea3dedca5984780bafc599bd69add087d56',
+      decimals: 18,
+      asset: 'binance-usd',
+    },
+  ],
+  [Network.POLYGON]: [
+    {
+      symbol: 'USDT',
+      address: '0xc2132d05d31c914a87c6611c10748aeb04b58e8f',
+      decimals: 6,
+      asset: 'tether',
+    },
+    {
+      symbol: 'USDC.e',
+      address: '0x2791bca1f2de4661ed88a30c99a7a9449aa84174',
+      decimals: 6,
+      asset: 'usd-coin',
+    },
+    {
+      symbol: 'WETH',
+      address: '0x7ceb23fd6bc0add59e62ac25578270cff1b9f619',
+      decimals: 18,
+      asset: 'ethereum',
+    },
+  ],
+  [Network.ARBITRUM]: [
+    {
+      symbol: 'USDT',
+      address: '0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9',
+      decimals: 6,
+      asset: 'tether',
+    },
+    {
+      symbol: 'USDC',
+      address: '0xaf88d065e77c8cc2239327c5edb3a432268e5831',
+      decimals: 6,
+      asset: 'usd-coin',
+    },
+    {
+      symbol: 'USDC.e',
+      address: '0xff970a61a04b1ca14834a43f5de4533ebddb5cc8',
+      decimals: 6,
+      asset: 'usd-coin',
+    },
+  ],
+  [Network.OPTIMISM]: [
+    {
+      symbol: 'USDT',
+      address: '0x94b008aa00579c1307b0ef2c499ad98a8ce58e58',
+      decimals: 6,
+      asset: 'tether',
+    },
+    {
+      symbol: 'USDC',
+      address: '0x0b2c639c533813f4aa9d7837caf62653d097ff85',
+      decimals: 6,
+      asset: 'usd-coin',
+    },
+    {
+      symbol: 'USDC.e',
+      address: '0x7f5c764cbc14f9669b88837ca1490cca17c31607',
+      decimals: 6,
+      asset: 'usd-coin',
+    },
+  ],
+  [Network.FANTOM]: [
+    {
+      symbol: 'USDC',
+      address: '0x04068da6c83afcfa0e13ba15a6696662335d5b75',
+      decimals: 6,
+      asset: 'usd-coin',
+    },
+    {
+      symbol: 'fUSDT',
+      address: '0x049d68029688eabf473097a2fc38ef61633a3c7a',
+      decimals: 6,
+      asset: 'tether',
+    },
+  ],
+  [Network.AVALANCHE]: [
+    {
+      symbol: 'USDT',
+      address: '0x9702230a8ea53601f5cd2dc00fdbc13d4df4a8c7',
+      decimals: 6,
+      asset: 'tether',
+    },
+    {
+      symbol: 'USDC',
+      address: '0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e',
+      decimals: 6,
+      asset: 'usd-coin',
+    },
+  ],
+} as Record<Network, BlueChipToken[]>;
+
 export const FALSE_FINDINGS_URL =
   'https://raw.githubusercontent.com/kovart/forta-spam-detector/main/data/false-findings.json';
 
@@ -76,3 +251,12 @@ export const BURN_ADDRESSES = new Set(
     '0x000000000000000000000000000000000000dEaD',
   ].map((a) => a.toLowerCase()),
 );
+
+// ERC-4337 EntryPoint contracts (v0.6 and v0.7), accounts called by them execute the user operations of their owners
+export const ERC4337_ENTRY_POINTS = new Set(
+  ['0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789', '0x0000000071727De22E5E9d8BAd0d2E4b2b3c95F2'].map(
+    (a) => a.toLowerCase(),
+  ),
+);
+// execTransaction() of Safe multisig wallets, the transaction is executed by the wallet rather than its owner
+export const SAFE_EXEC_TRANSACTION_SIGHASH = '0x6a761202';
@@ -0,0 +1,1113 @@
+import { ethers } from 'ethers';
+import { omit, sortBy } from 'lodash';
+
+import { TokenInsertEvent } from '../database';
+import { ISqlDatabase } from '../types';
+import { EventKind, EventQuery } from '../events';
+import { getEventTransfers, HolderBalance } from '../balances';
+import {
+  AnalysisRecord,
+  DetailedErc1155ApprovalForAllEvent,
+  DetailedErc1155TransferBatchEvent,
+  DetailedErc1155TransferSingleEvent,
+  DetailedErc20ApprovalEvent,
+  DetailedErc20TransferEvent,
+  DetailedErc721ApprovalEvent,
+  DetailedErc721ApprovalForAllEvent,
+  DetailedErc721TransferEvent,
+  SimplifiedTransaction,
+  TokenContract,
+  TokenEvent,
+  TokenStandard,
+} from '../../types';
+
+const autoAddress = (
+  (i) => () =>
+    ethers.utils.hexZeroPad('0xAbCdEf' + i++, 20)
+)(0);
+const autoTxHash = (
+  (i) => () =>
+    ethers.utils.hexZeroPad('0xFfAaEe' + i++, 32)
+)(0);
+
+export type TestedSqlDatabase = ISqlDatabase & { getAddresses(): Promise<{ address: string }[]> };
+
+// The same tests are run against every implementation of the database
+export function describeSqlDatabase(name: string, createDatabase: () => TestedSqlDatabase) {
+  describe(name, () => {
+    const db = createDatabase();
+
+    beforeAll(async () => {
+      await db.initialize();
+    });
+
+    afterAll(async () => {
+      await db.close();
+    });
+
+    async function testEvents<T extends TokenEvent>(params: {
+      init: (
+        transactionId: number,
+        transactionHash: string,
+        token: TokenContract,
+      ) => TokenInsertEvent<T>[];
+      add: (event: TokenInsertEvent<T>) => void;
+      get: (token: TokenContract) => Promise<object[]>;
+    }) {
+      const { init, add, get } = params;
+
+      const token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1234,
+        blockNumber: 12355,
+        type: TokenStandard.Erc20,
+      };
+
+      const tx: SimplifiedTransaction = {
+        from: autoAddress(),
+        to: autoAddress(),
+        sighash: '0xa9059cbb',
+        timestamp: 1e8,
+        blockNumber: 1234,
+        hash: autoTxHash(),
+        index: 1,
+      };
+
+      const transactionId = await db.addTransaction(tx);
+
+      const events = init(transactionId, tx.hash, token);
+
+      db.addToken(token);
+      for (const event of events) {
+        add(event);
+      }
+
+      const result = await get(token);
+
+      expect(result).toHaveLength(events.length);
+      for (const item of result) {
+        expect(result).toContainEqual({ ...omit(item, 'transactionId'), transaction: tx });
+      }
+    }
+
+    // Adds the events in separate transactions and updates the balances the same way as the storage does
+    async function addTransferEvents<T extends TokenEvent>(
+      token: TokenContract,
+      kind: EventKind,
+      events: Omit<T, 'transaction' | 'contract' | 'logIndex'>[],
+      add: (event: TokenInsertEvent<T>) => Promise<void>,
+    ) {
+      for (const [i, e] of events.entries()) {
+        const tx: SimplifiedTransaction = {
+          from: autoAddress(),
+          to: token.address,
+          sighash: '0xa9059cbb',
+          timestamp: token.timestamp + i,
+          blockNumber: token.blockNumber + i,
+          hash: autoTxHash(),
+          index: 0,
+        };
+        const event = {
+          ...e,
+          contract: token.address,
+          logIndex: 0,
+          transactionId: await db.addTransaction(tx),
+        } as TokenInsertEvent<T>;
+
+        await add(event);
+        await db.applyTransfers(token.address, token.type, getEventTransfers(kind, event));
+      }
+    }
+
+    const sortBalances = <T extends { holder: string }>(balances: T[]) =>
+      sortBy(balances, ['holder', 'tokenId']);
+
+    it('should add and get token', async () => {
+      const token: TokenContract = {
+        address: '0x1f9090aaE28b8a3dCeaDf281B0F12828e676c326',
+        timestamp: 1234,
+        blockNumber: 123455,
+        type: TokenStandard.Erc20,
+        deployer: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      };
+
+      db.addToken(token);
+
+      const result = await db.getTokens();
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toEqual(token);
+    });
+
+    it('should add and get transaction', async () => {
+      const contract = autoAddress();
+
+      const tx1: SimplifiedTransaction = {
+        from: autoAddress(),
+        to: contract,
+        sighash: '0xa9059cbb',
+        timestamp: 1234,
+        blockNumber: 22222,
+        hash: autoTxHash(),
+        index: 0,
+      };
+
+      const tx2: SimplifiedTransaction = {
+        from: autoAddress(),
+        to: contract,
+        sighash: '0x',
+        timestamp: 12344,
+        blockNumber: 333333,
+        hash: autoTxHash(),
+        index: 1,
+      };
+
+      const tx3: SimplifiedTransaction = {
+        from: autoAddress(),
+        to: null,
+        sighash: '0x',
+        timestamp: 12344,
+        blockNumber: 333333,
+        hash: autoTxHash(),
+        index: 2,
+      };
+
+      db.addTransaction(tx1);
+      db.addTransaction(tx2);
+      db.addTransaction(tx3);
+
+      let result = await db.getTransactions({ to: contract });
+
+      expect(result).toHaveLength(2);
+      expect(result).toContainEqual(tx1);
+      expect(result).toContainEqual(tx2);
+
+      result = await db.getTransactions({ to: null });
+
+      expect(result).toHaveLength(1);
+      expect(result).toContainEqual(tx3);
+    });
+
+    it('should add and get the initiators of transactions', async () => {
+      const token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber: 100,
+        type: TokenStandard.Erc20,
+      };
+      const initiator = autoAddress();
+      const tx: SimplifiedTransaction = {
+        from: autoAddress(),
+        to: autoAddress(),
+        sighash: '0x765e827f',
+        timestamp: 1010,
+        blockNumber: 101,
+        hash: autoTxHash(),
+        index: 0,
+        initiator: initiator,
+      };
+      const event = {
+        from: initiator,
+        to: autoAddress(),
+        contract: token.address,
+        value: BigInt(1),
+        logIndex: 0,
+      };
+
+      db.addToken(token);
+      const transactionId = await db.addTransaction(tx);
+      await db.addErc20TransferEvent({ ...event, transactionId });
+      await db.prune({ analysesBefore: 0 });
+
+      expect(await db.getTransactions({ to: tx.to })).toStrictEqual([tx]);
+      expect(await db.getErc20TransferEvents({ contract: token.address })).toStrictEqual([
+        { ...event, transaction: tx },
+      ]);
+      expect((await db.getAddresses()).map((a) => a.address)).toContain(initiator);
+    });
+
+    it('should add and get ERC20 Transfer events', async () => {
+      await testEvents<DetailedErc20TransferEvent>({
+        init: (transactionId, transactionHash, token) => [
+          {
+            from: autoAddress(),
+            to: autoAddress(),
+            contract: token.address,
+            transactionId: transactionId,
+            value: BigInt('123'),
+            logIndex: 0,
+          },
+          {
+            from: autoAddress(),
+            to: autoAddress(),
+            contract: token.address,
+            transactionHash: transactionHash,
+            value: BigInt('12123124324235345693496834968340869348693468463089643098346'),
+            logIndex: 1,
+          },
+        ],
+        add: (event) => db.addErc20TransferEvent(event),
+        get: (token) => db.getErc20TransferEvents({ contract: token.address }),
+      });
+    });
+
+    it('should add and get ERC20 Approval events', async () => {
+      await testEvents<DetailedErc20ApprovalEvent>({
+        init: (transactionId, transactionHash, token) => [
+          {
+            owner: autoAddress(),
+            spender: autoAddress(),
+            contract: token.address,
+            transactionId: transactionId,
+            value: BigInt('123'),
+            logIndex: 0,
+          },
+          {
+            owner: autoAddress(),
+            spender: autoAddress(),
+            contract: token.address,
+            transactionHash: transactionHash,
+            value: BigInt('12123124324235345693496834968340869348693468463089643098346'),
+            logIndex: 1,
+          },
+        ],
+        add: (event) => db.addErc20ApprovalEvent(event),
+        get: (token) => db.getErc20ApprovalEvents({ contract: token.address }),
+      });
+    });
+
+    it('should add and get Erc721 Transfer events', async () => {
+      await testEvents<DetailedErc721TransferEvent>({
+        init: (transactionId, transactionHash, token) => [
+          {
+            from: autoAddress(),
+            to: autoAddress(),
+            contract: token.address,
+            transactionId: transactionId,
+            tokenId: '123546745745765856865865756457546653443554354453366356535723242343266545',
+            logIndex: 1,
+          },
+          {
+            from: autoAddress(),
+            to: autoAddress(),
+            contract: token.address,
+            transactionHash: transactionHash,
+            tokenId: '7642',
+            logIndex: 1,
+          },
+        ],
+        add: (event) => db.addErc721TransferEvent(event),
+        get: (token) => db.getErc721TransferEvents({ contract: token.address }),
+      });
+    });
+
+    it('should add and get Erc721 Approval events', async () => {
+      await testEvents<DetailedErc721ApprovalEvent>({
+        init: (transactionId, transactionHash, token) => [
+          {
+            owner: autoAddress(),
+            approved: autoAddress(),
+            contract: token.address,
+            transactionHash: transactionHash,
+            tokenId: '12345',
+            logIndex: 0,
+          },
+          {
+            owner: autoAddress(),
+            approved: autoAddress(),
+            contract: token.address,
+            transactionId: transactionId,
+            tokenId: '7642',
+            logIndex: 1,
+          },
+        ],
+        add: (event) => db.addErc721ApprovalEvent(event),
+        get: (token) => db.getErc721ApprovalEvents({ contract: token.address }),
+      });
+    });
+
+    it('should add and get Erc721 ApprovalForAll events', async () => {
+      await testEvents<DetailedErc721ApprovalForAllEvent>({
+        init: (transactionId, transactionHash, token) => [
+          {
+            owner: autoAddress(),
+            operator: autoAddress(),
+            approved: false,
+            contract: token.address,
+            transactionId: transactionId,
+            logIndex: 0,
+          },
+          {
+            owner: autoAddress(),
+            operator: autoAddress(),
+            approved: true,
+            contract: token.address,
+            transactionHash: transactionHash,
+            logIndex: 1,
+          },
+        ],
+        add: (event) => db.addErc721ApprovalForAllEvent(event),
+        get: (token) => db.getErc721ApprovalForAllEvents({ contract: token.address }),
+      });
+    });
+
+    it('should add and get Erc1155 TransferSingle events', async () => {
+      await testEvents<DetailedErc1155TransferSingleEvent>({
+        init: (transactionId, transactionHash, token) => [
+          {
+            from: autoAddress(),
+            to: autoAddress(),
+            operator: autoAddress(),
+            tokenId: '0',
+            value: BigInt('0'),
+            contract: token.address,
+            transactionId: transactionId,
+            logIndex: 0,
+          },
+          {
+            from: autoAddress(),
+            to: autoAddress(),
+            operator: autoAddress(),
+            tokenId: '1234556745756765867876876768786784755564654546645',
+            value: BigInt('12344378678678678678678679789789879789879789789789789'),
+            contract: token.address,
+            transactionHash: transactionHash,
+            logIndex: 1,
+          },
+        ],
+        add: (event) => db.addErc1155TransferSingleEvent(event),
+        get: (token) => db.getErc1155TransferSingleEvents({ contract: token.address }),
+      });
+    });
+
+    it('should add and get Erc1155 TransferBatch events', async () => {
+      await testEvents<DetailedErc1155TransferBatchEvent>({
+        init: (transactionId, transactionHash, token) => [
+          {
+            from: autoAddress(),
+            to: autoAddress(),
+            operator: autoAddress(),
+            ids: ['0', '123124325235'],
+            values: [BigInt('0'), BigInt('12344378678678678678678679789789879789879789789789789')],
+            contract: token.address,
+            transactionId: transactionId,
+            logIndex: 0,
+          },
+          {
+            from: autoAddress(),
+            to: autoAddress(),
+            operator: autoAddress(),
+            ids: ['0', '123124325235'],
+            values: [BigInt('0'), BigInt('1')],
+            contract: token.address,
+            transactionHash: transactionHash,
+            logIndex: 1,
+          },
+        ],
+        add: (event) => db.addErc1155TransferBatchEvent(event),
+        get: (token) => db.getErc1155TransferBatchEvents({ contract: token.address }),
+      });
+    });
+
+    it('should add and get Erc1155 ApprovalForAll events', async () => {
+      await testEvents<DetailedErc1155ApprovalForAllEvent>({
+        init: (transactionId, transactionHash, token) => [
+          {
+            owner: autoAddress(),
+            operator: autoAddress(),
+            approved: false,
+            contract: token.address,
+            transactionId: transactionId,
+            logIndex: 0,
+          },
+          {
+            owner: autoAddress(),
+            operator: autoAddress(),
+            approved: true,
+            contract: token.address,
+            transactionHash: transactionHash,
+            logIndex: 1,
+          },
+        ],
+        add: (event) => db.addErc1155ApprovalForAllEvent(event),
+        get: (token) => db.getErc1155ApprovalForAllEvents({ contract: token.address }),
+      });
+    });
+
+    it('should read events page by page', async () => {
+      const token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber: 10,
+        type: TokenStandard.Erc20,
+      };
+
+      const createTx = (blockNumber: number, index: number): SimplifiedTransaction => ({
+        from: autoAddress(),
+        to: token.address,
+        sighash: '0xa9059cbb',
+        timestamp: blockNumber * 10,
+        blockNumber: blockNumber,
+        hash: autoTxHash(),
+        index: index,
+      });
+
+      // Added out of order to check the ordering
+      const txs = [createTx(11, 0), createTx(10, 1), createTx(10, 0)];
+      const [sender, receiver] = [autoAddress(), autoAddress()];
+
+      db.addToken(token);
+      for (const tx of txs) await db.addTransaction(tx);
+
+      const events: DetailedErc20TransferEvent[] = [
+        { from: sender, to: receiver, tx: txs[2], logIndex: 1 },
+        { from: sender, to: autoAddress(), tx: txs[2], logIndex: 2 },
+        { from: autoAddress(), to: receiver, tx: txs[1], logIndex: 0 },
+        { from: sender, to: autoAddress(), tx: txs[0], logIndex: 0 },
+      ].map((e) => ({
+        from: e.from,
+        to: e.to,
+        contract: token.address,
+        transaction: e.tx,
+        value: BigInt(1),
+        logIndex: e.logIndex,
+      }));
+
+      for (const event of [...events].reverse()) {
+        await db.addErc20TransferEvent({
+          ...omit(event, 'transaction'),
+          transactionHash: event.transaction.hash,
+        });
+      }
+
+      const query = { contract: token.address };
+
+      const page1 = await db.getEventsPage(EventKind.Erc20Transfer, query, null, 2);
+      expect(page1.events).toStrictEqual(events.slice(0, 2));
+      expect(page1.cursor).toStrictEqual({ blockNumber: 10, txIndex: 0, logIndex: 2 });
+
+      const page2 = await db.getEventsPage(EventKind.Erc20Transfer, query, page1.cursor, 2);
+      expect(page2.events).toStrictEqual(events.slice(2, 4));
+      expect(page2.cursor).not.toBeNull();
+
+      const page3 = await db.getEventsPage(EventKind.Erc20Transfer, query, page2.cursor, 2);
+      expect(page3).toStrictEqual({ events: [], cursor: null });
+
+      const iteratedEvents: DetailedErc20TransferEvent[] = [];
+      for await (const event of db.iterateEvents(EventKind.Erc20Transfer, query, 3)) {
+        iteratedEvents.push(event);
+      }
+      expect(iteratedEvents).toStrictEqual(events);
+      expect(await db.countEvents(EventKind.Erc20Transfer, query)).toStrictEqual(4);
+    });
+
+    it('should filter events by block range and address', async () => {
+      const token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber: 10,
+        type: TokenStandard.Erc721,
+      };
+      const [owner, approved] = [autoAddress(), autoAddress()];
+
+      db.addToken(token);
+
+      const events: DetailedErc721ApprovalEvent[] = [];
+      for (let blockNumber = 10; blockNumber < 15; blockNumber++) {
+        const tx: SimplifiedTransaction = {
+          from: owner,
+          to: token.address,
+          sighash: '0x095ea7b3',
+          timestamp: blockNumber * 10,
+          blockNumber: blockNumber,
+          hash: autoTxHash(),
+          index: 0,
+        };
+        const event = {
+          owner: owner,
+          approved: blockNumber % 2 === 0 ? approved : autoAddress(),
+          tokenId: blockNumber.toString(),
+          contract: token.address,
+          logIndex: 0,
+        };
+
+        await db.addErc721ApprovalEvent({ ...event, transactionId: await db.addTransaction(tx) });
+        events.push({ ...event, transaction: tx });
+      }
+
+      const getEvents = async (query: EventQuery) =>
+        (await db.getEventsPage(EventKind.Erc721Approval, query)).events;
+
+      expect(
+        await getEvents({ contract: token.address, fromBlock: 11, toBlock: 13 }),
+      ).toStrictEqual(events.slice(1, 4));
+      expect(await getEvents({ contract: token.address, address: approved })).toStrictEqual([
+        events[0],
+        events[2],
+        events[4],
+      ]);
+      expect(
+        await getEvents({ contract: token.address, address: approved, fromBlock: 11 }),
+      ).toStrictEqual([events[2], events[4]]);
+      expect(await getEvents({ contract: token.address, address: owner })).toStrictEqual(events);
+      expect(await getEvents({ contract: token.address, address: autoAddress() })).toStrictEqual(
+        [],
+      );
+      expect(
+        await db.countEvents(EventKind.Erc721Approval, { contract: token.address, toBlock: 11 }),
+      ).toStrictEqual(2);
+    });
+
+    it('should maintain ERC20 balances', async () => {
+      const token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber: 100,
+        type: TokenStandard.Erc20,
+      };
+      const [a, b, c, d] = [autoAddress(), autoAddress(), autoAddress(), autoAddress()];
+      const zero = ethers.constants.AddressZero;
+
+      db.addToken(token);
+      await addTransferEvents<DetailedErc20TransferEvent>(
+        token,
+        EventKind.Erc20Transfer,
+        [
+          { from: zero, to: a, value: BigInt('1000000000000000000000000000000') },
+          { from: a, to: b, value: BigInt('300000000000000000000000000000') },
+          // b sends more tokens than it has received
+          { from: b, to: c, value: BigInt('500000000000000000000000000000') },
+          { from: zero, to: d, value: BigInt(9) },
+        ],
+        (e) => db.addErc20TransferEvent(e),
+      );
+
+      const balances: HolderBalance[] = [
+        { holder: a, balance: BigInt('700000000000000000000000000000') },
+        { holder: b, balance: BigInt('-200000000000000000000000000000') },
+        { holder: c, balance: BigInt('500000000000000000000000000000') },
+        { holder: d, balance: BigInt(9) },
+      ];
+
+      const expectBalances = async () => {
+        const params = { contract: token.address };
+
+        expect(sortBalances(await db.getBalances(params))).toStrictEqual(sortBalances(balances));
+        expect(await db.getHolderCount(params)).toStrictEqual(3);
+        expect(await db.getTopHolders({ ...params, limit: 2 })).toStrictEqual([
+          balances[0],
+          balances[2],
+        ]);
+        expect(await db.getTopHolders({ ...params, limit: 10 })).toStrictEqual([
+          balances[0],
+          balances[2],
+          balances[3],
+        ]);
+        expect(await db.getNegativeBalances(params)).toStrictEqual([balances[1]]);
+      };
+
+      await expectBalances();
+
+      // Replaying the stored events leads to the same balances
+      await db.rebuildBalances(token);
+      await expectBalances();
+
+      db.clearToken(token.address);
+      expect(await db.getBalances({ contract: token.address })).toStrictEqual([]);
+    });
+
+    it('should maintain ERC721 owners and ERC1155 balances', async () => {
+      const erc721Token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber: 100,
+        type: TokenStandard.Erc721,
+      };
+      const erc1155Token: TokenContract = {
+        ...erc721Token,
+        address: autoAddress(),
+        type: TokenStandard.Erc1155,
+      };
+      const [a, b] = [autoAddress(), autoAddress()];
+      const zero = ethers.constants.AddressZero;
+
+      db.addToken(erc721Token);
+      await addTransferEvents<DetailedErc721TransferEvent>(
+        erc721Token,
+        EventKind.Erc721Transfer,
+        [
+          { from: zero, to: a, tokenId: '1' },
+          { from: zero, to: a, tokenId: '2' },
+          { from: a, to: b, tokenId: '1' },
+          { from: a, to: zero, tokenId: '2' },
+        ],
+        (e) => db.addErc721TransferEvent(e),
+      );
+
+      db.addToken(erc1155Token);
+      await addTransferEvents<DetailedErc1155TransferSingleEvent>(
+        erc1155Token,
+        EventKind.Erc1155TransferSingle,
+        [{ operator: a, from: zero, to: a, tokenId: '1', value: BigInt(10) }],
+        (e) => db.addErc1155TransferSingleEvent(e),
+      );
+      await addTransferEvents<DetailedErc1155TransferBatchEvent>(
+        { ...erc1155Token, blockNumber: erc1155Token.blockNumber + 1 },
+        EventKind.Erc1155TransferBatch,
+        [{ operator: a, from: a, to: b, ids: ['1', '2'], values: [BigInt(4), BigInt(6)] }],
+        (e) => db.addErc1155TransferBatchEvent(e),
+      );
+
+      const expectBalances = async () => {
+        expect(sortBalances(await db.getBalances({ contract: erc721Token.address }))).toStrictEqual(
+          sortBalances([
+            { holder: a, balance: BigInt(0) },
+            { holder: b, balance: BigInt(1) },
+          ]),
+        );
+        expect(await db.getHolderCount({ contract: erc721Token.address })).toStrictEqual(1);
+        expect(await db.getTokenIdBalances({ contract: erc721Token.address })).toStrictEqual([
+          { tokenId: '1', holder: b, balance: BigInt(1) },
+        ]);
+
+        expect(
+          sortBalances(await db.getBalances({ contract: erc1155Token.address })),
+        ).toStrictEqual(
+          sortBalances([
+            { holder: a, balance: BigInt(0) },
+            { holder: b, balance: BigInt(10) },
+          ]),
+        );
+        expect(
+          sortBalances(await db.getTokenIdBalances({ contract: erc1155Token.address })),
+        ).toStrictEqual(
+          sortBalances([
+            { tokenId: '1', holder: a, balance: BigInt(6) },
+            { tokenId: '2', holder: a, balance: BigInt(-6) },
+            { tokenId: '1', holder: b, balance: BigInt(4) },
+            { tokenId: '2', holder: b, balance: BigInt(6) },
+          ]),
+        );
+      };
+
+      await expectBalances();
+
+      await db.rebuildBalances(erc721Token);
+      await db.rebuildBalances(erc1155Token);
+      await expectBalances();
+    });
+
+    it('should take ERC721 owners from the latest transfers when they are applied out of order', async () => {
+      const token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber: 100,
+        type: TokenStandard.Erc721,
+      };
+      const [a, b] = [autoAddress(), autoAddress()];
+      const zero = ethers.constants.AddressZero;
+
+      db.addToken(token);
+
+      // The later transfer is handled first
+      for (const [i, e] of [
+        [1, { from: a, to: b, tokenId: '1' }],
+        [0, { from: zero, to: a, tokenId: '1' }],
+      ] as const) {
+        const event = {
+          ...e,
+          contract: token.address,
+          logIndex: 0,
+          transactionId: await db.addTransaction({
+            from: autoAddress(),
+            to: token.address,
+            sighash: '0xa9059cbb',
+            timestamp: token.timestamp + i,
+            blockNumber: token.blockNumber + i,
+            hash: autoTxHash(),
+            index: 0,
+          }),
+        } as TokenInsertEvent<DetailedErc721TransferEvent>;
+
+        await db.addErc721TransferEvent(event);
+        await db.applyTransfers(
+          token.address,
+          token.type,
+          getEventTransfers(EventKind.Erc721Transfer, event),
+        );
+      }
+
+      expect(await db.getTokenIdBalances({ contract: token.address })).toStrictEqual([
+        { tokenId: '1', holder: b, balance: BigInt(1) },
+      ]);
+    });
+
+    it('should prune the data unrelated to the watched tokens', async () => {
+      const token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber: 100,
+        type: TokenStandard.Erc20,
+      };
+      const createTx = (to: string): SimplifiedTransaction => ({
+        from: autoAddress(),
+        to: to,
+        sighash: '0xa9059cbb',
+        timestamp: 1010,
+        blockNumber: 101,
+        hash: autoTxHash(),
+        index: 0,
+      });
+      const createRecord = (address: string, timestamp: number): AnalysisRecord => ({
+        token: address,
+        timestamp: timestamp,
+        blockNumber: 101,
+        analysis: { Airdrop: { detected: true } },
+        interpretation: { isSpam: true, isPhishing: false, isFinalized: false, confidence: 0.5 },
+      });
+      const tokenTx = createTx(token.address);
+      const orphanTx = createTx(autoAddress());
+      const tokenRecord = createRecord(token.address, 1010);
+      const orphanRecord = createRecord(autoAddress(), 1010);
+      const recentOrphanRecord = createRecord(autoAddress(), 2010);
+
+      db.addToken(token);
+      await db.addTransaction(tokenTx);
+      await db.addTransaction(orphanTx);
+      await db.addAnalysis(tokenRecord);
+      await db.addAnalysis(orphanRecord);
+      await db.addAnalysis(recentOrphanRecord);
+      await db.prune({ analysesBefore: 2000 });
+
+      const addresses = (await db.getAddresses()).map((a) => a.address);
+
+      expect(await db.getTransactions({ to: token.address })).toStrictEqual([tokenTx]);
+      expect(await db.getTransactions({ to: orphanTx.to })).toStrictEqual([]);
+      expect(addresses).toContain(tokenTx.from);
+      expect(addresses).not.toContain(orphanTx.from);
+      expect(addresses).not.toContain(orphanTx.to);
+      expect(addresses).not.toContain(orphanRecord.token);
+      expect(await db.getAnalyses({ token: token.address })).toStrictEqual([tokenRecord]);
+      expect(await db.getAnalyses({ token: orphanRecord.token })).toStrictEqual([]);
+      // the verdict timeline of a token that is no longer watched is kept until it's too old
+      expect(await db.getAnalyses({ token: recentOrphanRecord.token })).toStrictEqual([
+        recentOrphanRecord,
+      ]);
+      expect(addresses).toContain(recentOrphanRecord.token);
+    });
+
+    it('should roll back the blocks of an abandoned branch', async () => {
+      const forkBlock = 10_000_000;
+      const zero = ethers.constants.AddressZero;
+      const [a, b] = [autoAddress(), autoAddress()];
+
+      const createToken = (blockNumber: number): TokenContract => ({
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber,
+        type: TokenStandard.Erc20,
+      });
+      const token = createToken(forkBlock - 1);
+      const deployedToken = createToken(forkBlock + 1);
+      const untouchedToken = createToken(forkBlock - 1);
+
+      for (const t of [token, deployedToken, untouchedToken]) {
+        db.addToken(t);
+      }
+
+      // The second transfer is in the first abandoned block
+      await addTransferEvents<DetailedErc20TransferEvent>(
+        token,
+        EventKind.Erc20Transfer,
+        [
+          { from: zero, to: a, value: BigInt(10) },
+          { from: a, to: b, value: BigInt(4) },
+        ],
+        (e) => db.addErc20TransferEvent(e),
+      );
+
+      const blockHash = autoTxHash();
+      await db.addTransaction(
+        {
+          from: a,
+          to: deployedToken.address,
+          sighash: '0x095ea7b3',
+          timestamp: 1010,
+          blockNumber: forkBlock + 1,
+          hash: autoTxHash(),
+          index: 0,
+        },
+        blockHash,
+      );
+
+      expect(await db.getBlockHashes({ limit: 1 })).toEqual([
+        { number: forkBlock + 1, hash: blockHash },
+      ]);
+
+      const changedTokens = await db.rollbackBlocks({ fromBlock: forkBlock });
+      await db.rebuildBalances(token);
+
+      expect(changedTokens.sort()).toStrictEqual([token.address, deployedToken.address].sort());
+      expect(await db.getBalances({ contract: token.address })).toStrictEqual([
+        { holder: a, balance: BigInt(10) },
+      ]);
+      expect(
+        await db.countEvents(EventKind.Erc20Transfer, { contract: token.address }),
+      ).toStrictEqual(1);
+      expect(await db.getTransactions({ to: deployedToken.address })).toStrictEqual([]);
+      expect(await db.getBlockHashes({ limit: 1 })).toEqual([]);
+
+      // The token deployed in the abandoned blocks doesn't exist on the new branch
+      const addresses = (await db.getTokens()).map((t) => t.address);
+      expect(addresses).toEqual(expect.arrayContaining([token.address, untouchedToken.address]));
+      expect(addresses).not.toContain(deployedToken.address);
+    });
+
+    it('should replace the synthetic transaction indexes', async () => {
+      const to = autoAddress();
+      const txs: SimplifiedTransaction[] = [0, 1].map((index) => ({
+        from: autoAddress(),
+        to: to,
+        sighash: '0xa9059cbb',
+        timestamp: 1000,
+        blockNumber: 500,
+        hash: autoTxHash(),
+        index: index,
+      }));
+
+      for (const tx of txs) await db.addTransaction(tx);
+
+      expect(await db.getTransactionsWithSyntheticIndex({ limit: 10 })).toStrictEqual([]);
+
+      // As if the transactions have been stored by an older version
+      await db.run(
+        `UPDATE transactions SET is_synthetic_index = TRUE WHERE hash IN ('${txs[0].hash}', '${txs[1].hash}')`,
+      );
+
+      expect((await db.getTransactionsWithSyntheticIndex({ limit: 10 })).sort()).toStrictEqual(
+        txs.map((tx) => tx.hash).sort(),
+      );
+
+      await db.setTransactionIndex({ hash: txs[0].hash, index: 42 });
+      await db.setTransactionIndex({ hash: txs[1].hash, index: null });
+
+      expect(await db.getTransactionsWithSyntheticIndex({ limit: 10 })).toStrictEqual([]);
+      expect(await db.getTransactions({ to })).toStrictEqual([txs[1], { ...txs[0], index: 42 }]);
+    });
+
+    it('should add and get analyses', async () => {
+      const token: TokenContract = {
+        deployer: autoAddress(),
+        address: autoAddress(),
+        timestamp: 1000,
+        blockNumber: 100,
+        type: TokenStandard.Erc20,
+      };
+
+      const createRecord = (i: number, isSpam: boolean): AnalysisRecord => ({
+        token: token.address,
+        timestamp: token.timestamp + i * 100,
+        blockNumber: token.blockNumber + i * 10,
+        analysis: { Airdrop: { detected: isSpam, metadata: { receivers: [autoAddress()] } } },
+        interpretation: { isSpam, isPhishing: false, isFinalized: i > 1, confidence: 0.5 + i / 10 },
+      });
+
+      const records = [createRecord(0, false), createRecord(1, true), createRecord(2, false)];
+
+      expect(await db.getLastAnalysis({ token: token.address })).toStrictEqual(null);
+
+      db.addToken(token);
+      for (const record of records) {
+        await db.addAnalysis(record);
+      }
+
+      expect(await db.getAnalyses({ token: token.address })).toStrictEqual(records);
+      expect(await db.getLastAnalysis({ token: token.address })).toStrictEqual(records[2]);
+      expect(await db.getAnalyses({ token: autoAddress() })).toStrictEqual([]);
+
+      // the history should outlive the collected data of the token
+      db.clearToken(token.address);
+
+      expect(await db.getAnalyses({ token: token.address })).toStrictEqual(records);
+    });
+
+    it('should clear token data', async () => {
+      // Prepare data
+
+      const commonDeployer = autoAddress();
+
+      const token1: TokenContract = {
+        deployer: commonDeployer,
+        address: autoAddress(),
+        timestamp: 1234,
+        blockNumber: 12355,
+        type: TokenStandard.Erc20,
+      };
+
+      db.addToken(token1);
+
+      const token1Tx1: SimplifiedTransaction = {
+        from: autoAddress(),
+        to: autoAddress(),
+        sighash: '0xa9059cbb',
+        timestamp: 1e8,
+        blockNumber: 1234,
+        hash: autoTxHash(),
+        index: 0,
+      };
+
+      const tx1Id = await db.addTransaction(token1Tx1);
+
+      const token1ApprovalEvent: TokenInsertEvent<DetailedErc20ApprovalEvent> = {
+        owner: autoAddress(),
+        spender: autoAddress(),
+        contract: token1.address,
+        transactionId: tx1Id,
+        value: BigInt('654'),
+        logIndex: 0,
+      };
+
+      db.addErc20ApprovalEvent(token1ApprovalEvent);
+
+      const token1Tx2: SimplifiedTransaction = {
+        from: autoAddress(),
+        to: token1.address,
+        sighash: '0xa9059cbb',
+        timestamp: 1e8,
+        blockNumber: 1234,
+        hash: autoTxHash(),
+        index: 1,
+      };
+
+      const tx2Id = await db.addTransaction(token1Tx2);
+
+      const token1TransferEvent: TokenInsertEvent<DetailedErc20TransferEvent> = {
+        from: autoAddress(),
+        to: autoAddress(),
+        contract: token1.address,
+        transactionHash: token1Tx2.hash,
+        value: BigInt('123'),
+        logIndex: 1,
+      };
+
+      db.addErc20TransferEvent(token1TransferEvent);
+
+      const token2: TokenContract = {
+        deployer: commonDeployer,
+        address: autoAddress(),
+        timestamp: 12344,
+        blockNumber: 1238,
+        type: TokenStandard.Erc20,
+      };
+
+      const token2Tx: SimplifiedTransaction = {
+        from: autoAddress(),
+        to: autoAddress(),
+        sighash: '0xa9059cbb',
+        timestamp: 1e8,
+        blockNumber: 1234,
+        hash: autoTxHash(),
+        index: 2,
+      };
+
+      db.addToken(token2);
+
+      const tx3Id = await db.addTransaction(token2Tx);
+
+      const token2TransferEvent: TokenInsertEvent<DetailedErc20TransferEvent> = {
+        from: autoAddress(),
+        to: autoAddress(),
+        contract: token2.address,
+        transactionId: tx3Id,
+        value: BigInt('123'),
+        logIndex: 0,
+      };
+
+      db.addErc20TransferEvent(token2TransferEvent);
+
+      // Check correctness before
+
+      let allTokens = await db.getTokens();
+      let txsToSomeContract = await db.getTransactions({ to: token1Tx1.to });
+      let txsToToken1 = await db.getTransactions({ to: token1.address });
+      let token1TransferEvents = await db.getErc20TransferEvents({ contract: token1.address });
+      let token1ApprovalEvents = await db.getErc20ApprovalEvents({ contract: token1.address });
+      let token2TransferEvents = await db.getErc20TransferEvents({ contract: token2.address });
+
+      expect(allTokens).toContainEqual(token1);
+      expect(allTokens).toContainEqual(token2);
+      expect(txsToSomeContract).toHaveLength(1);
+      expect(txsToSomeContract[0]).toEqual(token1Tx1);
+      expect(txsToToken1).toHaveLength(1);
+      expect(txsToToken1[0]).toEqual(token1Tx2);
+      expect(token1ApprovalEvents).toHaveLength(1);
+      expect(token1ApprovalEvents).toContainEqual({
+        ...omit(token1ApprovalEvent, 'transactionId'),
+        transaction: token1Tx1,
+      });
+      expect(token1TransferEvents).toHaveLength(1);
+      expect(token1TransferEvents).toContainEqual({
+        ...omit(token1TransferEvent, 'transactionHash'),
+        transaction: token1Tx2,
+      });
+      expect(token2TransferEvents).toHaveLength(1);
+      expect(token2TransferEvents).toContainEqual({
+        ...omit(token2TransferEvent, 'transactionId'),
+        transaction: token2Tx,
+      });
+
+      // Clear token1
+
+      db.clearToken(token1.address);
+
+      // Check result
+      allTokens = await db.getTokens();
+      txsToSomeContract = await db.getTransactions({ to: token1Tx1.to });
+      txsToToken1 = await db.getTransactions({ to: token1.address });
+      token1TransferEvents = await db.getErc20TransferEvents({ contract: token1.address });
+      token1ApprovalEvents = await db.getErc20ApprovalEvents({ contract: token1.address });
+
+      const dbAddresses = (await db.getAddresses()).map((a) => a.address);
+
+      const shouldBePresentAddresses = [
+        token2.address,
+        token2.deployer,
+        token2TransferEvent.from,
+        token2TransferEvent.to,
+      ];
+
+      const shouldBeRemovedAddresses = [
+        token1.address,
+        token1Tx1.from,
+        token1Tx1.to,
+        token1ApprovalEvent.owner,
+        token1ApprovalEvent.spender,
+        token1Tx2.from,
+        token1Tx2.to,
+        token1TransferEvent.from,
+        token1TransferEvent.to,
+      ];
+
+      expect(allTokens).not.toContainEqual(token1);
+      expect(txsToSomeContract).toHaveLength(0);
+      expect(txsToToken1).toHaveLength(0);
+      expect(token1ApprovalEvents).toHaveLength(0);
+      expect(token1TransferEvents).toHaveLength(0);
+      for (const address of shouldBePresentAddresses) {
+        expect(dbAddresses).toContain(address);
+      }
+      for (const address of shouldBeRemovedAddresses) {
+        expect(dbAddresses).not.toContain(address);
+      }
+    });
+  });
+}
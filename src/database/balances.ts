@@ -0,0 +1,366 @@
+import { ethers } from 'ethers';
+import { Mutex } from 'async-mutex';
+import { chunk } from 'lodash';
+
+import {
+  DetailedErc1155TransferBatchEvent,
+  DetailedErc1155TransferSingleEvent,
+  DetailedErc20TransferEvent,
+  DetailedErc721TransferEvent,
+  TokenContract,
+  TokenEvent,
+  TokenStandard,
+} from '../types';
+import { EventByKind, EventKind, EventQuery, ParamBinder } from './events';
+import { createBinder } from './utils';
+import { ISqlDatabase } from './types';
+
+// A transfer of the token, e.g. of an ERC-20 amount or of an ERC-721 token id (with the value of 1)
+export type BalanceTransfer = {
+  from: string;
+  to: string;
+  value: bigint;
+  tokenId?: string;
+};
+
+export type HolderBalance = {
+  holder: string;
+  balance: bigint;
+};
+
+// Balance of an ERC-721 or ERC-1155 token id
+export type TokenIdBalance = {
+  tokenId: string;
+  holder: string;
+  balance: bigint;
+};
+
+export const TRANSFER_EVENT_KINDS: { [S in TokenStandard]: EventKind[] } = {
+  [TokenStandard.Erc20]: [EventKind.Erc20Transfer],
+  [TokenStandard.Erc721]: [EventKind.Erc721Transfer],
+  [TokenStandard.Erc1155]: [EventKind.Erc1155TransferSingle, EventKind.Erc1155TransferBatch],
+};
+
+// Executes the query and returns its rows, e.g. `SqlDatabase.all()` or `PostgresDatabase.query()`
+type QueryExecutor = (query: string, params: unknown[]) => Promise<any[]>;
+
+type EventIterator = <K extends EventKind>(
+  kind: K,
+  query: EventQuery,
+) => AsyncGenerator<EventByKind[K]>;
+
+type BalanceRow = {
+  holder: string;
+  balance: string;
+};
+
+// Number of the holders or token ids sent in one query, so that the limit of the parameters is not exceeded
+const BALANCE_CHUNK_SIZE = 500;
+
+const parseBalanceRow = (row: BalanceRow): HolderBalance => ({
+  holder: row.holder,
+  balance: BigInt(row.balance),
+});
+
+// Transfers of a transfer event, e.g. one transfer per token id of an ERC-1155 batch
+export function getEventTransfers(
+  kind: EventKind,
+  event: Omit<TokenEvent, 'transaction'>,
+): BalanceTransfer[] {
+  switch (kind) {
+    case EventKind.Erc20Transfer: {
+      const { from, to, value } = event as DetailedErc20TransferEvent;
+      return [{ from, to, value: BigInt(value.toString()) }];
+    }
+    case EventKind.Erc721Transfer: {
+      const { from, to, tokenId } = event as DetailedErc721TransferEvent;
+      return [{ from, to, value: BigInt(1), tokenId: tokenId.toString() }];
+    }
+    case EventKind.Erc1155TransferSingle: {
+      const { from, to, tokenId, value } = event as DetailedErc1155TransferSingleEvent;
+      return [{ from, to, value: BigInt(value.toString()), tokenId: tokenId.toString() }];
+    }
+    case EventKind.Erc1155TransferBatch: {
+      const { from, to, ids, values } = event as DetailedErc1155TransferBatchEvent;
+      return ids.map((id, i) => ({
+        from,
+        to,
+        value: BigInt(values[i].toString()),
+        tokenId: id.toString(),
+      }));
+    }
+    default:
+      return [];
+  }
+}
+
+// Fills the balance tables of the tokens collected before the tables were introduced
+export async function populateBalances(db: ISqlDatabase) {
+  for (const token of await db.getTokens()) {
+    await db.rebuildBalances(token);
+  }
+}
+
+// Keeps the current balances of the tokens, so that the analyzer doesn't have to replay all the transfers on every scan:
+// - `balances`: ERC-20 amount, number of ERC-721 tokens or sum of ERC-1155 tokens of every holder
+// - `erc_721_owners`: current owner of every ERC-721 token id
+// - `erc_1155_balances`: balance of every ERC-1155 token id per holder
+// Mints and burns only change the balance of the other side, the same way as the transformer used to count them.
+// Balances are stored as text, since uint256 values don't fit into the integer types of the databases.
+export class BalanceTables {
+  private mutex = new Mutex();
+
+  constructor(
+    private execute: QueryExecutor,
+    private prefix: '?' | '$',
+    private iterateEvents: EventIterator,
+  ) {}
+
+  // Balances are updated by read-modify-write, therefore updates are not allowed to interleave
+  async applyTransfers(contract: string, type: TokenStandard, transfers: BalanceTransfer[]) {
+    await this.mutex.runExclusive(() => this.apply(contract, type, transfers));
+  }
+
+  // Recalculates the balances of the token from its stored transfer events
+  async rebuild(token: TokenContract) {
+    await this.mutex.runExclusive(async () => {
+      const { params, bind } = createBinder(this.prefix);
+      const contractId = this.addressId(bind, token.address);
+
+      for (const table of ['balances', 'erc_721_owners', 'erc_1155_balances']) {
+        await this.execute(`DELETE FROM ${table} WHERE contract_id = ${contractId}`, params);
+      }
+
+      for (const kind of TRANSFER_EVENT_KINDS[token.type]) {
+        let transfers: BalanceTransfer[] = [];
+
+        for await (const event of this.iterateEvents(kind, { contract: token.address })) {
+          transfers.push(...getEventTransfers(kind, event));
+
+          if (transfers.length >= BALANCE_CHUNK_SIZE) {
+            await this.apply(token.address, token.type, transfers);
+            transfers = [];
+          }
+        }
+
+        await this.apply(token.address, token.type, transfers);
+      }
+    });
+  }
+
+  async getBalances(contract: string): Promise<HolderBalance[]> {
+    return (await this.selectBalances(contract, null)).map(parseBalanceRow);
+  }
+
+  // Number of the holders with a positive balance
+  async getHolderCount(contract: string): Promise<number> {
+    const { params, bind } = createBinder(this.prefix);
+    const [row] = await this.execute(
+      `SELECT COUNT(*) AS "count"
+      FROM balances b
+      WHERE b.contract_id = ${this.addressId(bind, contract)}
+        AND b.balance NOT LIKE '-%' AND b.balance <> '0'`,
+      params,
+    );
+
+    // PostgreSQL returns BIGINT as a string
+    return Number(row.count);
+  }
+
+  async getTopHolders(contract: string, limit: number): Promise<HolderBalance[]> {
+    // Balances are non-negative integers without leading zeros, so they can be compared by their length first
+    return (
+      await this.selectBalances(
+        contract,
+        `b.balance NOT LIKE '-%' AND b.balance <> '0'`,
+        'LENGTH(b.balance) DESC, b.balance DESC, a.address',
+        limit,
+      )
+    ).map(parseBalanceRow);
+  }
+
+  // Holders that have sent more tokens than they received, i.e. the token emits inconsistent events
+  async getNegativeBalances(contract: string): Promise<HolderBalance[]> {
+    return (await this.selectBalances(contract, `b.balance LIKE '-%'`)).map(parseBalanceRow);
+  }
+
+  async getTokenIdBalances(contract: string): Promise<TokenIdBalance[]> {
+    const { params, bind } = createBinder(this.prefix);
+    const contractId = this.addressId(bind, contract);
+    const rows = await this.execute(
+      `SELECT o.token_id AS "tokenId", a.address AS "holder", '1' AS "balance"
+      FROM erc_721_owners o
+      JOIN addresses a ON o.owner_id = a.address_id
+      WHERE o.contract_id = ${contractId}
+      UNION ALL
+      SELECT b.token_id AS "tokenId", a.address AS "holder", b.balance AS "balance"
+      FROM erc_1155_balances b
+      JOIN addresses a ON b.holder_id = a.address_id
+      WHERE b.contract_id = ${contractId}`,
+      params,
+    );
+
+    return rows.map((row) => ({
+      tokenId: row.tokenId,
+      holder: row.holder,
+      balance: BigInt(row.balance),
+    }));
+  }
+
+  private async apply(contract: string, type: TokenStandard, transfers: BalanceTransfer[]) {
+    const holderChanges = new Map<string, bigint>();
+    const tokenIdChanges = new Map<string, Map<string, bigint>>();
+    const transferredTokenIds = new Set<string>();
+
+    const change = (changes: Map<string, bigint>, holder: string, value: bigint) => {
+      if (holder === ethers.constants.AddressZero) return;
+      changes.set(holder, (changes.get(holder) || BigInt(0)) + value);
+    };
+
+    for (const { from, to, value, tokenId } of transfers) {
+      change(holderChanges, from, -value);
+      change(holderChanges, to, value);
+
+      if (tokenId == null) continue;
+
+      if (type === TokenStandard.Erc721) {
+        transferredTokenIds.add(tokenId);
+      } else if (type === TokenStandard.Erc1155) {
+        const changes = tokenIdChanges.get(tokenId) || new Map<string, bigint>();
+        change(changes, from, -value);
+        change(changes, to, value);
+        tokenIdChanges.set(tokenId, changes);
+      }
+    }
+
+    await this.changeBalances('balances', contract, null, holderChanges);
+
+    for (const [tokenId, changes] of tokenIdChanges) {
+      await this.changeBalances('erc_1155_balances', contract, tokenId, changes);
+    }
+
+    await this.setOwners(contract, [...transferredTokenIds]);
+  }
+
+  private async changeBalances(
+    table: 'balances' | 'erc_1155_balances',
+    contract: string,
+    tokenId: string | null,
+    changes: Map<string, bigint>,
+  ) {
+    for (const holders of chunk([...changes.keys()], BALANCE_CHUNK_SIZE)) {
+      const select = createBinder(this.prefix);
+      const rows: BalanceRow[] = await this.execute(
+        `SELECT a.address AS "holder", b.balance AS "balance"
+        FROM ${table} b
+        JOIN addresses a ON b.holder_id = a.address_id
+        WHERE b.contract_id = ${this.addressId(select.bind, contract)}
+          ${tokenId != null ? `AND b.token_id = ${select.bind(tokenId)}` : ''}
+          AND a.address IN (${holders.map(select.bind).join(', ')})`,
+        select.params,
+      );
+
+      const balanceByHolder = new Map(rows.map((r) => [r.holder, BigInt(r.balance)]));
+
+      const { params, bind } = createBinder(this.prefix);
+      const contractId = this.addressId(bind, contract);
+      const tokenIdParam = tokenId != null ? bind(tokenId) : null;
+      const values = holders.map((holder) => {
+        const balance = (balanceByHolder.get(holder) || BigInt(0)) + changes.get(holder)!;
+        return `(${[
+          contractId,
+          tokenIdParam,
+          this.addressId(bind, holder),
+          bind(balance.toString()),
+        ]
+          .filter((v) => v != null)
+          .join(', ')})`;
+      });
+
+      await this.execute(
+        `INSERT INTO ${table}(contract_id, ${tokenId != null ? 'token_id, ' : ''}holder_id, balance)
+        VALUES ${values.join(', ')}
+        ON CONFLICT (contract_id, ${tokenId != null ? 'token_id, ' : ''}holder_id)
+        DO UPDATE SET balance = excluded.balance`,
+        params,
+      );
+    }
+  }
+
+  // Owners are taken from the latest stored transfers of the token ids rather than from the applied ones,
+  // since the transactions may be handled out of order, e.g. by different shards
+  private async setOwners(contract: string, tokenIds: string[]) {
+    const ownerByTokenId = new Map<string, string>();
+
+    for (const chunkTokenIds of chunk(tokenIds, BALANCE_CHUNK_SIZE)) {
+      const { params, bind } = createBinder(this.prefix);
+      const rows: { tokenId: string; owner: string }[] = await this.execute(
+        `SELECT e.token_id AS "tokenId", a.address AS "owner"
+        FROM erc_721_transfer_events e
+        JOIN transactions t ON e.transaction_id = t.transaction_id
+        JOIN addresses a ON e.to_id = a.address_id
+        WHERE e.contract_id = ${this.addressId(bind, contract)}
+          AND e.token_id IN (${chunkTokenIds.map(bind).join(', ')})
+        ORDER BY t.block_number, t.tx_index, e.log_index`,
+        params,
+      );
+
+      for (const row of rows) ownerByTokenId.set(row.tokenId, row.owner);
+    }
+
+    const entries = [...ownerByTokenId.entries()];
+    const burntTokenIds = entries
+      .filter(([, owner]) => owner === ethers.constants.AddressZero)
+      .map(([tokenId]) => tokenId);
+    const ownedEntries = entries.filter(([, owner]) => owner !== ethers.constants.AddressZero);
+
+    for (const tokenIds of chunk(burntTokenIds, BALANCE_CHUNK_SIZE)) {
+      const { params, bind } = createBinder(this.prefix);
+      await this.execute(
+        `DELETE FROM erc_721_owners
+        WHERE contract_id = ${this.addressId(bind, contract)}
+          AND token_id IN (${tokenIds.map(bind).join(', ')})`,
+        params,
+      );
+    }
+
+    for (const ownerEntries of chunk(ownedEntries, BALANCE_CHUNK_SIZE)) {
+      const { params, bind } = createBinder(this.prefix);
+      const contractId = this.addressId(bind, contract);
+      await this.execute(
+        `INSERT INTO erc_721_owners(contract_id, token_id, owner_id)
+        VALUES ${ownerEntries
+          .map(
+            ([tokenId, owner]) =>
+              `(${contractId}, ${bind(tokenId)}, ${this.addressId(bind, owner)})`,
+          )
+          .join(', ')}
+        ON CONFLICT (contract_id, token_id) DO UPDATE SET owner_id = excluded.owner_id`,
+        params,
+      );
+    }
+  }
+
+  private selectBalances(
+    contract: string,
+    condition: string | null,
+    order = 'a.address',
+    limit?: number,
+  ): Promise<BalanceRow[]> {
+    const { params, bind } = createBinder(this.prefix);
+    return this.execute(
+      `SELECT a.address AS "holder", b.balance AS "balance"
+      FROM balances b
+      JOIN addresses a ON b.holder_id = a.address_id
+      WHERE b.contract_id = ${this.addressId(bind, contract)}
+        ${condition ? `AND ${condition}` : ''}
+      ORDER BY ${order}
+      ${limit != null ? `LIMIT ${bind(limit)}` : ''}`,
+      params,
+    );
+  }
+
+  private addressId(bind: ParamBinder, address: string) {
+    return `(SELECT address_id FROM addresses WHERE address = ${bind(address)})`;
+  }
+}
@@ -1,6 +1,7 @@
 /* eslint-disable no-console */
 import sqlite3 from 'sqlite3';
 import {
+  AnalysisRecord,
   DetailedErc1155ApprovalForAllEvent,
   DetailedErc1155TransferBatchEvent,
   DetailedErc1155TransferSingleEvent,
@@ -12,8 +13,26 @@ import {
   SimplifiedTransaction,
   TokenContract,
   TokenEvent,
+  TokenStandard,
 } from '../types';
-import { ISqlDatabase } from './types';
+import { ISqlDatabase, StoredBlock } from './types';
+import { getMigrationChecksum, Migration, SQLITE_MIGRATIONS } from './migrations';
+import { BalanceTables, BalanceTransfer, HolderBalance, TokenIdBalance } from './balances';
+import { createBinder, unwrapNull, wrapNull } from './utils';
+import {
+  buildEventCount,
+  buildEventSelect,
+  EVENT_PAGE_SIZE,
+  EVENT_TABLE_BY_KIND,
+  EventByKind,
+  EventCursor,
+  EventKind,
+  EventPage,
+  EventQuery,
+  iterateEventPages,
+  parseEventRows,
+  toEventPage,
+} from './events';
 
 export type EventWithTransactionId = { transactionId: number };
 export type EventWithTransactionHash = { transactionHash: string };
@@ -21,15 +40,106 @@ export type EventWithTransactionHash = { transactionHash: string };
 export type TokenInsertEvent<T extends TokenEvent> = Omit<T, 'transaction'> &
   (EventWithTransactionId | EventWithTransactionHash);
 
-// In order to make the database more performance, it was decided to avoid using NULL as the address value (tx.to).
-// Using non-null values allows us to use the `=` operator, instead of `IS` which is slower.
-const wrapNull = (v: any) => (v == null ? 'NULL' : v);
-const unwrapNull = (v: any) => (v === 'NULL' ? null : v);
+type AnalysisRow = {
+  token: string;
+  block_number: number;
+  timestamp: number;
+  analysis: string;
+  is_spam: number;
+  is_phishing: number;
+  is_finalized: number;
+  confidence: number;
+};
+
+const EVENT_TABLES = Object.values(EVENT_TABLE_BY_KIND).map((t) => t.table);
+
+const TABLES_WITH_ADDRESSES = [
+  { name: 'transactions', columns: ['from_id', 'to_id', 'initiator_id'] },
+  { name: 'contracts', columns: ['address_id', 'deployer_id'] },
+  { name: 'erc_20_transfer_events', columns: ['from_id', 'to_id'] },
+  { name: 'erc_20_approval_events', columns: ['owner_id', 'spender_id'] },
+  { name: 'erc_721_transfer_events', columns: ['from_id', 'to_id'] },
+  { name: 'erc_721_approval_events', columns: ['owner_id', 'approved_id'] },
+  { name: 'erc_721_approval_for_all_events', columns: ['owner_id', 'operator_id'] },
+  { name: 'erc_1155_transfer_single_events', columns: ['operator_id', 'from_id', 'to_id'] },
+  { name: 'erc_1155_transfer_batch_events', columns: ['operator_id', 'from_id', 'to_id'] },
+  { name: 'analyses', columns: ['address_id'] },
+  { name: 'balances', columns: ['holder_id'] },
+  { name: 'erc_721_owners', columns: ['owner_id'] },
+  { name: 'erc_1155_balances', columns: ['holder_id'] },
+];
+
+// Transactions without events, except for the ones sent to the watched tokens
+const DELETE_ORPHAN_TRANSACTIONS = `DELETE FROM transactions
+  WHERE NOT EXISTS ${EVENT_TABLES.map(
+    (table) => `(
+      SELECT 1
+      FROM ${table} e
+      WHERE e.transaction_id = transactions.transaction_id
+    )`,
+  ).join(' AND NOT EXISTS ')}
+  AND transactions.to_id NOT IN (SELECT address_id FROM contracts)`;
+
+const DELETE_ORPHAN_ADDRESSES = `DELETE FROM addresses
+  WHERE NOT EXISTS ${TABLES_WITH_ADDRESSES.map(
+    (table) => `(
+      SELECT 1
+      FROM ${table.name} e
+      WHERE addresses.address_id IN (${table.columns.map((v) => `e.${v}`).join(',')})
+    )`,
+  ).join(' AND NOT EXISTS ')}`;
+
+// Analyses of the tokens that are no longer watched, which have been produced before the timestamp
+const DELETE_OLD_ORPHAN_ANALYSES = `DELETE FROM analyses
+  WHERE address_id NOT IN (SELECT address_id FROM contracts) AND timestamp < ?`;
+
+// Watched tokens that have been deployed or have received transactions or events since the block
+const SELECT_CONTRACTS_CHANGED_SINCE = `SELECT a.address
+  FROM contracts c
+  JOIN addresses a ON c.address_id = a.address_id
+  WHERE c.block_number >= $from_block
+  OR c.contract_id IN (
+    SELECT t.to_id FROM transactions t WHERE t.block_number >= $from_block
+    ${EVENT_TABLES.map(
+      (table) => `UNION
+      SELECT e.contract_id
+      FROM ${table} e
+      JOIN transactions t ON e.transaction_id = t.transaction_id
+      WHERE t.block_number >= $from_block`,
+    ).join('\n')}
+  )
+  ORDER BY a.address`;
+
+const INCREMENTAL_AUTO_VACUUM = 2;
+
+const ANALYSIS_SELECT = `SELECT a.address AS token, an.block_number, an.timestamp, an.analysis,
+    an.is_spam, an.is_phishing, an.is_finalized, an.confidence
+  FROM analyses an
+  JOIN addresses a ON an.address_id = a.address_id`;
+
+const parseAnalysisRow = (row: AnalysisRow): AnalysisRecord => ({
+  token: row.token,
+  blockNumber: row.block_number,
+  timestamp: row.timestamp,
+  analysis: JSON.parse(row.analysis),
+  interpretation: {
+    isSpam: !!row.is_spam,
+    isPhishing: !!row.is_phishing,
+    isFinalized: !!row.is_finalized,
+    confidence: row.confidence,
+  },
+});
 
 class SqlDatabase implements ISqlDatabase {
   public db: sqlite3.Database;
 
-  constructor(filename = ':memory:') {
+  private balances = new BalanceTables(
+    (query, params) => this.all<any[]>(query, params),
+    '?',
+    (kind, query) => this.iterateEvents(kind, query),
+  );
+
+  constructor(filename = ':memory:', private migrations: Migration[] = SQLITE_MIGRATIONS) {
     this.db = new sqlite3.Database(filename, (err) => {
       if (err) return console.error(err.message);
       console.info('Connected to the SQlite database.');
@@ -44,156 +154,74 @@ class SqlDatabase implements ISqlDatabase {
   async initialize(): Promise<void> {
     this.db.run(`PRAGMA foreign_keys = ON`);
 
-    this.db.run(`CREATE TABLE IF NOT EXISTS addresses (
-      address_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      address VARCHAR(42) UNIQUE NOT NULL
-    )`);
-
-    this.db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_address ON addresses (address)`);
-
-    this.db.run(`CREATE TABLE IF NOT EXISTS contracts (
-      contract_id INTEGER PRIMARY KEY,
-      address_id INTEGER NOT NULL UNIQUE,
-      deployer_id INTEGER NOT NULL,
-      block_number INTEGER NOT NULL,
-      timestamp INTEGER NOT NULL,
-      type SMALLINT NOT NULL,
-      FOREIGN KEY (address_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (deployer_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
-
-    this.db.run(`CREATE TABLE IF NOT EXISTS transactions (
-      transaction_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      hash VARCHAR(66) NOT NULL,
-      from_id INTEGER NOT NULL,
-      to_id INTEGER NOT NULL,
-      sighash VARCHAR(10) NOT NULL,
-      block_number INTEGER NOT NULL,
-      timestamp INTEGER NOT NULL,
-      tx_index INTEGER NOT NULL,
-      FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
+    await this.migrate();
+  }
 
-    this.db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_hash ON transactions (hash)`);
-
-    this.db.run(`CREATE TABLE IF NOT EXISTS erc_20_transfer_events (
-      event_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      from_id INTEGER NOT NULL,
-      to_id INTEGER NOT NULL,
-      value TEXT NOT NULL,
-      transaction_id INTEGER NOT NULL,
-      contract_id INTEGER NOT NULL,
-      log_index INTEGER NOT NULL,
-      FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+  // Applies the pending migrations in a transaction.
+  // Throws if the database has been created by a newer version of the bot or an applied migration has been changed.
+  private async migrate() {
+    await this.run(`CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
     )`);
 
-    this.db.run(`CREATE TABLE IF NOT EXISTS erc_20_approval_events (
-      event_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      owner_id INTEGER NOT NULL,
-      spender_id INTEGER NOT NULL,
-      value TEXT NOT NULL,
-      transaction_id INTEGER NOT NULL,
-      contract_id INTEGER NOT NULL,
-      log_index INTEGER NOT NULL,
-      FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (spender_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
+    const appliedMigrations = await this.all<{ version: number; name: string; checksum: string }[]>(
+      `SELECT version, name, checksum FROM schema_version ORDER BY version`,
+    );
 
-    this.db.run(`CREATE TABLE IF NOT EXISTS erc_721_transfer_events (
-      event_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      from_id INTEGER NOT NULL,
-      to_id INTEGER NOT NULL,
-      token_id TEXT NOT NULL,
-      transaction_id INTEGER NOT NULL,
-      contract_id INTEGER NOT NULL,
-      log_index INTEGER NOT NULL,
-      FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
+    const currentVersion = appliedMigrations[appliedMigrations.length - 1]?.version || 0;
+    const latestVersion = Math.max(0, ...this.migrations.map((m) => m.version));
 
-    this.db.run(`CREATE TABLE IF NOT EXISTS erc_721_approval_events (
-      event_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      owner_id INTEGER NOT NULL,
-      approved_id INTEGER NOT NULL,
-      token_id TEXT NOT NULL,
-      transaction_id INTEGER NOT NULL,
-      contract_id INTEGER NOT NULL,
-      log_index INTEGER NOT NULL,
-      FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (approved_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
+    if (currentVersion > latestVersion) {
+      throw new Error(
+        `Database schema version ${currentVersion} is newer than the supported one (${latestVersion})`,
+      );
+    }
 
-    this.db.run(`CREATE TABLE IF NOT EXISTS erc_721_approval_for_all_events (
-      event_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      transaction_id INTEGER NOT NULL,
-      contract_id INTEGER NOT NULL,
-      owner_id INTEGER NOT NULL,
-      operator_id INTEGER NOT NULL,
-      approved BOOLEAN NOT NULL,
-      log_index INTEGER NOT NULL,
-      FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (operator_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
+    const migrationByVersion = new Map(this.migrations.map((m) => [m.version, m]));
 
-    this.db.run(`CREATE TABLE IF NOT EXISTS erc_1155_transfer_single_events (
-      event_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      operator_id INTEGER NOT NULL,
-      from_id INTEGER NOT NULL,
-      to_id INTEGER NOT NULL,
-      token_id TEXT NOT NULL,
-      value TEXT NOT NULL,
-      transaction_id INTEGER NOT NULL,
-      contract_id INTEGER NOT NULL,
-      log_index INTEGER NOT NULL,
-      FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (operator_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
+    for (const appliedMigration of appliedMigrations) {
+      const migration = migrationByVersion.get(appliedMigration.version);
 
-    this.db.run(`CREATE TABLE IF NOT EXISTS erc_1155_transfer_batch_events (
-      event_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      operator_id INTEGER NOT NULL,
-      from_id INTEGER NOT NULL,
-      to_id INTEGER NOT NULL,
-      token_ids TEXT NOT NULL,
-      token_values TEXT NOT NULL,
-      transaction_id INTEGER NOT NULL,
-      contract_id INTEGER NOT NULL,
-      log_index INTEGER NOT NULL,
-      FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (operator_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-      FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
+      if (!migration || getMigrationChecksum(migration) !== appliedMigration.checksum) {
+        throw new Error(
+          `Checksum mismatch of the applied migration ${appliedMigration.version} (${appliedMigration.name})`,
+        );
+      }
+    }
 
-    this.db.run(`CREATE TABLE IF NOT EXISTS erc_1155_approval_for_all_events (
-      event_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      owner_id INTEGER NOT NULL,
-      operator_id INTEGER NOT NULL,
-      approved BOOLEAN NOT NULL,
-      transaction_id INTEGER NOT NULL,
-      contract_id INTEGER NOT NULL,
-      log_index INTEGER NOT NULL,
-      FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
-      FOREIGN KEY (operator_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
-    )`);
+    const pendingMigrations = this.migrations
+      .filter((m) => m.version > currentVersion)
+      .sort((m1, m2) => m1.version - m2.version);
+
+    if (pendingMigrations.length === 0) return;
+
+    await this.run('BEGIN');
+    try {
+      for (const migration of pendingMigrations) {
+        console.info(`Applying database migration ${migration.version}: ${migration.name}`);
+
+        for (const statement of migration.statements) {
+          await this.run(statement);
+        }
+        await this.run(
+          `INSERT INTO schema_version(version, name, checksum, applied_at) VALUES (?, ?, ?, ?)`,
+          migration.version,
+          migration.name,
+          getMigrationChecksum(migration),
+          Date.now(),
+        );
+      }
+      for (const migration of pendingMigrations) {
+        await migration.populate?.(this);
+      }
+      await this.run('COMMIT');
+    } catch (e) {
+      await this.run('ROLLBACK');
+      throw e;
+    }
   }
 
   async getAddresses(): Promise<{ address: string }[]> {
@@ -211,10 +239,15 @@ class SqlDatabase implements ISqlDatabase {
 
   async getTransactions(params: { to: string | null }): Promise<SimplifiedTransaction[]> {
     return (
-      await this.all<(Omit<SimplifiedTransaction, 'index'> & { txIndex: number })[]>(
+      await this.all<
+        (Omit<SimplifiedTransaction, 'index' | 'initiator'> & {
+          txIndex: number;
+          initiator: string | null;
+        })[]
+      >(
         `SELECT t.hash, t.tx_index AS "txIndex", t.sighash, t.timestamp, t.block_number AS "blockNumber", from_a.address AS "from", "${wrapNull(
           params.to,
-        )}" AS "to"
+        )}" AS "to", initiator_a.address AS "initiator"
       FROM (
         SELECT *
         FROM transactions t
@@ -225,6 +258,7 @@ class SqlDatabase implements ISqlDatabase {
         )
       ) t
       JOIN addresses from_a ON t.from_id = from_a.address_id
+      LEFT JOIN addresses initiator_a ON t.initiator_id = initiator_a.address_id
       ORDER BY blockNumber, txIndex
       `,
         { $to_address: wrapNull(params.to) },
@@ -237,227 +271,177 @@ class SqlDatabase implements ISqlDatabase {
       blockNumber: v.blockNumber,
       timestamp: v.timestamp,
       index: v.txIndex,
+      ...(v.initiator ? { initiator: v.initiator } : {}),
     }));
   }
 
-  private async getEvents<T extends string, P extends string, V extends string>(
-    table: string,
-    contract: string,
-    addressFields: T[] = [],
-    normalFieldsMap: P[] = [],
-  ) {
-    type DBRow = {
-      [key in T]: string;
-    } & {
-      [key in P]: any;
-    } & {
-      contract: string;
-      tx_hash: string;
-      tx_from: string;
-      tx_to: string;
-      tx_sighash: string;
-      tx_block_number: number;
-      tx_timestamp: number;
-      tx_index: number;
-      log_index: number;
-    };
-
-    const rows = await this.all<DBRow[]>(
-      `SELECT 
-          e.log_index AS "log_index",
-          ${[
-            addressFields.map((f) => `${f}_a.address AS "${f}"`).join(','),
-            normalFieldsMap.map((f) => `e."${f}" AS "${f}"`).join(','),
-          ].join(',')},
-          t.hash AS "tx_hash", 
-          tx_from_a.address AS "tx_from", 
-          tx_to_a.address AS "tx_to", 
-          t.sighash AS "tx_sighash", 
-          t.block_number AS "tx_block_number",
-          t.timestamp AS "tx_timestamp",
-          t.tx_index AS "tx_index"
-      FROM (
-        SELECT *
-        FROM ${table} e
-        WHERE e.contract_id = (
-            SELECT address_id
-            FROM addresses a
-            WHERE a.address = $contract_address
-        )
-      ) e
-      ${addressFields
-        .map((f) => `JOIN addresses ${f}_a ON e.${f}_id = ${f}_a.address_id`)
-        .join('\n')}
-      JOIN transactions t ON e.transaction_id = t.transaction_id
-      JOIN addresses tx_from_a ON t.from_id = tx_from_a.address_id
-      JOIN addresses tx_to_a ON t.to_id = tx_to_a.address_id
-      ORDER BY tx_block_number, tx_index, log_index
-      `,
-      { $contract_address: wrapNull(contract) },
+  // Hashes of the latest blocks with stored transactions, newest first
+  async getBlockHashes(params: { limit: number }): Promise<StoredBlock[]> {
+    return await this.all<StoredBlock[]>(
+      `SELECT DISTINCT block_number AS "number", block_hash AS "hash"
+      FROM transactions
+      WHERE block_hash IS NOT NULL
+      ORDER BY block_number DESC
+      LIMIT $limit`,
+      { $limit: params.limit },
     );
+  }
 
-    type ResultEventType = {
-      [key in T]: string;
-    } & {
-      [key in P]: any;
-    } & { contract: string; transaction: SimplifiedTransaction; logIndex: number };
-
-    return rows.map((e) => {
-      const obj = {
-        contract: contract,
-        transaction: {
-          from: e.tx_from,
-          to: unwrapNull(e.tx_to),
-          hash: e.tx_hash,
-          blockNumber: e.tx_block_number,
-          timestamp: e.tx_timestamp,
-          sighash: e.tx_sighash,
-          index: e.tx_index,
-        },
-        logIndex: e.log_index,
-      } as ResultEventType;
+  // Hashes of the transactions whose indexes have been counted by the older versions of the bot
+  async getTransactionsWithSyntheticIndex(params: { limit: number }): Promise<string[]> {
+    return (
+      await this.all<{ hash: string }[]>(
+        `SELECT hash FROM transactions WHERE is_synthetic_index = 1 LIMIT $limit`,
+        { $limit: params.limit },
+      )
+    ).map((r) => r.hash);
+  }
 
-      for (const field of [...addressFields, ...normalFieldsMap]) {
-        obj[field] = e[field];
-      }
+  // The synthetic index is kept if the real one is unknown, so that the transaction isn't queried again
+  async setTransactionIndex(params: { hash: string; index: number | null }) {
+    await this.run(
+      `UPDATE transactions
+      SET tx_index = COALESCE($index, tx_index), is_synthetic_index = 0
+      WHERE hash = $hash`,
+      { $hash: params.hash, $index: params.index },
+    );
+  }
 
-      return obj;
-    });
+  // Returns the verdict timeline of the token, from the oldest analysis to the latest one
+  async getAnalyses(params: { token: string }): Promise<AnalysisRecord[]> {
+    return (
+      await this.all<AnalysisRow[]>(
+        `${ANALYSIS_SELECT}
+        WHERE a.address = $token
+        ORDER BY an.analysis_id`,
+        { $token: params.token },
+      )
+    ).map(parseAnalysisRow);
+  }
+
+  async getLastAnalysis(params: { token: string }): Promise<AnalysisRecord | null> {
+    const row = await this.get<AnalysisRow | undefined>(
+      `${ANALYSIS_SELECT}
+      WHERE a.address = $token
+      ORDER BY an.analysis_id DESC
+      LIMIT 1`,
+      { $token: params.token },
+    );
+
+    return row ? parseAnalysisRow(row) : null;
+  }
+
+  async getEventsPage<K extends EventKind>(
+    kind: K,
+    query: EventQuery,
+    cursor: EventCursor | null = null,
+    limit: number = EVENT_PAGE_SIZE,
+  ): Promise<EventPage<EventByKind[K]>> {
+    return toEventPage(await this.getEvents(kind, query, cursor, limit), limit);
+  }
+
+  iterateEvents<K extends EventKind>(
+    kind: K,
+    query: EventQuery,
+    pageSize: number = EVENT_PAGE_SIZE,
+  ): AsyncGenerator<EventByKind[K]> {
+    return iterateEventPages((cursor) => this.getEventsPage(kind, query, cursor, pageSize));
+  }
+
+  async countEvents(kind: EventKind, query: EventQuery): Promise<number> {
+    const { params, bind } = createBinder('?');
+    const row = await this.get<{ count: number }>(buildEventCount(kind, query, bind), params);
+
+    return row.count;
+  }
+
+  private async getEvents<K extends EventKind>(
+    kind: K,
+    query: EventQuery,
+    cursor: EventCursor | null = null,
+    limit?: number,
+  ): Promise<EventByKind[K][]> {
+    const { params, bind } = createBinder('?');
+    const rows = await this.all<any[]>(buildEventSelect(kind, query, bind, cursor, limit), params);
+
+    return parseEventRows(kind, query.contract, rows);
+  }
+
+  async getBalances(params: { contract: string }): Promise<HolderBalance[]> {
+    return this.balances.getBalances(params.contract);
+  }
+
+  async getHolderCount(params: { contract: string }): Promise<number> {
+    return this.balances.getHolderCount(params.contract);
+  }
+
+  async getTopHolders(params: { contract: string; limit: number }): Promise<HolderBalance[]> {
+    return this.balances.getTopHolders(params.contract, params.limit);
+  }
+
+  async getNegativeBalances(params: { contract: string }): Promise<HolderBalance[]> {
+    return this.balances.getNegativeBalances(params.contract);
+  }
+
+  async getTokenIdBalances(params: { contract: string }): Promise<TokenIdBalance[]> {
+    return this.balances.getTokenIdBalances(params.contract);
+  }
+
+  async applyTransfers(contract: string, type: TokenStandard, transfers: BalanceTransfer[]) {
+    this.addAddress(transfers.flatMap((t) => [t.from, t.to]));
+    await this.balances.applyTransfers(contract, type, transfers);
+  }
+
+  async rebuildBalances(token: TokenContract) {
+    await this.balances.rebuild(token);
   }
 
   async getErc20ApprovalEvents(params: {
     contract: string;
   }): Promise<DetailedErc20ApprovalEvent[]> {
-    return (
-      await this.getEvents(
-        'erc_20_approval_events',
-        params.contract,
-        ['owner', 'spender'],
-        ['value'],
-      )
-    ).map((v) => ({
-      owner: v.owner,
-      spender: v.spender,
-      value: BigInt(v.value),
-      contract: v.contract,
-      transaction: v.transaction,
-      logIndex: v.logIndex,
-    }));
+    return this.getEvents(EventKind.Erc20Approval, params);
   }
 
   async getErc20TransferEvents(params: {
     contract: string;
   }): Promise<DetailedErc20TransferEvent[]> {
-    return (
-      await this.getEvents('erc_20_transfer_events', params.contract, ['from', 'to'], ['value'])
-    ).map((v) => ({
-      from: v.from,
-      to: v.to,
-      value: BigInt(v.value),
-      contract: v.contract,
-      transaction: v.transaction,
-      logIndex: v.logIndex,
-    }));
+    return this.getEvents(EventKind.Erc20Transfer, params);
   }
 
   async getErc721ApprovalEvents(params: {
     contract: string;
   }): Promise<DetailedErc721ApprovalEvent[]> {
-    return (
-      await this.getEvents(
-        'erc_721_approval_events',
-        params.contract,
-        ['owner', 'approved'],
-        ['token_id'],
-      )
-    ).map((v) => ({
-      owner: v.owner,
-      approved: v.approved,
-      tokenId: v.token_id,
-      contract: v.contract,
-      transaction: v.transaction,
-      logIndex: v.logIndex,
-    }));
+    return this.getEvents(EventKind.Erc721Approval, params);
   }
 
   async getErc721TransferEvents(params: {
     contract: string;
   }): Promise<DetailedErc721TransferEvent[]> {
-    return (
-      await this.getEvents('erc_721_transfer_events', params.contract, ['from', 'to'], ['token_id'])
-    ).map((v) => ({
-      from: v.from,
-      to: v.to,
-      tokenId: v.token_id,
-      contract: v.contract,
-      transaction: v.transaction,
-      logIndex: v.logIndex,
-    }));
+    return this.getEvents(EventKind.Erc721Transfer, params);
   }
 
   async getErc721ApprovalForAllEvents(params: {
     contract: string;
   }): Promise<DetailedErc721ApprovalForAllEvent[]> {
-    return await this.getEvents(
-      'erc_721_approval_for_all_events',
-      params.contract,
-      ['owner', 'operator'],
-      ['approved'],
-    );
+    return this.getEvents(EventKind.Erc721ApprovalForAll, params);
   }
 
   async getErc1155ApprovalForAllEvents(params: {
     contract: string;
   }): Promise<DetailedErc1155ApprovalForAllEvent[]> {
-    return await this.getEvents(
-      'erc_1155_approval_for_all_events',
-      params.contract,
-      ['owner', 'operator'],
-      ['approved'],
-    );
+    return this.getEvents(EventKind.Erc1155ApprovalForAll, params);
   }
 
   async getErc1155TransferSingleEvents(params: {
     contract: string;
   }): Promise<DetailedErc1155TransferSingleEvent[]> {
-    return (
-      await this.getEvents(
-        'erc_1155_transfer_single_events',
-        params.contract,
-        ['operator', 'from', 'to'],
-        ['token_id', 'value'],
-      )
-    ).map((v) => ({
-      operator: v.operator,
-      from: v.from,
-      to: v.to,
-      tokenId: v.token_id,
-      value: BigInt(v.value),
-      contract: v.contract,
-      transaction: v.transaction,
-      logIndex: v.logIndex,
-    }));
+    return this.getEvents(EventKind.Erc1155TransferSingle, params);
   }
+
   async getErc1155TransferBatchEvents(params: {
     contract: string;
   }): Promise<DetailedErc1155TransferBatchEvent[]> {
-    return (
-      await this.getEvents(
-        'erc_1155_transfer_batch_events',
-        params.contract,
-        ['operator', 'from', 'to'],
-        ['token_ids', 'token_values'],
-      )
-    ).map((v) => ({
-      operator: v.operator,
-      from: v.from,
-      to: v.to,
-      ids: v.token_ids.split(',').map((v: string) => BigInt(v)),
-      values: v.token_values.split(',').map((v: string) => BigInt(v)),
-      contract: v.contract,
-      transaction: v.transaction,
-      logIndex: v.logIndex,
-    }));
+    return this.getEvents(EventKind.Erc1155TransferBatch, params);
   }
 
   addAddress(address: string | null | (string | null)[]) {
@@ -498,18 +482,25 @@ class SqlDatabase implements ISqlDatabase {
     );
   }
 
-  async addTransaction(tx: SimplifiedTransaction): Promise<number> {
+  async addTransaction(
+    tx: SimplifiedTransaction,
+    blockHash: string | null = null,
+    isSyntheticIndex = false,
+  ): Promise<number> {
     return new Promise((res, rej) => {
-      this.addAddress([tx.from, tx.to]);
+      this.addAddress([tx.from, tx.to, ...(tx.initiator ? [tx.initiator] : [])]);
       this.db.run(
-        `INSERT INTO transactions(hash, sighash, from_id, to_id, block_number, tx_index, timestamp) 
+        `INSERT INTO transactions(hash, sighash, from_id, to_id, initiator_id, block_number, block_hash, tx_index, is_synthetic_index, timestamp) 
             SELECT 
               $hash, 
               $sighash, 
               (SELECT address_id FROM addresses WHERE address = $from), 
               (SELECT address_id FROM addresses WHERE address = $to), 
+              (SELECT address_id FROM addresses WHERE address = $initiator), 
               $block_number, 
+              $block_hash,
               $tx_index,
+              $is_synthetic_index,
               $timestamp
             WHERE NOT EXISTS (
                 SELECT 1 FROM transactions WHERE hash = $hash
@@ -520,8 +511,11 @@ class SqlDatabase implements ISqlDatabase {
           $sighash: tx.sighash,
           $from: tx.from,
           $to: wrapNull(tx.to),
+          $initiator: tx.initiator || null,
           $block_number: tx.blockNumber,
+          $block_hash: blockHash,
           $tx_index: tx.index,
+          $is_synthetic_index: isSyntheticIndex ? 1 : 0,
           $timestamp: tx.timestamp,
         },
         function (err) {
@@ -783,6 +777,33 @@ class SqlDatabase implements ISqlDatabase {
     );
   }
 
+  addAnalysis(record: AnalysisRecord) {
+    this.addAddress(record.token);
+    return this.run(
+      `INSERT INTO analyses(address_id, block_number, timestamp, analysis, is_spam, is_phishing, is_finalized, confidence)
+      VALUES (
+        (SELECT address_id FROM addresses WHERE address = $token),
+        $block_number,
+        $timestamp,
+        $analysis,
+        $is_spam,
+        $is_phishing,
+        $is_finalized,
+        $confidence
+      )`,
+      {
+        $token: record.token,
+        $block_number: record.blockNumber,
+        $timestamp: record.timestamp,
+        $analysis: JSON.stringify(record.analysis),
+        $is_spam: record.interpretation.isSpam,
+        $is_phishing: record.interpretation.isPhishing,
+        $is_finalized: record.interpretation.isFinalized,
+        $confidence: record.interpretation.confidence,
+      },
+    );
+  }
+
   clearToken(address: string) {
     // remove contract and related events
     this.db.run(
@@ -790,58 +811,71 @@ class SqlDatabase implements ISqlDatabase {
       address,
     );
 
-    const eventTables = [
-      'erc_20_transfer_events',
-      'erc_20_approval_events',
-      'erc_721_transfer_events',
-      'erc_721_approval_events',
-      'erc_721_approval_for_all_events',
-      'erc_1155_transfer_single_events',
-      'erc_1155_transfer_batch_events',
-      'erc_1155_approval_for_all_events',
-    ];
-
     // clear transactions
-    this.db.run(
-      `DELETE FROM transactions
-        WHERE NOT EXISTS ${eventTables
-          .map(
-            (table) =>
-              `(
-                SELECT 1
-                FROM ${table} e
-                WHERE e.transaction_id = transactions.transaction_id
-              )`,
-          )
-          .join(' AND NOT EXISTS ')}`,
-    );
-
-    const tablesWithAddresses = [
-      { name: 'transactions', columns: ['from_id', 'to_id'] },
-      { name: 'contracts', columns: ['address_id', 'deployer_id'] },
-      { name: 'erc_20_transfer_events', columns: ['from_id', 'to_id'] },
-      { name: 'erc_20_approval_events', columns: ['owner_id', 'spender_id'] },
-      { name: 'erc_721_transfer_events', columns: ['from_id', 'to_id'] },
-      { name: 'erc_721_approval_events', columns: ['owner_id', 'approved_id'] },
-      { name: 'erc_721_approval_for_all_events', columns: ['owner_id', 'operator_id'] },
-      { name: 'erc_1155_transfer_single_events', columns: ['operator_id', 'from_id', 'to_id'] },
-      { name: 'erc_1155_transfer_batch_events', columns: ['operator_id', 'from_id', 'to_id'] },
-    ];
+    this.db.run(DELETE_ORPHAN_TRANSACTIONS);
 
     // clear addresses
-    this.db.run(
-      `DELETE FROM addresses
-        WHERE NOT EXISTS ${tablesWithAddresses
-          .map(
-            (table) =>
-              `(
-                SELECT 1
-                FROM ${table.name} e
-                WHERE addresses.address_id IN (${table.columns.map((v) => `e.${v}`).join(',')})
-              )`,
-          )
-          .join(' AND NOT EXISTS ')}`,
+    this.db.run(DELETE_ORPHAN_ADDRESSES);
+  }
+
+  // Removes the transactions of the blocks starting from the given one along with their events,
+  // and the tokens deployed in these blocks, since they don't exist on the new branch.
+  // Returns the watched tokens whose data has been removed, the balances of the remaining ones have to be rebuilt.
+  async rollbackBlocks(params: { fromBlock: number }): Promise<string[]> {
+    const rows = await this.all<{ address: string }[]>(SELECT_CONTRACTS_CHANGED_SINCE, {
+      $from_block: params.fromBlock,
+    });
+
+    await this.run(
+      `DELETE FROM analyses WHERE address_id IN (SELECT address_id FROM contracts WHERE block_number >= ?)`,
+      params.fromBlock,
     );
+    await this.run(`DELETE FROM contracts WHERE block_number >= ?`, params.fromBlock);
+    await this.run(`DELETE FROM transactions WHERE block_number >= ?`, params.fromBlock);
+
+    return rows.map((r) => r.address);
+  }
+
+  // Removes the data that isn't related to any watched token anymore.
+  // Events and balances are removed along with their contracts, so only transactions and addresses are left behind.
+  // Analyses of the tokens that are no longer watched are kept as their verdict timeline until they are too old.
+  async prune(params: { analysesBefore: number }) {
+    await this.run(DELETE_ORPHAN_TRANSACTIONS);
+    await this.run(DELETE_OLD_ORPHAN_ANALYSES, params.analysesBefore);
+    await this.run(DELETE_ORPHAN_ADDRESSES);
+  }
+
+  // Size of the pages in use, the free pages left after deleted data are not counted
+  async getSize(): Promise<number> {
+    const { page_count, freelist_count, page_size } = await this.getPageStats();
+    return (page_count - freelist_count) * page_size;
+  }
+
+  // Returns the free pages to the file system, returns the number of reclaimed bytes.
+  // The first run rebuilds the database with incremental auto-vacuum, so the next ones don't have to copy all the data.
+  async vacuum(): Promise<number> {
+    const before = await this.getPageStats();
+    const { auto_vacuum } = await this.get<{ auto_vacuum: number }>(`PRAGMA auto_vacuum`);
+
+    if (auto_vacuum === INCREMENTAL_AUTO_VACUUM) {
+      await this.all(`PRAGMA incremental_vacuum`);
+    } else {
+      await this.run(`PRAGMA auto_vacuum = ${INCREMENTAL_AUTO_VACUUM}`);
+      await this.run(`VACUUM`);
+    }
+
+    const after = await this.getPageStats();
+    return (before.page_count - after.page_count) * before.page_size;
+  }
+
+  private async getPageStats() {
+    const [{ page_count }, { freelist_count }, { page_size }] = await Promise.all([
+      this.get<{ page_count: number }>(`PRAGMA page_count`),
+      this.get<{ freelist_count: number }>(`PRAGMA freelist_count`),
+      this.get<{ page_size: number }>(`PRAGMA page_size`),
+    ]);
+
+    return { page_count, freelist_count, page_size };
   }
 
   close() {
@@ -0,0 +1,314 @@
+import {
+  DetailedErc1155ApprovalForAllEvent,
+  DetailedErc1155TransferBatchEvent,
+  DetailedErc1155TransferSingleEvent,
+  DetailedErc20ApprovalEvent,
+  DetailedErc20TransferEvent,
+  DetailedErc721ApprovalEvent,
+  DetailedErc721ApprovalForAllEvent,
+  DetailedErc721TransferEvent,
+  SimplifiedTransaction,
+} from '../types';
+import { unwrapNull, wrapNull } from './utils';
+
+export enum EventKind {
+  Erc20Transfer = 'erc20Transfer',
+  Erc20Approval = 'erc20Approval',
+  Erc721Transfer = 'erc721Transfer',
+  Erc721Approval = 'erc721Approval',
+  Erc721ApprovalForAll = 'erc721ApprovalForAll',
+  Erc1155TransferSingle = 'erc1155TransferSingle',
+  Erc1155TransferBatch = 'erc1155TransferBatch',
+  Erc1155ApprovalForAll = 'erc1155ApprovalForAll',
+}
+
+export type EventByKind = {
+  [EventKind.Erc20Transfer]: DetailedErc20TransferEvent;
+  [EventKind.Erc20Approval]: DetailedErc20ApprovalEvent;
+  [EventKind.Erc721Transfer]: DetailedErc721TransferEvent;
+  [EventKind.Erc721Approval]: DetailedErc721ApprovalEvent;
+  [EventKind.Erc721ApprovalForAll]: DetailedErc721ApprovalForAllEvent;
+  [EventKind.Erc1155TransferSingle]: DetailedErc1155TransferSingleEvent;
+  [EventKind.Erc1155TransferBatch]: DetailedErc1155TransferBatchEvent;
+  [EventKind.Erc1155ApprovalForAll]: DetailedErc1155ApprovalForAllEvent;
+};
+
+export type EventQuery = {
+  contract: string;
+  // Inclusive range of blocks
+  fromBlock?: number;
+  toBlock?: number;
+  // Events where the address is one of the participants, e.g. the sender or the receiver of a transfer
+  address?: string;
+};
+
+// Position of the last returned event. Events are ordered by the block, the transaction index and the log index.
+export type EventCursor = {
+  blockNumber: number;
+  txIndex: number;
+  logIndex: number;
+};
+
+export type EventPage<T> = {
+  events: T[];
+  // null if there are no more events
+  cursor: EventCursor | null;
+};
+
+export const EVENT_PAGE_SIZE = 1000;
+
+type EventRow = {
+  [field: string]: any;
+  log_index: number;
+  tx_hash: string;
+  tx_from: string;
+  tx_to: string;
+  tx_sighash: string;
+  tx_block_number: number;
+  tx_timestamp: number;
+  tx_index: number;
+  tx_initiator: string | null;
+};
+
+type EventTable<T> = {
+  table: string;
+  // Names of the columns without the `_id` suffix, e.g. `from` for `from_id`
+  addressFields: string[];
+  normalFields: string[];
+  parse: (
+    row: EventRow,
+    base: { contract: string; transaction: SimplifiedTransaction; logIndex: number },
+  ) => T;
+};
+
+export const EVENT_TABLE_BY_KIND: { [K in EventKind]: EventTable<EventByKind[K]> } = {
+  [EventKind.Erc20Transfer]: {
+    table: 'erc_20_transfer_events',
+    addressFields: ['from', 'to'],
+    normalFields: ['value'],
+    parse: (row, base) => ({ from: row.from, to: row.to, value: BigInt(row.value), ...base }),
+  },
+  [EventKind.Erc20Approval]: {
+    table: 'erc_20_approval_events',
+    addressFields: ['owner', 'spender'],
+    normalFields: ['value'],
+    parse: (row, base) => ({
+      owner: row.owner,
+      spender: row.spender,
+      value: BigInt(row.value),
+      ...base,
+    }),
+  },
+  [EventKind.Erc721Transfer]: {
+    table: 'erc_721_transfer_events',
+    addressFields: ['from', 'to'],
+    normalFields: ['token_id'],
+    parse: (row, base) => ({ from: row.from, to: row.to, tokenId: row.token_id, ...base }),
+  },
+  [EventKind.Erc721Approval]: {
+    table: 'erc_721_approval_events',
+    addressFields: ['owner', 'approved'],
+    normalFields: ['token_id'],
+    parse: (row, base) => ({
+      owner: row.owner,
+      approved: row.approved,
+      tokenId: row.token_id,
+      ...base,
+    }),
+  },
+  [EventKind.Erc721ApprovalForAll]: {
+    table: 'erc_721_approval_for_all_events',
+    addressFields: ['owner', 'operator'],
+    normalFields: ['approved'],
+    parse: (row, base) => ({
+      owner: row.owner,
+      operator: row.operator,
+      approved: row.approved,
+      ...base,
+    }),
+  },
+  [EventKind.Erc1155TransferSingle]: {
+    table: 'erc_1155_transfer_single_events',
+    addressFields: ['operator', 'from', 'to'],
+    normalFields: ['token_id', 'value'],
+    parse: (row, base) => ({
+      operator: row.operator,
+      from: row.from,
+      to: row.to,
+      tokenId: row.token_id,
+      value: BigInt(row.value),
+      ...base,
+    }),
+  },
+  [EventKind.Erc1155TransferBatch]: {
+    table: 'erc_1155_transfer_batch_events',
+    addressFields: ['operator', 'from', 'to'],
+    normalFields: ['token_ids', 'token_values'],
+    parse: (row, base) => ({
+      operator: row.operator,
+      from: row.from,
+      to: row.to,
+      ids: row.token_ids.split(',').map((v: string) => BigInt(v)),
+      values: row.token_values.split(',').map((v: string) => BigInt(v)),
+      ...base,
+    }),
+  },
+  [EventKind.Erc1155ApprovalForAll]: {
+    table: 'erc_1155_approval_for_all_events',
+    addressFields: ['owner', 'operator'],
+    normalFields: ['approved'],
+    parse: (row, base) => ({
+      owner: row.owner,
+      operator: row.operator,
+      approved: row.approved,
+      ...base,
+    }),
+  },
+};
+
+// Returns a placeholder of the parameter, e.g. `?1` for SQLite or `$1` for PostgreSQL
+export type ParamBinder = (value: unknown) => string;
+
+// Events of the contract with their transactions, filtered by the query
+function buildEventSource(kind: EventKind, query: EventQuery, bind: ParamBinder) {
+  const { table, addressFields } = EVENT_TABLE_BY_KIND[kind];
+
+  const eventConditions = [
+    `e.contract_id = (SELECT address_id FROM addresses a WHERE a.address = ${bind(
+      wrapNull(query.contract),
+    )})`,
+  ];
+
+  if (query.address != null) {
+    const address = bind(wrapNull(query.address));
+    const addressId = `(SELECT address_id FROM addresses a WHERE a.address = ${address})`;
+    eventConditions.push(`(${addressFields.map((f) => `e.${f}_id = ${addressId}`).join(' OR ')})`);
+  }
+
+  const conditions: string[] = [];
+
+  if (query.fromBlock != null) conditions.push(`t.block_number >= ${bind(query.fromBlock)}`);
+  if (query.toBlock != null) conditions.push(`t.block_number <= ${bind(query.toBlock)}`);
+
+  return {
+    from: `(
+        SELECT *
+        FROM ${table} e
+        WHERE ${eventConditions.join(' AND ')}
+      ) e
+      JOIN transactions t ON e.transaction_id = t.transaction_id`,
+    conditions,
+  };
+}
+
+export function buildEventSelect(
+  kind: EventKind,
+  query: EventQuery,
+  bind: ParamBinder,
+  cursor: EventCursor | null = null,
+  limit?: number,
+) {
+  const { addressFields, normalFields } = EVENT_TABLE_BY_KIND[kind];
+  const { from, conditions } = buildEventSource(kind, query, bind);
+
+  if (cursor) {
+    const blockNumber = bind(cursor.blockNumber);
+    const txIndex = bind(cursor.txIndex);
+    const logIndex = bind(cursor.logIndex);
+    conditions.push(`(
+      t.block_number > ${blockNumber} OR (t.block_number = ${blockNumber} AND (
+        t.tx_index > ${txIndex} OR (t.tx_index = ${txIndex} AND e.log_index > ${logIndex})
+      ))
+    )`);
+  }
+
+  return `SELECT
+          e.log_index AS "log_index",
+          ${[
+            ...addressFields.map((f) => `${f}_a.address AS "${f}"`),
+            ...normalFields.map((f) => `e.${f} AS "${f}"`),
+          ].join(',')},
+          t.hash AS "tx_hash",
+          tx_from_a.address AS "tx_from",
+          tx_to_a.address AS "tx_to",
+          t.sighash AS "tx_sighash",
+          t.block_number AS "tx_block_number",
+          t.timestamp AS "tx_timestamp",
+          t.tx_index AS "tx_index",
+          tx_initiator_a.address AS "tx_initiator"
+      FROM ${from}
+      ${addressFields
+        .map((f) => `JOIN addresses ${f}_a ON e.${f}_id = ${f}_a.address_id`)
+        .join('\n')}
+      JOIN addresses tx_from_a ON t.from_id = tx_from_a.address_id
+      JOIN addresses tx_to_a ON t.to_id = tx_to_a.address_id
+      LEFT JOIN addresses tx_initiator_a ON t.initiator_id = tx_initiator_a.address_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY t.block_number, t.tx_index, e.log_index
+      ${limit != null ? `LIMIT ${bind(limit)}` : ''}`;
+}
+
+export function buildEventCount(kind: EventKind, query: EventQuery, bind: ParamBinder) {
+  const { from, conditions } = buildEventSource(kind, query, bind);
+
+  return `SELECT COUNT(*) AS "count"
+      FROM ${from}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}`;
+}
+
+export function parseEventRows<K extends EventKind>(
+  kind: K,
+  contract: string,
+  rows: EventRow[],
+): EventByKind[K][] {
+  const { parse } = EVENT_TABLE_BY_KIND[kind];
+
+  return rows.map((row) =>
+    parse(row, {
+      contract: contract,
+      transaction: {
+        from: row.tx_from,
+        to: unwrapNull(row.tx_to),
+        hash: row.tx_hash,
+        blockNumber: row.tx_block_number,
+        timestamp: row.tx_timestamp,
+        sighash: row.tx_sighash,
+        index: row.tx_index,
+        ...(row.tx_initiator ? { initiator: row.tx_initiator } : {}),
+      },
+      logIndex: row.log_index,
+    }),
+  );
+}
+
+export function toEventPage<T extends { transaction: SimplifiedTransaction; logIndex: number }>(
+  events: T[],
+  limit: number,
+): EventPage<T> {
+  const lastEvent = events[events.length - 1];
+
+  return {
+    events: events,
+    cursor:
+      events.length < limit
+        ? null
+        : {
+            blockNumber: lastEvent.transaction.blockNumber,
+            txIndex: lastEvent.transaction.index,
+            logIndex: lastEvent.logIndex,
+          },
+  };
+}
+
+// Reads the events page by page, so that only one page is kept in memory at a time
+export async function* iterateEventPages<K extends EventKind>(
+  getPage: (cursor: EventCursor | null) => Promise<EventPage<EventByKind[K]>>,
+): AsyncGenerator<EventByKind[K]> {
+  let cursor: EventCursor | null = null;
+
+  do {
+    const page: EventPage<EventByKind[K]> = await getPage(cursor);
+    for (const event of page.events) yield event;
+    cursor = page.cursor;
+  } while (cursor);
+}
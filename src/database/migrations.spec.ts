@@ -0,0 +1,218 @@
+import os from 'os';
+import path from 'path';
+import { rm } from 'fs/promises';
+import { omit } from 'lodash';
+
+import SqlDatabase from './database';
+import DataStorage from '../storage';
+import { Migration, SQLITE_MIGRATIONS } from './migrations';
+import { AnalysisRecord, SimplifiedTransaction, TokenContract, TokenStandard } from '../types';
+
+describe('sql database migrations', () => {
+  let filename: string;
+
+  const token: TokenContract = {
+    deployer: '0x000000000000000000000000000000000000000d',
+    address: '0x0000000000000000000000000000000000000001',
+    timestamp: 1000,
+    blockNumber: 100,
+    type: TokenStandard.Erc20,
+  };
+
+  const tx: SimplifiedTransaction = {
+    from: '0x0000000000000000000000000000000000000002',
+    to: token.address,
+    sighash: '0xa9059cbb',
+    timestamp: 1010,
+    blockNumber: 101,
+    hash: '0x0000000000000000000000000000000000000000000000000000000000000001',
+    index: 3,
+  };
+
+  const transferEvent = {
+    from: tx.from,
+    to: '0x0000000000000000000000000000000000000003',
+    contract: token.address,
+    transactionHash: tx.hash,
+    value: BigInt('12123124324235345693496834968340869348693468463089643098346'),
+    logIndex: 1,
+  };
+
+  const analysis: AnalysisRecord = {
+    token: token.address,
+    timestamp: 1020,
+    blockNumber: 102,
+    analysis: { Airdrop: { detected: true, metadata: { receivers: [transferEvent.to] } } },
+    interpretation: { isSpam: true, isPhishing: false, isFinalized: false, confidence: 0.8 },
+  };
+
+  // Version 0 is a database created before the migrations were introduced
+  async function createDatabase(version: number) {
+    const db = new SqlDatabase(filename, SQLITE_MIGRATIONS.slice(0, version));
+
+    if (version > 0) {
+      await db.initialize();
+    } else {
+      await db.exec(SQLITE_MIGRATIONS[0].statements.join(';\n'));
+    }
+
+    db.addToken(token);
+    // Inserted the way the older versions did, without the block hash
+    db.addAddress([tx.from, tx.to]);
+    await db.run(
+      `INSERT INTO transactions(hash, sighash, from_id, to_id, block_number, tx_index, timestamp)
+      SELECT ?, ?, f.address_id, t.address_id, ?, ?, ?
+      FROM addresses f, addresses t
+      WHERE f.address = ? AND t.address = ?`,
+      tx.hash,
+      tx.sighash,
+      tx.blockNumber,
+      tx.index,
+      tx.timestamp,
+      tx.from,
+      tx.to,
+    );
+    await db.addErc20TransferEvent(transferEvent);
+    await db.addAnalysis(analysis);
+    await db.close();
+  }
+
+  async function expectDataPreserved(db: SqlDatabase) {
+    expect(await db.getTokens()).toEqual([token]);
+    expect(await db.getTransactions({ to: token.address })).toStrictEqual([tx]);
+    expect(await db.getErc20TransferEvents({ contract: token.address })).toStrictEqual([
+      { ...omit(transferEvent, 'transactionHash'), transaction: tx },
+    ]);
+    expect(await db.getAnalyses({ token: token.address })).toStrictEqual([analysis]);
+  }
+
+  async function getVersion(db: SqlDatabase) {
+    const row = await new Promise<{ version: number }>((res, rej) =>
+      db.db.get(`SELECT MAX(version) AS version FROM schema_version`, (err, row) =>
+        err ? rej(err) : res(row as { version: number }),
+      ),
+    );
+
+    return row.version;
+  }
+
+  beforeEach(() => {
+    filename = path.resolve(os.tmpdir(), `storage-${process.pid}-${Date.now()}.db`);
+  });
+
+  afterEach(async () => {
+    await rm(filename, { force: true });
+  });
+
+  // The pending migrations are applied together, since the data is populated and read by the queries of the current version
+  it.each(SQLITE_MIGRATIONS.map((m) => [m.version, m.name, m] as [number, string, Migration]))(
+    'should preserve data when applying migration %i (%s) and the later ones',
+    async (version) => {
+      await createDatabase(version - 1);
+
+      const db = new SqlDatabase(filename);
+      await db.initialize();
+
+      expect(await getVersion(db)).toStrictEqual(
+        SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version,
+      );
+      await expectDataPreserved(db);
+      await db.close();
+    },
+  );
+
+  it('should migrate a database created before the migrations to the latest version', async () => {
+    await createDatabase(0);
+
+    const db = new SqlDatabase(filename);
+    await db.initialize();
+
+    expect(await getVersion(db)).toStrictEqual(
+      SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version,
+    );
+    await expectDataPreserved(db);
+
+    // Initialization of the migrated database is a no-op
+    await db.initialize();
+    await expectDataPreserved(db);
+    await db.close();
+  });
+
+  it('should fill the balance tables with the balances of the collected tokens', async () => {
+    await createDatabase(2);
+
+    const db = new SqlDatabase(filename);
+    await db.initialize();
+
+    expect(await db.getBalances({ contract: token.address })).toStrictEqual([
+      { holder: transferEvent.from, balance: -transferEvent.value },
+      { holder: transferEvent.to, balance: transferEvent.value },
+    ]);
+    await db.close();
+  });
+
+  it('should backfill the transaction indexes counted by the older versions', async () => {
+    await createDatabase(4);
+
+    const db = new SqlDatabase(filename);
+    await db.initialize();
+
+    const provider = { getTransactionReceipt: jest.fn(async () => ({ transactionIndex: 42 })) };
+    const storage = new DataStorage(db, provider as any);
+
+    expect(await storage.backfillTransactionIndexes()).toStrictEqual(1);
+    expect(await storage.backfillTransactionIndexes()).toStrictEqual(0);
+    expect(provider.getTransactionReceipt).toHaveBeenCalledTimes(1);
+    expect(await db.getTransactions({ to: token.address })).toStrictEqual([{ ...tx, index: 42 }]);
+    await db.close();
+  });
+
+  it('should refuse to run against a database of a newer version', async () => {
+    const latestVersion = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+    const newerMigration: Migration = {
+      version: latestVersion + 1,
+      name: 'newer',
+      statements: [`CREATE TABLE newer (id INTEGER PRIMARY KEY)`],
+    };
+
+    const newerDb = new SqlDatabase(filename, [...SQLITE_MIGRATIONS, newerMigration]);
+    await newerDb.initialize();
+    await newerDb.close();
+
+    const db = new SqlDatabase(filename);
+    await expect(db.initialize()).rejects.toThrow(
+      `Database schema version ${
+        latestVersion + 1
+      } is newer than the supported one (${latestVersion})`,
+    );
+    await db.close();
+  });
+
+  it('should refuse to run if an applied migration has been changed', async () => {
+    const db = new SqlDatabase(filename);
+    await db.initialize();
+    await db.close();
+
+    const [initialMigration, ...otherMigrations] = SQLITE_MIGRATIONS;
+    const changedMigration: Migration = {
+      ...initialMigration,
+      statements: [...initialMigration.statements, `CREATE TABLE changed (id INTEGER PRIMARY KEY)`],
+    };
+
+    const changedDb = new SqlDatabase(filename, [changedMigration, ...otherMigrations]);
+    await expect(changedDb.initialize()).rejects.toThrow(
+      'Checksum mismatch of the applied migration 1 (initial)',
+    );
+    await changedDb.close();
+
+    // Formatting of the statements doesn't matter
+    const reformattedMigration: Migration = {
+      ...initialMigration,
+      statements: initialMigration.statements.map((s) => `  ${s.replace(/\n\s*/g, '\n    ')}  `),
+    };
+
+    const reformattedDb = new SqlDatabase(filename, [reformattedMigration, ...otherMigrations]);
+    await expect(reformattedDb.initialize()).resolves.toBeUndefined();
+    await reformattedDb.close();
+  });
+});
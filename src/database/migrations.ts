@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+
+import { ISqlDatabase } from './types';
+import { populateBalances } from './balances';
+
+export type Migration = {
+  version: number;
+  name: string;
+  statements: string[];
+  // Fills the new tables with the existing data. Runs in the same transaction after the statements of all the pending
+  // migrations, since it uses the queries of the current version that may depend on the columns added later.
+  populate?: (db: ISqlDatabase) => Promise<void>;
+};
+
+const EVENT_TABLES = [
+  'erc_20_transfer_events',
+  'erc_20_approval_events',
+  'erc_721_transfer_events',
+  'erc_721_approval_events',
+  'erc_721_approval_for_all_events',
+  'erc_1155_transfer_single_events',
+  'erc_1155_transfer_batch_events',
+  'erc_1155_approval_for_all_events',
+];
+
+// Migrations are applied in order of their versions and must never be changed once released,
+// since the checksums of the applied ones are validated on startup. Add a new migration instead.
+export const SQLITE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    // The schema created before the migrations were introduced, hence `IF NOT EXISTS`
+    name: 'initial',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS addresses (
+        address_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        address VARCHAR(42) UNIQUE NOT NULL
+      )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_address ON addresses (address)`,
+      `CREATE TABLE IF NOT EXISTS contracts (
+        contract_id INTEGER PRIMARY KEY,
+        address_id INTEGER NOT NULL UNIQUE,
+        deployer_id INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        type SMALLINT NOT NULL,
+        FOREIGN KEY (address_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (deployer_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS transactions (
+        transaction_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        hash VARCHAR(66) NOT NULL,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        sighash VARCHAR(10) NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        tx_index INTEGER NOT NULL,
+        FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_hash ON transactions (hash)`,
+      `CREATE TABLE IF NOT EXISTS erc_20_transfer_events (
+        event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        value TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS erc_20_approval_events (
+        event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        owner_id INTEGER NOT NULL,
+        spender_id INTEGER NOT NULL,
+        value TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (spender_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS erc_721_transfer_events (
+        event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS erc_721_approval_events (
+        event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        owner_id INTEGER NOT NULL,
+        approved_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (approved_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS erc_721_approval_for_all_events (
+        event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        owner_id INTEGER NOT NULL,
+        operator_id INTEGER NOT NULL,
+        approved BOOLEAN NOT NULL,
+        log_index INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (operator_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS erc_1155_transfer_single_events (
+        event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        operator_id INTEGER NOT NULL,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        value TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (operator_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS erc_1155_transfer_batch_events (
+        event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        operator_id INTEGER NOT NULL,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        token_ids TEXT NOT NULL,
+        token_values TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (operator_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+        FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS erc_1155_approval_for_all_events (
+        event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        owner_id INTEGER NOT NULL,
+        operator_id INTEGER NOT NULL,
+        approved BOOLEAN NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (operator_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      // Analyses refer to the token address rather than the contract, so that they are kept after the token is cleared
+      `CREATE TABLE IF NOT EXISTS analyses (
+        analysis_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        address_id INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        analysis TEXT NOT NULL,
+        is_spam BOOLEAN NOT NULL,
+        is_phishing BOOLEAN NOT NULL,
+        is_finalized BOOLEAN NOT NULL,
+        confidence REAL NOT NULL,
+        FOREIGN KEY (address_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_analyses_address ON analyses (address_id)`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'transaction and event indexes',
+    statements: [
+      `CREATE INDEX idx_transactions_to ON transactions (to_id)`,
+      ...EVENT_TABLES.map(
+        (table) => `CREATE INDEX idx_${table}_contract ON ${table} (contract_id)`,
+      ),
+    ],
+  },
+  {
+    version: 3,
+    name: 'balance tables',
+    statements: [
+      `CREATE TABLE balances (
+        contract_id INTEGER NOT NULL,
+        holder_id INTEGER NOT NULL,
+        balance TEXT NOT NULL,
+        PRIMARY KEY (contract_id, holder_id),
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (holder_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE erc_721_owners (
+        contract_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        owner_id INTEGER NOT NULL,
+        PRIMARY KEY (contract_id, token_id),
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE erc_1155_balances (
+        contract_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        holder_id INTEGER NOT NULL,
+        balance TEXT NOT NULL,
+        PRIMARY KEY (contract_id, token_id, holder_id),
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (holder_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+    ],
+    populate: populateBalances,
+  },
+  {
+    version: 4,
+    // Transactions stored before the migration have no block hash, they can still be rolled back by block number
+    name: 'transaction block hashes',
+    statements: [
+      `ALTER TABLE transactions ADD COLUMN block_hash VARCHAR(66)`,
+      `CREATE INDEX idx_transactions_block_number ON transactions (block_number)`,
+    ],
+  },
+  {
+    version: 5,
+    // The older versions counted the transactions of a block, their indexes are replaced with the ones from the receipts
+    name: 'synthetic transaction indexes',
+    statements: [
+      `ALTER TABLE transactions ADD COLUMN is_synthetic_index BOOLEAN NOT NULL DEFAULT 1`,
+    ],
+  },
+  {
+    version: 6,
+    // Null if the sender of the transaction is the initiator
+    name: 'transaction initiators',
+    statements: [
+      `ALTER TABLE transactions ADD COLUMN initiator_id INTEGER REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE`,
+    ],
+  },
+];
+
+// Whitespace is ignored, so that the statements can be reformatted
+export function getMigrationChecksum(migration: Migration): string {
+  const hash = createHash('sha256');
+  for (const statement of migration.statements) {
+    hash.update(statement.replace(/\s+/g, ' ').trim() + ';');
+  }
+
+  return hash.digest('hex');
+}
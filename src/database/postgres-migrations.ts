@@ -0,0 +1,219 @@
+import { ISqlDatabase } from './types';
+import { populateBalances } from './balances';
+
+export type PostgresMigration = {
+  version: number;
+  name: string;
+  statements: string[];
+  // Fills the new tables with the existing data, runs in the same transaction after the statements
+  populate?: (db: ISqlDatabase) => Promise<void>;
+};
+
+const eventForeignKeys = (addressColumns: string[]) =>
+  [
+    'FOREIGN KEY (transaction_id) REFERENCES transactions (transaction_id) ON UPDATE CASCADE ON DELETE CASCADE',
+    'FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE',
+    ...addressColumns.map(
+      (c) =>
+        `FOREIGN KEY (${c}) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE`,
+    ),
+  ].join(',\n');
+
+// Migrations are applied in order of their versions and must never be changed once released
+export const POSTGRES_MIGRATIONS: PostgresMigration[] = [
+  {
+    version: 1,
+    name: 'initial',
+    // The same tables as in the SQLite database
+    statements: [
+      `CREATE TABLE addresses (
+        address_id SERIAL PRIMARY KEY,
+        address VARCHAR(42) UNIQUE NOT NULL
+      )`,
+      `CREATE TABLE contracts (
+        contract_id INTEGER PRIMARY KEY,
+        address_id INTEGER NOT NULL UNIQUE,
+        deployer_id INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        type SMALLINT NOT NULL,
+        FOREIGN KEY (address_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (deployer_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE transactions (
+        transaction_id SERIAL PRIMARY KEY,
+        hash VARCHAR(66) UNIQUE NOT NULL,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        sighash VARCHAR(10) NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        tx_index INTEGER NOT NULL,
+        FOREIGN KEY (from_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (to_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE INDEX idx_transactions_to ON transactions (to_id)`,
+      `CREATE TABLE erc_20_transfer_events (
+        event_id SERIAL PRIMARY KEY,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        value TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        ${eventForeignKeys(['from_id', 'to_id'])}
+      )`,
+      `CREATE TABLE erc_20_approval_events (
+        event_id SERIAL PRIMARY KEY,
+        owner_id INTEGER NOT NULL,
+        spender_id INTEGER NOT NULL,
+        value TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        ${eventForeignKeys(['owner_id', 'spender_id'])}
+      )`,
+      `CREATE TABLE erc_721_transfer_events (
+        event_id SERIAL PRIMARY KEY,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        ${eventForeignKeys(['from_id', 'to_id'])}
+      )`,
+      `CREATE TABLE erc_721_approval_events (
+        event_id SERIAL PRIMARY KEY,
+        owner_id INTEGER NOT NULL,
+        approved_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        ${eventForeignKeys(['owner_id', 'approved_id'])}
+      )`,
+      `CREATE TABLE erc_721_approval_for_all_events (
+        event_id SERIAL PRIMARY KEY,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        owner_id INTEGER NOT NULL,
+        operator_id INTEGER NOT NULL,
+        approved BOOLEAN NOT NULL,
+        log_index INTEGER NOT NULL,
+        ${eventForeignKeys(['owner_id', 'operator_id'])}
+      )`,
+      `CREATE TABLE erc_1155_transfer_single_events (
+        event_id SERIAL PRIMARY KEY,
+        operator_id INTEGER NOT NULL,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        value TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        ${eventForeignKeys(['operator_id', 'from_id', 'to_id'])}
+      )`,
+      `CREATE TABLE erc_1155_transfer_batch_events (
+        event_id SERIAL PRIMARY KEY,
+        operator_id INTEGER NOT NULL,
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        token_ids TEXT NOT NULL,
+        token_values TEXT NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        ${eventForeignKeys(['operator_id', 'from_id', 'to_id'])}
+      )`,
+      `CREATE TABLE erc_1155_approval_for_all_events (
+        event_id SERIAL PRIMARY KEY,
+        owner_id INTEGER NOT NULL,
+        operator_id INTEGER NOT NULL,
+        approved BOOLEAN NOT NULL,
+        transaction_id INTEGER NOT NULL,
+        contract_id INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        ${eventForeignKeys(['owner_id', 'operator_id'])}
+      )`,
+      ...[
+        'erc_20_transfer_events',
+        'erc_20_approval_events',
+        'erc_721_transfer_events',
+        'erc_721_approval_events',
+        'erc_721_approval_for_all_events',
+        'erc_1155_transfer_single_events',
+        'erc_1155_transfer_batch_events',
+        'erc_1155_approval_for_all_events',
+      ].map((table) => `CREATE INDEX idx_${table}_contract ON ${table} (contract_id)`),
+      `CREATE TABLE analyses (
+        analysis_id SERIAL PRIMARY KEY,
+        address_id INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        analysis TEXT NOT NULL,
+        is_spam BOOLEAN NOT NULL,
+        is_phishing BOOLEAN NOT NULL,
+        is_finalized BOOLEAN NOT NULL,
+        confidence DOUBLE PRECISION NOT NULL,
+        FOREIGN KEY (address_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE INDEX idx_analyses_address ON analyses (address_id)`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'balance tables',
+    statements: [
+      `CREATE TABLE balances (
+        contract_id INTEGER NOT NULL,
+        holder_id INTEGER NOT NULL,
+        balance TEXT NOT NULL,
+        PRIMARY KEY (contract_id, holder_id),
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (holder_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE erc_721_owners (
+        contract_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        owner_id INTEGER NOT NULL,
+        PRIMARY KEY (contract_id, token_id),
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (owner_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+      `CREATE TABLE erc_1155_balances (
+        contract_id INTEGER NOT NULL,
+        token_id TEXT NOT NULL,
+        holder_id INTEGER NOT NULL,
+        balance TEXT NOT NULL,
+        PRIMARY KEY (contract_id, token_id, holder_id),
+        FOREIGN KEY (contract_id) REFERENCES contracts (contract_id) ON UPDATE CASCADE ON DELETE CASCADE,
+        FOREIGN KEY (holder_id) REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE
+      )`,
+    ],
+    populate: populateBalances,
+  },
+  {
+    version: 3,
+    name: 'transaction block hashes',
+    statements: [
+      `ALTER TABLE transactions ADD COLUMN block_hash VARCHAR(66)`,
+      `CREATE INDEX idx_transactions_block_number ON transactions (block_number)`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'synthetic transaction indexes',
+    statements: [
+      `ALTER TABLE transactions ADD COLUMN is_synthetic_index BOOLEAN NOT NULL DEFAULT TRUE`,
+    ],
+  },
+  {
+    version: 5,
+    name: 'transaction initiators',
+    statements: [
+      `ALTER TABLE transactions ADD COLUMN initiator_id INTEGER REFERENCES addresses (address_id) ON UPDATE CASCADE ON DELETE CASCADE`,
+    ],
+  },
+];
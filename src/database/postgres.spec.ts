@@ -0,0 +1,25 @@
+import { DataType, newDb } from 'pg-mem';
+
+import PostgresDatabase from './postgres';
+import { describeSqlDatabase } from './__utils__/database-suite';
+
+// Set POSTGRES_TEST_URL to run the tests against a real server, e.g. a local Docker container
+const POSTGRES_TEST_URL = process.env.POSTGRES_TEST_URL;
+
+describeSqlDatabase('postgres database', () => {
+  if (POSTGRES_TEST_URL) {
+    return new PostgresDatabase(POSTGRES_TEST_URL, `test_${Date.now()}`);
+  }
+
+  const db = newDb();
+  // pg-mem implements few native functions
+  db.public.registerFunction({
+    name: 'length',
+    args: [DataType.text],
+    returns: DataType.integer,
+    implementation: (value: string) => value.length,
+  });
+
+  const { Client } = db.adapters.createPg();
+  return new PostgresDatabase(new Client());
+});
@@ -0,0 +1,715 @@
+import { Client, ClientConfig } from 'pg';
+import {
+  AnalysisRecord,
+  DetailedErc1155ApprovalForAllEvent,
+  DetailedErc1155TransferBatchEvent,
+  DetailedErc1155TransferSingleEvent,
+  DetailedErc20ApprovalEvent,
+  DetailedErc20TransferEvent,
+  DetailedErc721ApprovalEvent,
+  DetailedErc721ApprovalForAllEvent,
+  DetailedErc721TransferEvent,
+  SimplifiedTransaction,
+  TokenContract,
+  TokenEvent,
+  TokenStandard,
+} from '../types';
+import Logger from '../utils/logger';
+import { EventWithTransactionHash, EventWithTransactionId, TokenInsertEvent } from './database';
+import { POSTGRES_MIGRATIONS, PostgresMigration } from './postgres-migrations';
+import { ISqlDatabase, StoredBlock } from './types';
+import { BalanceTables, BalanceTransfer, HolderBalance, TokenIdBalance } from './balances';
+import { createBinder, wrapNull } from './utils';
+import {
+  buildEventCount,
+  buildEventSelect,
+  EVENT_PAGE_SIZE,
+  EVENT_TABLE_BY_KIND,
+  EventByKind,
+  EventCursor,
+  EventKind,
+  EventPage,
+  EventQuery,
+  iterateEventPages,
+  parseEventRows,
+  toEventPage,
+} from './events';
+
+const EVENT_TABLES = Object.values(EVENT_TABLE_BY_KIND).map((t) => t.table);
+
+const ADDRESS_COLUMNS_BY_TABLE: { [table: string]: string[] } = {
+  transactions: ['from_id', 'to_id', 'initiator_id'],
+  contracts: ['address_id', 'deployer_id'],
+  erc_20_transfer_events: ['from_id', 'to_id'],
+  erc_20_approval_events: ['owner_id', 'spender_id'],
+  erc_721_transfer_events: ['from_id', 'to_id'],
+  erc_721_approval_events: ['owner_id', 'approved_id'],
+  erc_721_approval_for_all_events: ['owner_id', 'operator_id'],
+  erc_1155_transfer_single_events: ['operator_id', 'from_id', 'to_id'],
+  erc_1155_transfer_batch_events: ['operator_id', 'from_id', 'to_id'],
+  analyses: ['address_id'],
+  balances: ['holder_id'],
+  erc_721_owners: ['owner_id'],
+  erc_1155_balances: ['holder_id'],
+};
+
+// Transactions without events, except for the ones sent to the watched tokens
+const DELETE_ORPHAN_TRANSACTIONS = `DELETE FROM transactions
+  WHERE transaction_id NOT IN (
+    ${EVENT_TABLES.map((table) => `SELECT transaction_id FROM ${table}`).join(' UNION ')}
+  )
+  AND to_id NOT IN (SELECT address_id FROM contracts)`;
+
+const DELETE_ORPHAN_ADDRESSES = `DELETE FROM addresses
+  WHERE address_id NOT IN (
+    ${Object.entries(ADDRESS_COLUMNS_BY_TABLE)
+      .flatMap(([table, columns]) =>
+        columns.map((c) => `SELECT ${c} FROM ${table} WHERE ${c} IS NOT NULL`),
+      )
+      .join(' UNION ')}
+  )`;
+
+// Analyses of the tokens that are no longer watched, which have been produced before the timestamp
+const DELETE_OLD_ORPHAN_ANALYSES = `DELETE FROM analyses
+  WHERE address_id NOT IN (SELECT address_id FROM contracts) AND timestamp < $1`;
+
+// Watched tokens that have been deployed or have received transactions or events since the block
+const SELECT_CONTRACTS_CHANGED_SINCE = `SELECT a.address
+  FROM contracts c
+  JOIN addresses a ON c.address_id = a.address_id
+  WHERE c.block_number >= $1
+  OR c.contract_id IN (
+    SELECT t.to_id FROM transactions t WHERE t.block_number >= $1
+    ${EVENT_TABLES.map(
+      (table) => `UNION
+      SELECT e.contract_id
+      FROM ${table} e
+      JOIN transactions t ON e.transaction_id = t.transaction_id
+      WHERE t.block_number >= $1`,
+    ).join('\n')}
+  )
+  ORDER BY a.address`;
+
+type AnalysisRow = {
+  token: string;
+  block_number: number;
+  timestamp: number;
+  analysis: string;
+  is_spam: boolean;
+  is_phishing: boolean;
+  is_finalized: boolean;
+  confidence: number;
+};
+
+const ANALYSIS_SELECT = `SELECT a.address AS token, an.block_number, an.timestamp, an.analysis,
+    an.is_spam, an.is_phishing, an.is_finalized, an.confidence
+  FROM analyses an
+  JOIN addresses a ON an.address_id = a.address_id`;
+
+const parseAnalysisRow = (row: AnalysisRow): AnalysisRecord => ({
+  token: row.token,
+  blockNumber: row.block_number,
+  timestamp: row.timestamp,
+  analysis: JSON.parse(row.analysis),
+  interpretation: {
+    isSpam: !!row.is_spam,
+    isPhishing: !!row.is_phishing,
+    isFinalized: !!row.is_finalized,
+    confidence: row.confidence,
+  },
+});
+
+// Stores the data in PostgreSQL, so that it can be shared with other services, e.g. a multi-chain indexer.
+// Tables are created in a separate schema, therefore several bots (one per chain) can use the same database.
+// All queries are sent through one connection, which executes them in order, like the serialized SQLite database.
+class PostgresDatabase implements ISqlDatabase {
+  public client: Client;
+
+  private lastQuery: Promise<unknown> = Promise.resolve();
+
+  private balances = new BalanceTables(
+    (query, params) => this.query(query, params),
+    '$',
+    (kind, query) => this.iterateEvents(kind, query),
+  );
+
+  constructor(
+    client: Client | ClientConfig | string,
+    private schema = 'public',
+    private migrations: PostgresMigration[] = POSTGRES_MIGRATIONS,
+  ) {
+    // A client can be passed to use a custom driver, e.g. pg-mem in tests
+    this.client = typeof client === 'object' && 'query' in client ? client : new Client(client);
+    this.client.on('error', (err) => Logger.error(err, 'PostgreSQL connection error'));
+  }
+
+  async initialize(): Promise<void> {
+    await this.client.connect();
+    Logger.info('Connected to the PostgreSQL database.');
+
+    await this.query(`CREATE SCHEMA IF NOT EXISTS "${this.schema}"`);
+    await this.query(`SET search_path TO "${this.schema}"`);
+    await this.migrate();
+  }
+
+  private async migrate() {
+    await this.query(`CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at BIGINT NOT NULL
+    )`);
+
+    const [{ version }] = await this.query<{ version: number }>(
+      `SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations`,
+    );
+
+    const pendingMigrations = this.migrations
+      .filter((m) => m.version > version)
+      .sort((m1, m2) => m1.version - m2.version);
+
+    if (pendingMigrations.length === 0) return;
+
+    await this.query('BEGIN');
+    try {
+      for (const migration of pendingMigrations) {
+        Logger.info(`Applying PostgreSQL migration ${migration.version}: ${migration.name}`);
+
+        for (const statement of migration.statements) {
+          await this.query(statement);
+        }
+        await this.query(
+          `INSERT INTO schema_migrations(version, name, applied_at) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, Date.now()],
+        );
+      }
+      for (const migration of pendingMigrations) {
+        await migration.populate?.(this);
+      }
+      await this.query('COMMIT');
+    } catch (e) {
+      await this.query('ROLLBACK');
+      throw e;
+    }
+  }
+
+  async getAddresses(): Promise<{ address: string }[]> {
+    return this.query<{ address: string }>(`SELECT address FROM addresses`);
+  }
+
+  async getTokens(): Promise<TokenContract[]> {
+    return this.query<TokenContract>(
+      `SELECT a.address AS address, d.address AS deployer, c.block_number AS "blockNumber", c.timestamp, c.type
+      FROM contracts c
+      JOIN addresses a ON c.address_id = a.address_id
+      JOIN addresses d ON c.deployer_id = d.address_id`,
+    );
+  }
+
+  async getTransactions(params: { to: string | null }): Promise<SimplifiedTransaction[]> {
+    const rows = await this.query<{
+      hash: string;
+      sighash: string;
+      from: string;
+      block_number: number;
+      timestamp: number;
+      tx_index: number;
+      initiator: string | null;
+    }>(
+      `SELECT t.hash, t.tx_index, t.sighash, t.timestamp, t.block_number, from_a.address AS "from",
+        initiator_a.address AS "initiator"
+      FROM (
+        SELECT *
+        FROM transactions t
+        WHERE t.to_id = (SELECT address_id FROM addresses a WHERE a.address = $1)
+      ) t
+      JOIN addresses from_a ON t.from_id = from_a.address_id
+      LEFT JOIN addresses initiator_a ON t.initiator_id = initiator_a.address_id
+      ORDER BY t.block_number, t.tx_index`,
+      [wrapNull(params.to)],
+    );
+
+    return rows.map((v) => ({
+      hash: v.hash,
+      sighash: v.sighash,
+      to: params.to,
+      from: v.from,
+      blockNumber: v.block_number,
+      timestamp: v.timestamp,
+      index: v.tx_index,
+      ...(v.initiator ? { initiator: v.initiator } : {}),
+    }));
+  }
+
+  // Hashes of the latest blocks with stored transactions, newest first
+  async getBlockHashes(params: { limit: number }): Promise<StoredBlock[]> {
+    return await this.query<StoredBlock>(
+      `SELECT DISTINCT block_number AS "number", block_hash AS "hash"
+      FROM transactions
+      WHERE block_hash IS NOT NULL
+      ORDER BY block_number DESC
+      LIMIT $1`,
+      [params.limit],
+    );
+  }
+
+  // Hashes of the transactions whose indexes have been counted by the older versions of the bot
+  async getTransactionsWithSyntheticIndex(params: { limit: number }): Promise<string[]> {
+    return (
+      await this.query<{ hash: string }>(
+        `SELECT hash FROM transactions WHERE is_synthetic_index LIMIT $1`,
+        [params.limit],
+      )
+    ).map((r) => r.hash);
+  }
+
+  // The synthetic index is kept if the real one is unknown, so that the transaction isn't queried again
+  async setTransactionIndex(params: { hash: string; index: number | null }) {
+    await this.query(
+      `UPDATE transactions
+      SET tx_index = COALESCE($2, tx_index), is_synthetic_index = FALSE
+      WHERE hash = $1`,
+      [params.hash, params.index],
+    );
+  }
+
+  // Returns the verdict timeline of the token, from the oldest analysis to the latest one
+  async getAnalyses(params: { token: string }): Promise<AnalysisRecord[]> {
+    const rows = await this.query<AnalysisRow>(
+      `${ANALYSIS_SELECT}
+      WHERE a.address = $1
+      ORDER BY an.analysis_id`,
+      [params.token],
+    );
+
+    return rows.map(parseAnalysisRow);
+  }
+
+  async getLastAnalysis(params: { token: string }): Promise<AnalysisRecord | null> {
+    const [row] = await this.query<AnalysisRow>(
+      `${ANALYSIS_SELECT}
+      WHERE a.address = $1
+      ORDER BY an.analysis_id DESC
+      LIMIT 1`,
+      [params.token],
+    );
+
+    return row ? parseAnalysisRow(row) : null;
+  }
+
+  async getEventsPage<K extends EventKind>(
+    kind: K,
+    query: EventQuery,
+    cursor: EventCursor | null = null,
+    limit: number = EVENT_PAGE_SIZE,
+  ): Promise<EventPage<EventByKind[K]>> {
+    return toEventPage(await this.getEvents(kind, query, cursor, limit), limit);
+  }
+
+  iterateEvents<K extends EventKind>(
+    kind: K,
+    query: EventQuery,
+    pageSize: number = EVENT_PAGE_SIZE,
+  ): AsyncGenerator<EventByKind[K]> {
+    return iterateEventPages((cursor) => this.getEventsPage(kind, query, cursor, pageSize));
+  }
+
+  async countEvents(kind: EventKind, query: EventQuery): Promise<number> {
+    const { params, bind } = createBinder('$');
+    const [row] = await this.query<{ count: string | number }>(
+      buildEventCount(kind, query, bind),
+      params,
+    );
+
+    // COUNT returns BIGINT, which is parsed as a string
+    return Number(row.count);
+  }
+
+  private async getEvents<K extends EventKind>(
+    kind: K,
+    query: EventQuery,
+    cursor: EventCursor | null = null,
+    limit?: number,
+  ): Promise<EventByKind[K][]> {
+    const { params, bind } = createBinder('$');
+    const rows = await this.query<any>(buildEventSelect(kind, query, bind, cursor, limit), params);
+
+    return parseEventRows(kind, query.contract, rows);
+  }
+
+  async getBalances(params: { contract: string }): Promise<HolderBalance[]> {
+    return this.balances.getBalances(params.contract);
+  }
+
+  async getHolderCount(params: { contract: string }): Promise<number> {
+    return this.balances.getHolderCount(params.contract);
+  }
+
+  async getTopHolders(params: { contract: string; limit: number }): Promise<HolderBalance[]> {
+    return this.balances.getTopHolders(params.contract, params.limit);
+  }
+
+  async getNegativeBalances(params: { contract: string }): Promise<HolderBalance[]> {
+    return this.balances.getNegativeBalances(params.contract);
+  }
+
+  async getTokenIdBalances(params: { contract: string }): Promise<TokenIdBalance[]> {
+    return this.balances.getTokenIdBalances(params.contract);
+  }
+
+  async applyTransfers(contract: string, type: TokenStandard, transfers: BalanceTransfer[]) {
+    this.addAddress(transfers.flatMap((t) => [t.from, t.to]));
+    await this.balances.applyTransfers(contract, type, transfers);
+  }
+
+  async rebuildBalances(token: TokenContract) {
+    await this.balances.rebuild(token);
+  }
+
+  async getErc20ApprovalEvents(params: {
+    contract: string;
+  }): Promise<DetailedErc20ApprovalEvent[]> {
+    return this.getEvents(EventKind.Erc20Approval, params);
+  }
+
+  async getErc20TransferEvents(params: {
+    contract: string;
+  }): Promise<DetailedErc20TransferEvent[]> {
+    return this.getEvents(EventKind.Erc20Transfer, params);
+  }
+
+  async getErc721ApprovalEvents(params: {
+    contract: string;
+  }): Promise<DetailedErc721ApprovalEvent[]> {
+    return this.getEvents(EventKind.Erc721Approval, params);
+  }
+
+  async getErc721TransferEvents(params: {
+    contract: string;
+  }): Promise<DetailedErc721TransferEvent[]> {
+    return this.getEvents(EventKind.Erc721Transfer, params);
+  }
+
+  async getErc721ApprovalForAllEvents(params: {
+    contract: string;
+  }): Promise<DetailedErc721ApprovalForAllEvent[]> {
+    return this.getEvents(EventKind.Erc721ApprovalForAll, params);
+  }
+
+  async getErc1155ApprovalForAllEvents(params: {
+    contract: string;
+  }): Promise<DetailedErc1155ApprovalForAllEvent[]> {
+    return this.getEvents(EventKind.Erc1155ApprovalForAll, params);
+  }
+
+  async getErc1155TransferSingleEvents(params: {
+    contract: string;
+  }): Promise<DetailedErc1155TransferSingleEvent[]> {
+    return this.getEvents(EventKind.Erc1155TransferSingle, params);
+  }
+
+  async getErc1155TransferBatchEvents(params: {
+    contract: string;
+  }): Promise<DetailedErc1155TransferBatchEvent[]> {
+    return this.getEvents(EventKind.Erc1155TransferBatch, params);
+  }
+
+  addAddress(address: string | null | (string | null)[]) {
+    const addresses = [...new Set((Array.isArray(address) ? address : [address]).map(wrapNull))];
+    const { params, bind } = createBinder('$');
+
+    this.enqueue(
+      `INSERT INTO addresses(address)
+      VALUES ${addresses.map((a) => `(${bind(a)})`).join(', ')}
+      ON CONFLICT (address) DO NOTHING`,
+      params,
+    );
+  }
+
+  addToken(token: TokenContract) {
+    this.addAddress([token.address, token.deployer]);
+    // `contract_id` has the same value as `address_id`
+    this.enqueue(
+      `INSERT INTO contracts(contract_id, address_id, deployer_id, block_number, timestamp, type)
+      VALUES (
+        (SELECT address_id FROM addresses WHERE address = $1),
+        (SELECT address_id FROM addresses WHERE address = $1),
+        (SELECT address_id FROM addresses WHERE address = $2),
+        $3,
+        $4,
+        $5
+      )`,
+      [token.address, token.deployer, token.blockNumber, token.timestamp, token.type],
+    );
+  }
+
+  async addTransaction(
+    tx: SimplifiedTransaction,
+    blockHash: string | null = null,
+    isSyntheticIndex = false,
+  ): Promise<number> {
+    this.addAddress([tx.from, tx.to, ...(tx.initiator ? [tx.initiator] : [])]);
+
+    const [row] = await this.query<{ transaction_id: number }>(
+      `INSERT INTO transactions(hash, sighash, from_id, to_id, initiator_id, block_number, block_hash, tx_index, is_synthetic_index, timestamp)
+      VALUES (
+        $1,
+        $2,
+        (SELECT address_id FROM addresses WHERE address = $3),
+        (SELECT address_id FROM addresses WHERE address = $4),
+        (SELECT address_id FROM addresses WHERE address = $9),
+        $5,
+        $6,
+        $7,
+        $10,
+        $8
+      )
+      ON CONFLICT (hash) DO NOTHING
+      RETURNING transaction_id`,
+      [
+        tx.hash,
+        tx.sighash,
+        tx.from,
+        wrapNull(tx.to),
+        tx.blockNumber,
+        blockHash,
+        tx.index,
+        tx.timestamp,
+        tx.initiator || null,
+        isSyntheticIndex,
+      ],
+    );
+
+    if (row) return row.transaction_id;
+
+    // The transaction has already been added
+    const [existingRow] = await this.query<{ transaction_id: number }>(
+      `SELECT transaction_id FROM transactions WHERE hash = $1`,
+      [tx.hash],
+    );
+
+    return existingRow.transaction_id;
+  }
+
+  private async addEvent(
+    table: string,
+    event: TokenInsertEvent<TokenEvent>,
+    addressColumns: { [column: string]: string },
+    valueColumns: { [column: string]: unknown },
+  ) {
+    this.addAddress(Object.values(addressColumns));
+
+    const { params, bind } = createBinder('$');
+    const columns = ['transaction_id', 'log_index', 'contract_id'];
+    const values = [
+      (event as EventWithTransactionId).transactionId != null
+        ? bind((event as EventWithTransactionId).transactionId)
+        : `(SELECT transaction_id FROM transactions WHERE hash = ${bind(
+            (event as EventWithTransactionHash).transactionHash,
+          )})`,
+      bind(event.logIndex),
+      `(SELECT address_id FROM addresses WHERE address = ${bind(event.contract)})`,
+    ];
+
+    for (const [column, address] of Object.entries(addressColumns)) {
+      columns.push(column);
+      values.push(`(SELECT address_id FROM addresses WHERE address = ${bind(address)})`);
+    }
+
+    for (const [column, value] of Object.entries(valueColumns)) {
+      columns.push(column);
+      values.push(bind(value));
+    }
+
+    await this.query(
+      `INSERT INTO ${table}(${columns.join(', ')}) VALUES (${values.join(', ')})`,
+      params,
+    );
+  }
+
+  addErc20ApprovalEvent(event: TokenInsertEvent<DetailedErc20ApprovalEvent>) {
+    return this.addEvent(
+      'erc_20_approval_events',
+      event,
+      { owner_id: event.owner, spender_id: event.spender },
+      { value: event.value.toString() },
+    );
+  }
+
+  addErc20TransferEvent(event: TokenInsertEvent<DetailedErc20TransferEvent>) {
+    return this.addEvent(
+      'erc_20_transfer_events',
+      event,
+      { from_id: event.from, to_id: event.to },
+      { value: event.value.toString() },
+    );
+  }
+
+  addErc721ApprovalEvent(event: TokenInsertEvent<DetailedErc721ApprovalEvent>) {
+    return this.addEvent(
+      'erc_721_approval_events',
+      event,
+      { owner_id: event.owner, approved_id: event.approved },
+      { token_id: event.tokenId.toString() },
+    );
+  }
+
+  addErc721TransferEvent(event: TokenInsertEvent<DetailedErc721TransferEvent>) {
+    return this.addEvent(
+      'erc_721_transfer_events',
+      event,
+      { from_id: event.from, to_id: event.to },
+      { token_id: event.tokenId.toString() },
+    );
+  }
+
+  addErc721ApprovalForAllEvent(event: TokenInsertEvent<DetailedErc721ApprovalForAllEvent>) {
+    return this.addEvent(
+      'erc_721_approval_for_all_events',
+      event,
+      { owner_id: event.owner, operator_id: event.operator },
+      { approved: event.approved },
+    );
+  }
+
+  addErc1155ApprovalForAllEvent(event: TokenInsertEvent<DetailedErc1155ApprovalForAllEvent>) {
+    return this.addEvent(
+      'erc_1155_approval_for_all_events',
+      event,
+      { owner_id: event.owner, operator_id: event.operator },
+      { approved: event.approved },
+    );
+  }
+
+  addErc1155TransferSingleEvent(event: TokenInsertEvent<DetailedErc1155TransferSingleEvent>) {
+    return this.addEvent(
+      'erc_1155_transfer_single_events',
+      event,
+      { operator_id: event.operator, from_id: event.from, to_id: event.to },
+      { token_id: event.tokenId.toString(), value: event.value.toString() },
+    );
+  }
+
+  addErc1155TransferBatchEvent(event: TokenInsertEvent<DetailedErc1155TransferBatchEvent>) {
+    return this.addEvent(
+      'erc_1155_transfer_batch_events',
+      event,
+      { operator_id: event.operator, from_id: event.from, to_id: event.to },
+      { token_ids: event.ids.join(','), token_values: event.values.join(',') },
+    );
+  }
+
+  async addAnalysis(record: AnalysisRecord) {
+    this.addAddress(record.token);
+    await this.query(
+      `INSERT INTO analyses(address_id, block_number, timestamp, analysis, is_spam, is_phishing, is_finalized, confidence)
+      VALUES ((SELECT address_id FROM addresses WHERE address = $1), $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        record.token,
+        record.blockNumber,
+        record.timestamp,
+        JSON.stringify(record.analysis),
+        record.interpretation.isSpam,
+        record.interpretation.isPhishing,
+        record.interpretation.isFinalized,
+        record.interpretation.confidence,
+      ],
+    );
+  }
+
+  clearToken(address: string) {
+    // remove contract and related events
+    this.enqueue(
+      `DELETE FROM contracts WHERE address_id = (SELECT address_id FROM addresses WHERE address = $1)`,
+      [address],
+    );
+
+    // clear transactions
+    this.enqueue(DELETE_ORPHAN_TRANSACTIONS);
+
+    // clear addresses
+    this.enqueue(DELETE_ORPHAN_ADDRESSES);
+  }
+
+  // Removes the transactions of the blocks starting from the given one along with their events,
+  // and the tokens deployed in these blocks, since they don't exist on the new branch.
+  // Returns the watched tokens whose data has been removed, the balances of the remaining ones have to be rebuilt.
+  async rollbackBlocks(params: { fromBlock: number }): Promise<string[]> {
+    const rows = await this.query<{ address: string }>(SELECT_CONTRACTS_CHANGED_SINCE, [
+      params.fromBlock,
+    ]);
+
+    await this.query(
+      `DELETE FROM analyses WHERE address_id IN (SELECT address_id FROM contracts WHERE block_number >= $1)`,
+      [params.fromBlock],
+    );
+    await this.query(`DELETE FROM contracts WHERE block_number >= $1`, [params.fromBlock]);
+    await this.query(`DELETE FROM transactions WHERE block_number >= $1`, [params.fromBlock]);
+
+    return rows.map((r) => r.address);
+  }
+
+  // Removes the data that isn't related to any watched token anymore.
+  // Events and balances are removed along with their contracts, so only transactions and addresses are left behind.
+  // Analyses of the tokens that are no longer watched are kept as their verdict timeline until they are too old.
+  async prune(params: { analysesBefore: number }) {
+    await this.query(DELETE_ORPHAN_TRANSACTIONS);
+    await this.query(DELETE_OLD_ORPHAN_ANALYSES, [params.analysesBefore]);
+    await this.query(DELETE_ORPHAN_ADDRESSES);
+  }
+
+  // Size of the tables of the schema, including their indexes
+  async getSize(): Promise<number> {
+    const [row] = await this.query<{ size: string | number }>(
+      `SELECT COALESCE(SUM(pg_total_relation_size(c.oid)), 0) AS "size"
+      FROM pg_class c
+      JOIN pg_namespace n ON c.relnamespace = n.oid
+      WHERE n.nspname = $1 AND c.relkind = 'r'`,
+      [this.schema],
+    );
+
+    // SUM returns NUMERIC, which is parsed as a string
+    return Number(row.size);
+  }
+
+  // Marks the space of the deleted rows as reusable. PostgreSQL rarely returns it to the file system,
+  // so the number of reclaimed bytes is usually zero unless the tables are truncated at the end.
+  async vacuum(): Promise<number> {
+    const sizeBefore = await this.getSize();
+    await this.query(`VACUUM ${Object.keys(ADDRESS_COLUMNS_BY_TABLE).join(', ')}`);
+
+    return Math.max(0, sizeBefore - (await this.getSize()));
+  }
+
+  async close() {
+    await this.wait();
+    await this.client.end();
+    return true;
+  }
+
+  async wait() {
+    // The connection executes queries in order, so the last one is completed after all the previous ones
+    return this.lastQuery;
+  }
+
+  public async run(query: string, ...params: any[]): Promise<void> {
+    await this.query(query, params);
+  }
+
+  public async exec(query: string): Promise<void> {
+    await this.query(query);
+  }
+
+  // Sends the query without waiting for the result, errors are logged
+  private enqueue(query: string, params: unknown[] = []) {
+    this.query(query, params).catch((e) => Logger.error(e, 'PostgreSQL query failed'));
+  }
+
+  private async query<R>(query: string, params: unknown[] = []): Promise<R[]> {
+    const promise = this.client.query(query, params);
+    this.lastQuery = promise.catch(() => undefined);
+
+    return (await promise).rows;
+  }
+}
+
+export default PostgresDatabase;
@@ -1,4 +1,5 @@
 import {
+  AnalysisRecord,
   DetailedErc1155ApprovalForAllEvent,
   DetailedErc1155TransferBatchEvent,
   DetailedErc1155TransferSingleEvent,
@@ -9,8 +10,13 @@ import {
   DetailedErc721TransferEvent,
   SimplifiedTransaction,
   TokenContract,
+  TokenStandard,
 } from '../types';
 import { TokenInsertEvent } from './database';
+import { EventByKind, EventCursor, EventKind, EventPage, EventQuery } from './events';
+import { BalanceTransfer, HolderBalance, TokenIdBalance } from './balances';
+
+export type StoredBlock = { number: number; hash: string };
 
 export interface ISqlDatabase {
   initialize(): Promise<void>;
@@ -32,8 +38,43 @@ export interface ISqlDatabase {
   getErc1155TransferBatchEvents(params: {
     contract: string;
   }): Promise<DetailedErc1155TransferBatchEvent[]>;
+  // Variants of the queries above that don't load all the events of the contract into memory
+  getEventsPage<K extends EventKind>(
+    kind: K,
+    query: EventQuery,
+    cursor?: EventCursor | null,
+    limit?: number,
+  ): Promise<EventPage<EventByKind[K]>>;
+  iterateEvents<K extends EventKind>(
+    kind: K,
+    query: EventQuery,
+    pageSize?: number,
+  ): AsyncGenerator<EventByKind[K]>;
+  countEvents(kind: EventKind, query: EventQuery): Promise<number>;
+  // Current balances of the tokens, which are updated with every transfer
+  getBalances(params: { contract: string }): Promise<HolderBalance[]>;
+  getHolderCount(params: { contract: string }): Promise<number>;
+  getTopHolders(params: { contract: string; limit: number }): Promise<HolderBalance[]>;
+  getNegativeBalances(params: { contract: string }): Promise<HolderBalance[]>;
+  getTokenIdBalances(params: { contract: string }): Promise<TokenIdBalance[]>;
+  applyTransfers(
+    contract: string,
+    type: TokenStandard,
+    transfers: BalanceTransfer[],
+  ): Promise<void>;
+  rebuildBalances(token: TokenContract): Promise<void>;
+  getBlockHashes(params: { limit: number }): Promise<StoredBlock[]>;
+  getTransactionsWithSyntheticIndex(params: { limit: number }): Promise<string[]>;
+  setTransactionIndex(params: { hash: string; index: number | null }): Promise<void>;
+  getAnalyses(params: { token: string }): Promise<AnalysisRecord[]>;
+  getLastAnalysis(params: { token: string }): Promise<AnalysisRecord | null>;
   addToken(token: TokenContract): void;
-  addTransaction(tx: SimplifiedTransaction): Promise<number>;
+  // Synthetic indexes are replaced with the real ones by the backfill
+  addTransaction(
+    tx: SimplifiedTransaction,
+    blockHash?: string | null,
+    isSyntheticIndex?: boolean,
+  ): Promise<number>;
   addErc20ApprovalEvent(event: TokenInsertEvent<DetailedErc20ApprovalEvent>): Promise<void>;
   addErc20TransferEvent(event: TokenInsertEvent<DetailedErc20TransferEvent>): Promise<void>;
   addErc721ApprovalEvent(event: TokenInsertEvent<DetailedErc721ApprovalEvent>): Promise<void>;
@@ -50,8 +91,15 @@ export interface ISqlDatabase {
   addErc1155TransferBatchEvent(
     event: TokenInsertEvent<DetailedErc1155TransferBatchEvent>,
   ): Promise<void>;
+  addAnalysis(record: AnalysisRecord): Promise<void>;
   clearToken(address: string): void;
-  close(cb: ((err: Error | null) => void) | undefined): Promise<unknown>;
+  // Removes the data of the blocks from an abandoned branch of the chain
+  rollbackBlocks(params: { fromBlock: number }): Promise<string[]>;
+  // Retention of the stored data, see `DataRetention`
+  prune(params: { analysesBefore: number }): Promise<void>;
+  getSize(): Promise<number>;
+  vacuum(): Promise<number>;
+  close(cb?: (err: Error | null) => void): Promise<unknown>;
   wait(): Promise<unknown>;
   run(query: string, ...params: any[]): Promise<unknown>;
   exec(query: string, ...params: any[]): Promise<unknown>;
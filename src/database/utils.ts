@@ -0,0 +1,16 @@
+// In order to make the database more performance, it was decided to avoid using NULL as the address value (tx.to).
+// Using non-null values allows us to use the `=` operator, instead of `IS` which is slower.
+export const wrapNull = (v: any) => (v == null ? 'NULL' : v);
+export const unwrapNull = (v: any) => (v === 'NULL' ? null : v);
+
+// Collects positional parameters of a query, e.g. `WHERE address = ${bind(address)}`.
+// Placeholders are numbered (`?1` in SQLite, `$1` in PostgreSQL), so that they can be used more than once.
+export const createBinder = (prefix: '?' | '$') => {
+  const params: unknown[] = [];
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `${prefix}${params.length}`;
+  };
+
+  return { params, bind };
+};
@@ -0,0 +1,160 @@
+import { SpamDetector } from './detector';
+import DataStorage from './storage';
+import SqlDatabase from './database/database';
+import Memoizer from './utils/cache';
+import TokenAnalyzer from './analyzer/analyzer';
+import { AnalyzerTask } from './analyzer/types';
+import { TokenContract, TokenStandard } from './types';
+
+describe('SpamDetector', () => {
+  const tickInterval = 60 * 60;
+
+  const token: TokenContract = {
+    type: TokenStandard.Erc20,
+    address: '0x0000000000000000000000000000000000000001',
+    deployer: '0x0000000000000000000000000000000000000002',
+    blockNumber: 10,
+    timestamp: 1000,
+  };
+
+  let storage: DataStorage;
+  let runTask: jest.Mock;
+
+  const createDetector = async (memoizer = new Memoizer()) => {
+    const analyzer = {
+      createTask: (token: TokenContract, timestamp: number, blockNumber: number) => {
+        const task = { token, timestamp, blockNumber } as AnalyzerTask;
+        task.run = async () => {
+          task.calledAt = Math.floor(Date.now() / 1000);
+          await runTask(task);
+          task.finishedAt = Math.floor(Date.now() / 1000);
+          return { analysis: {}, interpret: () => ({ isFinalized: false }) } as any;
+        };
+        return task;
+      },
+    } as unknown as TokenAnalyzer;
+
+    const detector = new SpamDetector({} as any, analyzer, storage, memoizer, tickInterval);
+    await detector.initialize();
+
+    return detector;
+  };
+
+  beforeEach(async () => {
+    storage = new DataStorage(new SqlDatabase());
+    runTask = jest.fn();
+  });
+
+  afterEach(async () => {
+    await storage.db.close();
+  });
+
+  it('should not re-analyze tokens restored from the checkpoint', async () => {
+    const memoizer = new Memoizer();
+    const detector = await createDetector(memoizer);
+
+    detector.addTokenToWatchList(token.type, token);
+    detector.tick(2000, 20);
+    await detector.wait();
+    detector.releaseAnalyses();
+    memoizer.getScope(token.address).set('symbol', 'TKN');
+
+    const checkpoint = JSON.parse(JSON.stringify(detector.createCheckpoint()));
+
+    expect(checkpoint.tasks).toMatchObject([{ token: token.address, timestamp: 2000 }]);
+
+    // Simulate restart
+    const restoredMemoizer = new Memoizer();
+    const restoredDetector = await createDetector(restoredMemoizer);
+    restoredDetector.restoreCheckpoint(checkpoint);
+    restoredDetector.tick(3000, 30);
+    await restoredDetector.wait();
+
+    expect(runTask).toHaveBeenCalledTimes(1);
+    expect(restoredMemoizer.getScope(token.address).get('symbol')).toStrictEqual('TKN');
+  });
+
+  it('should not save unreleased analyses to the checkpoint', async () => {
+    const detector = await createDetector();
+
+    detector.addTokenToWatchList(token.type, token);
+    detector.tick(2000, 20);
+    await detector.wait();
+
+    expect(detector.createCheckpoint().tasks).toStrictEqual([]);
+  });
+
+  it('should stop scheduling tasks and drop the queued ones after the timeout', async () => {
+    const detector = await createDetector();
+    const otherToken = { ...token, address: '0x0000000000000000000000000000000000000003' };
+
+    runTask.mockImplementation(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+    detector.addTokenToWatchList(token.type, token);
+    detector.addTokenToWatchList(otherToken.type, otherToken);
+    detector.tick(2000, 20);
+    await detector.stop(10);
+    detector.tick(3000, 30);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(runTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for the running task to finish when it stops', async () => {
+    const detector = await createDetector();
+    let isFinished = false;
+
+    runTask.mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      isFinished = true;
+    });
+
+    detector.addTokenToWatchList(token.type, token);
+    detector.tick(2000, 20);
+    await detector.stop(10);
+
+    expect(isFinished).toStrictEqual(true);
+  });
+
+  it('should re-analyze the tokens affected by a rollback', async () => {
+    const detector = await createDetector();
+    let finishTask!: () => void;
+
+    // Deployed in the abandoned block
+    const deployedToken = { ...token, address: '0x' + '5'.padStart(40, '0'), blockNumber: 15 };
+
+    detector.addTokenToWatchList(token.type, token);
+    detector.addTokenToWatchList(deployedToken.type, deployedToken);
+    await storage.db.addTransaction({
+      hash: '0x' + '1'.padStart(64, '0'),
+      from: token.deployer,
+      to: token.address,
+      sighash: '0xa9059cbb',
+      blockNumber: 15,
+      timestamp: 1500,
+      index: 0,
+    });
+
+    runTask.mockImplementationOnce(() => new Promise<void>((resolve) => (finishTask = resolve)));
+    detector.tick(2000, 20);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(await detector.rollback(15)).toStrictEqual({
+      tokens: [token],
+      droppedTokens: [{ token: deployedToken, lastAnalysis: null }],
+    });
+    expect(await storage.getTransactions(token.address)).toStrictEqual([]);
+    expect(storage.hasToken(deployedToken.address)).toStrictEqual(false);
+
+    // The result of the task started before the rollback is discarded
+    finishTask();
+    await detector.wait();
+    expect(detector.releaseAnalyses()).toStrictEqual([]);
+
+    detector.tick(3000, 30);
+    await detector.wait();
+
+    expect(runTask).toHaveBeenCalledTimes(2);
+    expect(detector.releaseAnalyses()).toMatchObject([{ token, timestamp: 3000 }]);
+  });
+});
@@ -2,14 +2,29 @@ import fs from 'fs';
 import { ethers } from 'ethers';
 import { queue, QueueObject } from 'async';
 import { TransactionEvent } from 'forta-agent';
+import { createTicker } from 'forta-helpers';
 
-import Memoizer from './utils/cache';
+import Memoizer, { CacheCounters, MemoizerSnapshot } from './utils/cache';
 import DataStorage from './storage';
 import TokenAnalyzer from './analyzer/analyzer';
 import Logger from './utils/logger';
 import { CreatedContract, TokenContract, TokenStandard } from './types';
-import { AnalysisResult, AnalyzerTask } from './analyzer/types';
-import { DB_FILE_PATH } from './contants';
+import { AnalysisResult, AnalyzerTask, ReleasedAnalysis } from './analyzer/types';
+import { CACHE_CLEANUP_INTERVAL, DB_FILE_PATH } from './contants';
+import { delay } from './utils/helpers';
+
+// State that is lost on restart, so that the watched tokens are not re-analyzed all at once after a redeploy
+export type DetectorCheckpoint = {
+  createdAt: number;
+  tasks: {
+    token: string;
+    timestamp: number;
+    blockNumber: number;
+    calledAt: number;
+    finishedAt: number;
+  }[];
+  memoizer: MemoizerSnapshot;
+};
 
 export class SpamDetector {
   private tickInterval: number;
@@ -19,6 +34,8 @@ export class SpamDetector {
   private memoizer: Memoizer;
   private taskByToken: Map<TokenContract, AnalyzerTask>;
   private analysisByToken: Map<TokenContract, AnalysisResult>;
+  private isStopped = false;
+  private isTimeToClearCache = createTicker(CACHE_CLEANUP_INTERVAL, Date.now());
 
   constructor(
     provider: ethers.providers.StaticJsonRpcProvider,
@@ -51,6 +68,10 @@ export class SpamDetector {
   }
 
   tick(timestamp: number, blockNumber: number) {
+    if (this.isStopped) return;
+
+    if (this.isTimeToClearCache(Date.now())) this.memoizer.clearExpired();
+
     for (const token of this.storage.getTokens()) {
       // Should be released before we start analyzing it again
       if (this.analysisByToken.has(token)) continue;
@@ -77,14 +98,83 @@ export class SpamDetector {
     return this.queue.drain();
   }
 
+  // Stops scheduling new tasks and waits for the queued ones to finish.
+  // Tasks that haven't been started within the timeout are dropped.
+  async stop(timeout = Infinity) {
+    this.isStopped = true;
+
+    await Promise.race([this.wait(), ...(isFinite(timeout) ? [delay(timeout)] : [])]);
+
+    if (this.queue.length() > 0) {
+      Logger.warn(`Dropping ${this.queue.length()} queued tasks`);
+      this.queue.remove(() => true);
+    }
+
+    // The running task still reads the database, which is closed right after the detector is stopped
+    await this.wait();
+  }
+
+  // Only the finished tasks whose results have been released are saved,
+  // so that the unreported tokens are analyzed again right after a restart
+  createCheckpoint(): DetectorCheckpoint {
+    const tasks: DetectorCheckpoint['tasks'] = [];
+
+    for (const [token, task] of this.taskByToken) {
+      if (!task.calledAt || !task.finishedAt || this.analysisByToken.has(token)) continue;
+
+      tasks.push({
+        token: token.address,
+        timestamp: task.timestamp,
+        blockNumber: task.blockNumber,
+        calledAt: task.calledAt,
+        finishedAt: task.finishedAt,
+      });
+    }
+
+    return {
+      createdAt: Math.floor(Date.now() / 1000),
+      tasks,
+      memoizer: this.memoizer.export(this.storage.getTokens().map((t) => t.address)),
+    };
+  }
+
+  // Must be called after initialize(), since only the tokens that are still watched are restored
+  restoreCheckpoint(checkpoint: DetectorCheckpoint) {
+    const tokenByAddress = new Map(this.storage.getTokens().map((t) => [t.address, t]));
+
+    for (const {
+      token: address,
+      timestamp,
+      blockNumber,
+      calledAt,
+      finishedAt,
+    } of checkpoint.tasks) {
+      const token = tokenByAddress.get(address);
+      if (!token) continue;
+
+      const task = this.analyzer.createTask(token, timestamp, blockNumber);
+      task.calledAt = calledAt;
+      task.finishedAt = finishedAt;
+      this.taskByToken.set(token, task);
+    }
+
+    for (const [scopeKey, entries] of Object.entries(checkpoint.memoizer)) {
+      if (tokenByAddress.has(scopeKey)) this.memoizer.import({ [scopeKey]: entries });
+    }
+
+    Logger.info(
+      `Restored ${this.taskByToken.size} tasks from the checkpoint created at ${checkpoint.createdAt}`,
+    );
+  }
+
   private async handleTask(task: AnalyzerTask, callback: (err?: any) => void) {
     try {
       const t0 = performance.now();
       const result = await task.run();
       Logger.debug(`Task completed in ${performance.now() - t0}ms`);
 
-      // check if it is still needed
-      if (!this.storage.hasToken(task.token.address)) {
+      // check if it is still needed, the task is replaced if the token data has been rolled back
+      if (!this.storage.hasToken(task.token.address) || this.taskByToken.get(task.token) !== task) {
         return callback();
       }
 
@@ -102,10 +192,12 @@ export class SpamDetector {
   }
 
   public releaseAnalyses() {
-    const analyses: { token: TokenContract; result: AnalysisResult }[] = [];
+    const analyses: ReleasedAnalysis[] = [];
 
     for (const [token, result] of this.analysisByToken) {
-      analyses.push({ token, result });
+      const { timestamp, blockNumber } = this.taskByToken.get(token)!;
+
+      analyses.push({ token, result, timestamp, blockNumber });
       this.analysisByToken.delete(token);
 
       if (result.interpret().isFinalized) {
@@ -116,6 +208,25 @@ export class SpamDetector {
     return analyses;
   }
 
+  // Rolls back the data of the blocks from an abandoned branch of the chain.
+  // The affected tokens are analyzed again on the next tick, so that the verdicts based on the removed data
+  // are updated or removed by the findings of the new analyses. Tokens deployed in the abandoned blocks are dropped.
+  // Returns the tokens that will be analyzed again and the dropped ones with their last analyses.
+  async rollback(blockNumber: number) {
+    const { tokens, droppedTokens } = await this.storage.rollback(blockNumber);
+
+    for (const token of tokens) {
+      const task = this.taskByToken.get(token);
+      if (task) this.queue.remove(({ data }) => data === task);
+
+      this.memoizer.deleteScope(token.address);
+      this.taskByToken.delete(token);
+      this.analysisByToken.delete(token);
+    }
+
+    return { tokens: tokens.filter((t) => this.storage.hasToken(t.address)), droppedTokens };
+  }
+
   deleteToken(token: TokenContract) {
     this.storage.deleteToken(token.address);
     this.memoizer.deleteScope(token.address);
@@ -137,5 +248,20 @@ export class SpamDetector {
         )}Mb`,
       ].join(' | '),
     );
+
+    const cacheStats = this.memoizer.getStats();
+    const formatCounters = ({ hits, misses, evictions }: CacheCounters) =>
+      `${hits}/${misses}/${evictions}`;
+
+    Logger.info(
+      [
+        `Cache: ${cacheStats.entries} entries`,
+        `${Math.round(cacheStats.bytes / 1024 / 1024)}Mb`,
+        `Hits/Misses/Evictions: ${formatCounters(cacheStats.total)}`,
+        ...Object.entries(cacheStats.byQuery).map(
+          ([queryKey, counters]) => `${queryKey}: ${formatCounters(counters)}`,
+        ),
+      ].join(' | '),
+    );
   }
 }
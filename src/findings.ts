@@ -1,8 +1,9 @@
-import { difference } from 'lodash';
+import { difference, isEqual } from 'lodash';
 import { EntityType, Finding, FindingSeverity, FindingType, Label } from 'forta-agent';
 
-import { Token } from './types';
-import { AnalysisContext } from './analyzer/types';
+import { DroppedToken, Token, TokenContract } from './types';
+import { AnalysisContext, ReleasedAnalysis } from './analyzer/types';
+import { ISqlDatabase } from './database/types';
 import ObservationTimeModule from './analyzer/modules/observation-time';
 import TokenImpersonation, {
   TokenImpersonationModuleMetadata,
@@ -11,6 +12,8 @@ import PhishingMetadataModule, {
   PhishingModuleMetadata,
 } from './analyzer/modules/phishing-metadata';
 import { getIndicators } from './utils/helpers';
+import { Explanation } from './analyzer/scoring/types';
+import { compactExplanation } from './analyzer/scoring/explanation';
 
 const BASE_SPAM_ALERT_ID = 'SPAM-TOKEN';
 const NEW_SPAM_ALERT_ID = `${BASE_SPAM_ALERT_ID}-NEW`;
@@ -41,6 +44,9 @@ const formatTriggeredModules = (analysis: AnalysisContext) => {
 
 const formatConfidence = (val: number) => Number(val.toFixed(2));
 
+const getExplanationMetadata = (explanation?: Explanation): { [key: string]: string } =>
+  explanation ? { explanation: JSON.stringify(compactExplanation(explanation)) } : {};
+
 export function getLabels(
   token: Token,
   analysis: AnalysisContext,
@@ -77,7 +83,12 @@ export function getLabels(
   ];
 }
 
-export function createSpamNewFinding(token: Token, analysis: AnalysisContext, confidence: number) {
+export function createSpamNewFinding(
+  token: Token,
+  analysis: AnalysisContext,
+  confidence: number,
+  explanation?: Explanation,
+) {
   const labels = getLabels(token, analysis, false, confidence);
 
   return Finding.from({
@@ -98,6 +109,7 @@ export function createSpamNewFinding(token: Token, analysis: AnalysisContext, co
       tokenStandard: `ERC-${token.type}`,
       tokenDeployer: token.deployer,
       analysis: JSON.stringify(analysis),
+      ...getExplanationMetadata(explanation),
     },
   });
 }
@@ -108,6 +120,7 @@ export function createSpamUpdateFinding(
   prevAnalysis: AnalysisContext,
   currConfidence: number,
   prevConfidence: number,
+  explanation?: Explanation,
 ) {
   const currModules = Object.entries(currAnalysis)
     .filter((e) => e[1].detected)
@@ -143,6 +156,7 @@ export function createSpamUpdateFinding(
       tokenStandard: `ERC-${token.type}`,
       tokenDeployer: token.deployer,
       analysis: JSON.stringify(currAnalysis),
+      ...getExplanationMetadata(explanation),
     },
   });
 }
@@ -223,6 +237,7 @@ export function createPhishingNewFinding(
   token: Token,
   analysis: AnalysisContext,
   confidence: number,
+  explanation?: Explanation,
 ) {
   const metadata = (analysis[PhishingMetadataModule.Key]?.metadata || {}) as PhishingModuleMetadata;
 
@@ -247,6 +262,7 @@ export function createPhishingNewFinding(
       tokenDeployer: token.deployer,
       urls: JSON.stringify(metadata.urls || []),
       analysis: JSON.stringify(metadata),
+      ...getExplanationMetadata(explanation),
     },
   });
 }
@@ -256,6 +272,7 @@ export function createPhishingUpdateFinding(
   analysis: AnalysisContext,
   currConfidence: number,
   prevConfidence: number,
+  explanation?: Explanation,
 ) {
   const metadata = (analysis[PhishingMetadataModule.Key]?.metadata || {}) as PhishingModuleMetadata;
 
@@ -280,6 +297,7 @@ export function createPhishingUpdateFinding(
       tokenDeployer: token.deployer,
       urls: JSON.stringify(metadata.urls || []),
       analysis: JSON.stringify(metadata),
+      ...getExplanationMetadata(explanation),
     },
   });
 }
@@ -310,3 +328,93 @@ export function createPhishingRemoveFinding(token: Token, analysis: AnalysisCont
     },
   });
 }
+
+// Creates findings for the released analyses, taking into account the last persisted results of the tokens.
+// An analysis is persisted only if it differs from the last one, so that the verdicts survive a restart of the bot
+// without a copy of the unchanged context on every release.
+export async function createAnalysisFindings(analyses: ReleasedAnalysis[], db: ISqlDatabase) {
+  const findings: Finding[] = [];
+
+  for (const { token, result: currentResult, timestamp, blockNumber } of analyses) {
+    const previousRecord = await db.getLastAnalysis({ token: token.address });
+
+    const interpretation = currentResult.interpret();
+    const { isSpam, isPhishing, confidence } = interpretation;
+    const { isUpdated } = currentResult.compare(previousRecord?.analysis);
+    const explanation = currentResult.explain();
+
+    const previousInterpretation = previousRecord?.interpretation;
+    const previousConfidence = previousInterpretation?.confidence || confidence;
+    const wasSpam = previousInterpretation?.isSpam || false;
+    const wasPhishing = previousInterpretation?.isPhishing || false;
+
+    if (isSpam && !wasSpam) {
+      findings.push(createSpamNewFinding(token, currentResult.analysis, confidence, explanation));
+
+      if (isPhishing) {
+        findings.push(
+          createPhishingNewFinding(token, currentResult.analysis, confidence, explanation),
+        );
+      }
+    } else if (isSpam && isUpdated) {
+      findings.push(
+        createSpamUpdateFinding(
+          token,
+          currentResult.analysis,
+          previousRecord!.analysis,
+          confidence,
+          previousConfidence,
+          explanation,
+        ),
+      );
+
+      if (isPhishing) {
+        findings.push(
+          createPhishingUpdateFinding(
+            token,
+            currentResult.analysis,
+            confidence,
+            previousConfidence,
+            explanation,
+          ),
+        );
+      }
+    } else if (!isSpam && wasSpam) {
+      findings.push(createSpamRemoveFinding(token, currentResult.analysis));
+
+      if (wasPhishing) {
+        findings.push(createPhishingRemoveFinding(token, currentResult.analysis));
+      }
+    }
+
+    if (!previousInterpretation || isUpdated || !isEqual(interpretation, previousInterpretation)) {
+      await db.addAnalysis({
+        token: token.address,
+        timestamp,
+        blockNumber,
+        analysis: currentResult.analysis,
+        interpretation,
+      });
+    }
+  }
+
+  return findings;
+}
+
+// Creates findings that withdraw the reported verdicts of the tokens deployed in the blocks of an abandoned branch,
+// since these tokens don't exist on the new branch
+export function createDroppedTokenFindings(droppedTokens: DroppedToken[]) {
+  const findings: Finding[] = [];
+
+  for (const { token, lastAnalysis } of droppedTokens) {
+    if (!lastAnalysis?.interpretation.isSpam) continue;
+
+    findings.push(createSpamRemoveFinding(token, lastAnalysis.analysis));
+
+    if (lastAnalysis.interpretation.isPhishing) {
+      findings.push(createPhishingRemoveFinding(token, lastAnalysis.analysis));
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,165 @@
+import { Replayer } from './replay';
+import { SpamDetector } from './detector';
+import DataStorage from './storage';
+import SqlDatabase from './database/database';
+import Memoizer from './utils/cache';
+import TokenAnalyzer from './analyzer/analyzer';
+import ScoringEngine from './analyzer/scoring/scoring';
+import { AnalyzerTask } from './analyzer/types';
+import { SimplifiedTransaction, TokenContract, TokenStandard } from './types';
+
+describe('Replayer', () => {
+  const interval = 100;
+  const observationTime = 1000;
+
+  const token: TokenContract = {
+    type: TokenStandard.Erc20,
+    address: '0x0000000000000000000000000000000000000001',
+    deployer: '0x0000000000000000000000000000000000000002',
+    blockNumber: 10,
+    timestamp: 1000,
+  };
+
+  const createTx = (i: number, timestamp: number): SimplifiedTransaction => ({
+    hash: '0x' + i.toString(16).padStart(64, '0'),
+    from: token.deployer,
+    to: token.address,
+    sighash: '0xa9059cbb',
+    blockNumber: token.blockNumber + i,
+    timestamp,
+    index: 0,
+  });
+
+  let source: SqlDatabase;
+  let storage: DataStorage;
+
+  beforeEach(async () => {
+    source = new SqlDatabase();
+    await source.initialize();
+    source.addToken(token);
+
+    const transactions = [
+      createTx(1, token.timestamp),
+      createTx(2, token.timestamp + 150),
+      createTx(3, token.timestamp + 320),
+    ];
+
+    for (const tx of transactions) {
+      const transactionId = await source.addTransaction(tx);
+      await source.addErc20TransferEvent({
+        from: tx.from,
+        to: '0x0000000000000000000000000000000000000003',
+        value: BigInt(1),
+        contract: token.address,
+        transactionId,
+        logIndex: 0,
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await source.close();
+  });
+
+  async function replay(onTask: (storage: DataStorage, timestamp: number) => Promise<number>) {
+    storage = new DataStorage(new SqlDatabase());
+    const memoizer = new Memoizer();
+
+    const analyzer = {
+      createTask: (token: TokenContract, timestamp: number, blockNumber: number) => {
+        const task = { token, timestamp, blockNumber } as AnalyzerTask;
+        task.run = async () => {
+          task.calledAt = timestamp;
+          const transferCount = await onTask(storage, timestamp);
+          task.finishedAt = timestamp;
+          const analysis = { Airdrop: { detected: transferCount > 1 } };
+          return {
+            analysis,
+            interpret: () => ({
+              isSpam: transferCount > 1,
+              isPhishing: false,
+              isFinalized: transferCount > 2,
+              confidence: 0.5,
+            }),
+            explain: () => new ScoringEngine().explain(analysis),
+            compare: () => ({ isUpdated: false, isChanged: false }),
+          };
+        };
+        return task;
+      },
+    } as unknown as TokenAnalyzer;
+
+    const detector = new SpamDetector({} as any, analyzer, storage, memoizer, 0);
+    const replayer = new Replayer(source, storage, detector, interval, observationTime);
+
+    const steps = [];
+    for await (const step of replayer.run()) {
+      steps.push(step);
+    }
+
+    return steps;
+  }
+
+  it('should feed the recorded data in chronological order', async () => {
+    const transferCountByTimestamp: { [timestamp: number]: number } = {};
+
+    const steps = await replay(async (storage, timestamp) => {
+      const events = await storage.getErc20TransferEvents(token.address);
+      transferCountByTimestamp[timestamp] = events.length;
+      return events.length;
+    });
+
+    expect(steps.map((s) => s.timestamp)).toStrictEqual([1000, 1100, 1200, 1300, 1400]);
+    expect(transferCountByTimestamp).toStrictEqual({
+      1000: 1,
+      1100: 1,
+      1200: 2,
+      1300: 2,
+      1400: 3,
+    });
+    expect(steps[steps.length - 1].blockNumber).toStrictEqual(token.blockNumber + 3);
+  });
+
+  it('should keep analyzing the watched tokens until their observation time is over', async () => {
+    // The token is never finalized by the analysis
+    const steps = await replay(async (storage) =>
+      Math.min((await storage.getErc20TransferEvents(token.address)).length, 2),
+    );
+
+    expect(steps.map((s) => s.timestamp)).toStrictEqual([
+      1000, 1100, 1200, 1300, 1400, 1500, 1600, 1700, 1800, 1900, 2000,
+    ]);
+    expect(steps[steps.length - 1].blockNumber).toStrictEqual(token.blockNumber + 3);
+  });
+
+  it('should emit findings as the bot would', async () => {
+    const steps = await replay(
+      async (storage) => (await storage.getErc20TransferEvents(token.address)).length,
+    );
+
+    const alertIds = steps.map((s) => s.findings.map((f) => f.alertId));
+
+    expect(alertIds).toStrictEqual([[], [], ['SPAM-TOKEN-NEW'], [], []]);
+    expect(JSON.parse(steps[2].findings[0].metadata.explanation)).toMatchObject({
+      base: [null, 0.6],
+      evidence: { Airdrop: 0 },
+    });
+  });
+
+  it('should persist the verdict timeline of the token without the unchanged analyses', async () => {
+    await replay(async (storage) => (await storage.getErc20TransferEvents(token.address)).length);
+
+    const timeline = await storage.db.getAnalyses({ token: token.address });
+
+    expect(timeline.map((r) => [r.timestamp, r.interpretation.isSpam])).toStrictEqual([
+      [1000, false],
+      [1200, true],
+      [1400, true],
+    ]);
+    expect(timeline[timeline.length - 1]).toMatchObject({
+      blockNumber: token.blockNumber + 3,
+      analysis: { Airdrop: { detected: true } },
+      interpretation: { isFinalized: true },
+    });
+  });
+});
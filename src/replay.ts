@@ -0,0 +1,190 @@
+import { Finding } from 'forta-agent';
+import { sortBy } from 'lodash';
+
+import DataStorage from './storage';
+import Logger from './utils/logger';
+import { SpamDetector } from './detector';
+import { createAnalysisFindings } from './findings';
+import { ISqlDatabase } from './database/types';
+import { EventKind } from './database/events';
+import { getEventTransfers } from './database/balances';
+import { TOKEN_OBSERVATION_TIME } from './analyzer/modules/observation-time';
+import { SimplifiedTransaction, TokenContract, TokenEvent } from './types';
+
+export type RecordedItem = {
+  transaction: SimplifiedTransaction;
+  logIndex: number;
+  insert: (db: ISqlDatabase) => Promise<unknown>;
+};
+
+export type ReplayStep = {
+  timestamp: number;
+  blockNumber: number;
+  findings: Finding[];
+};
+
+// This class re-runs the detector over the data recorded in an existing database.
+// Tokens and their transactions are fed to the storage in chronological order,
+// and simulated time moves forward with the tick interval, so that the analyzer sees the data the same way as it was live.
+// After the recorded data runs out, ticking goes on while tokens are still watched, until the observation time
+// of the last token is over, so that the verdicts the bot would give after the last transfer are emitted too.
+
+export class Replayer {
+  private itemsByToken = new Map<string, RecordedItem[]>();
+
+  constructor(
+    private source: ISqlDatabase,
+    private storage: DataStorage,
+    private detector: SpamDetector,
+    private tickInterval: number,
+    private observationTime = TOKEN_OBSERVATION_TIME,
+  ) {}
+
+  async *run(): AsyncGenerator<ReplayStep> {
+    await this.detector.initialize();
+
+    const tokens = sortBy(await this.source.getTokens(), (t) => t.timestamp);
+
+    if (tokens.length === 0) return;
+
+    Logger.info(`Replaying ${tokens.length} tokens`);
+
+    let timestamp = tokens[0].timestamp;
+    let blockNumber = tokens[0].blockNumber;
+    let tokenIndex = 0;
+
+    const endTimestamp = tokens[tokens.length - 1].timestamp + this.observationTime;
+
+    while (
+      tokenIndex < tokens.length ||
+      this.itemsByToken.size > 0 ||
+      (this.storage.getTokens().length > 0 && timestamp <= endTimestamp)
+    ) {
+      while (tokenIndex < tokens.length && tokens[tokenIndex].timestamp <= timestamp) {
+        const token = tokens[tokenIndex++];
+        this.detector.addTokenToWatchList(token.type, token);
+        this.itemsByToken.set(token.address, await getRecordedItems(this.source, token));
+        blockNumber = Math.max(blockNumber, token.blockNumber);
+      }
+
+      const items = this.releaseItems(timestamp);
+      for (const item of items) {
+        await item.insert(this.storage.db);
+        blockNumber = Math.max(blockNumber, item.transaction.blockNumber);
+      }
+
+      this.detector.tick(timestamp, blockNumber);
+      await this.detector.wait();
+
+      const findings = await createAnalysisFindings(
+        this.detector.releaseAnalyses(),
+        this.storage.db,
+      );
+
+      yield { timestamp, blockNumber, findings };
+
+      timestamp += this.tickInterval;
+    }
+  }
+
+  private releaseItems(timestamp: number) {
+    const releasedItems: RecordedItem[] = [];
+
+    for (const [address, items] of this.itemsByToken) {
+      // The token has been finalized, so the bot would no longer collect its transactions
+      if (!this.storage.hasToken(address)) {
+        this.itemsByToken.delete(address);
+        continue;
+      }
+
+      let count = 0;
+      while (count < items.length && items[count].transaction.timestamp <= timestamp) count++;
+
+      releasedItems.push(...items.splice(0, count));
+
+      if (items.length === 0) this.itemsByToken.delete(address);
+    }
+
+    return sortBy(releasedItems, [
+      (i) => i.transaction.blockNumber,
+      (i) => i.transaction.index,
+      (i) => i.logIndex,
+    ]);
+  }
+}
+
+// Transactions and events of the token recorded in the database, in the order they happened
+export async function getRecordedItems(
+  source: ISqlDatabase,
+  token: TokenContract,
+): Promise<RecordedItem[]> {
+  const params = { contract: token.address };
+
+  const items: RecordedItem[] = (await source.getTransactions({ to: token.address })).map(
+    (transaction) => ({
+      transaction,
+      logIndex: -1,
+      insert: (db) => db.addTransaction(transaction),
+    }),
+  );
+
+  const withEvents = <E extends TokenEvent>(
+    kind: EventKind,
+    events: E[],
+    insertEvent: (db: ISqlDatabase, event: E & { transactionHash: string }) => Promise<void>,
+  ) => {
+    for (const event of events) {
+      items.push({
+        transaction: event.transaction,
+        logIndex: event.logIndex,
+        insert: async (db) => {
+          await db.addTransaction(event.transaction);
+          await insertEvent(db, { ...event, transactionHash: event.transaction.hash });
+
+          // The storage keeps the balances up to date the same way when it handles a transaction
+          const transfers = getEventTransfers(kind, event);
+          if (transfers.length > 0) await db.applyTransfers(token.address, token.type, transfers);
+        },
+      });
+    }
+  };
+
+  withEvents(EventKind.Erc20Transfer, await source.getErc20TransferEvents(params), (db, e) =>
+    db.addErc20TransferEvent(e),
+  );
+  withEvents(EventKind.Erc20Approval, await source.getErc20ApprovalEvents(params), (db, e) =>
+    db.addErc20ApprovalEvent(e),
+  );
+  withEvents(EventKind.Erc721Transfer, await source.getErc721TransferEvents(params), (db, e) =>
+    db.addErc721TransferEvent(e),
+  );
+  withEvents(EventKind.Erc721Approval, await source.getErc721ApprovalEvents(params), (db, e) =>
+    db.addErc721ApprovalEvent(e),
+  );
+  withEvents(
+    EventKind.Erc721ApprovalForAll,
+    await source.getErc721ApprovalForAllEvents(params),
+    (db, e) => db.addErc721ApprovalForAllEvent(e),
+  );
+  withEvents(
+    EventKind.Erc1155TransferSingle,
+    await source.getErc1155TransferSingleEvents(params),
+    (db, e) => db.addErc1155TransferSingleEvent(e),
+  );
+  withEvents(
+    EventKind.Erc1155TransferBatch,
+    await source.getErc1155TransferBatchEvents(params),
+    (db, e) => db.addErc1155TransferBatchEvent(e),
+  );
+  withEvents(
+    EventKind.Erc1155ApprovalForAll,
+    await source.getErc1155ApprovalForAllEvents(params),
+    (db, e) => db.addErc1155ApprovalForAllEvent(e),
+  );
+
+  return sortBy(items, [
+    (i) => i.transaction.blockNumber,
+    (i) => i.transaction.index,
+    (i) => i.logIndex,
+  ]);
+}
@@ -0,0 +1,183 @@
+import os from 'os';
+import path from 'path';
+import { rm } from 'fs/promises';
+
+import DataStorage from './storage';
+import SqlDatabase from './database/database';
+import Memoizer from './utils/cache';
+import DataTransformer from './analyzer/transformer';
+import TokenAnalyzer from './analyzer/analyzer';
+import { DataRetention } from './retention';
+import { SpamDetector } from './detector';
+import { getEventTransfers } from './database/balances';
+import { EventKind } from './database/events';
+import { SimplifiedTransaction, TokenContract, TokenStandard } from './types';
+
+describe('DataRetention', () => {
+  const day = 24 * 60 * 60;
+  const now = 100 * day;
+
+  const address = (i: number) => '0x' + i.toString(16).padStart(40, '0');
+
+  const oldToken: TokenContract = {
+    type: TokenStandard.Erc20,
+    address: address(1),
+    deployer: address(2),
+    blockNumber: 10,
+    timestamp: now - 60 * day,
+  };
+
+  const watchedToken: TokenContract = {
+    type: TokenStandard.Erc20,
+    address: address(3),
+    deployer: address(2),
+    blockNumber: 1000,
+    timestamp: now - day,
+  };
+
+  let filename: string;
+  let db: SqlDatabase;
+  let storage: DataStorage;
+  let detector: SpamDetector;
+  let txCount = 0;
+
+  async function addAnalysis(token: string, timestamp: number) {
+    await db.addAnalysis({
+      token,
+      blockNumber: 1,
+      timestamp,
+      analysis: { Airdrop: { detected: true } },
+      interpretation: { isSpam: true, isPhishing: false, isFinalized: false, confidence: 0.9 },
+    });
+  }
+
+  async function addTransfers(token: TokenContract, count: number) {
+    for (let i = 0; i < count; i++) {
+      const tx: SimplifiedTransaction = {
+        hash: '0x' + (++txCount).toString(16).padStart(64, '0'),
+        from: token.deployer,
+        to: token.address,
+        sighash: '0xa9059cbb',
+        blockNumber: token.blockNumber + i,
+        timestamp: token.timestamp + i,
+        index: 0,
+      };
+      const event = {
+        from: token.deployer,
+        to: address(1000 + i),
+        value: BigInt(i + 1),
+        contract: token.address,
+        transactionId: await db.addTransaction(tx),
+        logIndex: 0,
+      };
+
+      await db.addErc20TransferEvent(event);
+      await db.applyTransfers(
+        token.address,
+        token.type,
+        getEventTransfers(EventKind.Erc20Transfer, event),
+      );
+    }
+  }
+
+  // Data read by the analyzer modules
+  async function getAnalyzedData(token: TokenContract) {
+    const transformer = new DataTransformer(storage);
+
+    return {
+      balances: [...(await transformer.balanceByAccount(token))],
+      transactions: [...(await transformer.transactions(token))],
+      transferCount: await storage.countEvents(EventKind.Erc20Transfer, {
+        contract: token.address,
+      }),
+      negativeBalances: await storage.getNegativeBalances(token.address),
+    };
+  }
+
+  beforeEach(async () => {
+    filename = path.resolve(os.tmpdir(), `retention-${process.pid}-${Date.now()}.db`);
+    db = new SqlDatabase(filename);
+    storage = new DataStorage(db);
+    detector = new SpamDetector({} as any, {} as TokenAnalyzer, storage, new Memoizer(), 0);
+
+    await detector.initialize();
+    detector.addTokenToWatchList(oldToken.type, oldToken);
+    detector.addTokenToWatchList(watchedToken.type, watchedToken);
+
+    await addTransfers(oldToken, 500);
+    await addTransfers(watchedToken, 20);
+
+    // A call to the watched token without any events
+    await db.addTransaction({
+      hash: '0x' + (++txCount).toString(16).padStart(64, '0'),
+      from: address(4),
+      to: watchedToken.address,
+      sighash: '0x095ea7b3',
+      blockNumber: watchedToken.blockNumber + 100,
+      timestamp: watchedToken.timestamp + 100,
+      index: 1,
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    await rm(filename, { force: true });
+  });
+
+  it('should drop expired tokens without changing the analyzed data of the watched ones', async () => {
+    const analyzedData = await getAnalyzedData(watchedToken);
+    const retention = new DataRetention(detector, storage, { maxTokenAge: 30 * day });
+
+    const report = await retention.run(now);
+
+    expect(report.droppedTokens).toStrictEqual([oldToken.address]);
+    expect(report.sizeAfter).toBeLessThan(report.sizeBefore);
+    expect(report.reclaimedBytes).toBeGreaterThan(0);
+
+    expect(storage.hasToken(oldToken.address)).toStrictEqual(false);
+    expect(await storage.getTransactions(oldToken.address)).toStrictEqual([]);
+    expect(await storage.getBalances(oldToken.address)).toStrictEqual([]);
+
+    expect(await getAnalyzedData(watchedToken)).toStrictEqual(analyzedData);
+
+    // Nothing is left to prune
+    expect((await retention.run(now)).droppedTokens).toStrictEqual([]);
+    expect(await getAnalyzedData(watchedToken)).toStrictEqual(analyzedData);
+  });
+
+  it('should drop the oldest tokens if the database is too large', async () => {
+    const analyzedData = await getAnalyzedData(watchedToken);
+    const size = await db.getSize();
+
+    // There is only room for the data of the watched token
+    const retention = new DataRetention(detector, storage, {
+      maxTokenAge: Infinity,
+      maxDatabaseSize: size - 1,
+    });
+
+    const report = await retention.run(now);
+
+    expect(report.droppedTokens).toStrictEqual([oldToken.address]);
+    expect(storage.getTokens()).toStrictEqual([watchedToken]);
+    expect(await getAnalyzedData(watchedToken)).toStrictEqual(analyzedData);
+  });
+
+  it('should keep the analyses of the tokens that are no longer watched until they are too old', async () => {
+    await addAnalysis(oldToken.address, now - 50 * day);
+    await addAnalysis(watchedToken.address, now - 200 * day);
+    // Analysis of a token that has been finalized long ago
+    await addAnalysis(address(5), now - 200 * day);
+
+    const retention = new DataRetention(detector, storage, {
+      maxTokenAge: 30 * day,
+      maxAnalysisAge: 100 * day,
+    });
+
+    const report = await retention.run(now);
+
+    expect(report.droppedTokens).toStrictEqual([oldToken.address]);
+    expect(await db.getAnalyses({ token: oldToken.address })).toHaveLength(1);
+    expect(await db.getAnalyses({ token: watchedToken.address })).toHaveLength(1);
+    expect(await db.getAnalyses({ token: address(5) })).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { sortBy } from 'lodash';
+
+import DataStorage from './storage';
+import Logger from './utils/logger';
+import { SpamDetector } from './detector';
+import { TokenContract } from './types';
+import {
+  RETENTION_MAX_ANALYSIS_AGE,
+  RETENTION_MAX_DB_SIZE,
+  RETENTION_MAX_TOKEN_AGE,
+} from './contants';
+
+export type RetentionConfig = {
+  // Tokens that haven't been finalized within this time (in seconds) are no longer watched
+  maxTokenAge: number;
+  // If the stored data is larger (in bytes), the oldest tokens are dropped until it fits
+  maxDatabaseSize: number;
+  // Analyses of the tokens that are no longer watched are deleted once they are older than this time (in seconds)
+  maxAnalysisAge: number;
+};
+
+export type RetentionReport = {
+  droppedTokens: string[];
+  sizeBefore: number;
+  sizeAfter: number;
+  reclaimedBytes: number;
+};
+
+export const DEFAULT_RETENTION_CONFIG: RetentionConfig = {
+  maxTokenAge: RETENTION_MAX_TOKEN_AGE,
+  maxDatabaseSize: RETENTION_MAX_DB_SIZE,
+  maxAnalysisAge: RETENTION_MAX_ANALYSIS_AGE,
+};
+
+// This class keeps the database from growing indefinitely.
+// Finalized tokens are cleared by the detector, but many tokens never get finalized,
+// so they are dropped once they are older than the max age or the database exceeds the max size.
+// Transactions and events outside the lifetime of the watched tokens are pruned, the free space is then vacuumed.
+// Analyses of the dropped and finalized tokens are kept as their verdict timeline until they reach the max analysis age.
+export class DataRetention {
+  private config: RetentionConfig;
+
+  constructor(
+    private detector: SpamDetector,
+    private storage: DataStorage,
+    config: Partial<RetentionConfig> = {},
+  ) {
+    this.config = { ...DEFAULT_RETENTION_CONFIG, ...config };
+  }
+
+  async run(timestamp: number): Promise<RetentionReport> {
+    const { db } = this.storage;
+    const { maxTokenAge, maxDatabaseSize, maxAnalysisAge } = this.config;
+
+    await db.wait();
+    const sizeBefore = await db.getSize();
+
+    const droppedTokens: TokenContract[] = [];
+    const dropToken = (token: TokenContract) => {
+      this.detector.deleteToken(token);
+      droppedTokens.push(token);
+    };
+
+    const tokens = sortBy(this.storage.getTokens(), (t) => t.timestamp);
+
+    while (tokens.length > 0 && tokens[0].timestamp < timestamp - maxTokenAge) {
+      dropToken(tokens.shift()!);
+    }
+
+    await db.prune({ analysesBefore: timestamp - maxAnalysisAge });
+    let size = await db.getSize();
+
+    while (tokens.length > 0 && size > maxDatabaseSize) {
+      dropToken(tokens.shift()!);
+      await db.wait();
+      size = await db.getSize();
+    }
+
+    const reclaimedBytes = await db.vacuum();
+    const sizeAfter = await db.getSize();
+
+    Logger.info(
+      [
+        `Retention: ${droppedTokens.length} tokens dropped`,
+        `Size: ${toMb(sizeBefore)}Mb -> ${toMb(sizeAfter)}Mb`,
+        `Reclaimed: ${toMb(reclaimedBytes)}Mb`,
+      ].join(' | '),
+    );
+
+    return {
+      droppedTokens: droppedTokens.map((t) => t.address),
+      sizeBefore,
+      sizeAfter,
+      reclaimedBytes,
+    };
+  }
+}
+
+const toMb = (bytes: number) => Math.round((bytes / 1024 / 1024) * 100) / 100;
@@ -0,0 +1,187 @@
+import { EventType, Network, Trace, Transaction, TransactionEvent } from 'forta-agent';
+import { ethers } from 'ethers';
+
+import DataStorage from './storage';
+import SqlDatabase from './database/database';
+import { erc20Iface, SAFE_EXEC_TRANSACTION_SIGHASH } from './contants';
+import { TokenContract, TokenStandard } from './types';
+
+describe('DataStorage', () => {
+  const address = (i: number) => '0x' + i.toString(16).padStart(40, '0');
+
+  const entryPoint = '0x5ff137d4b0fdcd49dca30c7cf57e578a026d2789';
+  const token: TokenContract = {
+    type: TokenStandard.Erc20,
+    address: address(1),
+    deployer: address(2),
+    blockNumber: 100,
+    timestamp: 1000,
+  };
+
+  let storage: DataStorage;
+  let txCount = 0;
+
+  const createCall = (
+    traceAddress: number[],
+    from: string,
+    to: string,
+    input = '0x',
+    callType = 'call',
+  ): Trace =>
+    ({
+      type: 'call',
+      action: { callType, from, to, input, value: '0x0' },
+      traceAddress,
+      transactionPosition: 0,
+    } as unknown as Trace);
+
+  // Transaction that transfers the token from the account
+  const createTxEvent = (sender: string, account: string, traces: Trace[]) => {
+    const hash = '0x' + (++txCount).toString(16).padStart(64, '0');
+    const log = erc20Iface.encodeEventLog(erc20Iface.getEvent('Transfer'), [
+      account,
+      address(1000),
+      1,
+    ]);
+
+    return new TransactionEvent(
+      EventType.BLOCK,
+      Network.MAINNET,
+      { hash, from: sender, to: traces[0].action.to, data: traces[0].action.input } as Transaction,
+      traces,
+      {},
+      { hash: ethers.utils.hexZeroPad('0x101', 32), number: 101, timestamp: 1010 },
+      [
+        {
+          ...log,
+          address: token.address,
+          logIndex: 0,
+          blockNumber: 101,
+          blockHash: ethers.utils.hexZeroPad('0x101', 32),
+          transactionIndex: 0,
+          transactionHash: hash,
+          removed: false,
+        },
+      ],
+      null,
+    );
+  };
+
+  const getStoredTransaction = async () => {
+    const [event] = await storage.getErc20TransferEvents(token.address);
+    return event.transaction;
+  };
+
+  beforeEach(async () => {
+    storage = new DataStorage(new SqlDatabase());
+    await storage.initialize();
+    storage.addToken(token);
+  });
+
+  afterEach(async () => {
+    await storage.db.close();
+  });
+
+  it('should record the smart account of a bundled user operation as the initiator', async () => {
+    const bundler = address(10);
+    const smartAccount = address(11);
+
+    await storage.handleTx(
+      createTxEvent(bundler, smartAccount, [
+        createCall([], bundler, entryPoint, '0x1fad948c'),
+        createCall([0], entryPoint, smartAccount, '0xb61d27f6'),
+        createCall([0, 0], smartAccount, address(12), '0xb61d27f6', 'delegatecall'),
+        createCall([0, 0, 0], smartAccount, token.address, '0xa9059cbb'),
+      ]),
+    );
+
+    const transaction = await getStoredTransaction();
+
+    expect(transaction.from).toStrictEqual(bundler);
+    expect(transaction.initiator).toStrictEqual(smartAccount);
+  });
+
+  // A transaction has one initiator, the other accounts of the bundle are not counted
+  it('should record only the first smart account of a bundle with several user operations', async () => {
+    const bundler = address(10);
+    const [smartAccount1, smartAccount2] = [address(11), address(13)];
+
+    await storage.handleTx(
+      createTxEvent(bundler, smartAccount1, [
+        createCall([], bundler, entryPoint, '0x1fad948c'),
+        createCall([0], entryPoint, smartAccount1, '0xb61d27f6'),
+        createCall([0, 0], smartAccount1, token.address, '0xa9059cbb'),
+        createCall([1], entryPoint, smartAccount2, '0xb61d27f6'),
+        createCall([1, 0], smartAccount2, token.address, '0xa9059cbb'),
+      ]),
+    );
+
+    expect((await getStoredTransaction()).initiator).toStrictEqual(smartAccount1);
+  });
+
+  it('should record the multisig wallet executing the transaction as the initiator', async () => {
+    const owner = address(20);
+    const safe = address(21);
+
+    await storage.handleTx(
+      createTxEvent(owner, safe, [
+        createCall([], owner, safe, SAFE_EXEC_TRANSACTION_SIGHASH),
+        createCall([0], safe, address(22), SAFE_EXEC_TRANSACTION_SIGHASH, 'delegatecall'),
+        createCall([0, 0], safe, token.address, '0xa9059cbb'),
+      ]),
+    );
+
+    expect((await getStoredTransaction()).initiator).toStrictEqual(safe);
+  });
+
+  it('should attribute the calls through routers to the sender', async () => {
+    const sender = address(30);
+    const router = address(31);
+
+    await storage.handleTx(
+      createTxEvent(sender, sender, [
+        createCall([], sender, router, '0x7ff36ab5'),
+        createCall([0], router, address(32), '0x0902f1ac', 'staticcall'),
+        createCall([1], router, token.address, '0x23b872dd'),
+      ]),
+    );
+
+    const transaction = await getStoredTransaction();
+
+    expect(transaction.from).toStrictEqual(sender);
+    expect(transaction).not.toHaveProperty('initiator');
+  });
+
+  it('should store a synthetic index if the receipt is not available and backfill it later', async () => {
+    const provider = { getTransactionReceipt: jest.fn(async () => null) };
+    const hash = '0x' + (++txCount).toString(16).padStart(64, '0');
+    const blockHash = ethers.utils.hexZeroPad('0x101', 32);
+
+    await storage.db.close();
+    storage = new DataStorage(new SqlDatabase(), provider as any);
+    await storage.initialize();
+    storage.addToken(token);
+
+    // A call of the token without logs and traces
+    await storage.handleTx(
+      new TransactionEvent(
+        EventType.BLOCK,
+        Network.MAINNET,
+        { hash, from: address(40), to: token.address, data: '0x095ea7b3' } as Transaction,
+        [],
+        {},
+        { hash: blockHash, number: 101, timestamp: 1010 },
+        [],
+        null,
+      ),
+    );
+
+    expect(await storage.db.getTransactionsWithSyntheticIndex({ limit: 10 })).toStrictEqual([hash]);
+
+    provider.getTransactionReceipt.mockResolvedValue({ transactionIndex: 7 } as any);
+
+    expect(await storage.backfillTransactionIndexes()).toStrictEqual(1);
+    expect(await storage.db.getTransactionsWithSyntheticIndex({ limit: 10 })).toStrictEqual([]);
+    expect((await storage.getTransactions(token.address))[0].index).toStrictEqual(7);
+  });
+});
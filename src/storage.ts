@@ -1,16 +1,27 @@
-import { BigNumber as EtherBigNumber } from 'ethers';
-import { TransactionEvent } from 'forta-agent';
-
-import { SimplifiedTransaction, TokenContract } from './types';
-import { erc1155Iface, erc20Iface, erc721Iface } from './contants';
+import { BigNumber as EtherBigNumber, ethers } from 'ethers';
+import { Trace, TransactionEvent } from 'forta-agent';
+import { minBy } from 'lodash';
+
+import { DroppedToken, SimplifiedTransaction, TokenContract, TokenEvent } from './types';
+import {
+  erc1155Iface,
+  erc20Iface,
+  erc721Iface,
+  ERC4337_ENTRY_POINTS,
+  SAFE_EXEC_TRANSACTION_SIGHASH,
+  TX_INDEX_BACKFILL_BATCH_SIZE,
+} from './contants';
 import { ISqlDatabase } from './database/types';
+import { EventKind, EventQuery } from './database/events';
+import { BalanceTransfer, getEventTransfers } from './database/balances';
+import { retry } from './utils/helpers';
+import Logger from './utils/logger';
 
 class DataStorage {
   private tokenByAddress = new Map<string, TokenContract>();
-  private lastBlockNumber: number | null = null;
-  private lastTxIndex: number | null = null;
 
-  constructor(public db: ISqlDatabase) {}
+  // The provider is used to get the indexes of the transactions without logs and traces
+  constructor(public db: ISqlDatabase, private provider?: ethers.providers.Provider) {}
 
   async initialize() {
     await this.db.initialize();
@@ -30,11 +41,15 @@ class DataStorage {
   }
 
   async handleTx(txEvent: TransactionEvent) {
-    const txIndex = txEvent.blockNumber === this.lastBlockNumber ? this.lastTxIndex! + 1 : 0;
+    const logs = txEvent.logs.filter((l) => this.tokenByAddress.has(l.address.toLowerCase()));
 
-    this.lastBlockNumber = txEvent.blockNumber;
-    this.lastTxIndex = txIndex;
+    // Check if there is any trace of the monitoring tokens
+    if (!(txEvent.to && this.tokenByAddress.has(txEvent.to.toLowerCase())) && logs.length === 0) {
+      return;
+    }
 
+    const initiator = this.getInitiator(txEvent);
+    const { index, isSynthetic } = await this.getTransactionIndex(txEvent);
     const transaction: SimplifiedTransaction = {
       hash: txEvent.hash,
       from: txEvent.from,
@@ -42,17 +57,26 @@ class DataStorage {
       sighash: txEvent.transaction.data.slice(0, 10),
       blockNumber: txEvent.blockNumber,
       timestamp: txEvent.timestamp,
-      index: txIndex,
+      index: index,
+      ...(initiator ? { initiator } : {}),
     };
 
-    const logs = txEvent.logs.filter((l) => this.tokenByAddress.has(l.address.toLowerCase()));
-
-    // Check if there is any trace of the monitoring tokens
-    if (!(txEvent.to && this.tokenByAddress.has(txEvent.to.toLowerCase())) && logs.length === 0) {
-      return;
-    }
-
-    const transactionId = await this.db.addTransaction(transaction);
+    const transactionId = await this.db.addTransaction(
+      transaction,
+      txEvent.block.hash,
+      isSynthetic,
+    );
+    const transfersByToken = new Map<string, BalanceTransfer[]>();
+
+    const addTransfers = (
+      contract: string,
+      kind: EventKind,
+      event: Omit<TokenEvent, 'transaction'>,
+    ) => {
+      const transfers = transfersByToken.get(contract) || [];
+      transfers.push(...getEventTransfers(kind, event));
+      transfersByToken.set(contract, transfers);
+    };
 
     for (let i = 0; i < logs.length; i++) {
       const log = logs[i];
@@ -62,14 +86,16 @@ class DataStorage {
         const parsedErc20Log = erc20Iface.parseLog(log);
         if (parsedErc20Log.name === 'Transfer') {
           const { from, to, value } = parsedErc20Log.args;
-          this.db.addErc20TransferEvent({
+          const event = {
             from: from.toLowerCase(),
             to: to.toLowerCase(),
             value: BigInt(value.toString()),
             contract: contractAddress,
             transactionId: transactionId,
             logIndex: log.logIndex,
-          });
+          };
+          this.db.addErc20TransferEvent(event);
+          addTransfers(contractAddress, EventKind.Erc20Transfer, event);
         } else if (parsedErc20Log.name === 'Approval') {
           const { owner, spender, value } = parsedErc20Log.args;
           this.db.addErc20ApprovalEvent({
@@ -91,14 +117,16 @@ class DataStorage {
 
         if (parsedErc721Log.name === 'Transfer') {
           const { from, to, tokenId } = parsedErc721Log.args;
-          this.db.addErc721TransferEvent({
+          const event = {
             from: from.toLowerCase(),
             to: to.toLowerCase(),
             tokenId: tokenId.toString(),
             contract: contractAddress,
             transactionId: transactionId,
             logIndex: log.logIndex,
-          });
+          };
+          this.db.addErc721TransferEvent(event);
+          addTransfers(contractAddress, EventKind.Erc721Transfer, event);
         } else if (parsedErc721Log.name === 'Approval') {
           const { owner, approved, tokenId } = parsedErc721Log.args;
           this.db.addErc721ApprovalEvent({
@@ -131,7 +159,7 @@ class DataStorage {
 
         if (parsedErc1155Log.name === 'TransferSingle') {
           const { operator, from, to, id, value } = parsedErc1155Log.args;
-          this.db.addErc1155TransferSingleEvent({
+          const event = {
             operator: operator.toLowerCase(),
             from: from.toLowerCase(),
             to: to.toLowerCase(),
@@ -140,10 +168,12 @@ class DataStorage {
             transactionId: transactionId,
             contract: contractAddress,
             logIndex: log.logIndex,
-          });
+          };
+          this.db.addErc1155TransferSingleEvent(event);
+          addTransfers(contractAddress, EventKind.Erc1155TransferSingle, event);
         } else if (parsedErc1155Log.name === 'TransferBatch') {
           const { operator, from, to, ids } = parsedErc1155Log.args;
-          this.db.addErc1155TransferBatchEvent({
+          const event = {
             operator: operator.toLowerCase(),
             from: from.toLowerCase(),
             to: to.toLowerCase(),
@@ -152,7 +182,9 @@ class DataStorage {
             transactionId: transactionId,
             contract: contractAddress,
             logIndex: log.logIndex,
-          });
+          };
+          this.db.addErc1155TransferBatchEvent(event);
+          addTransfers(contractAddress, EventKind.Erc1155TransferBatch, event);
         } else if (parsedErc1155Log.name === 'ApprovalForAll') {
           const { account, operator, approved } = parsedErc1155Log.args;
           this.db.addErc1155ApprovalForAllEvent({
@@ -171,6 +203,140 @@ class DataStorage {
       // memory optimization
       if ((i + 1) % 40 == 0) await this.db.wait();
     }
+
+    for (const [contract, transfers] of transfersByToken) {
+      await this.db.applyTransfers(contract, this.tokenByAddress.get(contract)!.type, transfers);
+    }
+  }
+
+  // Removes the data collected from the blocks of an abandoned branch of the chain, starting from the given block.
+  // Returns the tokens whose data has changed, including the ones deployed in the removed blocks,
+  // which are no longer watched. These are returned separately along with their last analyses,
+  // which are removed from the database along with the tokens.
+  async rollback(blockNumber: number) {
+    await this.db.wait();
+
+    const droppedTokens: DroppedToken[] = [];
+    for (const token of this.tokenByAddress.values()) {
+      if (token.blockNumber < blockNumber) continue;
+
+      droppedTokens.push({
+        token,
+        lastAnalysis: await this.db.getLastAnalysis({ token: token.address }),
+      });
+    }
+
+    const tokens: TokenContract[] = [];
+    for (const address of await this.db.rollbackBlocks({ fromBlock: blockNumber })) {
+      const token = this.tokenByAddress.get(address);
+      if (!token) continue;
+
+      if (token.blockNumber >= blockNumber) {
+        this.tokenByAddress.delete(address);
+      } else {
+        await this.db.rebuildBalances(token);
+      }
+
+      tokens.push(token);
+    }
+
+    return { tokens, droppedTokens };
+  }
+
+  // Replaces the indexes counted by the older versions of the bot with the ones from the receipts.
+  // Returns the number of processed transactions, zero once all of them have been backfilled.
+  async backfillTransactionIndexes(limit = TX_INDEX_BACKFILL_BATCH_SIZE) {
+    const hashes = await this.db.getTransactionsWithSyntheticIndex({ limit });
+
+    await Promise.all(
+      hashes.map(async (hash) => {
+        const receipt = await this.getProvider().getTransactionReceipt(hash);
+        await this.db.setTransactionIndex({
+          hash,
+          index: receipt ? receipt.transactionIndex : null,
+        });
+      }),
+    );
+
+    return hashes.length;
+  }
+
+  // The index is not a part of the transaction event, but the logs and traces carry it.
+  // If the receipt cannot be fetched either, the index is synthetic until it's backfilled,
+  // it doesn't affect the order of the events, since the transaction has no logs.
+  private async getTransactionIndex(
+    txEvent: TransactionEvent,
+  ): Promise<{ index: number; isSynthetic: boolean }> {
+    if (txEvent.logs.length > 0) {
+      return { index: txEvent.logs[0].transactionIndex, isSynthetic: false };
+    }
+    if (txEvent.traces.length > 0) {
+      return { index: Number(txEvent.traces[0].transactionPosition), isSynthetic: false };
+    }
+
+    try {
+      const receipt = await retry(() => this.getProvider().getTransactionReceipt(txEvent.hash), {
+        attempts: 2,
+        wait: 1000,
+      });
+      if (receipt) return { index: receipt.transactionIndex, isSynthetic: false };
+    } catch (e) {
+      Logger.warn(e, `Failed to get the receipt of ${txEvent.hash}`);
+    }
+
+    return { index: 0, isSynthetic: true };
+  }
+
+  // Account that has called the watched tokens on behalf of the sender, e.g. a smart account of a bundled user operation.
+  // Calls through routers are attributed to the sender, so only the accounts executing their own calls are considered.
+  // A transaction has a single initiator: if a bundle contains user operations of several accounts that call the tokens,
+  // the account of the first call is recorded and the others are not counted.
+  private getInitiator(txEvent: TransactionEvent): string | null {
+    const tokenCall = minBy(
+      txEvent.traces.filter(
+        (t) =>
+          t.type === 'call' &&
+          t.action.callType === 'call' &&
+          this.tokenByAddress.has((t.action.to || '').toLowerCase()),
+      ),
+      (t) => t.traceAddress.length,
+    );
+
+    if (!tokenCall) return null;
+
+    // Calls that have led to the token call, the closest one first
+    const parentCalls = txEvent.traces
+      .filter(
+        (t) =>
+          t.type === 'call' &&
+          t.traceAddress.length < tokenCall.traceAddress.length &&
+          t.traceAddress.every((v, i) => v === tokenCall.traceAddress[i]),
+      )
+      .sort((t1, t2) => t2.traceAddress.length - t1.traceAddress.length);
+
+    const accountCall = parentCalls.find(
+      (t) =>
+        (t.action.callType === 'call' && ERC4337_ENTRY_POINTS.has(t.action.from.toLowerCase())) ||
+        (t.action.input || '').startsWith(SAFE_EXEC_TRANSACTION_SIGHASH),
+    );
+
+    if (!accountCall) return null;
+
+    const account = this.getCallContext(accountCall);
+
+    return account === txEvent.from.toLowerCase() ? null : account;
+  }
+
+  // Account whose storage is used by the call, it's the caller for a call to an implementation of a proxy
+  private getCallContext(trace: Trace): string {
+    return (
+      trace.action.callType === 'delegatecall' ? trace.action.from : trace.action.to
+    ).toLowerCase();
+  }
+
+  private getProvider() {
+    if (!this.provider) throw new Error('Provider is required to fetch transaction receipts');
+    return this.provider;
   }
 
   getTokens() {
@@ -190,6 +356,32 @@ class DataStorage {
     return this.db.getTransactions({ to });
   }
 
+  // Reads the events page by page, so that large tokens don't have to be loaded into memory at once
+  iterateEvents<K extends EventKind>(kind: K, query: EventQuery) {
+    return this.db.iterateEvents(kind, query);
+  }
+
+  countEvents(kind: EventKind, query: EventQuery) {
+    return this.db.countEvents(kind, query);
+  }
+
+  // Current balances, so that the transfers don't have to be replayed
+  getBalances(contract: string) {
+    return this.db.getBalances({ contract });
+  }
+
+  getHolderCount(contract: string) {
+    return this.db.getHolderCount({ contract });
+  }
+
+  getTopHolders(contract: string, limit: number) {
+    return this.db.getTopHolders({ contract, limit });
+  }
+
+  getNegativeBalances(contract: string) {
+    return this.db.getNegativeBalances({ contract });
+  }
+
   getErc20TransferEvents(contract: string) {
     return this.db.getErc20TransferEvents({ contract });
   }
@@ -1,10 +1,15 @@
 import { Block } from 'forta-agent';
-import { providers } from 'ethers';
 import { BotSharding } from 'forta-sharding';
 
 import { SpamDetector } from './detector';
-import { AnalysisResult } from './analyzer/types';
+import DataStorage from './storage';
+import { DataRetention } from './retention';
+import { AnalysisContext } from './analyzer/types';
+import { Interpretation } from './analyzer/scoring/types';
 import { AlertMitigation } from './utils/mitigation';
+import { RpcPool } from './utils/rpc-pool';
+import { ReorgDetector } from './utils/reorg';
+import { SqliteCacheBackend } from './utils/sqlite-cache';
 
 export type AlertRemoveItem = Token & {
   isPhishing?: boolean;
@@ -12,11 +17,14 @@ export type AlertRemoveItem = Token & {
 };
 
 export type DataContainer = {
-  provider: providers.JsonRpcProvider;
+  provider: RpcPool;
   detector: SpamDetector;
   sharding: BotSharding;
   alertMitigation: AlertMitigation<AlertRemoveItem>;
-  analysisByToken: Map<TokenContract, AnalysisResult>;
+  storage: DataStorage;
+  cacheBackend: SqliteCacheBackend;
+  retention: DataRetention;
+  reorgDetector: ReorgDetector;
   previousBlock: Block;
   isInitialized: boolean;
   isDevelopment: boolean;
@@ -51,6 +59,24 @@ export type SimplifiedTransaction = {
   blockNumber: number;
   hash: string;
   index: number;
+  // Account that has called the token on behalf of the sender, e.g. a smart account of an ERC-4337 user operation.
+  // Absent if the sender is the initiator.
+  initiator?: string;
+};
+
+// Verdict of the token at the given block, persisted so that the bot remembers the reported tokens after a restart
+export type AnalysisRecord = {
+  token: string;
+  blockNumber: number;
+  timestamp: number;
+  analysis: AnalysisContext;
+  interpretation: Interpretation;
+};
+
+// Token deployed in the blocks of an abandoned branch, its last verdict has to be withdrawn
+export type DroppedToken = {
+  token: TokenContract;
+  lastAnalysis: AnalysisRecord | null;
 };
 
 export type TokenEvent = {
@@ -0,0 +1,101 @@
+import { ethers } from 'ethers';
+
+import Memoizer from './cache';
+import { AddressCache } from './address-cache';
+import { AccountClassifier, AccountType } from './account-classifier';
+
+describe('account classifier', () => {
+  const address = (i: number) => '0x' + i.toString(16).padStart(40, '0');
+
+  const implementationSlot = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+  // Function dispatcher that pushes the selectors with PUSH4
+  const createCode = (selectors: string[]) =>
+    '0x6080604052' + selectors.map((s) => `63${s}81146100`).join('') + '00';
+
+  const safeSingleton = address(100);
+  const erc4337Implementation = address(101);
+
+  const codeByAddress: { [address: string]: string } = {
+    [address(1)]: '0x',
+    [address(2)]: '0xef0100' + address(200).slice(2),
+    [safeSingleton]: createCode(['a0e67e2b', 'e75235b8', '6a761202', '2f54bf6e']),
+    // Safe proxy
+    [address(3)]:
+      '0x608060405273ffffffffffffffffffffffffffffffffffffffff600054167fa619486e0000000000000000000000000000000000000000000000000000000060003514156050578060005260206000f35b3660008037600080366000845af43d6000803e60008114156070573d6000fd5b3d6000f3',
+    [erc4337Implementation]: createCode(['19822f7c', 'b61d27f6']),
+    // EIP-1967 proxy of the smart account
+    [address(4)]: createCode([]),
+    // Minimal proxy of the smart account
+    [address(5)]: `0x363d3d373d3d3d363d73${erc4337Implementation.slice(
+      2,
+    )}5af43d82803e903d91602b57fd5bf3`,
+    [address(6)]: createCode(['0dfe1681', 'd21220a7', '0902f1ac', '022c0d9f']),
+    [address(7)]: createCode(['a9059cbb', '70a08231']),
+  };
+
+  const storageByAddress: { [address: string]: { [slot: string]: string } } = {
+    [address(3)]: { '0': ethers.utils.hexZeroPad(safeSingleton, 32) },
+    [address(4)]: { [implementationSlot]: ethers.utils.hexZeroPad(erc4337Implementation, 32) },
+  };
+
+  let provider: {
+    getNetwork: jest.Mock;
+    getCode: jest.Mock;
+    getStorageAt: jest.Mock;
+  };
+  let classifier: AccountClassifier;
+
+  beforeEach(() => {
+    provider = {
+      getNetwork: jest.fn(async () => ({ chainId: 1 })),
+      getCode: jest.fn(async (address: string) => codeByAddress[address] || '0x'),
+      getStorageAt: jest.fn(
+        async (address: string, slot: string | number) =>
+          storageByAddress[address]?.[slot.toString()] || ethers.constants.HashZero,
+      ),
+    };
+    classifier = new AccountClassifier(
+      new AddressCache(new Memoizer(), provider as any),
+      provider as any,
+    );
+  });
+
+  it.each([
+    [address(1), AccountType.Eoa],
+    [address(2), AccountType.DelegatedEoa],
+    [safeSingleton, AccountType.Safe],
+    [address(3), AccountType.Safe],
+    [address(4), AccountType.Erc4337Account],
+    [address(5), AccountType.Erc4337Account],
+    [address(6), AccountType.DexPair],
+    [address(7), AccountType.Contract],
+  ])('should classify %s as %s', async (account, type) => {
+    expect(await classifier.classify(account)).toStrictEqual(type);
+  });
+
+  it('should tell the user accounts from other contracts', async () => {
+    expect(await classifier.isUserAccount(address(1))).toStrictEqual(true);
+    expect(await classifier.isUserAccount(address(3))).toStrictEqual(true);
+    expect(await classifier.isUserAccount(address(6))).toStrictEqual(false);
+    expect(await classifier.isUserAccount(address(7))).toStrictEqual(false);
+
+    expect(await classifier.isSmartAccount(address(1))).toStrictEqual(false);
+    expect(await classifier.isSmartAccount(address(2))).toStrictEqual(true);
+    expect(await classifier.isSmartAccount(address(5))).toStrictEqual(true);
+  });
+
+  it('should cache the account types', async () => {
+    await classifier.classify(address(4));
+    await classifier.isSmartAccount(address(4));
+
+    expect(provider.getCode).toHaveBeenCalledTimes(2);
+    expect(provider.getStorageAt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat accounts that cannot be classified as non-smart ones', async () => {
+    provider.getCode.mockRejectedValue(new Error('timeout'));
+
+    expect(await classifier.isSmartAccount(address(2))).toStrictEqual(false);
+    await expect(classifier.classify(address(2))).rejects.toThrow('timeout');
+  });
+});
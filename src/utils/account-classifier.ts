@@ -0,0 +1,121 @@
+import { ethers } from 'ethers';
+
+import Logger from './logger';
+import { AddressCache } from './address-cache';
+
+export enum AccountType {
+  Eoa = 'EOA',
+  Safe = 'Safe',
+  Erc4337Account = 'ERC4337Account',
+  // EOA whose code is delegated to a contract with EIP-7702
+  DelegatedEoa = 'DelegatedEOA',
+  DexPair = 'DexPair',
+  Contract = 'Contract',
+}
+
+// Accounts controlled by users, including the smart wallets that airdrops are sent to
+const USER_ACCOUNT_TYPES = new Set([
+  AccountType.Eoa,
+  AccountType.Safe,
+  AccountType.Erc4337Account,
+  AccountType.DelegatedEoa,
+]);
+
+// Accounts whose transactions can be sent by others, e.g. by a bundler, a relayer or another owner
+const SMART_ACCOUNT_TYPES = new Set([
+  AccountType.Safe,
+  AccountType.Erc4337Account,
+  AccountType.DelegatedEoa,
+]);
+
+// https://eips.ethereum.org/EIPS/eip-7702
+const DELEGATION_PREFIX = '0xef0100';
+// https://eips.ethereum.org/EIPS/eip-1167
+const MINIMAL_PROXY_REGEX = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+// https://eips.ethereum.org/EIPS/eip-1967
+const EIP1967_IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+// masterCopy() of Safe proxies
+const SAFE_MASTER_COPY_SELECTOR = 'a619486e';
+// Proxies are small, larger contracts are classified by their own code
+const MAX_PROXY_CODE_SIZE = 1024;
+
+// Functions that are looked up in the bytecode, all of them have to be present
+const FINGERPRINTS: { type: AccountType; selectors: string[] }[] = [
+  // getOwners(), getThreshold(), execTransaction()
+  { type: AccountType.Safe, selectors: ['a0e67e2b', 'e75235b8', '6a761202'] },
+  // validateUserOp() of EntryPoint v0.6
+  { type: AccountType.Erc4337Account, selectors: ['3a871cdd'] },
+  // validateUserOp() of EntryPoint v0.7
+  { type: AccountType.Erc4337Account, selectors: ['19822f7c'] },
+  // token0(), token1(), getReserves() of Uniswap V2 pairs
+  { type: AccountType.DexPair, selectors: ['0dfe1681', 'd21220a7', '0902f1ac'] },
+  // token0(), token1(), slot0() of Uniswap V3 pools
+  { type: AccountType.DexPair, selectors: ['0dfe1681', 'd21220a7', '3850c7bd'] },
+];
+
+// Selectors are pushed onto the stack with PUSH4 in the function dispatcher
+function matchFingerprint(code: string): AccountType | null {
+  const fingerprint = FINGERPRINTS.find((f) => f.selectors.every((s) => code.includes(`63${s}`)));
+  return fingerprint?.type || null;
+}
+
+// Labels addresses by their bytecode, e.g. to tell the smart wallets of airdrop receivers from other contracts.
+// Code of proxies is resolved to the implementation first.
+export class AccountClassifier {
+  constructor(private addressCache: AddressCache, private provider: ethers.providers.Provider) {}
+
+  async classify(address: string): Promise<AccountType> {
+    return this.addressCache.query('accountType', address, () => this.detectType(address));
+  }
+
+  async isUserAccount(address: string): Promise<boolean> {
+    return USER_ACCOUNT_TYPES.has(await this.classify(address));
+  }
+
+  // If the account cannot be classified, it's treated as a regular one,
+  // so that a failed RPC request doesn't fail the modules that only skip smart accounts
+  async isSmartAccount(address: string): Promise<boolean> {
+    try {
+      return SMART_ACCOUNT_TYPES.has(await this.classify(address));
+    } catch (e) {
+      Logger.debug(e, `Cannot classify the account: ${address}`);
+      return false;
+    }
+  }
+
+  private async detectType(address: string): Promise<AccountType> {
+    const code = (await this.getCode(address)).toLowerCase();
+
+    if (code === '0x') return AccountType.Eoa;
+    if (code.startsWith(DELEGATION_PREFIX)) return AccountType.DelegatedEoa;
+
+    const type = matchFingerprint(code);
+    if (type) return type;
+
+    if ((code.length - 2) / 2 > MAX_PROXY_CODE_SIZE) return AccountType.Contract;
+
+    const implementation = await this.getImplementation(address, code);
+    if (!implementation) return AccountType.Contract;
+
+    return (
+      matchFingerprint((await this.getCode(implementation)).toLowerCase()) || AccountType.Contract
+    );
+  }
+
+  private async getImplementation(address: string, code: string): Promise<string | null> {
+    const minimalProxyMatch = code.match(MINIMAL_PROXY_REGEX);
+    if (minimalProxyMatch) return '0x' + minimalProxyMatch[1];
+
+    // Safe proxies keep the singleton in the first slot, masterCopy() is the only function they have
+    const slot = code.includes(SAFE_MASTER_COPY_SELECTOR) ? 0 : EIP1967_IMPLEMENTATION_SLOT;
+    const value = await this.provider.getStorageAt(address, slot);
+    const implementation = ethers.utils.hexDataSlice(ethers.utils.hexZeroPad(value, 32), 12);
+
+    return implementation === ethers.constants.AddressZero ? null : implementation;
+  }
+
+  private getCode(address: string) {
+    return this.addressCache.query('getCode', address, () => this.provider.getCode(address));
+  }
+}
@@ -0,0 +1,66 @@
+import { ADDRESS_FACT_ERROR_TTL, AddressCache } from './address-cache';
+import Memoizer from './cache';
+
+describe('address cache', () => {
+  const address = '0x000000000000000000000000000000000000dEaD';
+
+  const createProvider = (chainId: number) => ({ getNetwork: async () => ({ chainId }) } as any);
+
+  it('should share facts between tokens of the same chain', async () => {
+    const memoizer = new Memoizer();
+    const cache = new AddressCache(memoizer, createProvider(1));
+    const otherChainCache = new AddressCache(memoizer, createProvider(56));
+    const queryFn = jest.fn(async () => '0x');
+
+    await cache.query('getCode', address, queryFn);
+    // Token scopes are deleted when tokens are finalized
+    memoizer.deleteScope(address.toLowerCase());
+    await cache.query('getCode', address.toLowerCase(), queryFn);
+
+    expect(queryFn).toHaveBeenCalledTimes(1);
+
+    await otherChainCache.query('getCode', address, queryFn);
+
+    expect(queryFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire facts according to their TTL', async () => {
+    jest.useFakeTimers({ now: 0 });
+
+    try {
+      const cache = new AddressCache(new Memoizer(), createProvider(1), { honeypot: 1000 });
+      const honeypotFn = jest.fn(async () => ({ isHoneypot: false, metadata: {} }));
+      const codeFn = jest.fn(async () => '0x');
+
+      await cache.query('honeypot', address, honeypotFn);
+      await cache.query('getCode', address, codeFn);
+      jest.setSystemTime(1000);
+      await cache.query('honeypot', address, honeypotFn);
+      await cache.query('getCode', address, codeFn);
+
+      expect(honeypotFn).toHaveBeenCalledTimes(2);
+      expect(codeFn).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should retry the failed queries after a short time', async () => {
+    jest.useFakeTimers({ now: 0 });
+
+    try {
+      const cache = new AddressCache(new Memoizer(), createProvider(1));
+      const codeFn = jest.fn(async () => '0x');
+      codeFn.mockRejectedValueOnce(new Error('Rate limit exceeded'));
+
+      await expect(cache.query('getCode', address, codeFn)).rejects.toThrow('Rate limit exceeded');
+      await expect(cache.query('getCode', address, codeFn)).rejects.toThrow('Rate limit exceeded');
+      jest.setSystemTime(ADDRESS_FACT_ERROR_TTL);
+
+      expect(await cache.query('getCode', address, codeFn)).toStrictEqual('0x');
+      expect(codeFn).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { ethers } from 'ethers';
+
+import Memoizer from './cache';
+
+export type AddressFact = 'honeypot' | 'accountType' | 'getCode';
+
+export type AddressFactTtl = { [fact in AddressFact]: number };
+
+// Facts about an address rarely change, but they still can, e.g. an EOA can become a honeypot over time,
+// and code can be deployed to an address with CREATE2
+export const DEFAULT_ADDRESS_FACT_TTL: AddressFactTtl = {
+  honeypot: 12 * 60 * 60 * 1000, // 12h
+  // EIP-7702 delegation of an EOA can be changed at any time
+  accountType: 24 * 60 * 60 * 1000, // 24h
+  getCode: 24 * 60 * 60 * 1000, // 24h
+};
+
+// Errors are usually caused by the RPC provider, so they are retried soon instead of failing the checks of
+// all tokens for the TTL of the fact
+export const ADDRESS_FACT_ERROR_TTL = 60 * 1000; // 1m
+
+// Facts about addresses shared by all tokens, so that an address that received hundreds of airdrops is checked once.
+// Unlike token scopes, the scope of the chain is not deleted when a token is finalized.
+export class AddressCache {
+  private ttlByFact: AddressFactTtl;
+
+  constructor(
+    private memoizer: Memoizer,
+    private provider: ethers.providers.Provider,
+    ttlByFact: Partial<AddressFactTtl> = {},
+  ) {
+    this.ttlByFact = { ...DEFAULT_ADDRESS_FACT_TTL, ...ttlByFact };
+  }
+
+  async query<T>(fact: AddressFact, address: string, queryFn: () => Promise<T>): Promise<T> {
+    const { chainId } = await this.provider.getNetwork();
+    const memo = this.memoizer.getScope(`addresses:${chainId}`);
+
+    return memo(
+      fact,
+      [address.toLowerCase()],
+      { ttl: this.ttlByFact[fact], errorTtl: ADDRESS_FACT_ERROR_TTL },
+      queryFn,
+    );
+  }
+}
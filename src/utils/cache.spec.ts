@@ -0,0 +1,170 @@
+import { BigNumber } from 'ethers';
+import { sortBy } from 'lodash';
+
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+
+import Memoizer, { LruCacheBackend } from './cache';
+import { SqliteCacheBackend } from './sqlite-cache';
+
+describe('memoizer', () => {
+  it('should export and import plain results', async () => {
+    const memoizer = new Memoizer();
+    const memo = memoizer.getScope('0x1');
+
+    await memo('getCode', ['0x2'], async () => '0x6080');
+    await memo('honeypot', ['0x3'], async () => ({
+      isHoneypot: true,
+      metadata: { tags: ['ens'] },
+    }));
+    await memo('tokenIdSet', () => new Set([1, 2]));
+    await memo('totalSupply', async () => BigNumber.from(10));
+    await memo('symbol', async () => Promise.reject(new Error('reverted'))).catch(() => null);
+
+    const snapshot = JSON.parse(JSON.stringify(memoizer.export(['0x1'])));
+
+    expect(snapshot['0x1']).toHaveLength(3);
+
+    const restoredMemoizer = new Memoizer();
+    restoredMemoizer.import(snapshot);
+
+    const restoredMemo = restoredMemoizer.getScope('0x1');
+    const queryFn = jest.fn();
+
+    expect(await restoredMemo('getCode', ['0x2'], queryFn)).toStrictEqual('0x6080');
+    expect(await restoredMemo('honeypot', ['0x3'], queryFn)).toStrictEqual({
+      isHoneypot: true,
+      metadata: { tags: ['ens'] },
+    });
+    expect(await restoredMemo('totalSupply', queryFn)).toStrictEqual(BigNumber.from(10));
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it('should not import expired results', async () => {
+    const memoizer = new Memoizer();
+
+    memoizer.import({ '0x1': [['hash', 'value', Date.now() - 1]] });
+
+    expect(memoizer.export(['0x1'])).toStrictEqual({});
+  });
+
+  it('should export selected scopes only', async () => {
+    const memoizer = new Memoizer();
+
+    memoizer.getScope('0x1').set('key', 1);
+    memoizer.getScope('0x2').set('key', 2);
+
+    expect(Object.keys(memoizer.export(['0x2']))).toStrictEqual(['0x2']);
+  });
+
+  it('should evict the least recently used entries', async () => {
+    const memoizer = new Memoizer(new LruCacheBackend({ maxEntries: 2 }));
+    const memo = memoizer.getScope('0x1');
+
+    memo('getCode', ['0x2'], () => '0x');
+    memo('getCode', ['0x3'], () => '0x');
+    memo('getCode', ['0x2'], () => '0x');
+    memo('symbol', () => 'TKN');
+
+    const queryFn = jest.fn(() => '0x');
+    memo('getCode', ['0x2'], queryFn);
+    memo('getCode', ['0x3'], queryFn);
+
+    expect(queryFn).toHaveBeenCalledTimes(1);
+    expect(memoizer.getStats()).toMatchObject({
+      entries: 2,
+      total: { hits: 2, misses: 4, evictions: 2 },
+      byScope: { '0x1': { hits: 2, misses: 4, evictions: 2 } },
+      byQuery: {
+        getCode: { hits: 2, misses: 3, evictions: 1 },
+        symbol: { hits: 0, misses: 1, evictions: 1 },
+      },
+    });
+  });
+
+  it('should bound the cache by the size of the values', async () => {
+    const backend = new LruCacheBackend({ maxBytes: 1000 });
+    const memo = new Memoizer(backend).getScope('0x1');
+
+    for (let i = 0; i < 10; i++) {
+      memo('tokenURI', [i], () => 'a'.repeat(200));
+    }
+
+    expect(backend.size).toStrictEqual(2);
+    expect(backend.bytes).toBeLessThanOrEqual(1000);
+  });
+
+  it('should restore the cache from SQLite after a restart', async () => {
+    const folderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+    const filePath = path.join(folderPath, 'cache.db');
+
+    try {
+      const backend = new SqliteCacheBackend(filePath);
+      await backend.initialize();
+
+      const memoizer = new Memoizer(backend);
+      memoizer.getScope('0x1')('getCode', ['0x2'], () => '0x6080');
+      memoizer.getScope('0x1')('tokenIdSet', () => new Set([1]));
+      memoizer.getScope('0x1')('getBalance', ['0x4'], () => ({ balance: BigNumber.from(5) }));
+      memoizer.getScope('0x2')('symbol', () => 'TKN');
+      memoizer.getScope('0x3')('name', { ttl: 1 }, () => 'Token');
+      memoizer.deleteScope('0x2');
+      await backend.close();
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      const restoredBackend = new SqliteCacheBackend(filePath);
+      await restoredBackend.initialize();
+
+      expect(sortBy(restoredBackend.entries('0x1'), ([key]) => key)).toStrictEqual([
+        [
+          'getBalance.0x4',
+          {
+            value: { balance: BigNumber.from(5) },
+            thrown: false,
+            expiresAt: Infinity,
+            queryKey: 'getBalance',
+          },
+        ],
+        [
+          'getCode.0x2',
+          { value: '0x6080', thrown: false, expiresAt: Infinity, queryKey: 'getCode' },
+        ],
+      ]);
+      expect(restoredBackend.size).toStrictEqual(2);
+
+      await restoredBackend.close();
+    } finally {
+      await fs.promises.rm(folderPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should delete the least recently updated entries from SQLite beyond the limits', async () => {
+    const folderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+    const filePath = path.join(folderPath, 'cache.db');
+
+    try {
+      const backend = new SqliteCacheBackend(filePath, { maxEntries: 2 });
+      await backend.initialize();
+
+      const memoizer = new Memoizer(backend);
+      memoizer.getScope('0x1')('symbol', () => 'A');
+      memoizer.getScope('0x2')('symbol', () => 'B');
+      memoizer.getScope('0x3')('symbol', () => 'C');
+      memoizer.clearExpired();
+      await backend.wait();
+      await backend.close();
+
+      const restoredBackend = new SqliteCacheBackend(filePath);
+      await restoredBackend.initialize();
+
+      expect(restoredBackend.size).toStrictEqual(2);
+      expect(restoredBackend.entries('0x1')).toStrictEqual([]);
+
+      await restoredBackend.close();
+    } finally {
+      await fs.promises.rm(folderPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,79 +1,256 @@
-import { utils } from 'ethers';
+import { BigNumber } from 'ethers';
 
 import Logger from './logger';
 
-interface CacheValue<T> {
+export interface CacheEntry<T = unknown> {
   value: T;
   thrown: boolean;
+  expiresAt: number;
+  // Name of the query without arguments, used to group the metrics
+  queryKey: string;
 }
 
-interface CacheEntry<T> {
-  value: T;
-  expiresAt: number;
+export type CacheCounters = {
+  hits: number;
+  misses: number;
+  evictions: number;
+};
+
+export type CacheStats = {
+  entries: number;
+  bytes: number;
+  total: CacheCounters;
+  byScope: { [scopeKey: string]: CacheCounters };
+  byQuery: { [queryKey: string]: CacheCounters };
+};
+
+// Storage of the memoized results. Reads are synchronous, since memoized values are returned synchronously.
+export interface CacheBackend {
+  readonly size: number;
+  readonly bytes: number;
+  // Returns undefined if the entry is missing or expired
+  get(scopeKey: string, key: string): CacheEntry | undefined;
+  set(scopeKey: string, key: string, entry: CacheEntry): void;
+  entries(scopeKey: string): [string, CacheEntry][];
+  deleteScope(scopeKey: string): void;
+  clearExpired(): void;
+  onEvict?: (scopeKey: string, key: string, entry: CacheEntry) => void;
 }
 
-class Cache<T extends unknown = unknown> {
-  private entryMap = new Map<string, CacheEntry<T>>();
+export type LruCacheOptions = {
+  maxEntries: number;
+  // Approximate size of the values, see estimateSize()
+  maxBytes: number;
+};
+
+export const DEFAULT_LRU_CACHE_OPTIONS: LruCacheOptions = {
+  maxEntries: 250_000,
+  maxBytes: 256 * 1024 * 1024,
+};
+
+// Successful results keyed by scope, then by query. Infinite expiration is stored as null.
+export type MemoizerSnapshot = {
+  [scopeKey: string]: [key: string, value: unknown, expiresAt: number | null, queryKey?: string][];
+};
+
+// Only values that survive the JSON round trip are persisted, e.g. RPC responses, but not Sets or class instances.
+// BigNumbers, e.g. results of getBalance(), are the exception, see serializeValue().
+export const isPlainData = (value: unknown): boolean => {
+  if (value === null) return true;
+  if (['string', 'boolean'].includes(typeof value)) return true;
+  if (typeof value === 'number') return isFinite(value);
+  if (BigNumber.isBigNumber(value)) return true;
+  if (Array.isArray(value)) return value.every(isPlainData);
+  if (typeof value === 'object') {
+    const proto = Object.getPrototypeOf(value);
+    return (
+      (proto === Object.prototype || proto === null) && Object.values(value).every(isPlainData)
+    );
+  }
+  return false;
+};
+
+const isSerializedBigNumber = (
+  value: Record<string, unknown>,
+): value is { type: 'BigNumber'; hex: string } =>
+  value.type === 'BigNumber' && typeof value.hex === 'string' && Object.keys(value).length === 2;
+
+// Replaces BigNumbers of the plain data with their JSON form, the same as BigNumber.toJSON() returns
+export function serializeValue(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) return { type: 'BigNumber', hex: value.toHexString() };
+  if (Array.isArray(value)) return value.map(serializeValue);
+  if (value != null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, serializeValue(v)]));
+  }
+  return value;
+}
 
-  public set(key: string, value: T, ttl: number): void {
-    const expiresAt = Date.now() + ttl;
-    this.entryMap.set(key, { value, expiresAt });
+// Restores BigNumbers of the value read from JSON
+export function deserializeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(deserializeValue);
+  if (value != null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (isSerializedBigNumber(record)) return BigNumber.from(record.hex);
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, deserializeValue(v)]));
   }
+  return value;
+}
 
-  public has(key: string): boolean {
-    if (!this.entryMap.has(key)) return false;
+// Rough estimation of the memory taken by the value, deep enough to bound the cache
+export function estimateSize(value: unknown, depth = 0): number {
+  if (value == null) return 8;
+
+  switch (typeof value) {
+    case 'string':
+      return 2 * value.length;
+    case 'number':
+    case 'boolean':
+      return 8;
+    case 'bigint':
+      return 16;
+    case 'object': {
+      if (depth > 4) return 64;
+      if (value instanceof Error) return 2 * value.message.length + 256;
+
+      const items =
+        value instanceof Set || value instanceof Map || Array.isArray(value)
+          ? [...(value as Iterable<unknown>)]
+          : Object.entries(value);
+      return 32 + items.reduce((sum: number, v) => sum + estimateSize(v, depth + 1), 0);
+    }
+    default:
+      return 64;
+  }
+}
 
-    const entry = this.entryMap.get(key)!;
+type LruItem = { scopeKey: string; key: string; entry: CacheEntry; size: number };
 
-    if (Date.now() < entry.expiresAt) {
-      return true;
-    } else {
-      this.entryMap.delete(key);
-      return false;
+const toCacheKey = (scopeKey: string, key: string) => `${scopeKey}:${key}`;
+
+// In-memory cache bounded by the number of entries and their approximate size.
+// Map preserves the insertion order, so the least recently used entry is the first one.
+export class LruCacheBackend implements CacheBackend {
+  private itemByCacheKey = new Map<string, LruItem>();
+  private cacheKeysByScope = new Map<string, Set<string>>();
+  private totalBytes = 0;
+  private options: LruCacheOptions;
+
+  onEvict?: (scopeKey: string, key: string, entry: CacheEntry) => void;
+
+  constructor(options: Partial<LruCacheOptions> = {}) {
+    this.options = { ...DEFAULT_LRU_CACHE_OPTIONS, ...options };
+  }
+
+  get size() {
+    return this.itemByCacheKey.size;
+  }
+
+  get bytes() {
+    return this.totalBytes;
+  }
+
+  get(scopeKey: string, key: string): CacheEntry | undefined {
+    const cacheKey = toCacheKey(scopeKey, key);
+    const item = this.itemByCacheKey.get(cacheKey);
+
+    if (!item) return;
+
+    if (Date.now() >= item.entry.expiresAt) {
+      this.delete(cacheKey);
+      return;
     }
+
+    // Move to the end as the most recently used
+    this.itemByCacheKey.delete(cacheKey);
+    this.itemByCacheKey.set(cacheKey, item);
+
+    return item.entry;
   }
 
-  public get(key: string): T | undefined {
-    const entry = this.entryMap.get(key);
+  set(scopeKey: string, key: string, entry: CacheEntry): void {
+    const cacheKey = toCacheKey(scopeKey, key);
 
-    if (!entry) return;
+    this.delete(cacheKey);
 
-    if (Date.now() < entry.expiresAt) {
-      return entry.value;
-    } else {
-      this.entryMap.delete(key);
+    const size = estimateSize(key) + estimateSize(entry.value);
+    this.itemByCacheKey.set(cacheKey, { scopeKey, key, entry, size });
+    this.totalBytes += size;
+
+    let cacheKeys = this.cacheKeysByScope.get(scopeKey);
+    if (!cacheKeys) {
+      cacheKeys = new Set();
+      this.cacheKeysByScope.set(scopeKey, cacheKeys);
     }
+    cacheKeys.add(cacheKey);
+
+    this.evict();
   }
 
-  // A special function to use with has()
-  public unsafeGet(key: string): T {
-    return this.entryMap.get(key)!.value as T;
+  entries(scopeKey: string): [string, CacheEntry][] {
+    const cacheKeys = this.cacheKeysByScope.get(scopeKey) || [];
+    return [...cacheKeys].map((cacheKey) => {
+      const { key, entry } = this.itemByCacheKey.get(cacheKey)!;
+      return [key, entry];
+    });
   }
 
-  public clearExpired(): void {
+  deleteScope(scopeKey: string): void {
+    for (const cacheKey of this.cacheKeysByScope.get(scopeKey) || []) {
+      this.delete(cacheKey);
+    }
+  }
+
+  clearExpired(): void {
     const now = Date.now();
-    this.entryMap.forEach((value, key) => {
-      if (value.expiresAt < now) {
-        this.entryMap.delete(key);
-      }
-    });
+    for (const [cacheKey, item] of this.itemByCacheKey) {
+      if (now >= item.entry.expiresAt) this.delete(cacheKey);
+    }
+  }
+
+  private evict() {
+    const { maxEntries, maxBytes } = this.options;
+
+    // The last entry is never evicted, even if it exceeds the limit itself
+    while (this.itemByCacheKey.size > 1 && (this.size > maxEntries || this.bytes > maxBytes)) {
+      const [cacheKey, item] = this.itemByCacheKey.entries().next().value as [string, LruItem];
+      this.delete(cacheKey);
+      this.onEvict?.(item.scopeKey, item.key, item.entry);
+    }
+  }
+
+  private delete(cacheKey: string) {
+    const item = this.itemByCacheKey.get(cacheKey);
+    if (!item) return;
+
+    this.itemByCacheKey.delete(cacheKey);
+    this.totalBytes -= item.size;
+
+    const cacheKeys = this.cacheKeysByScope.get(item.scopeKey)!;
+    cacheKeys.delete(cacheKey);
+    if (cacheKeys.size === 0) this.cacheKeysByScope.delete(item.scopeKey);
   }
 }
 
-type QueryOpts = { ttl: number };
+type QueryOpts = {
+  ttl: number;
+  // TTL of the thrown errors, the same as the TTL of the results by default
+  errorTtl?: number;
+};
 type QueryArgument = number | string;
 
-class Memoizer {
-  protected scopeByKey = new Map<string, Cache<CacheValue<unknown>>>();
+const createCounters = (): CacheCounters => ({ hits: 0, misses: 0, evictions: 0 });
 
-  getScope(scopeKey = '') {
-    let scope = this.scopeByKey.get(scopeKey);
+class Memoizer {
+  private countersByScope = new Map<string, CacheCounters>();
+  private countersByQuery = new Map<string, CacheCounters>();
+  private totalCounters = createCounters();
 
-    if (!scope) {
-      scope = new Cache();
-      this.scopeByKey.set(scopeKey, scope);
-    }
+  constructor(protected backend: CacheBackend = new LruCacheBackend()) {
+    this.backend.onEvict = (scopeKey, key, entry) =>
+      this.count(scopeKey, entry.queryKey, 'evictions');
+  }
 
+  getScope(scopeKey = '') {
     const memoFn = this.bindQuery(scopeKey);
 
     type ScopeInstance = typeof memoFn & {
@@ -90,7 +267,65 @@ class Memoizer {
   }
 
   deleteScope(key = '') {
-    this.scopeByKey.delete(key);
+    this.backend.deleteScope(key);
+    this.countersByScope.delete(key);
+  }
+
+  clearExpired() {
+    this.backend.clearExpired();
+  }
+
+  getStats(): CacheStats {
+    return {
+      entries: this.backend.size,
+      bytes: this.backend.bytes,
+      total: { ...this.totalCounters },
+      byScope: Object.fromEntries(
+        [...this.countersByScope].map(([key, counters]) => [key, { ...counters }]),
+      ),
+      byQuery: Object.fromEntries(
+        [...this.countersByQuery].map(([key, counters]) => [key, { ...counters }]),
+      ),
+    };
+  }
+
+  // Returns the memoized results that can be restored after a restart. Errors are not persisted as they may be transient.
+  export(scopeKeys: Iterable<string>): MemoizerSnapshot {
+    const snapshot: MemoizerSnapshot = {};
+    const now = Date.now();
+
+    for (const scopeKey of scopeKeys) {
+      const entries = this.backend
+        .entries(scopeKey)
+        .filter(([, e]) => e.expiresAt > now && !e.thrown && isPlainData(e.value))
+        .map(([key, e]): MemoizerSnapshot[string][number] => [
+          key,
+          serializeValue(e.value),
+          isFinite(e.expiresAt) ? e.expiresAt : null,
+          e.queryKey,
+        ]);
+
+      if (entries.length > 0) snapshot[scopeKey] = entries;
+    }
+
+    return snapshot;
+  }
+
+  import(snapshot: MemoizerSnapshot) {
+    const now = Date.now();
+
+    for (const [scopeKey, entries] of Object.entries(snapshot)) {
+      for (const [key, value, expiresAt, queryKey = key] of entries) {
+        if (expiresAt != null && expiresAt <= now) continue;
+
+        this.backend.set(scopeKey, key, {
+          value: deserializeValue(value),
+          thrown: false,
+          expiresAt: expiresAt ?? Infinity,
+          queryKey,
+        });
+      }
+    }
   }
 
   bindQuery(scopeKey: string) {
@@ -121,7 +356,7 @@ class Memoizer {
     let scopeKey: string;
     let queryKey: string;
     let queryArgs: TArgs = [] as any as TArgs;
-    let opts: { ttl: number } = { ttl: Infinity };
+    let opts: QueryOpts = { ttl: Infinity };
     let queryFn: () => TResult;
 
     if (args.length === 3) {
@@ -147,54 +382,83 @@ class Memoizer {
       throw new Error("Number of arguments doesn't match the function signature");
     }
 
-    const { ttl } = opts;
-    const scope = this.scopeByKey.get(scopeKey);
-
-    if (!scope) throw new Error(`Scope hasn't been initialized`);
-
+    const { ttl, errorTtl = ttl } = opts;
     const key = [queryKey, ...queryArgs].join('.');
-    const hash = utils.keccak256(utils.defaultAbiCoder.encode(['string'], [key])).slice(2);
 
-    Logger.trace(`Querying key: ${key} (${hash.slice(0, 10)}...)`);
+    Logger.trace(`Querying key: ${key}`);
 
     // undefined is also a valid value
-    if (scope.has(hash)) {
-      const result = scope.unsafeGet(hash);
-      if (result.thrown) {
-        throw result.value;
+    const entry = this.backend.get(scopeKey, key);
+    if (entry) {
+      this.count(scopeKey, queryKey, 'hits');
+      if (entry.thrown) {
+        throw entry.value;
       } else {
-        return result.value as TResult;
+        return entry.value as TResult;
       }
     }
 
+    this.count(scopeKey, queryKey, 'misses');
+
+    const save = (value: unknown, thrown: boolean) =>
+      this.backend.set(scopeKey, key, {
+        value,
+        thrown,
+        expiresAt: Date.now() + (thrown ? errorTtl : ttl),
+        queryKey,
+      });
+
     try {
       const result = queryFn();
       if (!(result instanceof Promise)) {
-        scope.set(hash, { value: result, thrown: false }, ttl);
+        save(result, false);
         return result as TResult;
       }
 
       return result
         .then((result) => {
-          scope.set(hash, { value: result, thrown: false }, ttl);
+          save(result, false);
           return result;
         })
         .catch((e) => {
-          scope.set(hash, { value: e, thrown: true }, ttl);
+          save(e, true);
           return Promise.reject(e);
         }) as TResult;
     } catch (e) {
-      scope.set(hash, { value: e, thrown: true }, ttl);
+      save(e, true);
       throw e;
     }
   }
 
   protected get<P>(scopeKey: string, key: string) {
-    return this.scopeByKey.get(scopeKey)!.get(key)?.value as P | undefined;
+    const entry = this.backend.get(scopeKey, key);
+    this.count(scopeKey, key, entry ? 'hits' : 'misses');
+    return entry?.value as P | undefined;
   }
 
   protected set<P>(scopeKey: string, key: string, value: P, ttl = Infinity): void {
-    this.scopeByKey.get(scopeKey)!.set(key, { value, thrown: false }, ttl);
+    this.backend.set(scopeKey, key, {
+      value,
+      thrown: false,
+      expiresAt: Date.now() + ttl,
+      queryKey: key,
+    });
+  }
+
+  private count(scopeKey: string, queryKey: string, counter: keyof CacheCounters) {
+    this.totalCounters[counter]++;
+
+    for (const [map, key] of [
+      [this.countersByScope, scopeKey],
+      [this.countersByQuery, queryKey],
+    ] as const) {
+      let counters = map.get(key);
+      if (!counters) {
+        counters = createCounters();
+        map.set(key, counters);
+      }
+      counters[counter]++;
+    }
   }
 }
 
@@ -1,11 +1,10 @@
 import { Finding, HandleBlock, HandleTransaction, TransactionEvent } from 'forta-agent';
 import { Contract, ethers, providers, utils } from 'ethers';
-import { queue } from 'async';
 import urlRegex from 'url-regex-safe';
 import parseUrl from 'parse-url';
 
 import Logger from './logger';
-import { CreatedContract, TokenStandard } from '../types';
+import { CreatedContract, SimplifiedTransaction, TokenStandard } from '../types';
 import {
   BURN_ADDRESSES,
   erc1155Iface,
@@ -20,6 +19,11 @@ export function isBurnAddress(address: string) {
   return BURN_ADDRESSES.has(address.toLowerCase()) || address.indexOf('00000000000000') > -1;
 }
 
+// Account that has actually interacted with the token in the transaction
+export function getInitiator(transaction: SimplifiedTransaction) {
+  return transaction.initiator || transaction.from;
+}
+
 export function findCreatedContracts(txEvent: TransactionEvent): CreatedContract[] {
   const createdContracts: CreatedContract[] = [];
 
@@ -201,41 +205,6 @@ export async function identifyTokenInterface(
   return null;
 }
 
-export async function isAccountAbstraction(address: string, provider: providers.Provider) {
-  try {
-    // gnosis iface
-    const iface = new ethers.utils.Interface([
-      {
-        inputs: [],
-        name: 'getOwners',
-        outputs: [{ internalType: 'address[]', name: '', type: 'address[]' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-      {
-        inputs: [{ internalType: 'address', name: 'owner', type: 'address' }],
-        name: 'isOwner',
-        outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ]);
-
-    const contract = new ethers.Contract(address, iface, provider);
-
-    // Gnosis-like contract
-    const owners = await contract.getOwners();
-    await contract.isOwner(owners[0] || ethers.constants.AddressZero);
-
-    return true;
-  } catch {}
-
-  // EIP-4337 is still in draft
-  // https://eips.ethereum.org/EIPS/eip-4337
-
-  return false;
-}
-
 export const delay = (ms: number): Promise<unknown> => new Promise((res) => setTimeout(res, ms));
 
 export async function retry<T>(
@@ -337,84 +306,6 @@ export function isCid(str: string) {
   );
 }
 
-export type ProvidersQueueResult<P, T> = {
-  running: () => number;
-  finish: () => Promise<void>;
-  kill: () => void;
-  push: (task: P) => Promise<void>;
-};
-
-export function providersQueue<P, T>(
-  handle: (task: P, provider: T) => Promise<unknown>,
-  providers: T[],
-): ProvidersQueueResult<P, T> {
-  if (!providers.length) throw new Error('No providers');
-
-  let counter = 0;
-  let goodProviders = [...providers];
-  let availableProviders = [...providers];
-  let unfinishedTasks: P[] = [];
-
-  const queueObject = queue<{
-    task: P;
-    provider: T;
-  }>((task, callback) => {
-    retry(() => handle(task.task, task.provider), { wait: 30 * 1000, attempts: 3 })
-      .then(() => callback())
-      .catch((e) => callback(e));
-  }, providers.length);
-
-  async function push(task: P) {
-    unfinishedTasks = [...unfinishedTasks, task];
-
-    let provider: T;
-
-    // wait until provider is released
-    while (true) {
-      if (goodProviders.length === 0) {
-        throw new Error('No good providers any more');
-      }
-
-      provider = availableProviders[counter % availableProviders.length];
-      availableProviders = availableProviders.filter((p) => p !== provider);
-      if (provider) {
-        counter++;
-        break;
-      }
-      await delay(5);
-    }
-
-    queueObject.push({ task, provider }, (err) => {
-      if (err) {
-        console.error('Excluding provider due to max number of attempts', err);
-        goodProviders = goodProviders.filter((p) => p !== provider);
-        availableProviders = availableProviders.filter((p) => p !== provider);
-        queueObject.concurrency = goodProviders.length;
-      } else {
-        availableProviders.push(provider);
-        unfinishedTasks = unfinishedTasks.filter((t) => t !== task);
-      }
-    });
-  }
-
-  async function finish() {
-    if (queueObject.running()) {
-      await queueObject.drain();
-    }
-
-    while (unfinishedTasks.length > 0) {
-      await delay(500);
-    }
-  }
-
-  return {
-    push: push,
-    finish: finish,
-    kill: () => queueObject.kill(),
-    running: () => queueObject.running(),
-  };
-}
-
 export function combine(...fns: (HandleTransaction | HandleBlock)[]) {
   return async (payload: any) => {
     const findings: Finding[] = [];
@@ -1,16 +1,15 @@
 import axios from 'axios';
-import { BigNumber, ethers } from 'ethers';
+import { ethers } from 'ethers';
 import { Network } from 'forta-agent';
 import { Mutex } from 'async-mutex';
 
 import { JsonStorage } from './storage';
 import Logger from './logger';
 import { retry } from './helpers';
-import { PUBLIC_RPC_URLS_BY_NETWORK } from '../contants';
-
-const PUBLIC_ENS_PROVIDER = new ethers.providers.JsonRpcBatchProvider(
-  PUBLIC_RPC_URLS_BY_NETWORK[Network.MAINNET][0],
-);
+import { getPublicRpcPool } from './rpc-pool';
+import { PriceOracle } from './prices';
+import { PortfolioChecker } from './portfolio';
+import { MulticallBatcher } from './multicall';
 
 type EnsLeader = {
   ens: string; // e.g. "vitalik.eth"
@@ -26,10 +25,19 @@ export type HoneypotAnalysisMetadata = {
   HighBalance?: {
     detected: boolean;
     balance: string;
+    usd: number;
   };
   VeryHighBalance?: {
     detected: boolean;
     balance: string;
+    usd: number;
+  };
+  // Native balance, blue-chip tokens and NFTs
+  ValuablePortfolio?: {
+    detected: boolean;
+    usd: number;
+    tokenShortList: { symbol: string; usd: number }[];
+    nftCollectionShortList: { name: string; usd: number }[];
   };
   EnsRegistered?: {
     detected: boolean;
@@ -65,7 +73,10 @@ export class EnsLeaderBoard {
 
   private mutex = new Mutex();
 
-  constructor(private storage: JsonStorage<EnsLeaderBoardCache>) {}
+  constructor(
+    private storage: JsonStorage<EnsLeaderBoardCache>,
+    private updateInterval: number = EnsLeaderBoard.UPDATE_INTERVAL,
+  ) {}
 
   async get(name: string) {
     return this.mutex.runExclusive(async () => {
@@ -78,7 +89,7 @@ export class EnsLeaderBoard {
         }
       }
 
-      if (this.updatedAt + EnsLeaderBoard.UPDATE_INTERVAL < Date.now()) {
+      if (this.updatedAt + this.updateInterval < Date.now()) {
         await this.update();
         this.updatedAt = Date.now();
         await this.storage.write({
@@ -138,21 +149,17 @@ export class EnsLeaderBoard {
 
 class HoneyPotChecker {
   static VERY_HIGH_MULTIPLIER = 10;
-
-  private providerCounter = 0;
+  static HIGH_BALANCE_USD = 2000;
+  static SHORT_LIST_LENGTH = 5;
 
   constructor(
     private leaderboard: EnsLeaderBoard,
     private honeypotSet: Set<string>,
-    private highBalanceByChainId: { [network: string]: BigNumber } = {
-      [Network.MAINNET]: ethers.utils.parseUnits('1.5'),
-      [Network.BSC]: ethers.utils.parseUnits('6'),
-      [Network.POLYGON]: ethers.utils.parseUnits('2000'),
-      [Network.FANTOM]: ethers.utils.parseUnits('4600'),
-      [Network.ARBITRUM]: ethers.utils.parseUnits('1.5'), // ETH
-      [Network.AVALANCHE]: ethers.utils.parseUnits('118'),
-      [Network.OPTIMISM]: ethers.utils.parseUnits('1.5'), // ETH
-    },
+    private priceOracle: PriceOracle,
+    // Portfolio is not checked if not specified
+    private portfolioChecker?: PortfolioChecker | null,
+    // The same threshold applies to all chains, since native balances are converted to USD
+    private highBalanceUsd: number = HoneyPotChecker.HIGH_BALANCE_USD,
     private cexNonceByChainId: { [chain: number]: number } = {
       [0]: 400_000, // default
       [Network.MAINNET]: 50_000,
@@ -163,19 +170,20 @@ class HoneyPotChecker {
     address: string,
     provider: ethers.providers.Provider,
     blockNumber?: number,
+    multicall?: MulticallBatcher,
   ): Promise<HoneypotAnalysisResult> {
     // In the context of this bot,
     // Honeypot is an EOA or a contract address with a good reputation in the web3, e.g. vitalik.eth.
 
     // The determination is made by the following indicators:
     // 1. Hardcoded addresses
-    // 2. High native token balance
+    // 2. High native token balance (in USD)
     // 3. ENS record
     // 4. Twitter followers
+    // 5. Value of blue-chip ERC-20 tokens and NFT collections (optional)
 
     // TODO
-    // 5. Check if a well-known contract
-    // 6. Large or highly-priced NFT collections
+    // 6. Check if a well-known contract
     // 7. Frequently airdropped account
 
     const metadata = {} as HoneypotAnalysisMetadata;
@@ -190,23 +198,47 @@ class HoneyPotChecker {
     }
 
     const network = await retry(() => provider.getNetwork());
-    const balance = await retry(() => provider.getBalance(address, blockNumber));
+    const balance = await retry(() =>
+      multicall
+        ? multicall.getEthBalance(address, blockNumber)
+        : provider.getBalance(address, blockNumber),
+    );
 
-    if (!this.highBalanceByChainId[network.chainId])
-      throw new Error('Network is not supported yet: ' + network.chainId);
+    const usd = await this.priceOracle.getUsdValue(network.chainId, balance);
 
     metadata['HighBalance'] = {
-      detected: balance.gt(this.highBalanceByChainId[network.chainId]),
+      detected: usd > this.highBalanceUsd,
       balance: ethers.utils.formatEther(balance),
+      usd: usd,
     };
 
     metadata['VeryHighBalance'] = {
-      detected: balance.gt(
-        this.highBalanceByChainId[network.chainId].mul(HoneyPotChecker.VERY_HIGH_MULTIPLIER),
-      ),
+      detected: usd > this.highBalanceUsd * HoneyPotChecker.VERY_HIGH_MULTIPLIER,
       balance: ethers.utils.formatEther(balance),
+      usd: usd,
     };
 
+    if (this.portfolioChecker) {
+      const portfolio = await this.portfolioChecker.getPortfolio(
+        address,
+        network.chainId,
+        provider,
+        blockNumber,
+      );
+      const portfolioUsd = usd + portfolio.usd;
+
+      metadata['ValuablePortfolio'] = {
+        detected: portfolioUsd > this.highBalanceUsd * HoneyPotChecker.VERY_HIGH_MULTIPLIER,
+        usd: portfolioUsd,
+        tokenShortList: portfolio.tokens
+          .slice(0, HoneyPotChecker.SHORT_LIST_LENGTH)
+          .map((t) => ({ symbol: t.symbol, usd: t.usd })),
+        nftCollectionShortList: portfolio.nftCollections
+          .slice(0, HoneyPotChecker.SHORT_LIST_LENGTH)
+          .map((c) => ({ name: c.name, usd: c.usd })),
+      };
+    }
+
     const nonce = await retry(() => provider.getTransactionCount(address));
 
     const cexNonce = this.cexNonceByChainId[network.chainId] || this.cexNonceByChainId[0];
@@ -218,11 +250,7 @@ class HoneyPotChecker {
 
     let ensProvider: ethers.providers.Provider = provider;
     if (network.chainId !== Network.MAINNET) {
-      ensProvider = new ethers.providers.JsonRpcProvider(
-        PUBLIC_RPC_URLS_BY_NETWORK[Network.MAINNET][
-          this.providerCounter % PUBLIC_RPC_URLS_BY_NETWORK[Network.MAINNET].length
-        ],
-      );
+      ensProvider = getPublicRpcPool(Network.MAINNET);
     }
 
     const name = await retry(() => ensProvider.lookupAddress(address));
@@ -250,6 +278,7 @@ class HoneyPotChecker {
         metadata['CEX']?.detected ||
         metadata['HardCodedAccount'].detected ||
         metadata['VeryHighBalance']?.detected ||
+        metadata['ValuablePortfolio']?.detected ||
         (metadata['HighBalance']?.detected && metadata['EnsRegistered']?.detected) ||
         metadata['ManyTwitterFollowers']?.detected,
       metadata: metadata,
@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+
+import {
+  callOneByOne,
+  MAX_CONCURRENT_CALLS,
+  MULTICALL3_ADDRESS,
+  multicall3Iface,
+  MulticallBatcher,
+} from './multicall';
+import { erc721Iface } from '../contants';
+
+describe('multicall batcher', () => {
+  const token = '0x0000000000000000000000000000000000000001';
+  const account = '0x000000000000000000000000000000000000dEaD';
+  const deploymentBlock = 100;
+
+  const callToken = (data: string) => {
+    const { name, args } = erc721Iface.parseTransaction({ data });
+    if (name === 'ownerOf') return erc721Iface.encodeFunctionResult('ownerOf', [account]);
+    if (name === 'tokenURI' && args[0].lt(10)) {
+      return erc721Iface.encodeFunctionResult('tokenURI', [`ipfs://${args[0]}`]);
+    }
+    throw new Error('execution reverted');
+  };
+
+  const createProvider = () => ({
+    getBalance: jest.fn(async () => ethers.BigNumber.from(2)),
+    call: jest.fn(async ({ to, data }: { to: string; data: string }, blockTag: number) => {
+      if (to !== MULTICALL3_ADDRESS) return callToken(data);
+      if (blockTag <= deploymentBlock) return '0x';
+
+      const [, calls] = multicall3Iface.decodeFunctionData('tryAggregate', data);
+      return multicall3Iface.encodeFunctionResult('tryAggregate', [
+        calls.map((c: { target: string; callData: string }) => {
+          if (c.target.toLowerCase() === MULTICALL3_ADDRESS) {
+            return {
+              success: true,
+              returnData: multicall3Iface.encodeFunctionResult('getEthBalance', [1]),
+            };
+          }
+          try {
+            return { success: true, returnData: callToken(c.callData) };
+          } catch {
+            return { success: false, returnData: '0x' };
+          }
+        }),
+      ]);
+    }),
+  });
+
+  it('should aggregate concurrent calls', async () => {
+    const provider = createProvider();
+    const multicall = new MulticallBatcher(provider as any);
+
+    const [owner, uri, balance, failedUri] = await Promise.allSettled([
+      multicall.call<string>(token, erc721Iface, 'ownerOf', [1], 200),
+      multicall.call<string>(token, erc721Iface, 'tokenURI', [1], 200),
+      multicall.getEthBalance(account, 200),
+      multicall.call<string>(token, erc721Iface, 'tokenURI', [10], 200),
+    ]);
+
+    expect(owner).toEqual({ status: 'fulfilled', value: account });
+    expect(uri).toEqual({ status: 'fulfilled', value: 'ipfs://1' });
+    expect(balance).toEqual({ status: 'fulfilled', value: ethers.BigNumber.from(1) });
+    expect(failedUri.status).toBe('rejected');
+    expect(provider.call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should make calls one by one if Multicall3 is not deployed at the block', async () => {
+    const provider = createProvider();
+    const multicall = new MulticallBatcher(provider as any);
+
+    const query = (blockNumber: number) =>
+      Promise.all([
+        multicall.call<string>(token, erc721Iface, 'tokenURI', [1], blockNumber),
+        multicall.getEthBalance(account, blockNumber),
+      ]);
+
+    await expect(query(deploymentBlock)).resolves.toEqual(['ipfs://1', ethers.BigNumber.from(2)]);
+    // 1 failed multicall and 1 single call
+    expect(provider.call).toHaveBeenCalledTimes(2);
+    expect(provider.getBalance).toHaveBeenCalledTimes(1);
+
+    // Multicall3 is not tried again for earlier blocks
+    await query(deploymentBlock - 1);
+    expect(provider.call).toHaveBeenCalledTimes(3);
+
+    await expect(query(deploymentBlock + 1)).resolves.toEqual([
+      'ipfs://1',
+      ethers.BigNumber.from(1),
+    ]);
+    expect(provider.call).toHaveBeenCalledTimes(4);
+  });
+
+  it('should limit the number of concurrent calls made one by one', async () => {
+    const provider = createProvider();
+    let activeCalls = 0;
+    let maxActiveCalls = 0;
+
+    provider.call.mockImplementation(async ({ data }: { data: string }) => {
+      maxActiveCalls = Math.max(maxActiveCalls, ++activeCalls);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      activeCalls--;
+      return callToken(data);
+    });
+
+    const calls = Array.from({ length: MAX_CONCURRENT_CALLS * 3 }, (_, i) => ({
+      target: token,
+      iface: erc721Iface,
+      method: 'tokenURI',
+      args: [i % 10],
+    }));
+    const results = await callOneByOne(provider as any, calls, deploymentBlock);
+
+    expect(results.map((r) => r?.[0])).toEqual(calls.map((c) => `ipfs://${c.args[0]}`));
+    expect(maxActiveCalls).toBe(MAX_CONCURRENT_CALLS);
+  });
+});
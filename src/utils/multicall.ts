@@ -0,0 +1,231 @@
+import { BigNumber, ethers } from 'ethers';
+import { chunk } from 'lodash';
+
+import Logger from './logger';
+
+// https://github.com/mds1/multicall
+export const MULTICALL3_ADDRESS = '0xca11bde05977b3631167028862be2a173976ca11';
+
+export const multicall3Iface = new ethers.utils.Interface([
+  'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getEthBalance(address addr) view returns (uint256 balance)',
+]);
+
+// Calls made at once if Multicall3 is not available, so as not to flood the RPC endpoints
+export const MAX_CONCURRENT_CALLS = 10;
+
+export type ContractCall = {
+  target: string;
+  iface: ethers.utils.Interface;
+  method: string;
+  args: unknown[];
+  // Used instead of the call if Multicall3 is not available, e.g. to get the balance with eth_getBalance
+  fallback?: () => Promise<ethers.utils.Result>;
+};
+
+// Results of the failed calls are null
+export type ContractCallResult = ethers.utils.Result | null;
+
+function decodeResult(call: ContractCall, data: string): ContractCallResult {
+  try {
+    return call.iface.decodeFunctionResult(call.method, data);
+  } catch {
+    return null;
+  }
+}
+
+// Returns null if Multicall3 is not deployed on the chain or at the block
+export async function aggregate(
+  provider: ethers.providers.Provider,
+  calls: ContractCall[],
+  blockTag?: ethers.providers.BlockTag,
+): Promise<ContractCallResult[] | null> {
+  const data = await provider.call(
+    {
+      to: MULTICALL3_ADDRESS,
+      data: multicall3Iface.encodeFunctionData('tryAggregate', [
+        false,
+        calls.map((c) => ({
+          target: c.target,
+          callData: c.iface.encodeFunctionData(c.method, c.args),
+        })),
+      ]),
+    },
+    blockTag,
+  );
+
+  // Calling an address without code succeeds with empty data
+  if (data === '0x') return null;
+
+  const [results] = multicall3Iface.decodeFunctionResult('tryAggregate', data);
+
+  return results.map((r: { success: boolean; returnData: string }, i: number) =>
+    r.success ? decodeResult(calls[i], r.returnData) : null,
+  );
+}
+
+export async function callOneByOne(
+  provider: ethers.providers.Provider,
+  calls: ContractCall[],
+  blockTag?: ethers.providers.BlockTag,
+): Promise<ContractCallResult[]> {
+  const results: ContractCallResult[] = [];
+
+  for (const batch of chunk(calls, MAX_CONCURRENT_CALLS)) {
+    const batchResults = await Promise.all(
+      batch.map(async (call) => {
+        try {
+          if (call.fallback) return await call.fallback();
+
+          const data = call.iface.encodeFunctionData(call.method, call.args);
+          return decodeResult(call, await provider.call({ to: call.target, data }, blockTag));
+        } catch {
+          return null;
+        }
+      }),
+    );
+    results.push(...batchResults);
+  }
+
+  return results;
+}
+
+// Calls are aggregated through Multicall3. If it's not available, the calls are made one by one.
+export async function tryAggregate(
+  provider: ethers.providers.Provider,
+  calls: ContractCall[],
+  blockTag?: ethers.providers.BlockTag,
+): Promise<ContractCallResult[]> {
+  if (calls.length === 0) return [];
+
+  try {
+    const results = await aggregate(provider, calls, blockTag);
+    if (results) return results;
+  } catch (e) {
+    Logger.trace(e, 'Multicall3 call failed');
+  }
+
+  return callOneByOne(provider, calls, blockTag);
+}
+
+type PendingCall = {
+  call: ContractCall;
+  resolve: (result: ContractCallResult) => void;
+};
+
+// Collects calls made within a short period of time and sends them as one Multicall3 call per block,
+// similar to JsonRpcBatchProvider. If Multicall3 is not deployed on the chain or at the block,
+// the calls are made one by one, and the batcher remembers it so as not to try again.
+export class MulticallBatcher {
+  static BATCH_DELAY = 10; // ms
+  static MAX_BATCH_SIZE = 500;
+
+  private pendingCallsByBlockTag = new Map<ethers.providers.BlockTag, PendingCall[]>();
+  private timer: NodeJS.Timeout | null = null;
+  private isDeployed = true;
+  // Multicall3 has not been deployed at this and earlier blocks
+  private missingUntilBlock = -1;
+
+  constructor(
+    private provider: ethers.providers.Provider,
+    private maxBatchSize: number = MulticallBatcher.MAX_BATCH_SIZE,
+  ) {}
+
+  // Behaves like a call of ethers.Contract, i.e. returns the first output and throws if the call fails
+  async call<T>(
+    target: string,
+    iface: ethers.utils.Interface,
+    method: string,
+    args: unknown[],
+    blockTag: ethers.providers.BlockTag = 'latest',
+  ): Promise<T> {
+    return this.request<T>({ target, iface, method, args }, blockTag);
+  }
+
+  async getEthBalance(
+    address: string,
+    blockTag: ethers.providers.BlockTag = 'latest',
+  ): Promise<BigNumber> {
+    return this.request<BigNumber>(
+      {
+        target: MULTICALL3_ADDRESS,
+        iface: multicall3Iface,
+        method: 'getEthBalance',
+        args: [address],
+        fallback: async () => [await this.provider.getBalance(address, blockTag)],
+      },
+      blockTag,
+    );
+  }
+
+  private async request<T>(call: ContractCall, blockTag: ethers.providers.BlockTag): Promise<T> {
+    const result = await this.enqueue(call, blockTag);
+
+    if (!result) {
+      throw new Error(`Call failed: ${call.method}(${call.args.join(', ')}) on ${call.target}`);
+    }
+
+    return result[0];
+  }
+
+  private enqueue(call: ContractCall, blockTag: ethers.providers.BlockTag) {
+    return new Promise<ContractCallResult>((resolve) => {
+      const pendingCalls = this.pendingCallsByBlockTag.get(blockTag) || [];
+      pendingCalls.push({ call, resolve });
+      this.pendingCallsByBlockTag.set(blockTag, pendingCalls);
+
+      if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), MulticallBatcher.BATCH_DELAY);
+      }
+    });
+  }
+
+  private flush() {
+    this.timer = null;
+
+    const pendingCallsByBlockTag = this.pendingCallsByBlockTag;
+    this.pendingCallsByBlockTag = new Map();
+
+    for (const [blockTag, pendingCalls] of pendingCallsByBlockTag) {
+      for (let i = 0; i < pendingCalls.length; i += this.maxBatchSize) {
+        this.execute(pendingCalls.slice(i, i + this.maxBatchSize), blockTag);
+      }
+    }
+  }
+
+  private async execute(pendingCalls: PendingCall[], blockTag: ethers.providers.BlockTag) {
+    const calls = pendingCalls.map((c) => c.call);
+
+    let results: ContractCallResult[] | null = null;
+
+    if (this.isAvailable(blockTag)) {
+      try {
+        results = await aggregate(this.provider, calls, blockTag);
+        if (!results) this.markMissing(blockTag);
+      } catch (e) {
+        Logger.trace(e, 'Multicall3 call failed');
+      }
+    }
+
+    if (!results) {
+      results = await callOneByOne(this.provider, calls, blockTag);
+    }
+
+    pendingCalls.forEach((c, i) => c.resolve(results![i]));
+  }
+
+  private isAvailable(blockTag: ethers.providers.BlockTag) {
+    if (!this.isDeployed) return false;
+    if (typeof blockTag === 'number') return blockTag > this.missingUntilBlock;
+
+    return true;
+  }
+
+  private markMissing(blockTag: ethers.providers.BlockTag) {
+    if (typeof blockTag === 'number') {
+      this.missingUntilBlock = Math.max(this.missingUntilBlock, blockTag);
+    } else {
+      this.isDeployed = false;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { ethers } from 'ethers';
+import { Network } from 'forta-agent';
+
+import { PortfolioChecker } from './portfolio';
+import { MULTICALL3_ADDRESS, multicall3Iface } from './multicall';
+import { erc20Iface } from '../contants';
+
+describe('portfolio checker', () => {
+  const account = '0x000000000000000000000000000000000000dEaD';
+  const usdt = '0x0000000000000000000000000000000000000001';
+  const weth = '0x0000000000000000000000000000000000000002';
+  const nft1 = '0x0000000000000000000000000000000000000003';
+  const nft2 = '0x0000000000000000000000000000000000000004';
+  const nft3 = '0x0000000000000000000000000000000000000006';
+  const nft4 = '0x0000000000000000000000000000000000000007';
+  const nft5 = '0x0000000000000000000000000000000000000008';
+
+  const balanceByToken: { [token: string]: ethers.BigNumber } = {
+    [usdt]: ethers.utils.parseUnits('1500', 6),
+    [weth]: ethers.utils.parseUnits('2'),
+    [nft1]: ethers.BigNumber.from(2),
+    [nft2]: ethers.BigNumber.from(0),
+    [nft4]: ethers.BigNumber.from(1),
+    // Without a floor price
+    [nft5]: ethers.BigNumber.from(1),
+  };
+
+  const callBalanceOf = (target: string) => {
+    const balance = balanceByToken[target];
+    if (!balance) throw new Error('execution reverted');
+    return erc20Iface.encodeFunctionResult('balanceOf', [balance]);
+  };
+
+  const createProvider = (hasMulticall: boolean) => ({
+    call: jest.fn(async ({ to, data }: { to: string; data: string }) => {
+      if (to !== MULTICALL3_ADDRESS) return callBalanceOf(to);
+      if (!hasMulticall) return '0x';
+
+      const [, calls] = multicall3Iface.decodeFunctionData('tryAggregate', data);
+      return multicall3Iface.encodeFunctionResult('tryAggregate', [
+        calls.map((c: { target: string }) => {
+          try {
+            return { success: true, returnData: callBalanceOf(c.target.toLowerCase()) };
+          } catch {
+            return { success: false, returnData: '0x' };
+          }
+        }),
+      ]);
+    }),
+  });
+
+  const priceOracle = {
+    getAssetPrice: async (asset: string) => ({ tether: 1, ethereum: 2000 }[asset]!),
+    getFloorPrice: async (chainId: number, address: string) => {
+      if (address === nft1) return 1000;
+      throw new Error('No floor price');
+    },
+  } as any;
+
+  const tokenProvider = {
+    getList: async () => [
+      { name: 'NFT 1', symbol: 'NFT1', type: 'nft', deployments: { [Network.MAINNET]: nft1 } },
+      { name: 'NFT 2', symbol: 'NFT2', type: 'nft', deployments: { [Network.MAINNET]: nft2 } },
+      // Reverts
+      { name: 'NFT 3', symbol: 'NFT3', type: 'nft', deployments: { [Network.MAINNET]: nft3 } },
+      { name: 'NFT 4', symbol: 'NFT4', type: 'nft', deployments: { [Network.BSC]: nft4 } },
+      { name: 'NFT 5', symbol: 'NFT5', type: 'nft', deployments: { [Network.MAINNET]: nft5 } },
+    ],
+  } as any;
+
+  const tokensByChainId = {
+    [Network.MAINNET]: [
+      { symbol: 'USDT', address: usdt, decimals: 6, asset: 'tether' },
+      { symbol: 'WETH', address: weth, decimals: 18, asset: 'ethereum' },
+      {
+        symbol: 'FAIL',
+        address: '0x0000000000000000000000000000000000000005',
+        decimals: 18,
+        asset: 'ethereum',
+      },
+    ],
+  };
+
+  it.each([true, false])('should sum up the portfolio (multicall: %s)', async (hasMulticall) => {
+    const provider = createProvider(hasMulticall);
+    const checker = new PortfolioChecker(priceOracle, tokenProvider, tokensByChainId);
+
+    const portfolio = await checker.getPortfolio(account, Network.MAINNET, provider as any);
+
+    expect(portfolio.usd).toBe(7500);
+    expect(portfolio.tokens.map((t) => [t.symbol, t.usd])).toEqual([
+      ['USDT', 1500],
+      ['WETH', 4000],
+    ]);
+    expect(portfolio.nftCollections).toEqual([
+      { name: 'NFT 1', address: nft1, balance: 2, usd: 2000 },
+      { name: 'NFT 5', address: nft5, balance: 1, usd: 0 },
+    ]);
+    // 2 aggregated calls, or 2 failed aggregated calls and 7 single calls
+    expect(provider.call).toHaveBeenCalledTimes(hasMulticall ? 2 : 9);
+  });
+});
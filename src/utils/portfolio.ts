@@ -0,0 +1,146 @@
+import { ethers } from 'ethers';
+import { chunk } from 'lodash';
+
+import Logger from './logger';
+import TokenProvider from './tokens';
+import { PriceOracle } from './prices';
+import { tryAggregate } from './multicall';
+import { BLUE_CHIP_TOKENS_BY_NETWORK, BlueChipToken, erc20Iface, erc721Iface } from '../contants';
+
+export type PortfolioToken = {
+  symbol: string;
+  address: string;
+  balance: string;
+  usd: number;
+};
+
+export type PortfolioNftCollection = {
+  name: string;
+  address: string;
+  balance: number;
+  usd: number;
+};
+
+export type Portfolio = {
+  usd: number;
+  tokens: PortfolioToken[];
+  nftCollections: PortfolioNftCollection[];
+};
+
+// Reads balances of the blue-chip ERC-20 tokens and the well-known NFT collections of an account.
+// NFTs are valued at the floor price of their collection.
+export class PortfolioChecker {
+  static BATCH_SIZE = 500;
+
+  constructor(
+    private priceOracle: PriceOracle,
+    private tokenProvider: TokenProvider,
+    private tokensByChainId: { [chainId: number]: BlueChipToken[] } = BLUE_CHIP_TOKENS_BY_NETWORK,
+  ) {}
+
+  async getPortfolio(
+    address: string,
+    chainId: number,
+    provider: ethers.providers.Provider,
+    blockNumber?: number,
+  ): Promise<Portfolio> {
+    const [tokens, nftCollections] = await Promise.all([
+      this.getTokens(address, chainId, provider, blockNumber),
+      this.getNftCollections(address, chainId, provider, blockNumber),
+    ]);
+
+    return {
+      usd: [...tokens, ...nftCollections].reduce((sum, t) => sum + t.usd, 0),
+      tokens: tokens,
+      nftCollections: nftCollections,
+    };
+  }
+
+  private async getTokens(
+    address: string,
+    chainId: number,
+    provider: ethers.providers.Provider,
+    blockNumber?: number,
+  ): Promise<PortfolioToken[]> {
+    const blueChipTokens = this.tokensByChainId[chainId] || [];
+    const results = await tryAggregate(
+      provider,
+      blueChipTokens.map((t) => ({
+        target: t.address,
+        iface: erc20Iface,
+        method: 'balanceOf',
+        args: [address],
+      })),
+      blockNumber,
+    );
+
+    const tokens: PortfolioToken[] = [];
+
+    for (let i = 0; i < blueChipTokens.length; i++) {
+      const token = blueChipTokens[i];
+      const balance: ethers.BigNumber | undefined = results[i]?.[0];
+
+      if (!balance || balance.isZero()) continue;
+
+      try {
+        const amount = Number(ethers.utils.formatUnits(balance, token.decimals));
+        tokens.push({
+          symbol: token.symbol,
+          address: token.address,
+          balance: balance.toString(),
+          usd: amount * (await this.priceOracle.getAssetPrice(token.asset)),
+        });
+      } catch (e) {
+        Logger.debug(e, `Cannot get value of ${token.symbol}`);
+      }
+    }
+
+    return tokens;
+  }
+
+  private async getNftCollections(
+    address: string,
+    chainId: number,
+    provider: ethers.providers.Provider,
+    blockNumber?: number,
+  ): Promise<PortfolioNftCollection[]> {
+    const collections = (await this.tokenProvider.getList())
+      .filter((t) => t.type === 'nft' && t.deployments[chainId])
+      .map((t) => ({ name: t.name, address: t.deployments[chainId] }));
+
+    const ownedCollections: PortfolioNftCollection[] = [];
+
+    for (const batch of chunk(collections, PortfolioChecker.BATCH_SIZE)) {
+      const results = await tryAggregate(
+        provider,
+        batch.map((c) => ({
+          target: c.address,
+          iface: erc721Iface,
+          method: 'balanceOf',
+          args: [address],
+        })),
+        blockNumber,
+      );
+
+      for (let i = 0; i < batch.length; i++) {
+        const collection = batch[i];
+        const balance: ethers.BigNumber | undefined = results[i]?.[0];
+
+        if (!balance || balance.isZero()) continue;
+
+        let usd = 0;
+        try {
+          usd =
+            balance.toNumber() *
+            (await this.priceOracle.getFloorPrice(chainId, collection.address));
+        } catch (e) {
+          Logger.debug(e, `Cannot get value of ${collection.name}`);
+        }
+
+        ownedCollections.push({ ...collection, balance: balance.toNumber(), usd });
+      }
+    }
+
+    return ownedCollections;
+  }
+}
@@ -0,0 +1,100 @@
+import { ethers } from 'ethers';
+import { Network } from 'forta-agent';
+
+import { PriceOracle, PriceSnapshot, PriceSource } from './prices';
+
+describe('native price oracle', () => {
+  const createStorage = (snapshot: PriceSnapshot | null) =>
+    ({ read: jest.fn(async () => snapshot), write: jest.fn(async () => undefined) } as any);
+
+  it('should convert native balances to USD using the snapshot', async () => {
+    const storage = createStorage({
+      updatedAt: 0,
+      priceByAsset: { ethereum: 2000, binancecoin: 300 },
+    });
+    const oracle = new PriceOracle(storage);
+
+    const balance = ethers.utils.parseUnits('1.5');
+
+    await expect(oracle.getUsdValue(Network.MAINNET, balance)).resolves.toBe(3000);
+    await expect(oracle.getUsdValue(Network.OPTIMISM, balance)).resolves.toBe(3000);
+    await expect(oracle.getUsdValue(Network.BSC, balance)).resolves.toBe(450);
+    await expect(oracle.getPrice(Network.FANTOM)).rejects.toThrow('No price');
+    await expect(oracle.getPrice(123456)).rejects.toThrow('Network is not supported');
+    expect(storage.read).toHaveBeenCalledTimes(1);
+  });
+
+  it('should update the snapshot from the live source', async () => {
+    const storage = createStorage({ updatedAt: 0, priceByAsset: { ethereum: 2000, fantom: 0.3 } });
+    const source: PriceSource = {
+      fetchPrices: jest.fn(async () => ({ ethereum: 2500 })),
+      fetchFloorPrice: jest.fn(),
+    };
+    const oracle = new PriceOracle(storage, source);
+
+    await expect(oracle.getPrice(Network.MAINNET)).resolves.toBe(2500);
+    await expect(oracle.getPrice(Network.FANTOM)).resolves.toBe(0.3);
+
+    expect(source.fetchPrices).toHaveBeenCalledTimes(1);
+    expect(storage.write).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the snapshot if the live source fails', async () => {
+    const storage = createStorage({ updatedAt: 0, priceByAsset: { ethereum: 2000 } });
+    const source: PriceSource = {
+      fetchPrices: jest.fn(async () => {
+        throw new Error('Too many requests');
+      }),
+      fetchFloorPrice: jest.fn(),
+    };
+    const oracle = new PriceOracle(storage, source);
+
+    await expect(oracle.getPrice(Network.MAINNET)).resolves.toBe(2000);
+    await expect(oracle.getPrice(Network.MAINNET)).resolves.toBe(2000);
+
+    expect(source.fetchPrices).toHaveBeenCalledTimes(1);
+    expect(storage.write).not.toHaveBeenCalled();
+  });
+
+  it('should fetch floor prices of NFT collections once per update interval', async () => {
+    const collection = '0x0000000000000000000000000000000000000001';
+    const unknownCollection = '0x0000000000000000000000000000000000000002';
+    const failingCollection = '0x0000000000000000000000000000000000000003';
+
+    const storage = createStorage({
+      updatedAt: Date.now(),
+      priceByAsset: { ethereum: 2000 },
+      floorPriceByCollection: { [`1:${failingCollection}`]: { updatedAt: 0, usd: 500 } },
+    });
+    const source: PriceSource = {
+      fetchPrices: jest.fn(),
+      fetchFloorPrice: jest.fn(async (chainId: number, address: string) => {
+        if (address === failingCollection) throw new Error('Too many requests');
+        return address === collection ? 10_000 : null;
+      }),
+    };
+    const oracle = new PriceOracle(storage, source);
+
+    for (let i = 0; i < 2; i++) {
+      await expect(oracle.getFloorPrice(Network.MAINNET, collection)).resolves.toBe(10_000);
+      await expect(oracle.getFloorPrice(Network.MAINNET, unknownCollection)).rejects.toThrow(
+        'No floor price',
+      );
+      // The stale price from the snapshot is used
+      await expect(oracle.getFloorPrice(Network.MAINNET, failingCollection)).resolves.toBe(500);
+    }
+
+    expect(source.fetchPrices).not.toHaveBeenCalled();
+    expect(source.fetchFloorPrice).toHaveBeenCalledTimes(3);
+    expect(storage.write).toHaveBeenCalledTimes(2);
+    expect(storage.write).toHaveBeenLastCalledWith({
+      updatedAt: expect.any(Number),
+      priceByAsset: { ethereum: 2000 },
+      floorPriceByCollection: {
+        [`1:${collection}`]: { updatedAt: expect.any(Number), usd: 10_000 },
+        [`1:${unknownCollection}`]: { updatedAt: expect.any(Number), usd: null },
+        [`1:${failingCollection}`]: { updatedAt: 0, usd: 500 },
+      },
+    });
+  });
+});
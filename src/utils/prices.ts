@@ -0,0 +1,200 @@
+import axios from 'axios';
+import { BigNumber, ethers } from 'ethers';
+import { Network } from 'forta-agent';
+import { Mutex } from 'async-mutex';
+
+import Logger from './logger';
+import { JsonStorage } from './storage';
+import { COINGECKO_PLATFORM_ID_BY_NETWORK } from './tokens';
+import { BLUE_CHIP_TOKENS_BY_NETWORK } from '../contants';
+
+// CoinGecko ids of the native assets
+export const NATIVE_ASSET_BY_CHAIN_ID: { [chainId: number]: string } = {
+  [Network.MAINNET]: 'ethereum',
+  [Network.BSC]: 'binancecoin',
+  [Network.POLYGON]: 'matic-network',
+  [Network.ARBITRUM]: 'ethereum',
+  [Network.OPTIMISM]: 'ethereum',
+  [Network.FANTOM]: 'fantom',
+  [Network.AVALANCHE]: 'avalanche-2',
+};
+
+// Assets whose prices are kept in the snapshot
+export const PRICED_ASSETS = [
+  ...new Set([
+    ...Object.values(NATIVE_ASSET_BY_CHAIN_ID),
+    ...Object.values(BLUE_CHIP_TOKENS_BY_NETWORK)
+      .flat()
+      .map((t) => t.asset),
+  ]),
+];
+
+export type FloorPrice = {
+  updatedAt: number;
+  usd: number | null; // null if the collection is not known to the source
+};
+
+export type PriceSnapshot = {
+  updatedAt: number;
+  priceByAsset: { [asset: string]: number }; // USD
+  // Keyed by `${chainId}:${address}`
+  floorPriceByCollection?: { [collection: string]: FloorPrice };
+};
+
+export interface PriceSource {
+  fetchPrices(assets: string[]): Promise<{ [asset: string]: number }>;
+  fetchFloorPrice(chainId: number, address: string): Promise<number | null>;
+}
+
+// https://www.coingecko.com/en/api/documentation
+export class CoinGeckoPriceSource implements PriceSource {
+  static PRICE_API_URL = 'https://api.coingecko.com/api/v3/simple/price';
+  static NFT_API_URL = 'https://api.coingecko.com/api/v3/nfts';
+
+  async fetchPrices(assets: string[]) {
+    const { data } = await axios.get(CoinGeckoPriceSource.PRICE_API_URL, {
+      params: { ids: assets.join(','), vs_currencies: 'usd' },
+    });
+
+    const priceByAsset: { [asset: string]: number } = {};
+    for (const asset of assets) {
+      if (typeof data[asset]?.usd === 'number') priceByAsset[asset] = data[asset].usd;
+    }
+
+    return priceByAsset;
+  }
+
+  async fetchFloorPrice(chainId: number, address: string) {
+    const platformId = COINGECKO_PLATFORM_ID_BY_NETWORK[chainId as Network];
+
+    if (!platformId) return null;
+
+    try {
+      const { data } = await axios.get(
+        `${CoinGeckoPriceSource.NFT_API_URL}/${platformId}/contract/${address}`,
+      );
+
+      return typeof data?.floor_price?.usd === 'number' ? data.floor_price.usd : null;
+    } catch (e) {
+      if (axios.isAxiosError(e) && e.response?.status === 404) return null;
+      throw e;
+    }
+  }
+}
+
+// Prices of the native assets and blue-chip tokens are read from the snapshot file, which is updated from the live source
+// once the update interval has passed. If the live source is not specified or fails, the snapshot is used as is.
+// Floor prices of NFT collections are kept in the same snapshot, but each one is fetched when it's first requested,
+// since only a few of the known collections are held by the checked accounts.
+export class PriceOracle {
+  static UPDATE_INTERVAL = 24 * 60 * 60 * 1000; // 1d
+
+  private snapshot: PriceSnapshot | null = null;
+  private mutex = new Mutex();
+
+  constructor(
+    private storage: JsonStorage<PriceSnapshot>,
+    private source?: PriceSource,
+    private updateInterval: number = PriceOracle.UPDATE_INTERVAL,
+  ) {}
+
+  async getPrice(chainId: number): Promise<number> {
+    const asset = NATIVE_ASSET_BY_CHAIN_ID[chainId];
+
+    if (!asset) throw new Error('Network is not supported yet: ' + chainId);
+
+    return this.getAssetPrice(asset);
+  }
+
+  async getAssetPrice(asset: string): Promise<number> {
+    const snapshot = await this.getSnapshot();
+    const price = snapshot?.priceByAsset[asset];
+
+    if (price == null) throw new Error(`No price of the asset: ${asset}`);
+
+    return price;
+  }
+
+  async getFloorPrice(chainId: number, address: string): Promise<number> {
+    await this.getSnapshot();
+
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const floorPrice = await this.mutex.runExclusive(async () => {
+      const savedFloorPrice = this.snapshot?.floorPriceByCollection?.[key];
+      const updatedAt = savedFloorPrice?.updatedAt ?? -1;
+
+      if (!this.source || updatedAt + this.updateInterval >= Date.now()) return savedFloorPrice;
+
+      // The snapshot is always set if there is a live source
+      const setFloorPrice = (floorPrice: FloorPrice) => {
+        this.snapshot = {
+          ...this.snapshot!,
+          floorPriceByCollection: { ...this.snapshot!.floorPriceByCollection, [key]: floorPrice },
+        };
+        return floorPrice;
+      };
+
+      try {
+        const floorPrice = setFloorPrice({
+          updatedAt: Date.now(),
+          usd: await this.source.fetchFloorPrice(chainId, address),
+        });
+        await this.storage.write(this.snapshot!);
+
+        return floorPrice;
+      } catch (e) {
+        Logger.warn(e, `Failed to update the floor price of ${key}, using the snapshot`);
+        // Do not retry on every call
+        return setFloorPrice({ updatedAt: Date.now(), usd: savedFloorPrice?.usd ?? null });
+      }
+    });
+
+    if (floorPrice?.usd == null) throw new Error(`No floor price of the collection: ${key}`);
+
+    return floorPrice.usd;
+  }
+
+  async getUsdValue(chainId: number, balance: BigNumber): Promise<number> {
+    return Number(ethers.utils.formatEther(balance)) * (await this.getPrice(chainId));
+  }
+
+  private async getSnapshot() {
+    return this.mutex.runExclusive(async () => {
+      if (!this.snapshot) {
+        this.snapshot = await this.storage.read();
+      }
+
+      const updatedAt = this.snapshot?.updatedAt ?? -1;
+
+      if (this.source && updatedAt + this.updateInterval < Date.now()) {
+        try {
+          await this.update(this.source);
+        } catch (e) {
+          Logger.warn(e, 'Failed to update prices, using the snapshot');
+          // Do not retry on every call
+          this.snapshot = {
+            ...this.snapshot,
+            updatedAt: Date.now(),
+            priceByAsset: this.snapshot?.priceByAsset || {},
+          };
+        }
+      }
+
+      return this.snapshot;
+    });
+  }
+
+  private async update(source: PriceSource) {
+    Logger.debug('Fetching prices of assets...');
+
+    const priceByAsset = await source.fetchPrices(PRICED_ASSETS);
+
+    this.snapshot = {
+      ...this.snapshot,
+      updatedAt: Date.now(),
+      // Assets missing in the response keep their previous prices
+      priceByAsset: { ...this.snapshot?.priceByAsset, ...priceByAsset },
+    };
+    await this.storage.write(this.snapshot);
+  }
+}
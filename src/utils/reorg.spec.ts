@@ -0,0 +1,94 @@
+import { BlockHeader, ReorgDetector } from './reorg';
+
+describe('reorg detector', () => {
+  // Blocks of a branch get hashes with the branch prefix, e.g. "a10" and "b10"
+  const createBranch = (
+    name: string,
+    from: number,
+    to: number,
+    parentHash = `a${from - 1}`,
+  ): BlockHeader[] => {
+    const blocks: BlockHeader[] = [];
+    for (let number = from; number <= to; number++) {
+      blocks.push({ number, hash: `${name}${number}`, parentHash });
+      parentHash = `${name}${number}`;
+    }
+    return blocks;
+  };
+
+  const createProvider = (blocks: BlockHeader[]) =>
+    ({
+      getBlock: jest.fn(async (hash: string) => blocks.find((b) => b.hash === hash) || null),
+    } as any);
+
+  const handleBlocks = async (detector: ReorgDetector, blocks: BlockHeader[]) => {
+    const forkBlocks: (number | null)[] = [];
+    for (const block of blocks) {
+      forkBlocks.push(await detector.handleBlock(block));
+    }
+    return forkBlocks;
+  };
+
+  it('should not detect reorgs in a linear chain', async () => {
+    const provider = createProvider([]);
+    const detector = new ReorgDetector(provider);
+
+    const forkBlocks = await handleBlocks(detector, createBranch('a', 1, 20));
+
+    expect(forkBlocks.every((b) => b === null)).toStrictEqual(true);
+    expect(provider.getBlock).not.toHaveBeenCalled();
+  });
+
+  it('should detect a replaced parent block', async () => {
+    const branch = createBranch('b', 10, 11);
+    const detector = new ReorgDetector(createProvider(branch));
+
+    await handleBlocks(detector, createBranch('a', 1, 10));
+
+    // Block 10 has been replaced, but only block 11 of the new branch has been received
+    expect(await detector.handleBlock(branch[1])).toStrictEqual(10);
+    expect(await detector.handleBlock(createBranch('b', 12, 12, 'b11')[0])).toStrictEqual(null);
+  });
+
+  it('should walk back the new branch to the fork point', async () => {
+    const branch = createBranch('b', 6, 11);
+    const provider = createProvider(branch);
+    const detector = new ReorgDetector(provider);
+
+    await handleBlocks(detector, createBranch('a', 1, 10));
+
+    expect(await detector.handleBlock(branch[branch.length - 1])).toStrictEqual(6);
+    expect(provider.getBlock).toHaveBeenCalledTimes(5);
+  });
+
+  it('should detect a block received again with a different hash', async () => {
+    const detector = new ReorgDetector(createProvider([]));
+
+    await handleBlocks(detector, createBranch('a', 1, 10));
+
+    expect(await detector.handleBlock(createBranch('a', 10, 10)[0])).toStrictEqual(null);
+    expect(await detector.handleBlock(createBranch('b', 9, 9)[0])).toStrictEqual(9);
+  });
+
+  it('should not walk back beyond the max depth', async () => {
+    const provider = createProvider(createBranch('b', 5, 7));
+    const detector = new ReorgDetector(provider, 5);
+
+    await handleBlocks(detector, createBranch('a', 1, 10));
+
+    expect(await detector.handleBlock(createBranch('b', 7, 7, 'b6')[0])).toStrictEqual(6);
+    expect(provider.getBlock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should detect reorgs of the restored blocks', async () => {
+    const detector = new ReorgDetector(createProvider([]));
+
+    detector.restore([
+      { number: 10, hash: 'a10' },
+      { number: 8, hash: 'a8' },
+    ]);
+
+    expect(await detector.handleBlock(createBranch('a', 9, 9)[0])).toStrictEqual(null);
+    expect(await detector.handleBlock(createBranch('b', 11, 11, 'b10')[0])).toStrictEqual(10);
+  });
+});
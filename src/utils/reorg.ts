@@ -0,0 +1,70 @@
+import { ethers } from 'ethers';
+
+import { StoredBlock } from '../database/types';
+import { REORG_DEPTH } from '../contants';
+
+export type BlockHeader = { number: number; hash: string; parentHash: string };
+
+// Keeps the hashes of the recent blocks to notice when the chain has been reorganized.
+// If the parent hash of a new block doesn't match the known hash of the previous block,
+// the new branch is walked back until it meets the known chain, the known blocks above that point are abandoned.
+export class ReorgDetector {
+  private hashByNumber = new Map<number, string>();
+
+  constructor(private provider: ethers.providers.Provider, private depth: number = REORG_DEPTH) {}
+
+  // Hashes of the blocks of the stored transactions, so that a reorg is noticed right after a restart
+  restore(blocks: StoredBlock[]) {
+    if (blocks.length === 0) return;
+
+    for (const block of blocks) {
+      this.hashByNumber.set(block.number, block.hash);
+    }
+
+    this.prune(Math.max(...blocks.map((b) => b.number)));
+  }
+
+  // Returns the number of the first abandoned block, or null if the block extends the known chain
+  async handleBlock(block: BlockHeader): Promise<number | null> {
+    const branch: StoredBlock[] = [{ number: block.number, hash: block.hash }];
+    let forkBlock = this.isAbandoned(block.number, block.hash) ? block.number : null;
+    let { number, parentHash } = block;
+
+    while (this.isAbandoned(number - 1, parentHash)) {
+      number -= 1;
+      forkBlock = number;
+      branch.push({ number, hash: parentHash });
+
+      const parent = await this.provider.getBlock(parentHash);
+      // The rest of the branch can't be checked, the blocks below are considered canonical
+      if (!parent) break;
+
+      parentHash = parent.parentHash;
+    }
+
+    if (forkBlock !== null) {
+      for (const knownNumber of [...this.hashByNumber.keys()]) {
+        if (knownNumber >= forkBlock) this.hashByNumber.delete(knownNumber);
+      }
+    }
+
+    for (const { number, hash } of branch) {
+      this.hashByNumber.set(number, hash);
+    }
+
+    this.prune(block.number);
+
+    return forkBlock;
+  }
+
+  private isAbandoned(number: number, canonicalHash: string) {
+    const knownHash = this.hashByNumber.get(number);
+    return knownHash !== undefined && knownHash !== canonicalHash;
+  }
+
+  private prune(lastBlockNumber: number) {
+    for (const number of [...this.hashByNumber.keys()]) {
+      if (number <= lastBlockNumber - this.depth) this.hashByNumber.delete(number);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { RpcPool } from './rpc-pool';
+
+describe('rpc pool', () => {
+  const address = '0x000000000000000000000000000000000000dEaD';
+
+  const createProvider = (url: string, send: (method: string, params: unknown[]) => any) =>
+    ({
+      connection: { url },
+      send: jest.fn(async (...args: any[]) => send(args[0], args[1])),
+    } as any);
+
+  const createRpcError = (code: number, message: string) => {
+    const error: any = new Error('processing response error');
+    error.error = { code, message };
+    return error;
+  };
+
+  it('should fail over to the next endpoint', async () => {
+    const failingProvider = createProvider('a', () => {
+      throw new Error('timeout');
+    });
+    const provider = createProvider('b', () => '0x1');
+    const pool = new RpcPool([{ provider: failingProvider }, { provider }], 1);
+
+    await expect(pool.send('eth_chainId', [])).resolves.toBe('0x1');
+    await expect(pool.send('eth_chainId', [])).resolves.toBe('0x1');
+
+    // The failed endpoint is cooling down
+    expect(failingProvider.send).toHaveBeenCalledTimes(1);
+    expect(provider.send).toHaveBeenCalledTimes(2);
+    expect(pool.getStats()[0]).toMatchObject({ requests: 1, errors: 1, isCoolingDown: true });
+  });
+
+  it('should prefer the primary endpoint while it is healthy', async () => {
+    jest.useFakeTimers({ now: 0 });
+
+    try {
+      let isPrimaryFailing = false;
+      const primaryProvider = createProvider('primary', () => {
+        jest.advanceTimersByTime(100);
+        if (isPrimaryFailing) throw new Error('timeout');
+        return '0x1';
+      });
+      const publicProvider = createProvider('public', () => {
+        jest.advanceTimersByTime(10);
+        return '0x2';
+      });
+      const pool = new RpcPool(
+        [
+          { provider: primaryProvider, tier: 0 },
+          { provider: publicProvider, tier: 1 },
+        ],
+        1,
+      );
+
+      for (let i = 0; i < 3; i++) {
+        await expect(pool.send('eth_chainId', [])).resolves.toBe('0x1');
+      }
+
+      expect(publicProvider.send).not.toHaveBeenCalled();
+
+      isPrimaryFailing = true;
+      await expect(pool.send('eth_chainId', [])).resolves.toBe('0x2');
+      await expect(pool.send('eth_chainId', [])).resolves.toBe('0x2');
+
+      // The faster public endpoint is used only while the primary one is cooling down
+      isPrimaryFailing = false;
+      jest.advanceTimersByTime(5000);
+      await expect(pool.send('eth_chainId', [])).resolves.toBe('0x1');
+      expect(publicProvider.send).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not prefer an endpoint that has never succeeded after its cooldown', async () => {
+    jest.useFakeTimers({ now: 0 });
+
+    try {
+      const failingProvider = createProvider('a', () => {
+        throw new Error('timeout');
+      });
+      const provider = createProvider('b', () => {
+        jest.advanceTimersByTime(100);
+        return '0x1';
+      });
+      const pool = new RpcPool([{ provider: failingProvider }, { provider }], 1);
+
+      await expect(pool.send('eth_chainId', [])).resolves.toBe('0x1');
+
+      jest.advanceTimersByTime(5000);
+      await expect(pool.send('eth_chainId', [])).resolves.toBe('0x1');
+
+      expect(failingProvider.send).toHaveBeenCalledTimes(1);
+      expect(provider.send).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not fail over if the error is returned by the node', async () => {
+    const provider1 = createProvider('a', () => {
+      throw createRpcError(3, 'execution reverted');
+    });
+    const provider2 = createProvider('b', () => '0x');
+    const pool = new RpcPool([{ provider: provider1 }, { provider: provider2 }], 1);
+
+    await expect(pool.send('eth_call', [{ to: address }, 'latest'])).rejects.toThrow();
+
+    expect(provider2.send).not.toHaveBeenCalled();
+    expect(pool.getStats()[0]).toMatchObject({ errors: 0, isCoolingDown: false });
+
+    const limitedProvider = createProvider('c', () => {
+      throw createRpcError(-32005, 'limit exceeded');
+    });
+    const limitedPool = new RpcPool([{ provider: limitedProvider }, { provider: provider2 }], 1);
+
+    await expect(limitedPool.send('eth_call', [{ to: address }, 'latest'])).resolves.toBe('0x');
+  });
+
+  it('should send requests for old blocks only to archive endpoints', async () => {
+    // The time is frozen, so that the measured latency of the endpoints is the same
+    jest.useFakeTimers({ now: 0 });
+
+    try {
+      const fullProvider = createProvider('full', () => '0x1');
+      const archiveProvider = createProvider('archive', () => '0x2');
+      const pool = new RpcPool(
+        [{ provider: fullProvider }, { provider: archiveProvider, archive: true }],
+        1,
+        { archiveDepth: 128 },
+      );
+
+      pool.updateBlockNumber(1000);
+
+      // The full node is preferred, since it's listed first and the archive one hasn't been used yet
+      await expect(pool.send('eth_getBalance', [address, 'latest'])).resolves.toBe('0x1');
+      await expect(pool.send('eth_getBalance', [address, '0x3e0'])).resolves.toBe('0x1'); // 992
+      await expect(pool.send('eth_getBalance', [address, '0x64'])).resolves.toBe('0x2'); // 100
+
+      const fullPool = new RpcPool([{ provider: fullProvider }], 1);
+
+      await expect(fullPool.send('eth_getBalance', [address, '0x64'])).rejects.toThrow(
+        'No archive endpoints',
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should respect rate limits of endpoints', async () => {
+    const limitedProvider = createProvider('a', () => '0x1');
+    const provider = createProvider('b', () => '0x2');
+    const pool = new RpcPool(
+      [
+        { provider: limitedProvider, rateLimit: { capacity: 1, refillPerSecond: 0.001 } },
+        { provider: provider },
+      ],
+      1,
+    );
+
+    const results = await Promise.all([pool.send('eth_chainId', []), pool.send('eth_chainId', [])]);
+
+    expect(results).toEqual(['0x1', '0x2']);
+  });
+});
@@ -0,0 +1,333 @@
+import { ethers } from 'ethers';
+import { Network } from 'forta-agent';
+import { orderBy } from 'lodash';
+
+import Logger from './logger';
+import { delay } from './helpers';
+import { PROVIDER_CONCURRENCY, PUBLIC_RPC_URLS_BY_NETWORK } from '../contants';
+
+export type RateLimit = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type RpcEndpointConfig = {
+  provider: ethers.providers.JsonRpcProvider;
+  // Whether the node keeps the state of old blocks
+  archive?: boolean;
+  // No limit if not specified
+  rateLimit?: RateLimit;
+  // Endpoints of a lower tier are preferred while they are not cooling down, 0 by default
+  tier?: number;
+};
+
+export type RpcPoolOptions = {
+  // Number of recent blocks whose state is kept by non-archive nodes
+  archiveDepth: number;
+  // Time for which a failed endpoint is moved to the end of the queue, doubled for each consecutive failure
+  cooldown: number;
+  maxCooldown: number;
+  // Smoothing factor of the latency and error rate
+  alpha: number;
+  // Latency charged for a failed request, also assumed for endpoints that haven't been used yet
+  failureLatency: number;
+};
+
+export type RpcEndpointStats = {
+  url: string;
+  archive: boolean;
+  tier: number;
+  requests: number;
+  errors: number;
+  latency: number;
+  errorRate: number;
+  isCoolingDown: boolean;
+};
+
+export const DEFAULT_RPC_POOL_OPTIONS: RpcPoolOptions = {
+  archiveDepth: 128,
+  cooldown: 5 * 1000, // 5s
+  maxCooldown: 5 * 60 * 1000, // 5m
+  alpha: 0.2,
+  failureLatency: 10 * 1000, // 10s
+};
+
+export const PUBLIC_RPC_RATE_LIMIT: RateLimit = {
+  capacity: PROVIDER_CONCURRENCY,
+  refillPerSecond: PROVIDER_CONCURRENCY,
+};
+
+// Index of the block tag in the params of the methods that read the state
+const BLOCK_TAG_INDEX_BY_METHOD: { [method: string]: number } = {
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_getStorageAt: 2,
+  eth_call: 1,
+};
+
+// Errors returned by the node are the same on every endpoint (e.g. a reverted call), except for these ones
+const ENDPOINT_ERROR_CODES = new Set([
+  -32005, // limit exceeded
+  -32603, // internal error
+  429,
+]);
+const ENDPOINT_ERROR_MESSAGE_REGEX = /missing trie node|header not found|rate limit/i;
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private limit: RateLimit) {
+    this.tokens = limit.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  take(): boolean {
+    this.refill();
+
+    if (this.tokens < 1) return false;
+
+    this.tokens--;
+    return true;
+  }
+
+  getWaitTime(): number {
+    this.refill();
+
+    return Math.max(0, Math.ceil(((1 - this.tokens) / this.limit.refillPerSecond) * 1000));
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limit.capacity,
+      this.tokens + ((now - this.updatedAt) / 1000) * this.limit.refillPerSecond,
+    );
+    this.updatedAt = now;
+  }
+}
+
+type RpcEndpoint = {
+  url: string;
+  provider: ethers.providers.JsonRpcProvider;
+  archive: boolean;
+  tier: number;
+  bucket?: TokenBucket;
+  requests: number;
+  errors: number;
+  latency: number;
+  errorRate: number;
+  consecutiveErrors: number;
+  cooldownUntil: number;
+};
+
+// Pool of JSON-RPC endpoints that is used wherever JsonRpcProvider is expected.
+// Each request is sent to the healthiest endpoint of the lowest tier that has not exceeded its rate limit.
+// If the endpoint fails, the request is sent to the next one.
+// Requests for the state of old blocks are sent only to archive endpoints.
+export class RpcPool extends ethers.providers.StaticJsonRpcProvider {
+  private endpoints: RpcEndpoint[];
+  private options: RpcPoolOptions;
+  private latestBlockNumber = -1;
+
+  constructor(
+    endpoints: RpcEndpointConfig[],
+    network: ethers.providers.Networkish,
+    options: Partial<RpcPoolOptions> = {},
+  ) {
+    super(undefined, network);
+
+    if (endpoints.length === 0) throw new Error('No RPC endpoints');
+
+    this.options = { ...DEFAULT_RPC_POOL_OPTIONS, ...options };
+    this.endpoints = endpoints.map((e) => ({
+      url: e.provider.connection.url,
+      provider: e.provider,
+      archive: !!e.archive,
+      tier: e.tier ?? 0,
+      bucket: e.rateLimit && new TokenBucket(e.rateLimit),
+      requests: 0,
+      errors: 0,
+      latency: 0,
+      errorRate: 0,
+      consecutiveErrors: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  async send(method: string, params: Array<unknown>): Promise<any> {
+    const candidates = this.isHistoricalRequest(method, params)
+      ? this.endpoints.filter((e) => e.archive)
+      : this.endpoints;
+
+    if (candidates.length === 0) throw new Error(`No archive endpoints for ${method}`);
+
+    const triedEndpoints = new Set<RpcEndpoint>();
+    let lastError: unknown;
+
+    while (triedEndpoints.size < candidates.length) {
+      const endpoint = await this.acquire(candidates.filter((e) => !triedEndpoints.has(e)));
+      triedEndpoints.add(endpoint);
+
+      const startedAt = Date.now();
+
+      try {
+        const result = await endpoint.provider.send(method, params);
+        this.report(endpoint, Date.now() - startedAt, false);
+
+        if (method === 'eth_blockNumber') this.updateBlockNumber(Number(result));
+
+        return result;
+      } catch (e) {
+        if (!RpcPool.isEndpointError(e)) {
+          this.report(endpoint, Date.now() - startedAt, false);
+          throw e;
+        }
+
+        this.report(endpoint, Date.now() - startedAt, true);
+        Logger.debug(e, `RPC endpoint failed: ${endpoint.url}`);
+        lastError = e;
+      }
+    }
+
+    throw lastError;
+  }
+
+  updateBlockNumber(blockNumber: number) {
+    this.latestBlockNumber = Math.max(this.latestBlockNumber, blockNumber);
+  }
+
+  getStats(): RpcEndpointStats[] {
+    const now = Date.now();
+
+    return this.endpoints.map((e) => ({
+      url: e.url,
+      archive: e.archive,
+      tier: e.tier,
+      requests: e.requests,
+      errors: e.errors,
+      latency: e.latency,
+      errorRate: e.errorRate,
+      isCoolingDown: e.cooldownUntil > now,
+    }));
+  }
+
+  logStats() {
+    Logger.info(
+      this.getStats()
+        .map(
+          (e) =>
+            `${e.url}: ${e.requests} requests, ${e.errors} errors, ` +
+            `${Math.round(e.latency)}ms, ${Math.round(e.errorRate * 100)}%` +
+            (e.isCoolingDown ? ' (cooling down)' : ''),
+        )
+        .join(' | '),
+    );
+  }
+
+  private async acquire(candidates: RpcEndpoint[]): Promise<RpcEndpoint> {
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const now = Date.now();
+      const sortedCandidates = orderBy(
+        candidates,
+        [(e) => e.cooldownUntil > now, (e) => e.tier, (e) => this.getScore(e)],
+        ['asc', 'asc', 'asc'],
+      );
+
+      const endpoint = sortedCandidates.find((e) => !e.bucket || e.bucket.take());
+      if (endpoint) return endpoint;
+
+      await delay(Math.min(...candidates.map((e) => e.bucket!.getWaitTime())));
+    }
+  }
+
+  private getScore(endpoint: RpcEndpoint) {
+    // Endpoints that haven't been used yet are not assumed to be fast
+    const latency = endpoint.requests > 0 ? endpoint.latency : this.options.failureLatency;
+
+    return latency * (1 + endpoint.errorRate * 10);
+  }
+
+  private report(endpoint: RpcEndpoint, latency: number, isFailed: boolean) {
+    const { alpha, cooldown, maxCooldown, failureLatency } = this.options;
+
+    // Failures are charged as slow requests, so that an endpoint that never succeeds is not ranked first
+    const chargedLatency = isFailed ? Math.max(latency, failureLatency) : latency;
+
+    endpoint.latency =
+      endpoint.requests === 0
+        ? chargedLatency
+        : endpoint.latency * (1 - alpha) + chargedLatency * alpha;
+    endpoint.requests++;
+    endpoint.errorRate = endpoint.errorRate * (1 - alpha) + (isFailed ? alpha : 0);
+
+    if (isFailed) {
+      endpoint.errors++;
+      endpoint.consecutiveErrors++;
+      endpoint.cooldownUntil =
+        Date.now() + Math.min(maxCooldown, cooldown * 2 ** (endpoint.consecutiveErrors - 1));
+    } else {
+      endpoint.consecutiveErrors = 0;
+    }
+  }
+
+  private isHistoricalRequest(method: string, params: Array<unknown>) {
+    const blockTag = params[BLOCK_TAG_INDEX_BY_METHOD[method]];
+
+    if (blockTag === 'earliest') return true;
+    if (typeof blockTag !== 'string' || !ethers.utils.isHexString(blockTag)) return false;
+    // Without the latest block, there is no way to tell how old the block is
+    if (this.latestBlockNumber < 0) return true;
+
+    return Number(blockTag) < this.latestBlockNumber - this.options.archiveDepth;
+  }
+
+  private static isEndpointError(e: any) {
+    // JsonRpcProvider wraps the error of the node, JsonRpcBatchProvider throws it as is
+    const rpcError = e?.error ?? e;
+
+    if (typeof rpcError?.code !== 'number') return true;
+
+    return (
+      ENDPOINT_ERROR_CODES.has(rpcError.code) ||
+      ENDPOINT_ERROR_MESSAGE_REGEX.test(rpcError.message || '')
+    );
+  }
+}
+
+// Public endpoints are pruned nodes, so they don't serve requests for old blocks
+function createPublicEndpoints(network: Network): RpcEndpointConfig[] {
+  return (PUBLIC_RPC_URLS_BY_NETWORK[network] || []).map((url) => ({
+    provider: new ethers.providers.StaticJsonRpcProvider(url, network),
+    rateLimit: PUBLIC_RPC_RATE_LIMIT,
+    tier: 1,
+  }));
+}
+
+// The primary provider (e.g. the node of the scanner) is expected to be an archive one,
+// public endpoints are used when it fails
+export function createRpcPool(network: Network, primaryProvider: ethers.providers.JsonRpcProvider) {
+  return new RpcPool(
+    [{ provider: primaryProvider, archive: true, tier: 0 }, ...createPublicEndpoints(network)],
+    network,
+  );
+}
+
+const publicPoolByNetwork = new Map<Network, RpcPool>();
+
+export function getPublicRpcPool(network: Network): RpcPool {
+  let pool = publicPoolByNetwork.get(network);
+
+  if (!pool) {
+    const endpoints = createPublicEndpoints(network);
+
+    if (endpoints.length === 0) throw new Error(`No RPC urls for network: ${network}`);
+
+    pool = new RpcPool(endpoints, network);
+    publicPoolByNetwork.set(network, pool);
+  }
+
+  return pool;
+}
@@ -0,0 +1,93 @@
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+
+import { JsonStorage } from './storage';
+import { RpcSnapshot, SnapshotProvider } from './snapshot-provider';
+
+describe('SnapshotProvider', () => {
+  const chainId = 1;
+  const address = '0x0000000000000000000000000000000000000001';
+
+  let folderPath: string;
+  let storage: JsonStorage<RpcSnapshot>;
+  let upstream: ethers.providers.StaticJsonRpcProvider;
+  let upstreamSend: jest.SpyInstance;
+
+  beforeEach(async () => {
+    folderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'snapshot-'));
+    storage = new JsonStorage<RpcSnapshot>(folderPath, 'snapshot.json');
+    upstream = new ethers.providers.StaticJsonRpcProvider(undefined, chainId);
+    upstreamSend = jest.spyOn(upstream, 'send').mockImplementation(async (method, params) => {
+      if (method === 'eth_getBalance') return params[1] === '0xa' ? '0x64' : '0xc8';
+      if (method === 'eth_getTransactionCount') return '0x5';
+      if (method === 'eth_call') {
+        throw { error: { code: 3, message: 'execution reverted', data: '0x' } };
+      }
+      throw new Error(`Unexpected request: ${method}`);
+    });
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(folderPath, { recursive: true, force: true });
+  });
+
+  async function record() {
+    const provider = new SnapshotProvider(storage, chainId, 'record', upstream);
+    await provider.load();
+
+    await provider.getBalance(address, 10);
+    await provider.getBalance(address, 20);
+    await provider.getTransactionCount(address);
+    await provider.call({ to: address, data: '0x95d89b41' });
+
+    await provider.save();
+  }
+
+  it('should record responses of the upstream provider', async () => {
+    await record();
+
+    const snapshot = await storage.read();
+
+    expect(upstreamSend).toHaveBeenCalledTimes(4);
+    expect(snapshot).toStrictEqual({
+      [`eth_getBalance:["${address}","0xa"]`]: { result: '0x64' },
+      [`eth_getBalance:["${address}","0x14"]`]: { result: '0xc8' },
+      [`eth_getTransactionCount:["${address}","latest"]`]: { result: '0x5' },
+      [`eth_call:[{"to":"${address}","data":"0x95d89b41"},"latest"]`]: {
+        error: { code: 3, message: 'execution reverted', data: '0x' },
+      },
+    });
+  });
+
+  it('should replay recorded responses without network access', async () => {
+    await record();
+    upstreamSend.mockClear();
+
+    const provider = new SnapshotProvider(storage, chainId, 'replay');
+    await provider.load();
+
+    expect((await provider.getBalance(address, 10)).toNumber()).toStrictEqual(100);
+    expect((await provider.getBalance(address, 20)).toNumber()).toStrictEqual(200);
+    expect(await provider.getTransactionCount(address)).toStrictEqual(5);
+    // ethers extracts revert data from the recorded error, as it does for the live node
+    expect(await provider.call({ to: address, data: '0x95d89b41' })).toStrictEqual('0x');
+    expect(upstreamSend).not.toHaveBeenCalled();
+  });
+
+  it('should throw if response is missing in replay mode', async () => {
+    await record();
+
+    const provider = new SnapshotProvider(storage, chainId, 'replay');
+    await provider.load();
+
+    await expect(provider.getBalance(address, 30)).rejects.toThrow(
+      'Snapshot does not contain response for: eth_getBalance',
+    );
+  });
+
+  it('should require upstream provider in record mode', () => {
+    expect(() => new SnapshotProvider(storage, chainId, 'record')).toThrow();
+  });
+});
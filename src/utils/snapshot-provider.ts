@@ -0,0 +1,103 @@
+import { ethers } from 'ethers';
+
+import { JsonStorage } from './storage';
+
+export type SnapshotRpcError = { code: number; message: string; data?: unknown };
+
+export type SnapshotResponse = { result: unknown } | { error: SnapshotRpcError };
+
+export type RpcSnapshot = { [request: string]: SnapshotResponse };
+
+// - record: every request is sent to the upstream provider, and its response is saved to the snapshot
+// - replay: responses are served from the snapshot only, a missing response is an error
+export type SnapshotMode = 'record' | 'replay';
+
+// This provider serves JSON-RPC responses from a snapshot file, so that the analyzer can be run without network access.
+// It can be used wherever JsonRpcProvider is expected (TokenAnalyzer, SpamDetector, HoneyPotChecker).
+
+export class SnapshotProvider extends ethers.providers.StaticJsonRpcProvider {
+  private snapshot: RpcSnapshot = {};
+  private isChanged = false;
+
+  constructor(
+    private storage: JsonStorage<RpcSnapshot>,
+    network: ethers.providers.Networkish,
+    private mode: SnapshotMode,
+    private upstream?: ethers.providers.JsonRpcProvider,
+  ) {
+    super(undefined, network);
+
+    if (mode === 'record' && !upstream) {
+      throw new Error('Upstream provider is required to record a snapshot');
+    }
+  }
+
+  async load() {
+    this.snapshot = (await this.storage.read()) || {};
+    this.isChanged = false;
+  }
+
+  async save() {
+    if (!this.isChanged) return;
+
+    await this.storage.write(this.snapshot);
+    this.isChanged = false;
+  }
+
+  async send(method: string, params: Array<unknown>): Promise<any> {
+    const key = SnapshotProvider.getKey(method, params);
+
+    let response: SnapshotResponse | undefined;
+
+    if (this.mode === 'record') {
+      response = await this.request(method, params);
+      this.snapshot[key] = response;
+      this.isChanged = true;
+    } else {
+      response = this.snapshot[key];
+      if (!response) throw new Error(`Snapshot does not contain response for: ${key}`);
+    }
+
+    if ('error' in response) {
+      throw SnapshotProvider.createError(method, params, response.error);
+    }
+
+    return response.result;
+  }
+
+  // Block tag is a part of the params (e.g. eth_call: [tx, blockTag]), so that
+  // the same request made for different blocks is recorded separately
+  static getKey(method: string, params: Array<unknown>) {
+    return `${method}:${JSON.stringify(params)}`;
+  }
+
+  private async request(method: string, params: Array<unknown>): Promise<SnapshotResponse> {
+    try {
+      return { result: await this.upstream!.send(method, params) };
+    } catch (e: any) {
+      // Only responses of the node are stored, network errors should not get into the snapshot
+      const error = e?.error;
+      if (typeof error?.code !== 'number') throw e;
+
+      return { error: { code: error.code, message: error.message, data: error.data } };
+    }
+  }
+
+  // Reproduces the error thrown by JsonRpcProvider, so that ethers can interpret it in the same way
+  private static createError(method: string, params: Array<unknown>, rpcError: SnapshotRpcError) {
+    const error: any = new Error(rpcError.message);
+    error.code = rpcError.code;
+    error.data = rpcError.data;
+
+    return ethers.utils.Logger.globalLogger().makeError(
+      'processing response error',
+      ethers.utils.Logger.errors.SERVER_ERROR,
+      {
+        body: JSON.stringify({ jsonrpc: '2.0', id: 0, error: rpcError }),
+        error: error,
+        requestBody: JSON.stringify({ method, params, id: 0, jsonrpc: '2.0' }),
+        requestMethod: 'POST',
+      },
+    );
+  }
+}
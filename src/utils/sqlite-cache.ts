@@ -0,0 +1,168 @@
+import sqlite3 from 'sqlite3';
+
+import Logger from './logger';
+import {
+  CacheBackend,
+  CacheEntry,
+  DEFAULT_LRU_CACHE_OPTIONS,
+  deserializeValue,
+  isPlainData,
+  LruCacheBackend,
+  LruCacheOptions,
+  serializeValue,
+} from './cache';
+
+type CacheRow = {
+  scope: string;
+  key: string;
+  query_key: string;
+  value: string;
+  expires_at: number | null;
+};
+
+// Cache backend that survives restarts. Entries are read from memory, since the Memoizer reads synchronously,
+// and are written through to the SQLite file. On initialization, the most recently updated entries are loaded back.
+// Entries evicted from memory remain in the file until they expire, their scope is deleted, or the file exceeds
+// the limits of the cache, in which case the least recently updated entries are deleted.
+// Errors and values that cannot be represented in JSON are kept in memory only.
+export class SqliteCacheBackend implements CacheBackend {
+  private db: sqlite3.Database;
+  private memory: LruCacheBackend;
+  private options: LruCacheOptions;
+
+  constructor(filename = ':memory:', options: Partial<LruCacheOptions> = {}) {
+    this.options = { ...DEFAULT_LRU_CACHE_OPTIONS, ...options };
+    this.memory = new LruCacheBackend(this.options);
+    this.db = new sqlite3.Database(filename);
+    this.db.on('error', (err) => Logger.error(err, 'Cache database error'));
+    this.db.serialize();
+  }
+
+  async initialize(): Promise<void> {
+    await this.run(`CREATE TABLE IF NOT EXISTS cache_entries (
+      scope TEXT NOT NULL,
+      key TEXT NOT NULL,
+      query_key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      expires_at INTEGER,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (scope, key)
+    )`);
+
+    await this.run(`DELETE FROM cache_entries WHERE expires_at <= ?`, Date.now());
+    await this.trim();
+
+    const rows = await this.all<CacheRow>(
+      `SELECT scope, key, query_key, value, expires_at FROM cache_entries
+      ORDER BY updated_at DESC
+      LIMIT ?`,
+      this.options.maxEntries,
+    );
+
+    // The most recently updated entries go last, so that they are evicted last
+    for (const row of rows.reverse()) {
+      this.memory.set(row.scope, row.key, {
+        value: deserializeValue(JSON.parse(row.value)),
+        thrown: false,
+        expiresAt: row.expires_at ?? Infinity,
+        queryKey: row.query_key,
+      });
+    }
+
+    Logger.info(`Loaded ${rows.length} cache entries`);
+  }
+
+  get size() {
+    return this.memory.size;
+  }
+
+  get bytes() {
+    return this.memory.bytes;
+  }
+
+  get onEvict() {
+    return this.memory.onEvict;
+  }
+
+  set onEvict(fn: ((scopeKey: string, key: string, entry: CacheEntry) => void) | undefined) {
+    this.memory.onEvict = fn;
+  }
+
+  get(scopeKey: string, key: string): CacheEntry | undefined {
+    return this.memory.get(scopeKey, key);
+  }
+
+  set(scopeKey: string, key: string, entry: CacheEntry): void {
+    this.memory.set(scopeKey, key, entry);
+
+    if (entry.thrown || !isPlainData(entry.value)) return;
+
+    this.run(
+      `INSERT OR REPLACE INTO cache_entries(scope, key, query_key, value, expires_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)`,
+      scopeKey,
+      key,
+      entry.queryKey,
+      JSON.stringify(serializeValue(entry.value)),
+      isFinite(entry.expiresAt) ? entry.expiresAt : null,
+      Date.now(),
+    ).catch((e) => Logger.error(e, 'Failed to persist cache entry'));
+  }
+
+  entries(scopeKey: string): [string, CacheEntry][] {
+    return this.memory.entries(scopeKey);
+  }
+
+  deleteScope(scopeKey: string): void {
+    this.memory.deleteScope(scopeKey);
+    this.run(`DELETE FROM cache_entries WHERE scope = ?`, scopeKey).catch((e) =>
+      Logger.error(e, 'Failed to delete cache scope'),
+    );
+  }
+
+  clearExpired(): void {
+    this.memory.clearExpired();
+    this.run(`DELETE FROM cache_entries WHERE expires_at <= ?`, Date.now()).catch((e) =>
+      Logger.error(e, 'Failed to clear expired cache entries'),
+    );
+    this.trim().catch((e) => Logger.error(e, 'Failed to trim cache entries'));
+  }
+
+  async wait() {
+    return new Promise((res) => this.db.wait(res));
+  }
+
+  async close() {
+    return new Promise<void>((res, rej) => this.db.close((err) => (err ? rej(err) : res())));
+  }
+
+  // Keeps the most recently updated entries within the limits, the size of an entry is the length of its JSON value
+  private trim(): Promise<void> {
+    return this.run(
+      `DELETE FROM cache_entries WHERE rowid IN (
+        SELECT rowid FROM (
+          SELECT
+            rowid,
+            ROW_NUMBER() OVER (ORDER BY updated_at DESC, rowid DESC) AS position,
+            SUM(LENGTH(value)) OVER (ORDER BY updated_at DESC, rowid DESC) AS total_bytes
+          FROM cache_entries
+        )
+        WHERE position > ? OR total_bytes > ?
+      )`,
+      this.options.maxEntries,
+      this.options.maxBytes,
+    );
+  }
+
+  private run(query: string, ...params: unknown[]): Promise<void> {
+    return new Promise((res, rej) => {
+      this.db.run(query, ...params, (err: Error | null) => (err ? rej(err) : res()));
+    });
+  }
+
+  private all<P>(query: string, ...params: unknown[]): Promise<P[]> {
+    return new Promise((res, rej) => {
+      this.db.all(query, ...params, (err: Error | null, rows: P[]) => (err ? rej(err) : res(rows)));
+    });
+  }
+}
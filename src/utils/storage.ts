@@ -183,7 +183,10 @@ export class JsonStorage<P> extends BaseStorage<P> {
   async write(data: P): Promise<void> {
     await this.createFolder();
     const str = JSON.stringify(data);
-    await fs.promises.writeFile(this.filePath, str, { encoding: 'utf-8' });
+    // Writing to a temporary file first, so that a crash doesn't leave a truncated file
+    const tmpFilePath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmpFilePath, str, { encoding: 'utf-8' });
+    await fs.promises.rename(tmpFilePath, this.filePath);
   }
 
   async read(): Promise<P | null> {
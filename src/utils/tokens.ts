@@ -7,7 +7,8 @@ import { random } from 'lodash';
 import Logger from './logger';
 import { JsonStorage } from './storage';
 import { delay, retry } from './helpers';
-import { erc20Iface, PUBLIC_RPC_URLS_BY_NETWORK } from '../contants';
+import { getPublicRpcPool } from './rpc-pool';
+import { erc20Iface } from '../contants';
 
 export enum CoinGeckoPlatformId {
   MAINNET = 'ethereum',
@@ -245,32 +246,14 @@ class TokenProvider {
   }
 
   private async fetchTokenMetadata(address: string, network: Network) {
-    const rpcUrls = PUBLIC_RPC_URLS_BY_NETWORK[network];
+    // The pool sends the request to another public endpoint if one fails
+    const contract = new ethers.Contract(address, erc20Iface, getPublicRpcPool(network));
 
-    if (!rpcUrls) throw new Error(`No RPC urls for network: ${network}`);
-
-    for (const rpcUrl of rpcUrls) {
-      Logger.debug(`Fetching metadata with the following RPC url (${Network[network]}): ${rpcUrl}`);
-
-      try {
-        const provider = new ethers.providers.JsonRpcBatchProvider(rpcUrl);
-        const contract = new ethers.Contract(address, erc20Iface, provider);
-
-        const [symbol, name] = await retry(
-          () => Promise.all([contract.symbol(), contract.name()]),
-          { wait: random(1, 4) * 1000 },
-        );
-
-        return { symbol, name };
-      } catch (e) {
-        Logger.debug(e, 'Cannot read token metadata');
-        // ignore, use the next rpc url
-      }
-    }
+    const [symbol, name] = await retry(() => Promise.all([contract.symbol(), contract.name()]), {
+      wait: random(1, 4) * 1000,
+    });
 
-    throw new Error(
-      `Cannot fetch token metadata using the following RPC urls: ${rpcUrls.join(', ')}`,
-    );
+    return { symbol, name };
   }
 
   private async updateMetadata(tokens: TokenRecord[]) {